@@ -65,4 +65,211 @@ CREATE INDEX IF NOT EXISTS idx_threads_updated_at ON threads(updated_at);
 CREATE INDEX IF NOT EXISTS idx_users_created_at ON users(created_at);
 CREATE INDEX IF NOT EXISTS idx_users_updated_at ON users(updated_at);
 
+-- LangGraph checkpoints, keyed by the graph's thread id
+CREATE TABLE IF NOT EXISTS checkpoints (
+    thread_id TEXT NOT NULL,
+    checkpoint_ns TEXT NOT NULL DEFAULT '',
+    checkpoint_id TEXT NOT NULL,
+    parent_checkpoint_id TEXT,
+    type TEXT NOT NULL,
+    checkpoint BYTEA NOT NULL,
+    metadata BYTEA NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY (thread_id, checkpoint_ns, checkpoint_id)
+);
+
+CREATE TABLE IF NOT EXISTS checkpoint_writes (
+    thread_id TEXT NOT NULL,
+    checkpoint_ns TEXT NOT NULL DEFAULT '',
+    checkpoint_id TEXT NOT NULL,
+    task_id TEXT NOT NULL,
+    idx INTEGER NOT NULL,
+    channel TEXT NOT NULL,
+    type TEXT NOT NULL,
+    value BYTEA NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY (thread_id, checkpoint_ns, checkpoint_id, task_id, idx)
+);
+
+-- Human reviews of tool calls, kept as the audit of who approved what
+DO $$ 
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'review_status_enum') THEN
+        CREATE TYPE review_status_enum AS ENUM ('pending', 'approved', 'rejected', 'expired');
+    END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS reviews (
+    id UUID PRIMARY KEY,
+    thread_id TEXT NOT NULL,
+    tool_call_id TEXT,
+    user_id UUID,
+    tool_name TEXT NOT NULL,
+    input JSONB NOT NULL DEFAULT '{}'::jsonb,
+    quote JSONB,
+    network TEXT,
+    usd_value DOUBLE PRECISION,
+    reasons JSONB NOT NULL DEFAULT '[]'::jsonb,
+    status review_status_enum NOT NULL DEFAULT 'pending',
+    decided_by TEXT,
+    reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    decided_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_reviews_thread_id ON reviews(thread_id, tool_call_id);
+CREATE INDEX IF NOT EXISTS idx_reviews_status ON reviews(status, expires_at);
+
+-- Rolling summaries of the messages older than the chat history window
+CREATE TABLE IF NOT EXISTS memory_summaries (
+    key TEXT PRIMARY KEY,
+    user_id UUID,
+    summary TEXT NOT NULL DEFAULT '',
+    facts JSONB NOT NULL DEFAULT '{}'::jsonb,
+    last_message_id UUID,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Plans, tasks and tool calls of each thread, to audit the agent and rebuild timelines
+CREATE TABLE IF NOT EXISTS plans (
+    thread_id TEXT NOT NULL,
+    plan_id TEXT NOT NULL,
+    title TEXT NOT NULL,
+    status TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    PRIMARY KEY (thread_id, plan_id)
+);
+
+CREATE TABLE IF NOT EXISTS tasks (
+    thread_id TEXT NOT NULL,
+    plan_id TEXT NOT NULL,
+    idx INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    status TEXT NOT NULL,
+    retry INTEGER NOT NULL DEFAULT 0,
+    result TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    PRIMARY KEY (thread_id, plan_id, idx),
+    FOREIGN KEY (thread_id, plan_id) REFERENCES plans(thread_id, plan_id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS tool_calls (
+    id TEXT PRIMARY KEY,
+    thread_id TEXT,
+    tool_name TEXT NOT NULL,
+    input JSONB NOT NULL DEFAULT '{}'::jsonb,
+    output JSONB,
+    error TEXT,
+    status TEXT NOT NULL,
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    finished_at TIMESTAMP WITH TIME ZONE,
+    execution_time INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_tool_calls_thread_id ON tool_calls(thread_id, started_at);
+
+-- Tokens and cost of each model call of the agent, summed per thread, user and day
+CREATE TABLE IF NOT EXISTS llm_usage (
+    id UUID PRIMARY KEY,
+    thread_id TEXT,
+    user_id UUID,
+    node TEXT,
+    model TEXT NOT NULL,
+    prompt_tokens INTEGER NOT NULL DEFAULT 0,
+    completion_tokens INTEGER NOT NULL DEFAULT 0,
+    cost_usd NUMERIC(20, 10),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_user_id ON llm_usage(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_thread_id ON llm_usage(thread_id, created_at);
+
+-- Tool calls repeated on a cadence without the model, e.g. DCA swaps, and their runs
+CREATE TABLE IF NOT EXISTS schedules (
+    id UUID PRIMARY KEY,
+    user_id UUID,
+    thread_id TEXT,
+    description TEXT NOT NULL,
+    tool_name TEXT NOT NULL,
+    params JSONB NOT NULL DEFAULT '{}'::jsonb,
+    amount JSONB NOT NULL,
+    cadence JSONB NOT NULL,
+    status TEXT NOT NULL,
+    last_balance TEXT,
+    failures INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    next_run_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    last_run_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedules_status ON schedules(status, next_run_at);
+CREATE INDEX IF NOT EXISTS idx_schedules_user_id ON schedules(user_id, next_run_at);
+
+CREATE TABLE IF NOT EXISTS schedule_runs (
+    id UUID PRIMARY KEY,
+    schedule_id UUID NOT NULL REFERENCES schedules(id) ON DELETE CASCADE,
+    status TEXT NOT NULL,
+    amount TEXT,
+    output JSONB,
+    error TEXT,
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    finished_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedule_runs_schedule_id ON schedule_runs(schedule_id, started_at);
+
+-- Swaps executed once a token price meets a condition, e.g. stop-loss orders
+CREATE TABLE IF NOT EXISTS price_triggers (
+    id UUID PRIMARY KEY,
+    user_id UUID,
+    thread_id TEXT,
+    description TEXT NOT NULL,
+    network TEXT NOT NULL,
+    token TEXT NOT NULL,
+    condition JSONB NOT NULL,
+    params JSONB NOT NULL DEFAULT '{}'::jsonb,
+    status TEXT NOT NULL,
+    reference_price DOUBLE PRECISION NOT NULL,
+    peak_price DOUBLE PRECISION,
+    last_price DOUBLE PRECISION,
+    output JSONB,
+    error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    checked_at TIMESTAMP WITH TIME ZONE,
+    triggered_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_triggers_status ON price_triggers(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_price_triggers_user_id ON price_triggers(user_id, created_at);
+
+-- Value of the wallets over time, taken by the portfolio plugin
+CREATE TABLE IF NOT EXISTS portfolio_snapshots (
+    id UUID PRIMARY KEY,
+    user_id UUID,
+    wallet TEXT NOT NULL,
+    total_usd_value DOUBLE PRECISION NOT NULL,
+    wallet_usd_value DOUBLE PRECISION NOT NULL,
+    staked_usd_value DOUBLE PRECISION NOT NULL,
+    assets JSONB NOT NULL DEFAULT '[]'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_portfolio_snapshots_wallet ON portfolio_snapshots(wallet, created_at);
+CREATE INDEX IF NOT EXISTS idx_portfolio_snapshots_user_id ON portfolio_snapshots(user_id, created_at);
+
+-- Token and spender pairs approved by the agent, scanned when listing approvals
+CREATE TABLE IF NOT EXISTS approval_spenders (
+    network TEXT NOT NULL,
+    token TEXT NOT NULL,
+    spender TEXT NOT NULL,
+    spender_name TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    PRIMARY KEY (network, token, spender)
+);
+
 COMMIT;
\ No newline at end of file
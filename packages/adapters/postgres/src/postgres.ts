@@ -1,6 +1,32 @@
 import pg, { QueryConfig, QueryConfigValues, QueryResult, QueryResultRow } from 'pg';
 import { DatabaseAdapter, UUID, logger } from '@binkai/core';
-import { MessageEntity, UserEntity } from '@binkai/core';
+import {
+  ApprovalSpenderEntity,
+  CheckpointEntity,
+  CheckpointQueryOptions,
+  CheckpointWriteEntity,
+  DailyUsage,
+  MemorySummaryEntity,
+  MessageEntity,
+  PlanEntity,
+  PortfolioSnapshotEntity,
+  PortfolioSnapshotQueryOptions,
+  PriceTriggerEntity,
+  PriceTriggerQueryOptions,
+  ReviewDecision,
+  ReviewEntity,
+  ReviewQueryOptions,
+  ScheduleEntity,
+  ScheduleQueryOptions,
+  ScheduleRunEntity,
+  TaskEntity,
+  ToolCallEntity,
+  ToolCallQueryOptions,
+  ToolCallResult,
+  UsageEntity,
+  UsageQueryOptions,
+  UserEntity,
+} from '@binkai/core';
 import fs from 'fs';
 import path from 'path';
 
@@ -140,11 +166,11 @@ export class PostgresDatabaseAdapter extends DatabaseAdapter<Pool> {
     const client = await this.pool.connect();
     try {
       await client.query('BEGIN');
-      // Check if schema already exists (check for a core table)
+      // Check if schema is up to date (check for the most recent table), the migration is idempotent
       const { rows } = await client.query(`
               SELECT EXISTS (
                   SELECT FROM information_schema.tables
-                  WHERE table_name = 'messages'
+                  WHERE table_name = 'approval_spenders'
               );
           `);
 
@@ -465,4 +491,756 @@ export class PostgresDatabaseAdapter extends DatabaseAdapter<Pool> {
       return true;
     }, 'clearMessagesByThreadId');
   }
+
+  async putCheckpoint(checkpoint: CheckpointEntity): Promise<void> {
+    return this.wrapDatabase(async () => {
+      await this.pool.query(
+        `INSERT INTO checkpoints
+           (thread_id, checkpoint_ns, checkpoint_id, parent_checkpoint_id, type, checkpoint, metadata)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         ON CONFLICT (thread_id, checkpoint_ns, checkpoint_id)
+         DO UPDATE SET checkpoint = EXCLUDED.checkpoint, metadata = EXCLUDED.metadata`,
+        [
+          checkpoint.thread_id,
+          checkpoint.checkpoint_ns,
+          checkpoint.checkpoint_id,
+          checkpoint.parent_checkpoint_id ?? null,
+          checkpoint.type,
+          Buffer.from(checkpoint.checkpoint),
+          Buffer.from(checkpoint.metadata),
+        ],
+      );
+    }, 'putCheckpoint');
+  }
+
+  async getCheckpoint(
+    threadId: string,
+    checkpointNs: string,
+    checkpointId?: string,
+  ): Promise<CheckpointEntity | null> {
+    return this.wrapDatabase(async () => {
+      const { rows } = checkpointId
+        ? await this.pool.query(
+            `SELECT * FROM checkpoints
+             WHERE thread_id = $1 AND checkpoint_ns = $2 AND checkpoint_id = $3`,
+            [threadId, checkpointNs, checkpointId],
+          )
+        : await this.pool.query(
+            `SELECT * FROM checkpoints
+             WHERE thread_id = $1 AND checkpoint_ns = $2
+             ORDER BY checkpoint_id DESC LIMIT 1`,
+            [threadId, checkpointNs],
+          );
+      return rows[0] || null;
+    }, 'getCheckpoint');
+  }
+
+  async listCheckpoints(
+    threadId?: string,
+    checkpointNs?: string,
+    options: CheckpointQueryOptions = {},
+  ): Promise<CheckpointEntity[]> {
+    return this.wrapDatabase(async () => {
+      const conditions: string[] = [];
+      const values: any[] = [];
+      if (threadId !== undefined) {
+        values.push(threadId);
+        conditions.push(`thread_id = $${values.length}`);
+      }
+      if (checkpointNs !== undefined) {
+        values.push(checkpointNs);
+        conditions.push(`checkpoint_ns = $${values.length}`);
+      }
+      if (options.before) {
+        values.push(options.before);
+        conditions.push(`checkpoint_id < $${values.length}`);
+      }
+
+      let query = 'SELECT * FROM checkpoints';
+      if (conditions.length > 0) {
+        query += ` WHERE ${conditions.join(' AND ')}`;
+      }
+      query += ' ORDER BY thread_id, checkpoint_ns, checkpoint_id DESC';
+      if (options.limit !== undefined) {
+        values.push(options.limit);
+        query += ` LIMIT $${values.length}`;
+      }
+
+      const { rows } = await this.pool.query(query, values);
+      return rows;
+    }, 'listCheckpoints');
+  }
+
+  async putCheckpointWrites(writes: CheckpointWriteEntity[]): Promise<void> {
+    return this.wrapDatabase(async () => {
+      if (writes.length === 0) return;
+
+      const values: any[] = [];
+      const valueStrings = writes.map((write, index) => {
+        const offset = index * 8;
+        values.push(
+          write.thread_id,
+          write.checkpoint_ns,
+          write.checkpoint_id,
+          write.task_id,
+          write.idx,
+          write.channel,
+          write.type,
+          Buffer.from(write.value),
+        );
+        return `(${Array.from({ length: 8 }, (_, i) => `$${offset + i + 1}`).join(', ')})`;
+      });
+
+      // Special writes (negative idx) replace the previous one, regular writes are kept
+      await this.pool.query(
+        `INSERT INTO checkpoint_writes
+           (thread_id, checkpoint_ns, checkpoint_id, task_id, idx, channel, type, value)
+         VALUES ${valueStrings.join(', ')}
+         ON CONFLICT (thread_id, checkpoint_ns, checkpoint_id, task_id, idx)
+         DO UPDATE SET channel = EXCLUDED.channel, type = EXCLUDED.type, value = EXCLUDED.value
+         WHERE checkpoint_writes.idx < 0`,
+        values,
+      );
+    }, 'putCheckpointWrites');
+  }
+
+  async getCheckpointWrites(
+    threadId: string,
+    checkpointNs: string,
+    checkpointId: string,
+  ): Promise<CheckpointWriteEntity[]> {
+    return this.wrapDatabase(async () => {
+      const { rows } = await this.pool.query(
+        `SELECT * FROM checkpoint_writes
+         WHERE thread_id = $1 AND checkpoint_ns = $2 AND checkpoint_id = $3
+         ORDER BY task_id, idx`,
+        [threadId, checkpointNs, checkpointId],
+      );
+      return rows;
+    }, 'getCheckpointWrites');
+  }
+
+  async deleteCheckpoints(threadId: string): Promise<boolean> {
+    return this.wrapDatabase(async () => {
+      await this.pool.query('DELETE FROM checkpoint_writes WHERE thread_id = $1', [threadId]);
+      await this.pool.query('DELETE FROM checkpoints WHERE thread_id = $1', [threadId]);
+      return true;
+    }, 'deleteCheckpoints');
+  }
+
+  private toReviewEntity(row: any): ReviewEntity {
+    const time = (value: Date | null) => (value ? value.getTime() : null);
+    return {
+      ...row,
+      created_at: row.created_at.getTime(),
+      expires_at: row.expires_at.getTime(),
+      decided_at: time(row.decided_at),
+    };
+  }
+
+  async createReview(review: ReviewEntity): Promise<void> {
+    return this.wrapDatabase(async () => {
+      await this.pool.query(
+        `INSERT INTO reviews
+           (id, thread_id, tool_call_id, user_id, tool_name, input, quote, network, usd_value,
+            reasons, status, created_at, expires_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11,
+                 to_timestamp($12 / 1000.0), to_timestamp($13 / 1000.0))`,
+        [
+          review.id,
+          review.thread_id,
+          review.tool_call_id ?? null,
+          review.user_id ?? null,
+          review.tool_name,
+          JSON.stringify(review.input ?? {}),
+          JSON.stringify(review.quote ?? null),
+          review.network ?? null,
+          review.usd_value ?? null,
+          JSON.stringify(review.reasons),
+          review.status,
+          review.created_at,
+          review.expires_at,
+        ],
+      );
+    }, 'createReview');
+  }
+
+  async getReview(reviewId: UUID): Promise<ReviewEntity | null> {
+    return this.wrapDatabase(async () => {
+      const { rows } = await this.pool.query('SELECT * FROM reviews WHERE id = $1', [reviewId]);
+      return rows[0] ? this.toReviewEntity(rows[0]) : null;
+    }, 'getReview');
+  }
+
+  async listReviews(options: ReviewQueryOptions = {}): Promise<ReviewEntity[]> {
+    return this.wrapDatabase(async () => {
+      const conditions: string[] = [];
+      const values: any[] = [];
+      if (options.threadId !== undefined) {
+        values.push(options.threadId);
+        conditions.push(`thread_id = $${values.length}`);
+      }
+      if (options.toolCallId !== undefined) {
+        values.push(options.toolCallId);
+        conditions.push(`tool_call_id = $${values.length}`);
+      }
+      if (options.status !== undefined) {
+        values.push(options.status);
+        conditions.push(`status = $${values.length}`);
+      }
+
+      let query = 'SELECT * FROM reviews';
+      if (conditions.length > 0) {
+        query += ` WHERE ${conditions.join(' AND ')}`;
+      }
+      query += ' ORDER BY created_at DESC';
+      if (options.limit !== undefined) {
+        values.push(options.limit);
+        query += ` LIMIT $${values.length}`;
+      }
+
+      const { rows } = await this.pool.query(query, values);
+      return rows.map(row => this.toReviewEntity(row));
+    }, 'listReviews');
+  }
+
+  async decideReview(reviewId: UUID, decision: ReviewDecision): Promise<ReviewEntity | null> {
+    return this.wrapDatabase(async () => {
+      // Only a pending review can be decided, concurrent decisions keep the first one
+      const { rows } = await this.pool.query(
+        `UPDATE reviews
+         SET status = $2, decided_by = $3, reason = $4, decided_at = to_timestamp($5 / 1000.0)
+         WHERE id = $1 AND status = 'pending'
+         RETURNING *`,
+        [
+          reviewId,
+          decision.status,
+          decision.decided_by ?? null,
+          decision.reason ?? null,
+          decision.decided_at ?? Date.now(),
+        ],
+      );
+      return rows[0] ? this.toReviewEntity(rows[0]) : null;
+    }, 'decideReview');
+  }
+
+  async getMemorySummary(key: string): Promise<MemorySummaryEntity | null> {
+    return this.wrapDatabase(async () => {
+      const { rows } = await this.pool.query('SELECT * FROM memory_summaries WHERE key = $1', [
+        key,
+      ]);
+      return rows[0] ? { ...rows[0], updated_at: rows[0].updated_at.getTime() } : null;
+    }, 'getMemorySummary');
+  }
+
+  async saveMemorySummary(summary: MemorySummaryEntity): Promise<void> {
+    return this.wrapDatabase(async () => {
+      await this.pool.query(
+        `INSERT INTO memory_summaries (key, user_id, summary, facts, last_message_id, updated_at)
+         VALUES ($1, $2, $3, $4, $5, to_timestamp($6 / 1000.0))
+         ON CONFLICT (key) DO UPDATE
+         SET user_id = EXCLUDED.user_id, summary = EXCLUDED.summary, facts = EXCLUDED.facts,
+             last_message_id = EXCLUDED.last_message_id, updated_at = EXCLUDED.updated_at`,
+        [
+          summary.key,
+          summary.user_id ?? null,
+          summary.summary,
+          JSON.stringify(summary.facts),
+          summary.last_message_id ?? null,
+          summary.updated_at,
+        ],
+      );
+    }, 'saveMemorySummary');
+  }
+
+  private toTimestamps<T>(row: any, columns: string[]): T {
+    const entity = { ...row };
+    for (const column of columns) {
+      entity[column] = row[column] ? row[column].getTime() : null;
+    }
+    return entity;
+  }
+
+  async savePlan(plan: PlanEntity, tasks: TaskEntity[]): Promise<void> {
+    return this.wrapDatabase(async () => {
+      const client = await this.pool.connect();
+      try {
+        await client.query('BEGIN');
+        await client.query(
+          `INSERT INTO plans (thread_id, plan_id, title, status, created_at, updated_at)
+           VALUES ($1, $2, $3, $4, to_timestamp($5 / 1000.0), to_timestamp($6 / 1000.0))
+           ON CONFLICT (thread_id, plan_id) DO UPDATE
+           SET title = EXCLUDED.title, status = EXCLUDED.status, updated_at = EXCLUDED.updated_at`,
+          [plan.thread_id, plan.plan_id, plan.title, plan.status, plan.created_at, plan.updated_at],
+        );
+        for (const task of tasks) {
+          await client.query(
+            `INSERT INTO tasks
+               (thread_id, plan_id, idx, title, status, retry, result, created_at, updated_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, to_timestamp($8 / 1000.0), to_timestamp($9 / 1000.0))
+             ON CONFLICT (thread_id, plan_id, idx) DO UPDATE
+             SET title = EXCLUDED.title, status = EXCLUDED.status, retry = EXCLUDED.retry,
+                 result = EXCLUDED.result, updated_at = EXCLUDED.updated_at`,
+            [
+              task.thread_id,
+              task.plan_id,
+              task.idx,
+              task.title,
+              task.status,
+              task.retry,
+              task.result ?? null,
+              task.created_at,
+              task.updated_at,
+            ],
+          );
+        }
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      } finally {
+        client.release();
+      }
+    }, 'savePlan');
+  }
+
+  async listPlans(threadId: string): Promise<PlanEntity[]> {
+    return this.wrapDatabase(async () => {
+      const { rows } = await this.pool.query(
+        'SELECT * FROM plans WHERE thread_id = $1 ORDER BY created_at ASC',
+        [threadId],
+      );
+      return rows.map(row => this.toTimestamps<PlanEntity>(row, ['created_at', 'updated_at']));
+    }, 'listPlans');
+  }
+
+  async listTasks(threadId: string, planId?: string): Promise<TaskEntity[]> {
+    return this.wrapDatabase(async () => {
+      const { rows } = await this.pool.query(
+        `SELECT tasks.* FROM tasks
+         JOIN plans ON plans.thread_id = tasks.thread_id AND plans.plan_id = tasks.plan_id
+         WHERE tasks.thread_id = $1 AND ($2::text IS NULL OR tasks.plan_id = $2)
+         ORDER BY plans.created_at ASC, tasks.plan_id ASC, tasks.idx ASC`,
+        [threadId, planId ?? null],
+      );
+      return rows.map(row => this.toTimestamps<TaskEntity>(row, ['created_at', 'updated_at']));
+    }, 'listTasks');
+  }
+
+  async createToolCall(toolCall: ToolCallEntity): Promise<void> {
+    return this.wrapDatabase(async () => {
+      await this.pool.query(
+        `INSERT INTO tool_calls (id, thread_id, tool_name, input, status, started_at)
+         VALUES ($1, $2, $3, $4, $5, to_timestamp($6 / 1000.0))`,
+        [
+          toolCall.id,
+          toolCall.thread_id ?? null,
+          toolCall.tool_name,
+          JSON.stringify(toolCall.input ?? {}),
+          toolCall.status,
+          toolCall.started_at,
+        ],
+      );
+    }, 'createToolCall');
+  }
+
+  async finishToolCall(toolCallId: string, result: ToolCallResult): Promise<void> {
+    return this.wrapDatabase(async () => {
+      await this.pool.query(
+        `UPDATE tool_calls
+         SET status = $2, output = $3, error = $4, finished_at = to_timestamp($5 / 1000.0),
+             execution_time = $6
+         WHERE id = $1`,
+        [
+          toolCallId,
+          result.status,
+          JSON.stringify(result.output ?? null),
+          result.error ?? null,
+          result.finished_at ?? Date.now(),
+          result.execution_time ?? null,
+        ],
+      );
+    }, 'finishToolCall');
+  }
+
+  async listToolCalls(options: ToolCallQueryOptions = {}): Promise<ToolCallEntity[]> {
+    return this.wrapDatabase(async () => {
+      const conditions: string[] = [];
+      const values: any[] = [];
+      if (options.threadId !== undefined) {
+        values.push(options.threadId);
+        conditions.push(`thread_id = $${values.length}`);
+      }
+      if (options.toolName !== undefined) {
+        values.push(options.toolName);
+        conditions.push(`tool_name = $${values.length}`);
+      }
+      if (options.status !== undefined) {
+        values.push(options.status);
+        conditions.push(`status = $${values.length}`);
+      }
+
+      let query = 'SELECT * FROM tool_calls';
+      if (conditions.length > 0) {
+        query += ` WHERE ${conditions.join(' AND ')}`;
+      }
+      query += ' ORDER BY started_at ASC';
+      if (options.limit !== undefined) {
+        values.push(options.limit);
+        query += ` LIMIT $${values.length}`;
+      }
+
+      const { rows } = await this.pool.query(query, values);
+      return rows.map(row => this.toTimestamps<ToolCallEntity>(row, ['started_at', 'finished_at']));
+    }, 'listToolCalls');
+  }
+
+  async createUsage(usage: UsageEntity): Promise<void> {
+    return this.wrapDatabase(async () => {
+      await this.pool.query(
+        `INSERT INTO llm_usage
+           (id, thread_id, user_id, node, model, prompt_tokens, completion_tokens, cost_usd,
+            created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, to_timestamp($9 / 1000.0))`,
+        [
+          usage.id,
+          usage.thread_id ?? null,
+          usage.user_id ?? null,
+          usage.node ?? null,
+          usage.model,
+          usage.prompt_tokens,
+          usage.completion_tokens,
+          usage.cost_usd,
+          usage.created_at,
+        ],
+      );
+    }, 'createUsage');
+  }
+
+  async getDailyUsage(options: UsageQueryOptions = {}): Promise<DailyUsage[]> {
+    return this.wrapDatabase(async () => {
+      const conditions: string[] = [];
+      const values: any[] = [];
+      if (options.threadId !== undefined) {
+        values.push(options.threadId);
+        conditions.push(`thread_id = $${values.length}`);
+      }
+      if (options.userId !== undefined) {
+        values.push(options.userId);
+        conditions.push(`user_id = $${values.length}`);
+      }
+      if (options.from !== undefined) {
+        values.push(options.from);
+        conditions.push(`created_at >= to_timestamp($${values.length} / 1000.0)`);
+      }
+      if (options.to !== undefined) {
+        values.push(options.to);
+        conditions.push(`created_at < to_timestamp($${values.length} / 1000.0)`);
+      }
+
+      let query = `SELECT to_char(created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD') AS day,
+                          COUNT(*) AS calls,
+                          SUM(prompt_tokens) AS prompt_tokens,
+                          SUM(completion_tokens) AS completion_tokens,
+                          COALESCE(SUM(cost_usd), 0) AS cost_usd
+                   FROM llm_usage`;
+      if (conditions.length > 0) {
+        query += ` WHERE ${conditions.join(' AND ')}`;
+      }
+      query += ' GROUP BY day ORDER BY day ASC';
+
+      const { rows } = await this.pool.query(query, values);
+      // Counts and sums are returned as strings
+      return rows.map(row => ({
+        day: row.day,
+        calls: Number(row.calls),
+        prompt_tokens: Number(row.prompt_tokens),
+        completion_tokens: Number(row.completion_tokens),
+        total_tokens: Number(row.prompt_tokens) + Number(row.completion_tokens),
+        cost_usd: Number(row.cost_usd),
+      }));
+    }, 'getDailyUsage');
+  }
+
+  async saveSchedule(schedule: ScheduleEntity): Promise<void> {
+    return this.wrapDatabase(async () => {
+      await this.pool.query(
+        `INSERT INTO schedules
+           (id, user_id, thread_id, description, tool_name, params, amount, cadence, status,
+            last_balance, failures, created_at, next_run_at, last_run_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, to_timestamp($12 / 1000.0),
+                 to_timestamp($13 / 1000.0), to_timestamp($14 / 1000.0))
+         ON CONFLICT (id) DO UPDATE
+         SET description = EXCLUDED.description, params = EXCLUDED.params,
+             amount = EXCLUDED.amount, cadence = EXCLUDED.cadence, status = EXCLUDED.status,
+             last_balance = EXCLUDED.last_balance, failures = EXCLUDED.failures,
+             next_run_at = EXCLUDED.next_run_at, last_run_at = EXCLUDED.last_run_at`,
+        [
+          schedule.id,
+          schedule.user_id ?? null,
+          schedule.thread_id ?? null,
+          schedule.description,
+          schedule.tool_name,
+          JSON.stringify(schedule.params ?? {}),
+          JSON.stringify(schedule.amount),
+          JSON.stringify(schedule.cadence),
+          schedule.status,
+          schedule.last_balance ?? null,
+          schedule.failures,
+          schedule.created_at,
+          schedule.next_run_at,
+          schedule.last_run_at ?? null,
+        ],
+      );
+    }, 'saveSchedule');
+  }
+
+  async getSchedule(scheduleId: UUID): Promise<ScheduleEntity | null> {
+    return this.wrapDatabase(async () => {
+      const { rows } = await this.pool.query('SELECT * FROM schedules WHERE id = $1', [scheduleId]);
+      if (rows.length === 0) return null;
+      return this.toTimestamps<ScheduleEntity>(rows[0], [
+        'created_at',
+        'next_run_at',
+        'last_run_at',
+      ]);
+    }, 'getSchedule');
+  }
+
+  async listSchedules(options: ScheduleQueryOptions = {}): Promise<ScheduleEntity[]> {
+    return this.wrapDatabase(async () => {
+      const conditions: string[] = [];
+      const values: any[] = [];
+      if (options.userId !== undefined) {
+        values.push(options.userId);
+        conditions.push(`user_id = $${values.length}`);
+      }
+      if (options.threadId !== undefined) {
+        values.push(options.threadId);
+        conditions.push(`thread_id = $${values.length}`);
+      }
+      if (options.status !== undefined) {
+        values.push(options.status);
+        conditions.push(`status = $${values.length}`);
+      }
+      if (options.dueAt !== undefined) {
+        values.push(options.dueAt);
+        conditions.push(`next_run_at <= to_timestamp($${values.length} / 1000.0)`);
+      }
+
+      let query = 'SELECT * FROM schedules';
+      if (conditions.length > 0) {
+        query += ` WHERE ${conditions.join(' AND ')}`;
+      }
+      query += ' ORDER BY next_run_at ASC';
+
+      const { rows } = await this.pool.query(query, values);
+      return rows.map(row =>
+        this.toTimestamps<ScheduleEntity>(row, ['created_at', 'next_run_at', 'last_run_at']),
+      );
+    }, 'listSchedules');
+  }
+
+  async createScheduleRun(run: ScheduleRunEntity): Promise<void> {
+    return this.wrapDatabase(async () => {
+      await this.pool.query(
+        `INSERT INTO schedule_runs
+           (id, schedule_id, status, amount, output, error, started_at, finished_at)
+         VALUES ($1, $2, $3, $4, $5, $6, to_timestamp($7 / 1000.0), to_timestamp($8 / 1000.0))`,
+        [
+          run.id,
+          run.schedule_id,
+          run.status,
+          run.amount ?? null,
+          JSON.stringify(run.output ?? null),
+          run.error ?? null,
+          run.started_at,
+          run.finished_at,
+        ],
+      );
+    }, 'createScheduleRun');
+  }
+
+  async listScheduleRuns(scheduleId: UUID, limit?: number): Promise<ScheduleRunEntity[]> {
+    return this.wrapDatabase(async () => {
+      const values: any[] = [scheduleId];
+      let query = 'SELECT * FROM schedule_runs WHERE schedule_id = $1 ORDER BY started_at DESC';
+      if (limit !== undefined) {
+        values.push(limit);
+        query += ' LIMIT $2';
+      }
+      const { rows } = await this.pool.query(query, values);
+      return rows.map(row =>
+        this.toTimestamps<ScheduleRunEntity>(row, ['started_at', 'finished_at']),
+      );
+    }, 'listScheduleRuns');
+  }
+
+  async savePriceTrigger(trigger: PriceTriggerEntity): Promise<void> {
+    return this.wrapDatabase(async () => {
+      await this.pool.query(
+        `INSERT INTO price_triggers
+           (id, user_id, thread_id, description, network, token, condition, params, status,
+            reference_price, peak_price, last_price, output, error, created_at, checked_at,
+            triggered_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14,
+                 to_timestamp($15 / 1000.0), to_timestamp($16 / 1000.0),
+                 to_timestamp($17 / 1000.0))
+         ON CONFLICT (id) DO UPDATE
+         SET status = EXCLUDED.status, peak_price = EXCLUDED.peak_price,
+             last_price = EXCLUDED.last_price, output = EXCLUDED.output, error = EXCLUDED.error,
+             checked_at = EXCLUDED.checked_at, triggered_at = EXCLUDED.triggered_at`,
+        [
+          trigger.id,
+          trigger.user_id ?? null,
+          trigger.thread_id ?? null,
+          trigger.description,
+          trigger.network,
+          trigger.token,
+          JSON.stringify(trigger.condition),
+          JSON.stringify(trigger.params ?? {}),
+          trigger.status,
+          trigger.reference_price,
+          trigger.peak_price ?? null,
+          trigger.last_price ?? null,
+          JSON.stringify(trigger.output ?? null),
+          trigger.error ?? null,
+          trigger.created_at,
+          trigger.checked_at ?? null,
+          trigger.triggered_at ?? null,
+        ],
+      );
+    }, 'savePriceTrigger');
+  }
+
+  async getPriceTrigger(triggerId: UUID): Promise<PriceTriggerEntity | null> {
+    return this.wrapDatabase(async () => {
+      const { rows } = await this.pool.query('SELECT * FROM price_triggers WHERE id = $1', [
+        triggerId,
+      ]);
+      if (rows.length === 0) return null;
+      return this.toTimestamps<PriceTriggerEntity>(rows[0], [
+        'created_at',
+        'checked_at',
+        'triggered_at',
+      ]);
+    }, 'getPriceTrigger');
+  }
+
+  async listPriceTriggers(options: PriceTriggerQueryOptions = {}): Promise<PriceTriggerEntity[]> {
+    return this.wrapDatabase(async () => {
+      const conditions: string[] = [];
+      const values: any[] = [];
+      if (options.userId !== undefined) {
+        values.push(options.userId);
+        conditions.push(`user_id = $${values.length}`);
+      }
+      if (options.threadId !== undefined) {
+        values.push(options.threadId);
+        conditions.push(`thread_id = $${values.length}`);
+      }
+      if (options.status !== undefined) {
+        values.push(options.status);
+        conditions.push(`status = $${values.length}`);
+      }
+
+      let query = 'SELECT * FROM price_triggers';
+      if (conditions.length > 0) {
+        query += ` WHERE ${conditions.join(' AND ')}`;
+      }
+      query += ' ORDER BY created_at ASC';
+
+      const { rows } = await this.pool.query(query, values);
+      return rows.map(row =>
+        this.toTimestamps<PriceTriggerEntity>(row, ['created_at', 'checked_at', 'triggered_at']),
+      );
+    }, 'listPriceTriggers');
+  }
+
+  async createPortfolioSnapshot(snapshot: PortfolioSnapshotEntity): Promise<void> {
+    return this.wrapDatabase(async () => {
+      await this.pool.query(
+        `INSERT INTO portfolio_snapshots
+           (id, user_id, wallet, total_usd_value, wallet_usd_value, staked_usd_value, assets,
+            created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, to_timestamp($8 / 1000.0))`,
+        [
+          snapshot.id,
+          snapshot.user_id ?? null,
+          snapshot.wallet,
+          snapshot.total_usd_value,
+          snapshot.wallet_usd_value,
+          snapshot.staked_usd_value,
+          JSON.stringify(snapshot.assets),
+          snapshot.created_at,
+        ],
+      );
+    }, 'createPortfolioSnapshot');
+  }
+
+  async listPortfolioSnapshots(
+    options: PortfolioSnapshotQueryOptions = {},
+  ): Promise<PortfolioSnapshotEntity[]> {
+    return this.wrapDatabase(async () => {
+      const conditions: string[] = [];
+      const values: any[] = [];
+      if (options.userId !== undefined) {
+        values.push(options.userId);
+        conditions.push(`user_id = $${values.length}`);
+      }
+      if (options.wallet !== undefined) {
+        values.push(options.wallet);
+        conditions.push(`wallet = $${values.length}`);
+      }
+      if (options.since !== undefined) {
+        values.push(options.since);
+        conditions.push(`created_at >= to_timestamp($${values.length} / 1000.0)`);
+      }
+      if (options.before !== undefined) {
+        values.push(options.before);
+        conditions.push(`created_at <= to_timestamp($${values.length} / 1000.0)`);
+      }
+
+      let query = 'SELECT * FROM portfolio_snapshots';
+      if (conditions.length > 0) {
+        query += ` WHERE ${conditions.join(' AND ')}`;
+      }
+      query += ' ORDER BY created_at DESC';
+      if (options.limit !== undefined) {
+        values.push(options.limit);
+        query += ` LIMIT $${values.length}`;
+      }
+
+      const { rows } = await this.pool.query(query, values);
+      return rows.map(row => this.toTimestamps<PortfolioSnapshotEntity>(row, ['created_at']));
+    }, 'listPortfolioSnapshots');
+  }
+
+  async saveApprovalSpender(spender: ApprovalSpenderEntity): Promise<void> {
+    return this.wrapDatabase(async () => {
+      await this.pool.query(
+        `INSERT INTO approval_spenders (network, token, spender, spender_name, created_at)
+         VALUES ($1, $2, $3, $4, to_timestamp($5 / 1000.0))
+         ON CONFLICT (network, token, spender) DO UPDATE
+         SET spender_name = COALESCE(EXCLUDED.spender_name, approval_spenders.spender_name)`,
+        [
+          spender.network,
+          spender.token,
+          spender.spender,
+          spender.spender_name ?? null,
+          spender.created_at,
+        ],
+      );
+    }, 'saveApprovalSpender');
+  }
+
+  async listApprovalSpenders(network: string): Promise<ApprovalSpenderEntity[]> {
+    return this.wrapDatabase(async () => {
+      const { rows } = await this.pool.query(
+        'SELECT * FROM approval_spenders WHERE network = $1 ORDER BY created_at ASC',
+        [network],
+      );
+      return rows.map(row => this.toTimestamps<ApprovalSpenderEntity>(row, ['created_at']));
+    }, 'listApprovalSpenders');
+  }
 }
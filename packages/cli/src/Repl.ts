@@ -0,0 +1,295 @@
+import { randomUUID } from 'crypto';
+import { createInterface, Interface } from 'readline';
+import { Readable, Writable } from 'stream';
+import { ethers } from 'ethers';
+import { PublicKey } from '@solana/web3.js';
+import {
+  AgentExecuteParams,
+  AskUserData,
+  BaseAgent,
+  EVMNetworkConfig,
+  HumanReviewData,
+  IAskUserCallback,
+  IHumanReviewCallback,
+  IToolExecutionCallback,
+  NetworkName,
+  PlanningAgent,
+  ToolExecutionData,
+  ToolExecutionState,
+  UUID,
+} from '@binkai/core';
+import { CliAgent } from './bootstrap';
+
+export interface ReplOptions {
+  input?: Readable;
+  output?: Writable;
+  /** Thread to continue, a new thread is started when omitted */
+  threadId?: UUID;
+}
+
+type PendingInterrupt =
+  { type: 'ask_user'; data: AskUserData } | { type: 'human_review'; data: HumanReviewData };
+
+const HELP = `Commands:
+  /threads             list threads of this session
+  /threads new         start a new thread
+  /threads <n|id>      switch to a thread
+  /balance [network]   show wallet balances
+  /plan                show the plan of the current request
+  /dry-run [on|off]    simulate transactions instead of sending them
+  /help                show this help
+  /exit                quit`;
+
+const TOOL_STATE_ICONS: Record<ToolExecutionState, string> = {
+  [ToolExecutionState.STARTED]: '🔧',
+  [ToolExecutionState.IN_PROCESS]: '⏳',
+  [ToolExecutionState.COMPLETED]: '✅',
+  [ToolExecutionState.FAILED]: '❌',
+};
+
+/**
+ * Interactive session with an agent: streams answers, prints tool progress, prompts for
+ * transaction reviews and agent questions inline, and handles slash commands
+ */
+export class Repl {
+  private readonly cli: CliAgent;
+  private readonly input: Readable;
+  private readonly output: Writable;
+  private readonly threads: UUID[];
+  private threadId: UUID;
+  private rl?: Interface;
+  private lines?: AsyncIterator<string>;
+  // Set by the callbacks while the agent runs, answered once execute returns
+  private pending?: PendingInterrupt;
+  private readonly callbacks: IToolExecutionCallback & IAskUserCallback & IHumanReviewCallback;
+
+  constructor(cli: CliAgent, options: ReplOptions = {}) {
+    this.cli = cli;
+    this.input = options.input ?? process.stdin;
+    this.output = options.output ?? process.stdout;
+    this.threadId = options.threadId ?? randomUUID();
+    this.threads = [this.threadId];
+    this.callbacks = {
+      onToolExecution: data => this.printToolExecution(data),
+      onAskUser: data => {
+        this.pending = { type: 'ask_user', data };
+      },
+      onHumanReview: data => {
+        this.pending = { type: 'human_review', data };
+      },
+    };
+  }
+
+  async start(): Promise<void> {
+    const { agent } = this.cli;
+    agent.registerToolExecutionCallback(this.callbacks);
+    agent.registerAskUserCallback(this.callbacks);
+    agent.registerHumanReviewCallback(this.callbacks);
+
+    this.rl = createInterface({ input: this.input, output: this.output });
+    this.lines = this.rl[Symbol.asyncIterator]();
+    this.print(`BinkOS agent ready on thread ${this.threadId}. Type /help for commands.`);
+
+    try {
+      let line: string | undefined;
+      while ((line = await this.ask('> ')) !== undefined) {
+        if (!(await this.handleLine(line.trim()))) break;
+      }
+    } finally {
+      agent.unregisterToolExecutionCallback(this.callbacks);
+      agent.unregisterAskUserCallback(this.callbacks);
+      agent.unregisterHumanReviewCallback(this.callbacks);
+      this.rl.close();
+    }
+  }
+
+  /**
+   * Run a command or send a message, returns false when the session should end
+   */
+  async handleLine(line: string): Promise<boolean> {
+    if (!line) return true;
+    try {
+      if (!line.startsWith('/')) {
+        await this.send({ input: line });
+        return true;
+      }
+
+      const [command, ...args] = line.slice(1).split(/\s+/);
+      switch (command) {
+        case 'exit':
+        case 'quit':
+          return false;
+        case 'help':
+          this.print(HELP);
+          break;
+        case 'threads':
+          this.threadsCommand(args[0]);
+          break;
+        case 'balance':
+          await this.balanceCommand(args[0] as NetworkName | undefined);
+          break;
+        case 'plan':
+          await this.planCommand();
+          break;
+        case 'dry-run':
+          this.dryRunCommand(args[0]);
+          break;
+        default:
+          this.print(`Unknown command /${command}, type /help for commands`);
+      }
+    } catch (e) {
+      this.print(`Error: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    return true;
+  }
+
+  private async send(params: Omit<AgentExecuteParams, 'threadId'>): Promise<void> {
+    this.pending = undefined;
+    let isStreamed = false;
+    // PlanningAgent streams its answer, Agent only returns it
+    const answer = await (this.cli.agent as BaseAgent).execute(
+      { ...params, threadId: this.threadId },
+      chunk => {
+        isStreamed = true;
+        this.output.write(chunk);
+      },
+    );
+    if (isStreamed) {
+      this.output.write('\n');
+    } else if (answer) {
+      this.print(typeof answer === 'string' ? answer : JSON.stringify(answer));
+    }
+
+    await this.answerInterrupt();
+  }
+
+  private async answerInterrupt(): Promise<void> {
+    const pending = this.pending;
+    if (!pending) return;
+
+    if (pending.type === 'ask_user') {
+      this.print(`❓ ${pending.data.question}`);
+      const answer = await this.ask('answer> ');
+      if (answer !== undefined) await this.send({ input: answer.trim() });
+      return;
+    }
+
+    const { toolName, input, data } = pending.data;
+    this.print(`📝 Review ${toolName}`);
+    this.print(JSON.stringify({ input, quote: data }, null, 2));
+    let reply: string | undefined;
+    do {
+      reply = (await this.ask('Approve? [y]es, [n]o or describe changes: '))?.trim();
+    } while (reply === '');
+    if (reply === undefined) return;
+
+    if (/^(y|yes|approve)$/i.test(reply)) {
+      await this.send({ input: '', action: 'approve' });
+    } else if (/^(n|no|reject)$/i.test(reply)) {
+      await this.send({ input: '', action: 'reject' });
+    } else {
+      await this.send({ input: reply });
+    }
+  }
+
+  private threadsCommand(arg?: string): void {
+    if (arg === 'new') {
+      this.threadId = randomUUID();
+      this.threads.push(this.threadId);
+      this.print(`Started thread ${this.threadId}`);
+      return;
+    }
+    if (arg) {
+      const threadId = /^\d+$/.test(arg) ? this.threads[Number(arg) - 1] : (arg as UUID);
+      if (!threadId) {
+        throw new Error(`No thread ${arg}`);
+      }
+      if (!this.threads.includes(threadId)) this.threads.push(threadId);
+      this.threadId = threadId;
+      this.print(`Switched to thread ${threadId}`);
+      return;
+    }
+    this.threads.forEach((threadId, i) =>
+      this.print(`${threadId === this.threadId ? '*' : ' '} ${i + 1}. ${threadId}`),
+    );
+  }
+
+  private async balanceCommand(networkName?: NetworkName): Promise<void> {
+    const { agent, wallet, network } = this.cli;
+    // The wallet plugin also lists token balances
+    if (agent.getRegisteredTools().some(tool => tool.getName() === 'get_wallet_balance')) {
+      const result = await agent.invokeTool(
+        'get_wallet_balance',
+        networkName ? { network: networkName } : {},
+      );
+      this.print(typeof result === 'string' ? result : JSON.stringify(result, null, 2));
+      return;
+    }
+
+    for (const name of networkName ? [networkName] : network.getNetworks()) {
+      const config = network.getConfig(name);
+      const address = await wallet.getAddress(name);
+      const balance =
+        config.type === 'evm'
+          ? await network.getProvider(name, 'evm').getBalance(address)
+          : BigInt(await network.getProvider(name, 'solana').getBalance(new PublicKey(address)));
+      const { symbol, decimals } = (config.config as EVMNetworkConfig).nativeCurrency;
+      this.print(`${name} ${address}: ${ethers.formatUnits(balance, decimals)} ${symbol}`);
+    }
+  }
+
+  private async planCommand(): Promise<void> {
+    const { agent } = this.cli;
+    if (!(agent instanceof PlanningAgent)) {
+      throw new Error('Plans are only available with the planning agent');
+    }
+    const state = await agent.graph.getState({ configurable: { thread_id: this.threadId } });
+    const plans: { title: string; status: string; tasks: { title: string; status: string }[] }[] =
+      state.values?.plans ?? [];
+    if (!plans.length) {
+      this.print('No plan for the current request');
+      return;
+    }
+    for (const plan of plans) {
+      this.print(`${plan.title} [${plan.status}]`);
+      plan.tasks.forEach((task, i) => this.print(`  ${i + 1}. ${task.title} [${task.status}]`));
+    }
+  }
+
+  private dryRunCommand(arg?: string): void {
+    const { agent } = this.cli;
+    if (arg && !['on', 'off'].includes(arg)) {
+      throw new Error('Usage: /dry-run [on|off]');
+    }
+    agent.setDryRun(arg ? arg === 'on' : !agent.isDryRun());
+    this.print(`Dry run ${agent.isDryRun() ? 'on' : 'off'}`);
+  }
+
+  private printToolExecution(data: ToolExecutionData): void {
+    const icon = TOOL_STATE_ICONS[data.state];
+    switch (data.state) {
+      case ToolExecutionState.STARTED:
+        this.print(`${icon} ${data.toolName} ${JSON.stringify(data.input)}`);
+        break;
+      case ToolExecutionState.IN_PROCESS:
+        this.print(`${icon} ${data.toolName}: ${data.message}`);
+        break;
+      case ToolExecutionState.COMPLETED:
+        this.print(`${icon} ${data.toolName} (${data.executionTime ?? 0}ms)`);
+        break;
+      case ToolExecutionState.FAILED:
+        this.print(`${icon} ${data.toolName}: ${data.error?.message ?? String(data.error)}`);
+        break;
+    }
+  }
+
+  private async ask(prompt: string): Promise<string | undefined> {
+    this.output.write(prompt);
+    const { value, done } = await this.lines!.next();
+    return done ? undefined : value;
+  }
+
+  private print(text: string): void {
+    this.output.write(`${text}\n`);
+  }
+}
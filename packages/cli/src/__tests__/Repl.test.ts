@@ -0,0 +1,121 @@
+import { PassThrough, Readable } from 'stream';
+import {
+  AgentExecuteParams,
+  IHumanReviewCallback,
+  IToolExecutionCallback,
+  ToolExecutionState,
+} from '@binkai/core';
+import { CliAgent } from '../bootstrap';
+import { Repl } from '../Repl';
+
+class FakeAgent {
+  calls: AgentExecuteParams[] = [];
+  dryRun = false;
+  toolCallbacks: IToolExecutionCallback[] = [];
+  reviewCallbacks: IHumanReviewCallback[] = [];
+
+  registerToolExecutionCallback(callback: IToolExecutionCallback) {
+    this.toolCallbacks.push(callback);
+  }
+  unregisterToolExecutionCallback() {
+    this.toolCallbacks = [];
+  }
+  registerAskUserCallback() {}
+  unregisterAskUserCallback() {}
+  registerHumanReviewCallback(callback: IHumanReviewCallback) {
+    this.reviewCallbacks.push(callback);
+  }
+  unregisterHumanReviewCallback() {
+    this.reviewCallbacks = [];
+  }
+  setDryRun(isDryRun: boolean) {
+    this.dryRun = isDryRun;
+  }
+  isDryRun() {
+    return this.dryRun;
+  }
+
+  async execute(params: AgentExecuteParams, onStream?: (data: string) => void) {
+    this.calls.push(params);
+    if (params.action === 'approve') {
+      this.toolCallbacks.forEach(callback =>
+        callback.onToolExecution({
+          id: '1',
+          toolName: 'swap',
+          message: 'done',
+          input: {},
+          state: ToolExecutionState.COMPLETED,
+          timestamp: Date.now(),
+          executionTime: 12,
+        }),
+      );
+      onStream?.('Swapped ');
+      onStream?.('1 BNB');
+      return 'Swapped 1 BNB';
+    }
+    this.reviewCallbacks.forEach(callback =>
+      callback.onHumanReview({
+        toolName: 'swap',
+        input: { amount: '1' },
+        data: { toAmount: '600' },
+        timestamp: Date.now(),
+      }),
+    );
+    return '';
+  }
+}
+
+async function run(agent: FakeAgent, lines: string[]) {
+  const output = new PassThrough();
+  let text = '';
+  output.on('data', chunk => (text += chunk));
+  const repl = new Repl({ agent } as unknown as CliAgent, {
+    input: Readable.from(lines.map(line => `${line}\n`)),
+    output,
+    threadId: '00000000-0000-0000-0000-000000000001',
+  });
+  await repl.start();
+  return text;
+}
+
+describe('Repl', () => {
+  it('should prompt for the review and resume the thread with the decision', async () => {
+    const agent = new FakeAgent();
+
+    const output = await run(agent, ['swap 1 BNB to USDT', 'y', '/exit']);
+
+    expect(agent.calls).toEqual([
+      { input: 'swap 1 BNB to USDT', threadId: '00000000-0000-0000-0000-000000000001' },
+      { input: '', action: 'approve', threadId: '00000000-0000-0000-0000-000000000001' },
+    ]);
+    expect(output).toContain('📝 Review swap');
+    expect(output).toContain('"toAmount": "600"');
+    expect(output).toContain('✅ swap (12ms)');
+    expect(output).toContain('Swapped 1 BNB\n');
+    // Callbacks are released when the session ends
+    expect(agent.toolCallbacks).toHaveLength(0);
+  });
+
+  it('should send review feedback as a new message', async () => {
+    const agent = new FakeAgent();
+
+    await run(agent, ['swap 1 BNB to USDT', 'use 0.5 BNB instead']);
+
+    expect(agent.calls[1]).toEqual({
+      input: 'use 0.5 BNB instead',
+      threadId: '00000000-0000-0000-0000-000000000001',
+    });
+  });
+
+  it('should switch threads and toggle dry run', async () => {
+    const agent = new FakeAgent();
+
+    const output = await run(agent, ['/threads new', '/threads 1', '/threads', '/dry-run', '/foo']);
+
+    expect(output).toContain('Switched to thread 00000000-0000-0000-0000-000000000001');
+    expect(output).toMatch(/\* 1\. 00000000-0000-0000-0000-000000000001\n {2}2\. [0-9a-f-]{36}\n/);
+    expect(output).toContain('Dry run on');
+    expect(agent.dryRun).toBe(true);
+    expect(output).toContain('Unknown command /foo');
+  });
+});
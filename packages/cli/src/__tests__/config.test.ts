@@ -0,0 +1,79 @@
+import { mkdtemp, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { settings } from '@binkai/core';
+import { loadConfig, parseConfig } from '../config';
+
+describe('config', () => {
+  const config = {
+    model: { provider: 'openai', model: 'gpt-4o-mini', apiKey: '${TEST_CLI_OPENAI_KEY}' },
+    networks: {
+      bnb: {
+        type: 'evm',
+        config: {
+          chainId: 56,
+          rpcUrl: 'https://bsc-dataseed1.binance.org',
+          name: 'BNB Chain',
+          nativeCurrency: { name: 'BNB', symbol: 'BNB', decimals: 18 },
+        },
+      },
+    },
+    wallet: { type: 'mnemonic', seedPhrase: '${TEST_CLI_MNEMONIC}' },
+    plugins: [
+      { name: 'swap', providers: ['pancakeswap'], supportedNetworks: ['bnb'] },
+      { name: 'wallet', providers: [{ name: 'bnb-rpc', rpcUrl: 'https://bsc.example' }] },
+    ],
+  };
+
+  beforeEach(() => {
+    settings.set('TEST_CLI_OPENAI_KEY', 'sk-test');
+    settings.set(
+      'TEST_CLI_MNEMONIC',
+      'test test test test test test test test test test test junk',
+    );
+  });
+
+  it('should fill settings and defaults', () => {
+    const parsed = parseConfig(config);
+
+    expect(parsed.model.apiKey).toBe('sk-test');
+    expect(parsed.wallet).toEqual({
+      type: 'mnemonic',
+      seedPhrase: 'test test test test test test test test test test test junk',
+    });
+    expect(parsed.agent).toEqual({ type: 'planning', isHumanReview: true });
+    // Plugin options other than the providers are kept for initialize
+    expect(parsed.plugins[0]).toEqual({
+      name: 'swap',
+      providers: ['pancakeswap'],
+      supportedNetworks: ['bnb'],
+    });
+  });
+
+  it('should report missing settings and invalid entries', () => {
+    expect(() =>
+      parseConfig({ ...config, wallet: { type: 'mnemonic', seedPhrase: '${TEST_CLI_MISSING}' } }),
+    ).toThrow('Setting TEST_CLI_MISSING used in the config is not set');
+
+    expect(() =>
+      parseConfig({ ...config, plugins: [{ name: 'swap', providers: ['unknown'] }] }),
+    ).toThrow('plugins.0.providers.0');
+    expect(() => parseConfig({ ...config, wallet: { type: 'ledger' } })).toThrow('wallet.type');
+  });
+
+  it('should resolve keystore paths from the config file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'binkos-'));
+    const path = join(dir, 'binkos.config.json');
+    await writeFile(
+      path,
+      JSON.stringify({ ...config, wallet: { type: 'keystore', evmKeystorePath: 'keys/evm.json' } }),
+    );
+
+    const loaded = await loadConfig(path);
+
+    expect(loaded.wallet).toEqual({
+      type: 'keystore',
+      evmKeystorePath: join(dir, 'keys/evm.json'),
+    });
+  });
+});
@@ -0,0 +1,45 @@
+#!/usr/bin/env node
+import { resolve } from 'path';
+import { UUID } from '@binkai/core';
+import { createAgent } from './bootstrap';
+import { loadConfig } from './config';
+import { Repl } from './Repl';
+
+const USAGE = `Usage: binkos [--config <path>] [--thread <id>]
+
+Options:
+  -c, --config <path>  config file (defaults to ./binkos.config.json)
+  -t, --thread <id>    continue an existing thread
+  -h, --help           show this help`;
+
+function parseArgs(argv: string[]): { config: string; threadId?: UUID } {
+  const args: { config: string; threadId?: UUID } = { config: 'binkos.config.json' };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '-h' || arg === '--help') {
+      console.log(USAGE);
+      process.exit(0);
+    } else if ((arg === '-c' || arg === '--config') && argv[i + 1]) {
+      args.config = argv[++i];
+    } else if ((arg === '-t' || arg === '--thread') && argv[i + 1]) {
+      args.threadId = argv[++i] as UUID;
+    } else {
+      throw new Error(`Unknown argument ${arg}\n\n${USAGE}`);
+    }
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const config = await loadConfig(resolve(args.config));
+  const cli = await createAgent(config);
+  await new Repl(cli, { threadId: args.threadId }).start();
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  });
@@ -0,0 +1,104 @@
+import { readFile } from 'fs/promises';
+import {
+  Agent,
+  AnthropicModel,
+  BaseModel,
+  BasePlugin,
+  GroqModel,
+  HDWallet,
+  IWallet,
+  KeystoreWallet,
+  MistralModel,
+  Network,
+  NetworksConfig,
+  OllamaModel,
+  OpenAIModel,
+  PlanningAgent,
+  PrivateKeyWallet,
+  RemoteWallet,
+  Wallet,
+  WatchWallet,
+} from '@binkai/core';
+import { CliConfig, ProviderEntry, WalletSourceConfig } from './config';
+import { PLUGINS, PROVIDERS } from './registry';
+
+export interface CliAgent {
+  agent: Agent;
+  wallet: IWallet;
+  network: Network;
+}
+
+export function createModel({ provider, model, apiKey }: CliConfig['model']): BaseModel {
+  switch (provider) {
+    case 'openai':
+      return new OpenAIModel({ apiKey, model });
+    case 'anthropic':
+      return new AnthropicModel({ apiKey, model });
+    case 'groq':
+      return new GroqModel({ apiKey, model });
+    case 'mistral':
+      return new MistralModel({ apiKey, model });
+    case 'ollama':
+      return new OllamaModel({ apiKey, model });
+  }
+}
+
+export async function createWallet(config: WalletSourceConfig, network: Network): Promise<IWallet> {
+  switch (config.type) {
+    case 'mnemonic':
+      return new Wallet({ seedPhrase: config.seedPhrase, index: config.index }, network);
+    case 'hd':
+      return new HDWallet({ seedPhrase: config.seedPhrase, accounts: config.accounts }, network);
+    case 'privateKey':
+      return new PrivateKeyWallet(config, network);
+    case 'keystore':
+      return KeystoreWallet.load(
+        {
+          evmKeystore: config.evmKeystorePath && (await readFile(config.evmKeystorePath, 'utf8')),
+          solanaKeystore:
+            config.solanaKeystorePath && (await readFile(config.solanaKeystorePath, 'utf8')),
+          passwordKey: config.passwordKey,
+        },
+        network,
+      );
+    case 'watch':
+      return new WatchWallet(config, network);
+    case 'remote':
+      return new RemoteWallet(config, network);
+  }
+}
+
+async function createProvider(entry: ProviderEntry, network: Network): Promise<unknown> {
+  const { name, ...options } = typeof entry === 'string' ? { name: entry } : entry;
+  return PROVIDERS[name]({ network, options });
+}
+
+/**
+ * Build the agent of a config: network, wallet, model, then every plugin with its providers
+ */
+export async function createAgent(config: CliConfig): Promise<CliAgent> {
+  const networks = config.networks as NetworksConfig['networks'];
+  const network = new Network({ networks });
+  const wallet = await createWallet(config.wallet, network);
+  const model = createModel(config.model);
+
+  const { type, ...agentConfig } = config.agent;
+  const agent =
+    type === 'planning'
+      ? new PlanningAgent(model, agentConfig, wallet, networks)
+      : new Agent(model, agentConfig, wallet, networks);
+
+  const plugins: BasePlugin[] = [];
+  for (const { name, providers, ...options } of config.plugins) {
+    const plugin = await PLUGINS[name]();
+    await plugin.initialize({
+      ...options,
+      providers: await Promise.all(providers.map(entry => createProvider(entry, network))),
+    });
+    plugins.push(plugin);
+  }
+  // Plugins are registered after the plugins they depend on, whatever their order in the config
+  await agent.registerListPlugins(plugins);
+
+  return { agent, wallet, network };
+}
@@ -0,0 +1,156 @@
+import { readFile } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import { z } from 'zod';
+import { settings } from '@binkai/core';
+
+export const PLUGIN_NAMES = [
+  'swap',
+  'bridge',
+  'token',
+  'wallet',
+  'staking',
+  'knowledge',
+  'image',
+  'portfolio',
+] as const;
+
+export const PROVIDER_NAMES = [
+  'pancakeswap',
+  'thena',
+  'kyber',
+  'oku',
+  'okx',
+  'four-meme',
+  'venus',
+  'kernel-dao',
+  'lista',
+  'jupiter',
+  'debridge',
+  'birdeye',
+  'alchemy',
+  'bink',
+  'bnb-rpc',
+  'solana-rpc',
+] as const;
+
+const networkSchema = z.object({
+  type: z.enum(['evm', 'solana']),
+  config: z.object({ rpcUrl: z.string() }).passthrough(),
+});
+
+const walletSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('mnemonic'), seedPhrase: z.string(), index: z.number().optional() }),
+  z.object({ type: z.literal('hd'), seedPhrase: z.string(), accounts: z.number().optional() }),
+  z.object({
+    type: z.literal('privateKey'),
+    evmPrivateKey: z.string().optional(),
+    solanaPrivateKey: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('keystore'),
+    // Paths are resolved from the config file's directory
+    evmKeystorePath: z.string().optional(),
+    solanaKeystorePath: z.string().optional(),
+    passwordKey: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('watch'),
+    evmAddress: z.string().optional(),
+    solanaAddress: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('remote'),
+    url: z.string(),
+    apiKey: z.string().optional(),
+    timeout: z.number().optional(),
+    attestationAddress: z.string().optional(),
+  }),
+]);
+
+const providerSchema = z.union([
+  z.enum(PROVIDER_NAMES),
+  z.object({ name: z.enum(PROVIDER_NAMES) }).passthrough(),
+]);
+
+const pluginSchema = z
+  .object({
+    name: z.enum(PLUGIN_NAMES),
+    providers: z.array(providerSchema).default([]),
+  })
+  // Other options are passed to the plugin's initialize, e.g. supportedNetworks
+  .passthrough();
+
+export const cliConfigSchema = z.object({
+  model: z.object({
+    provider: z.enum(['openai', 'anthropic', 'groq', 'mistral', 'ollama']),
+    model: z.string(),
+    apiKey: z.string().default(''),
+  }),
+  agent: z
+    .object({
+      type: z.enum(['planning', 'basic']).default('planning'),
+      systemPrompt: z.string().optional(),
+      temperature: z.number().optional(),
+      isHumanReview: z.boolean().default(true),
+      isDryRun: z.boolean().optional(),
+    })
+    .default({}),
+  networks: z.record(networkSchema),
+  wallet: walletSchema,
+  plugins: z.array(pluginSchema).default([]),
+});
+
+export type CliConfig = z.infer<typeof cliConfigSchema>;
+export type WalletSourceConfig = CliConfig['wallet'];
+export type PluginEntry = CliConfig['plugins'][number];
+export type ProviderEntry = PluginEntry['providers'][number];
+export type PluginName = (typeof PLUGIN_NAMES)[number];
+export type ProviderName = (typeof PROVIDER_NAMES)[number];
+
+/**
+ * Replace `${NAME}` placeholders in every string of the config with settings values,
+ * so secrets stay in the environment or .env file
+ */
+export function interpolateSettings<T>(value: T): T {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{(\w+)\}/g, (_, key: string) => {
+      const setting = settings.get(key);
+      if (setting === undefined) {
+        throw new Error(`Setting ${key} used in the config is not set`);
+      }
+      return setting;
+    }) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => interpolateSettings(item)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, interpolateSettings(item)]),
+    ) as T;
+  }
+  return value;
+}
+
+export function parseConfig(json: unknown): CliConfig {
+  const result = cliConfigSchema.safeParse(interpolateSettings(json));
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+    throw new Error(`Invalid config:\n  ${issues.join('\n  ')}`);
+  }
+  return result.data;
+}
+
+/**
+ * Read and validate a JSON config file, keystore paths become absolute
+ */
+export async function loadConfig(path: string): Promise<CliConfig> {
+  const config = parseConfig(JSON.parse(await readFile(path, 'utf8')));
+  if (config.wallet.type === 'keystore') {
+    const base = dirname(resolve(path));
+    const { evmKeystorePath, solanaKeystorePath } = config.wallet;
+    config.wallet.evmKeystorePath = evmKeystorePath && resolve(base, evmKeystorePath);
+    config.wallet.solanaKeystorePath = solanaKeystorePath && resolve(base, solanaKeystorePath);
+  }
+  return config;
+}
@@ -0,0 +1,4 @@
+export * from './config';
+export * from './registry';
+export * from './bootstrap';
+export * from './Repl';
@@ -0,0 +1,112 @@
+import { BasePlugin, EVMNetworkConfig, Network, NetworkName } from '@binkai/core';
+import { PluginName, ProviderName } from './config';
+
+export interface ProviderContext {
+  network: Network;
+  /** Options of the provider entry, without its name */
+  options: Record<string, any>;
+}
+
+type ProviderFactory = (context: ProviderContext) => Promise<unknown>;
+type PluginFactory = () => Promise<BasePlugin>;
+
+/**
+ * EVM provider and chain id of the network named by the `network` option (defaults to bnb)
+ */
+function getEvmNetwork({ network, options }: ProviderContext) {
+  const name = (options.network ?? NetworkName.BNB) as NetworkName;
+  return {
+    provider: network.getProvider(name, 'evm'),
+    chainId: (network.getConfig(name).config as EVMNetworkConfig).chainId,
+  };
+}
+
+function getSolanaConnection({ network, options }: ProviderContext) {
+  return network.getProvider((options.network ?? NetworkName.SOLANA) as NetworkName, 'solana');
+}
+
+function getRpcUrl({ network, options }: ProviderContext, name: NetworkName): string | undefined {
+  return (
+    options.rpcUrl ??
+    (network.isSupported(name) ? network.getConfig(name).config.rpcUrl : undefined)
+  );
+}
+
+/** Packages are imported on first use, only the plugins and providers of the config are loaded */
+export const PLUGINS: Record<PluginName, PluginFactory> = {
+  swap: async () => new (await import('@binkai/swap-plugin')).SwapPlugin(),
+  bridge: async () => new (await import('@binkai/bridge-plugin')).BridgePlugin(),
+  token: async () => new (await import('@binkai/token-plugin')).TokenPlugin(),
+  wallet: async () => new (await import('@binkai/wallet-plugin')).WalletPlugin(),
+  staking: async () => new (await import('@binkai/staking-plugin')).StakingPlugin(),
+  knowledge: async () => new (await import('@binkai/knowledge-plugin')).KnowledgePlugin(),
+  image: async () => new (await import('@binkai/image-plugin')).ImagePlugin(),
+  portfolio: async () => new (await import('@binkai/portfolio-plugin')).PortfolioPlugin(),
+};
+
+export const PROVIDERS: Record<ProviderName, ProviderFactory> = {
+  pancakeswap: async context => {
+    const { provider, chainId } = getEvmNetwork(context);
+    return new (await import('@binkai/pancakeswap-provider')).PancakeSwapProvider(
+      provider,
+      chainId,
+    );
+  },
+  thena: async context => {
+    const { provider, chainId } = getEvmNetwork(context);
+    return new (await import('@binkai/thena-provider')).ThenaProvider(provider, chainId);
+  },
+  kyber: async context => {
+    const { provider, chainId } = getEvmNetwork(context);
+    return new (await import('@binkai/kyber-provider')).KyberProvider(provider, chainId);
+  },
+  oku: async context => {
+    const { provider, chainId } = getEvmNetwork(context);
+    return new (await import('@binkai/oku-provider')).OkuProvider(provider, chainId);
+  },
+  okx: async context => {
+    const { provider, chainId } = getEvmNetwork(context);
+    return new (await import('@binkai/okx-provider')).OkxProvider(provider, chainId);
+  },
+  'four-meme': async context => {
+    const { provider, chainId } = getEvmNetwork(context);
+    return new (await import('@binkai/four-meme-provider')).FourMemeProvider(provider, chainId);
+  },
+  venus: async context => {
+    const { provider, chainId } = getEvmNetwork(context);
+    return new (await import('@binkai/venus-provider')).VenusProvider(provider, chainId);
+  },
+  'kernel-dao': async context => {
+    const { provider, chainId } = getEvmNetwork(context);
+    return new (await import('@binkai/kernel-dao-provider')).KernelDaoProvider(provider, chainId);
+  },
+  lista: async context => {
+    const { provider, chainId } = getEvmNetwork(context);
+    return new (await import('@binkai/lista-provider')).ListaProvider(provider, chainId);
+  },
+  jupiter: async context =>
+    new (await import('@binkai/jupiter-provider')).JupiterProvider(getSolanaConnection(context)),
+  debridge: async context =>
+    new (await import('@binkai/debridge-provider')).deBridgeProvider([
+      getEvmNetwork(context).provider,
+      getSolanaConnection({ ...context, options: {} }),
+    ]),
+  birdeye: async ({ options }) =>
+    new (await import('@binkai/birdeye-provider')).BirdeyeProvider(options),
+  alchemy: async ({ options }) =>
+    new (await import('@binkai/alchemy-provider')).AlchemyProvider(options),
+  bink: async ({ options }) =>
+    new (await import('@binkai/bink-provider')).BinkProvider({
+      apiKey: options.apiKey,
+      baseUrl: options.baseUrl,
+      imageApiUrl: options.imageApiUrl,
+    }),
+  'bnb-rpc': async context =>
+    new (await import('@binkai/rpc-provider')).BnbProvider({
+      rpcUrl: getRpcUrl(context, NetworkName.BNB),
+    }),
+  'solana-rpc': async context =>
+    new (await import('@binkai/rpc-provider')).SolanaProvider({
+      rpcUrl: getRpcUrl(context, NetworkName.SOLANA),
+    }),
+};
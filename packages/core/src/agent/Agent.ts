@@ -1,25 +1,47 @@
 import { ChatOpenAI } from '@langchain/openai';
 import { AgentExecutor, createOpenAIToolsAgent } from 'langchain/agents';
-import { BaseMessage, HumanMessage, AIMessage } from '@langchain/core/messages';
+import { BaseMessage } from '@langchain/core/messages';
 import { ChatPromptTemplate, MessagesPlaceholder } from '@langchain/core/prompts';
 import { IWallet } from '../wallet/types';
+import { runInWalletThread } from '../wallet/threadContext';
 import { NetworkName, NetworksConfig } from '../network/types';
 import { AgentConfig, AgentContext, AgentExecuteParams, IAgent } from './types';
 import { GetWalletAddressTool, ITool } from './tools';
 import { BaseAgent } from './BaseAgent';
 import { IPlugin } from '../plugin/types';
+import { sortPluginsByDependencies } from '../plugin/dependencies';
 import { DatabaseAdapter } from '../storage';
-import { MessageEntity } from '../types';
+import { UUID } from '../types';
 import { EVM_NATIVE_TOKEN_ADDRESS, SOL_NATIVE_TOKEN_ADDRESS } from '../network';
-import { CallbackManager, IToolExecutionCallback } from './callbacks';
+import { CallbackManager, IToolExecutionCallback, ToolExecutionData } from './callbacks';
+import { recordToolRuns, RetryPolicy, toolRunRecorder } from './RetryPolicy';
+import { ExecutionRecorder } from './ExecutionRecorder';
+import { ApprovalManager } from '../approval';
+import { ReviewManager } from '../review';
+import { MemoryManager, summarizeWithModel } from '../memory';
+import { UsageTracker } from '../usage';
+import { Scheduler } from '../scheduler';
+import { TriggerEngine } from '../trigger';
+import { PortfolioHistory } from '../portfolio';
+import { Network } from '../network/Network';
+import { getTokenBalance } from '../network/balance';
 import { CompiledStateGraph } from '@langchain/langgraph';
-import { IModel } from '../model/types';
+import { IModel, ModelNode } from '../model/types';
+import { TelemetryAttributes, withSpan } from '../telemetry';
 
 export class Agent extends BaseAgent {
   protected model: IModel;
   private wallet: IWallet;
   private executor!: AgentExecutor;
   private networks: NetworksConfig['networks'];
+  private approvalManager?: ApprovalManager;
+  private reviewManager?: ReviewManager;
+  private memoryManager?: MemoryManager;
+  private usageTracker?: UsageTracker;
+  private scheduler?: Scheduler;
+  private triggerEngine?: TriggerEngine;
+  private portfolioHistory?: PortfolioHistory;
+  private readonly executionRecorder = new ExecutionRecorder();
   protected db: DatabaseAdapter<any> | undefined;
   protected context: AgentContext = {};
   public readonly config: AgentConfig;
@@ -29,6 +51,8 @@ export class Agent extends BaseAgent {
     this.wallet = wallet;
     this.networks = networks;
     this.config = config;
+    this.registerToolExecutionCallback(toolRunRecorder);
+    this.registerToolExecutionCallback(this.executionRecorder);
 
     this.initializeDefaultTools();
   }
@@ -45,6 +69,14 @@ export class Agent extends BaseAgent {
     return this.config.isMockResponseTool ?? false;
   }
 
+  public isDryRun(): boolean {
+    return this.config.isDryRun ?? false;
+  }
+
+  public setDryRun(isDryRun: boolean): void {
+    this.config.isDryRun = isDryRun;
+  }
+
   async initialize() {
     await this.initializeContext();
     await this.initializeExecutor();
@@ -63,49 +95,19 @@ export class Agent extends BaseAgent {
     }
   }
 
-  async registerPlugin(plugin: IPlugin): Promise<void> {
-    const pluginName = plugin.getName();
-    this.plugins.set(pluginName, plugin);
-
-    // Register all tools from the plugin
-    const tools = plugin.getTools();
-    for (const tool of tools) {
-      await this.registerTool(tool);
-    }
-    this.initializeExecutor();
-  }
-
   // initialize all plugins at once with all tools in the plugins
   async registerListPlugins(plugins: IPlugin[]): Promise<void> {
-    for (const plugin of plugins) {
-      const pluginName = plugin.getName();
-      this.plugins.set(pluginName, plugin);
-      const tools = plugin.getTools();
-      for (const tool of tools) {
-        await this.registerTool(tool);
-      }
+    // Plugins are registered after the plugins they depend on
+    for (const plugin of sortPluginsByDependencies(plugins, this.plugins.keys())) {
+      await this.addPlugin(plugin);
     }
     console.log('✓ Plugins registered\n');
-    this.initializeExecutor();
-  }
-
-  getPlugin(name: string): IPlugin | undefined {
-    return this.plugins.get(name);
+    await this.onPluginsUpdated();
   }
 
-  protected async unregisterPlugin(name: string): Promise<void> {
-    const plugin = this.plugins.get(name);
-    if (plugin) {
-      await plugin.cleanup();
-      this.plugins.delete(name);
-
-      // Recreate tools array without this plugin's tools
-      const pluginToolNames = new Set(plugin.getTools().map(t => t.getName()));
-      this.tools = this.tools.filter(t => !pluginToolNames.has(t.name));
-
-      // Reinitialize executor with updated tools
-      await this.initializeExecutor();
-    }
+  protected async onPluginsUpdated(): Promise<void> {
+    // Reinitialize executor with updated tools
+    await this.initializeExecutor();
   }
 
   protected async onToolsUpdated(): Promise<void> {}
@@ -119,6 +121,14 @@ export class Agent extends BaseAgent {
       if (database) {
         this.db = database;
         await this.db.init();
+        this.reviewManager?.setDatabase(database);
+        this.memoryManager?.setDatabase(database);
+        this.usageTracker?.setDatabase(database);
+        this.scheduler?.setDatabase(database);
+        this.triggerEngine?.setDatabase(database);
+        this.portfolioHistory?.setDatabase(database);
+        this.approvalManager?.setDatabase(database);
+        this.executionRecorder.setDatabase(database);
         console.info('✓ Database initialized\n');
       }
     } catch (error) {
@@ -166,7 +176,7 @@ export class Agent extends BaseAgent {
     ]);
 
     const agent = createOpenAIToolsAgent({
-      llm: this.getModel().getLangChainLLM(),
+      llm: this.getModel().getLangChainLLM(ModelNode.EXECUTOR),
       tools: this.getTools(),
       prompt,
     });
@@ -185,148 +195,104 @@ export class Agent extends BaseAgent {
     if (!Object.keys(this.context).length) {
       await this.initializeContext();
     }
-    let _history: MessageEntity[] = [];
-
-    if (this.db) {
-      if (typeof commandOrParams === 'string') {
-        if (this.context?.user?.id) {
-          _history = await this.db?.getMessagesByUserId(this.context?.user?.id);
-        }
-      } else {
-        if (commandOrParams?.threadId) {
-          _history = await this.db?.getMessagesByThreadId(commandOrParams?.threadId);
-        }
-      }
-      // } else {
-      //   if (typeof commandOrParams !== 'string' && commandOrParams?.history) {
-      //     _history = commandOrParams.history;
-      //   }
-    }
-
-    const history = _history.map((message: MessageEntity) =>
-      message?.message_type === 'human'
-        ? new HumanMessage(message?.content)
-        : new AIMessage(message?.content),
-    );
-
-    const maxRetries = 3;
-    let retryCount = 0;
-    let lastError: any = null;
-    let result: any;
+    const threadId = typeof commandOrParams === 'string' ? undefined : commandOrParams.threadId;
+    const userId = this.context?.user?.id;
+    // Refused before any model call once the user's daily budget is spent
+    await this.getUsageTracker().checkBudget(userId);
+    const usage = this.getUsageTracker().createHandler({
+      threadId,
+      userId,
+      node: ModelNode.EXECUTOR,
+    });
+    const history = await this.loadHistory(commandOrParams);
 
+    const retryPolicy = new RetryPolicy(this.config.retry);
     const originalInput =
       typeof commandOrParams === 'string' ? commandOrParams : commandOrParams.input;
+    let input = originalInput;
 
-    while (retryCount <= maxRetries) {
-      console.log(`🔴 AI reasoning attempt ${retryCount + 1}/${maxRetries}\n`);
+    for (let attempt = 1; ; attempt++) {
+      console.log(`🔴 AI reasoning attempt ${attempt}/${retryPolicy.maxAttempts}\n`);
 
+      const runs: ToolExecutionData[] = [];
+      let result: any;
+      let error: unknown;
       try {
-        const input = typeof commandOrParams === 'string' ? commandOrParams : commandOrParams.input;
-
-        // Only use history on first try
-        const chat_history = history;
-
-        result = await this.executor.invoke({ input, chat_history });
-
-        if (result && result.output) {
-          if (
-            typeof result.output === 'string' &&
-            (result.output.includes('error') ||
-              result.output.includes('Error') ||
-              result.output.includes('failed'))
-          ) {
-            retryCount++;
-
-            if (retryCount === maxRetries) {
-              console.error(`🔴 AI reasoning max retries reached, returning error output`);
-              try {
-                const threadId =
-                  typeof commandOrParams === 'string' ? undefined : commandOrParams?.threadId;
-                await this.db?.createMessage(
-                  {
-                    content: originalInput,
-                    user_id: this.context?.user?.id,
-                    message_type: 'human',
-                  },
-                  threadId,
-                );
-                await this.db?.createMessage(
-                  { content: result.output, user_id: this.context?.user?.id, message_type: 'ai' },
-                  threadId,
-                );
-              } catch (dbError) {
-                console.error('Error persisting message:', dbError);
-              }
-
-              return result.output;
-            }
-
-            const retryPrompt = `The previous command failed with error: "${result.output}". Please rethink and change your approach, planning different steps/tools to fix the issue. Original command: ${originalInput}`;
-
-            if (typeof commandOrParams === 'string') {
-              commandOrParams = retryPrompt;
-            } else {
-              commandOrParams.input = retryPrompt;
-            }
-
-            console.error(
-              `🔴 AI reasoning attempt ${retryCount} failed with output error, retrying...`,
-            );
-            continue;
-          }
-
-          try {
-            const threadId =
-              typeof commandOrParams === 'string' ? undefined : commandOrParams?.threadId;
-
-            await this.db?.createMessage(
-              { content: originalInput, user_id: this.context?.user?.id, message_type: 'human' },
-              threadId,
-            );
-
-            await this.db?.createMessage(
-              { content: result.output, user_id: this.context?.user?.id, message_type: 'ai' },
-              threadId,
-            );
-
-            console.log('Message persisted successfully');
-          } catch (dbError) {
-            console.error('Error persisting message:', dbError);
-          }
-
-          return result.output;
-        }
-      } catch (error) {
-        lastError = error;
-        console.error(`🔴 AI reasoning attempt ${retryCount + 1} failed with exception:`, error);
+        // Tools sign with the wallet account selected for this thread
+        result = await recordToolRuns(runs, () =>
+          runInWalletThread(threadId, () =>
+            withSpan('agent.execute', { [TelemetryAttributes.USER_ID]: userId }, () =>
+              this.executor.invoke({ input, chat_history: history }, { callbacks: [usage] }),
+            ),
+          ),
+        );
+      } catch (e) {
+        error = e;
+        console.error(`🔴 AI reasoning attempt ${attempt} failed with exception:`, e);
+      }
 
-        retryCount++;
+      // Retries follow structured tool errors, never the wording of the answer
+      const reason =
+        attempt < retryPolicy.maxAttempts
+          ? retryPolicy.getRetryReason(runs, toolName => this.sendsTransactions(toolName), error)
+          : undefined;
 
-        if (retryCount === maxRetries) {
-          console.error(`🔴 AI reasoning max retries reached, returning error`);
+      if (!reason) {
+        if (error !== undefined) {
           return JSON.stringify({
             status: 'error',
-            message: lastError instanceof Error ? lastError.message : String(lastError),
+            message: error instanceof Error ? error.message : String(error),
           });
         }
-
-        // Retry prompt
-        const errorMsg = lastError instanceof Error ? lastError.message : String(lastError);
-        const retryPrompt = `The previous command failed with error: "${errorMsg}". Please rethink and try to fix the issue. Original command: ${originalInput}`;
-
-        if (typeof commandOrParams === 'string') {
-          commandOrParams = retryPrompt;
-        } else {
-          commandOrParams.input = retryPrompt;
+        if (result?.output) {
+          await this.persistMessages(originalInput, result.output, threadId);
         }
+        return result?.output;
       }
+
+      const delay = retryPolicy.getDelay(attempt);
+      console.error(
+        `🔴 AI reasoning attempt ${attempt} failed at ${reason.step}, retrying in ${delay}ms...`,
+      );
+      input = `The previous command failed with error: "${reason.message}". Please rethink and change your approach, planning different steps/tools to fix the issue. Original command: ${originalInput}`;
+      await new Promise(resolve => setTimeout(resolve, delay));
     }
+  }
 
-    // Fallback if loop ended without return
-    return JSON.stringify({
-      status: 'error',
-      message: 'Execution failed after maximum retries',
-    });
+  /**
+   * Chat history of the thread, or of the user for plain commands, within the memory budget
+   */
+  protected async loadHistory(
+    commandOrParams: string | AgentExecuteParams,
+  ): Promise<BaseMessage[]> {
+    const userId = this.context?.user?.id;
+    if (typeof commandOrParams === 'string') {
+      return this.getMemoryManager().loadHistory({ userId });
+    }
+    if (!commandOrParams.threadId) {
+      return [];
+    }
+    return this.getMemoryManager().loadHistory({ threadId: commandOrParams.threadId, userId });
+  }
+
+  private sendsTransactions(toolName: string): boolean {
+    const tool = this.registeredTools.find(t => t.getName() === toolName);
+    return tool?.sendsTransactions?.() ?? false;
+  }
+
+  private async persistMessages(input: string, output: string, threadId?: UUID): Promise<void> {
+    try {
+      await this.db?.createMessage(
+        { content: input, user_id: this.context?.user?.id, message_type: 'human' },
+        threadId,
+      );
+      await this.db?.createMessage(
+        { content: output, user_id: this.context?.user?.id, message_type: 'ai' },
+        threadId,
+      );
+    } catch (dbError) {
+      console.error('Error persisting message:', dbError);
+    }
   }
 
   public getWallet(): IWallet {
@@ -336,4 +302,95 @@ export class Agent extends BaseAgent {
   public getNetworks(): NetworksConfig['networks'] {
     return this.networks;
   }
+
+  public getApprovalManager(): ApprovalManager {
+    if (!this.approvalManager) {
+      const network = new Network({ networks: this.networks });
+      this.approvalManager = new ApprovalManager(
+        networkName => network.getProvider(networkName, 'evm'),
+        this.config.approval,
+        this.db,
+      );
+    }
+    return this.approvalManager;
+  }
+
+  public getReviewManager(): ReviewManager {
+    if (!this.reviewManager) {
+      this.reviewManager = new ReviewManager(this.config.review, this.db);
+    }
+    return this.reviewManager;
+  }
+
+  public getMemoryManager(): MemoryManager {
+    if (!this.memoryManager) {
+      this.memoryManager = new MemoryManager(
+        { summarize: summarizeWithModel(this.model), ...this.config.memory },
+        this.db,
+      );
+    }
+    return this.memoryManager;
+  }
+
+  public getExecutionRecorder(): ExecutionRecorder {
+    return this.executionRecorder;
+  }
+
+  public getUsageTracker(): UsageTracker {
+    if (!this.usageTracker) {
+      this.usageTracker = new UsageTracker(this.config.usage, this.db);
+    }
+    return this.usageTracker;
+  }
+
+  public getScheduler(): Scheduler {
+    if (!this.scheduler) {
+      const network = new Network({ networks: this.networks });
+      this.scheduler = new Scheduler(
+        {
+          getBalance: async (schedule, networkName, token) =>
+            runInWalletThread(schedule.thread_id ?? undefined, async () => {
+              const owner = await this.wallet.getAddress(networkName as NetworkName);
+              return getTokenBalance(network, networkName as NetworkName, token, owner);
+            }),
+          // Runs sign with the wallet account of the thread the schedule was created in
+          runTool: (schedule, params) =>
+            runInWalletThread(schedule.thread_id ?? undefined, () =>
+              this.invokeTool(schedule.tool_name, params),
+            ),
+          notify: data => this.notifyScheduleRun(data),
+        },
+        this.config.scheduler,
+        this.db,
+      );
+    }
+    return this.scheduler;
+  }
+
+  public getTriggerEngine(): TriggerEngine {
+    if (!this.triggerEngine) {
+      this.triggerEngine = new TriggerEngine(
+        {
+          // Swaps sign with the wallet account of the thread the trigger was created in
+          execute: trigger =>
+            runInWalletThread(trigger.thread_id ?? undefined, () =>
+              this.invokeTool('swap', trigger.params),
+            ),
+          // The swap tool is missing while the swap plugin reloads
+          isReady: () => this.getRegisteredTools().some(tool => tool.getName() === 'swap'),
+          notify: data => this.notifyPriceTrigger(data),
+        },
+        this.config.trigger,
+        this.db,
+      );
+    }
+    return this.triggerEngine;
+  }
+
+  public getPortfolioHistory(): PortfolioHistory {
+    if (!this.portfolioHistory) {
+      this.portfolioHistory = new PortfolioHistory(this.db);
+    }
+    return this.portfolioHistory;
+  }
 }
@@ -1,6 +1,8 @@
-import { IAgent, AgentExecuteParams, AgentNodeTypes } from './types';
-import { ITool } from './tools';
-import { IPlugin } from '../plugin/types';
+import { IAgent, AgentContext, AgentExecuteParams, AgentNodeTypes } from './types';
+import { CustomDynamicStructuredTool, ITool } from './tools';
+import { IPlugin, IPluginConfig } from '../plugin/types';
+import { getPluginDependencies } from '../plugin/dependencies';
+import { getWalletThreadId } from '../wallet/threadContext';
 import { IWallet } from '../wallet/types';
 import { NetworksConfig } from '../network/types';
 import { DynamicStructuredTool } from '@langchain/core/tools';
@@ -11,71 +13,256 @@ import {
   HumanReviewData,
   IAskUserCallback,
   IHumanReviewCallback,
+  IPriceTriggerCallback,
+  IScheduleCallback,
   IToolExecutionCallback,
+  PriceTriggerData,
+  ScheduleRunData,
 } from './callbacks';
 import { IModel } from '../model/types';
+import { ApprovalManager } from '../approval';
+import { ReviewManager } from '../review';
+import { MemoryManager } from '../memory';
+import { UsageTracker } from '../usage';
+import { Scheduler } from '../scheduler';
+import { TriggerEngine } from '../trigger';
+import { PortfolioHistory } from '../portfolio';
+import { ExecutionRecorder } from './ExecutionRecorder';
+import { logger } from '../utils/Logger';
 
 export abstract class BaseAgent implements IAgent {
   protected tools: DynamicStructuredTool[] = [];
   protected registeredTools: ITool[] = [];
   protected plugins: Map<string, IPlugin> = new Map();
+  // Names of the tools of each plugin
+  private pluginTools: Map<string, string[]> = new Map();
+  // Plugins disabled on each thread
+  private disabledPlugins: Map<string, Set<string>> = new Map();
+  // Config each plugin was last initialized with by the agent, restored when a reload fails
+  private pluginConfigs: Map<string, IPluginConfig> = new Map();
   protected callbackManager: CallbackManager = new CallbackManager();
 
   async registerTool(tool: ITool): Promise<void> {
+    this.addTool(tool);
+    await this.onToolsUpdated();
+  }
+
+  private addTool(tool: ITool): void {
     tool.setAgent(this);
     // Wrap the tool with our callback system
     const wrappedTool = this.addTool2CallbackManager(tool);
 
     this.tools.push(wrappedTool);
     this.registeredTools.push(tool);
-
-    await this.onToolsUpdated();
   }
 
   public addTool2CallbackManager(tool: ITool): DynamicStructuredTool {
-    return this.callbackManager.wrapTool(tool.createTool());
+    return this.callbackManager.wrapTool(this.guardPluginTool(tool.createTool()));
   }
 
-  async registerPlugin(plugin: IPlugin): Promise<void> {
-    // Initialize the plugin
-    await plugin.initialize({});
+  /**
+   * Tools of a plugin disabled on the running thread fail instead of running
+   */
+  private guardPluginTool(tool: CustomDynamicStructuredTool): CustomDynamicStructuredTool {
+    return {
+      name: tool.name,
+      description: tool.description,
+      schema: tool.schema,
+      returnDirect: tool.returnDirect,
+      func: async (...args) => {
+        const threadId = getWalletThreadId();
+        const pluginName = this.getToolPluginName(tool.name);
+        if (pluginName && !this.isPluginEnabled(pluginName, threadId)) {
+          throw new Error(`Plugin ${pluginName} is disabled on this thread`);
+        }
+        return tool.func(...args);
+      },
+    };
+  }
+
+  /**
+   * Register a plugin and its tools
+   * @param config Initializes the plugin, leave it out for a plugin already initialized
+   */
+  async registerPlugin(plugin: IPlugin, config?: IPluginConfig): Promise<void> {
+    await this.addPlugin(plugin, config);
+    await this.onPluginsUpdated();
+  }
 
-    // Store the plugin
+  protected async addPlugin(plugin: IPlugin, config?: IPluginConfig): Promise<void> {
     const pluginName = plugin.getName();
-    this.plugins.set(pluginName, plugin);
+    if (this.plugins.has(pluginName)) {
+      throw new Error(`Plugin ${pluginName} is already registered, reload it to change its config`);
+    }
+    const missing = getPluginDependencies(plugin).filter(name => !this.plugins.has(name));
+    if (missing.length) {
+      throw new Error(`Plugin ${pluginName} depends on ${missing.join(', ')}, register it first`);
+    }
 
-    // Register all tools from the plugin
-    const tools = plugin.getTools();
-    for (const tool of tools) {
-      await this.registerTool(tool);
+    if (config) {
+      await plugin.initialize(config);
+      this.pluginConfigs.set(pluginName, config);
     }
+    await plugin.register(this);
+    this.plugins.set(pluginName, plugin);
+    this.addPluginTools(plugin);
   }
 
   getPlugin(name: string): IPlugin | undefined {
     return this.plugins.get(name);
   }
 
+  getPlugins(): IPlugin[] {
+    return Array.from(this.plugins.values());
+  }
+
   getRegisteredTools(): ITool[] {
     return this.registeredTools;
   }
 
-  protected async unregisterPlugin(name: string): Promise<void> {
-    const plugin = this.plugins.get(name);
-    if (plugin) {
-      // Cleanup plugin resources
+  /**
+   * Clean up a plugin and remove its tools, plugins depending on it must be unregistered first
+   */
+  async unregisterPlugin(name: string): Promise<void> {
+    const plugin = this.getRegisteredPlugin(name);
+    const dependents = this.getPlugins()
+      .filter(other => getPluginDependencies(other).includes(name))
+      .map(other => other.getName());
+    if (dependents.length) {
+      throw new Error(`Plugin ${name} is needed by ${dependents.join(', ')}, unregister it first`);
+    }
+
+    // Cleanup plugin resources
+    await plugin.cleanup();
+
+    this.removePlugin(name);
+    await this.onPluginsUpdated();
+  }
+
+  /**
+   * Re-initialize a registered plugin with a new config, e.g. one with an added provider,
+   * and replace its tools. Threads already running keep the previous tools until they end.
+   * When the new config fails, the plugin is initialized again with its previous config, or
+   * unregistered when the agent does not know it (the plugin was registered initialized)
+   */
+  async reloadPlugin(name: string, config: IPluginConfig): Promise<void> {
+    const plugin = this.getRegisteredPlugin(name);
+
+    this.removePluginTools(name);
+    await plugin.cleanup();
+    try {
+      await plugin.initialize(config);
+      await plugin.register(this);
+    } catch (error) {
+      await this.restorePlugin(plugin);
+      await this.onPluginsUpdated();
+      throw error;
+    }
+    this.pluginConfigs.set(name, config);
+    this.addPluginTools(plugin);
+
+    await this.onPluginsUpdated();
+  }
+
+  private async restorePlugin(plugin: IPlugin): Promise<void> {
+    const name = plugin.getName();
+    const previous = this.pluginConfigs.get(name);
+    try {
       await plugin.cleanup();
+      if (previous) {
+        await plugin.initialize(previous);
+        await plugin.register(this);
+        this.addPluginTools(plugin);
+        return;
+      }
+    } catch (error) {
+      logger.error(`Failed to restore plugin ${name}:`, error);
+    }
+    // Plugins depending on it stay registered with their tools disabled
+    this.removePlugin(name);
+  }
 
-      // Remove plugin
-      this.plugins.delete(name);
+  private removePlugin(name: string): void {
+    this.plugins.delete(name);
+    this.pluginConfigs.delete(name);
+    this.removePluginTools(name);
+    for (const disabled of this.disabledPlugins.values()) {
+      disabled.delete(name);
+    }
+  }
 
-      // Recreate tools array without this plugin's tools
-      const pluginToolNames = new Set(plugin.getTools().map(t => t.getName()));
-      this.tools = this.tools.filter(t => !pluginToolNames.has(t.name));
+  /**
+   * Hide a plugin's tools, and those of the plugins depending on it, on one thread
+   */
+  disablePlugin(name: string, threadId: string): void {
+    this.getRegisteredPlugin(name);
+    const disabled = this.disabledPlugins.get(threadId) ?? new Set<string>();
+    disabled.add(name);
+    this.disabledPlugins.set(threadId, disabled);
+  }
 
-      await this.onToolsUpdated();
+  enablePlugin(name: string, threadId: string): void {
+    this.getRegisteredPlugin(name);
+    const disabled = this.disabledPlugins.get(threadId);
+    disabled?.delete(name);
+    if (disabled?.size === 0) {
+      this.disabledPlugins.delete(threadId);
     }
   }
 
+  /**
+   * Whether a plugin is registered and enabled on the thread along with all its dependencies
+   */
+  isPluginEnabled(name: string, threadId?: string): boolean {
+    const plugin = this.plugins.get(name);
+    if (!plugin) return false;
+    if (threadId && this.disabledPlugins.get(threadId)?.has(name)) return false;
+    return getPluginDependencies(plugin).every(dependency =>
+      this.isPluginEnabled(dependency, threadId),
+    );
+  }
+
+  /**
+   * Tools outside of plugins are always enabled
+   */
+  isToolEnabled(toolName: string, threadId?: string): boolean {
+    const pluginName = this.getToolPluginName(toolName);
+    return !pluginName || this.isPluginEnabled(pluginName, threadId);
+  }
+
+  private getRegisteredPlugin(name: string): IPlugin {
+    const plugin = this.plugins.get(name);
+    if (!plugin) {
+      throw new Error(`Plugin ${name} not found`);
+    }
+    return plugin;
+  }
+
+  private getToolPluginName(toolName: string): string | undefined {
+    for (const [pluginName, toolNames] of this.pluginTools) {
+      if (toolNames.includes(toolName)) return pluginName;
+    }
+    return undefined;
+  }
+
+  private addPluginTools(plugin: IPlugin): void {
+    const tools = plugin.getTools();
+    for (const tool of tools) {
+      this.addTool(tool);
+    }
+    this.pluginTools.set(
+      plugin.getName(),
+      tools.map(tool => tool.getName()),
+    );
+  }
+
+  private removePluginTools(name: string): void {
+    const toolNames = new Set(this.pluginTools.get(name));
+    this.tools = this.tools.filter(t => !toolNames.has(t.name));
+    this.registeredTools = this.registeredTools.filter(t => !toolNames.has(t.getName()));
+    this.pluginTools.delete(name);
+  }
+
   protected getTools(): DynamicStructuredTool[] {
     return this.tools;
   }
@@ -83,8 +270,15 @@ export abstract class BaseAgent implements IAgent {
   // Hook for subclasses to handle tool updates
   protected abstract onToolsUpdated(): Promise<void>;
 
+  // Hook for subclasses to handle plugins being registered, unregistered or reloaded
+  protected async onPluginsUpdated(): Promise<void> {
+    await this.onToolsUpdated();
+  }
+
   public abstract isMockResponseTool(): boolean;
 
+  public abstract isDryRun(): boolean;
+
   public notifyHumanReview(data: HumanReviewData): void {
     this.callbackManager.notifyHumanReview(data);
   }
@@ -92,6 +286,14 @@ export abstract class BaseAgent implements IAgent {
   public notifyAskUser(data: AskUserData): void {
     this.callbackManager.notifyAskUser(data);
   }
+
+  public notifyScheduleRun(data: ScheduleRunData): Promise<void> {
+    return this.callbackManager.notifyScheduleRun(data);
+  }
+
+  public notifyPriceTrigger(data: PriceTriggerData): Promise<void> {
+    return this.callbackManager.notifyPriceTrigger(data);
+  }
   /**
    * Register a callback for tool execution events
    * @param callback The callback to register
@@ -116,6 +318,28 @@ export abstract class BaseAgent implements IAgent {
     this.callbackManager.unregisterHumanReviewCallback(callback);
   }
 
+  /**
+   * Register a callback for the runs of recurring schedules, e.g. to report failures
+   */
+  registerScheduleCallback(callback: IScheduleCallback): void {
+    this.callbackManager.registerScheduleCallback(callback);
+  }
+
+  unregisterScheduleCallback(callback: IScheduleCallback): void {
+    this.callbackManager.unregisterScheduleCallback(callback);
+  }
+
+  /**
+   * Register a callback for price triggers executing their swap, e.g. a stop-loss
+   */
+  registerPriceTriggerCallback(callback: IPriceTriggerCallback): void {
+    this.callbackManager.registerPriceTriggerCallback(callback);
+  }
+
+  unregisterPriceTriggerCallback(callback: IPriceTriggerCallback): void {
+    this.callbackManager.unregisterPriceTriggerCallback(callback);
+  }
+
   /**
    * Unregister a callback for tool execution events
    * @param callback The callback to unregister
@@ -135,8 +359,17 @@ export abstract class BaseAgent implements IAgent {
   // Core agent functionality that must be implemented
   abstract execute(command: string): Promise<any>;
   abstract execute(params: AgentExecuteParams, onStream?: (data: string) => void): Promise<string>;
+  abstract getContext(): AgentContext;
   abstract getWallet(): IWallet;
   abstract getNetworks(): NetworksConfig['networks'];
   abstract registerDatabase(db: DatabaseAdapter): Promise<void>;
   abstract getModel(): IModel;
+  abstract getApprovalManager(): ApprovalManager;
+  abstract getReviewManager(): ReviewManager;
+  abstract getMemoryManager(): MemoryManager;
+  abstract getExecutionRecorder(): ExecutionRecorder;
+  abstract getUsageTracker(): UsageTracker;
+  abstract getScheduler(): Scheduler;
+  abstract getTriggerEngine(): TriggerEngine;
+  abstract getPortfolioHistory(): PortfolioHistory;
 }
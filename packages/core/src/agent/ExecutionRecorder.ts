@@ -0,0 +1,145 @@
+import { DatabaseAdapter } from '../storage/database';
+import { PlanEntity, TaskEntity, ToolCallEntity, ToolCallQueryOptions } from '../types/database';
+import { logger } from '../utils/Logger';
+import { getWalletThreadId } from '../wallet/threadContext';
+import { IToolExecutionCallback, ToolExecutionData, ToolExecutionState } from './callbacks/types';
+
+/**
+ * Plan as kept in the planner's graph state
+ */
+export interface PlanState {
+  plan_id: string;
+  title: string;
+  status: string;
+  tasks: { title: string; status: string; result?: string }[];
+}
+
+const PLAN_TOOLS = ['create_plan', 'update_plan'];
+
+function parsePlans(output: any): PlanState[] {
+  let plans = output;
+  if (typeof output === 'string') {
+    try {
+      plans = JSON.parse(output);
+    } catch (error) {
+      return [];
+    }
+  }
+  return Array.isArray(plans) ? plans.filter(plan => plan?.plan_id && plan.tasks) : [];
+}
+
+/**
+ * Records the plans, tasks and tool calls of each thread when a database is registered,
+ * so what the agent decided can be audited and timelines rebuilt after the fact
+ */
+export class ExecutionRecorder implements IToolExecutionCallback {
+  private db?: DatabaseAdapter;
+
+  constructor(db?: DatabaseAdapter) {
+    this.db = db;
+  }
+
+  setDatabase(db: DatabaseAdapter | undefined): void {
+    this.db = db;
+  }
+
+  async onToolExecution(data: ToolExecutionData): Promise<void> {
+    if (!this.db) return;
+    // Tools run within the thread of the request
+    const threadId = getWalletThreadId();
+
+    if (data.state === ToolExecutionState.STARTED) {
+      await this.db.createToolCall({
+        id: data.id,
+        thread_id: threadId ?? null,
+        tool_name: data.toolName,
+        input: data.input ?? {},
+        status: 'started',
+        started_at: data.timestamp,
+      });
+    } else if (
+      data.state === ToolExecutionState.COMPLETED ||
+      data.state === ToolExecutionState.FAILED
+    ) {
+      const error = data.error instanceof Error ? data.error.message : data.error;
+      await this.db.finishToolCall(data.id, {
+        status: data.state === ToolExecutionState.COMPLETED ? 'completed' : 'failed',
+        output: data.data ?? null,
+        error: error != null ? String(error) : null,
+        finished_at: data.timestamp,
+        execution_time: data.executionTime ?? null,
+      });
+
+      if (
+        data.state === ToolExecutionState.COMPLETED &&
+        threadId &&
+        PLAN_TOOLS.includes(data.toolName)
+      ) {
+        // Tasks the planner reported as failed count as a failed attempt
+        const failed = (data.input?.tasks ?? [])
+          .filter((task: any) => task?.status === 'failed')
+          .map((task: any) => task.index);
+        await this.recordPlans(threadId, parsePlans(data.data), {
+          [data.input?.plan_id]: failed,
+        });
+      }
+    }
+  }
+
+  /**
+   * Save plans of a thread with their tasks, failures never interrupt the agent
+   * @param failed Indexes of the tasks that just failed, by plan id
+   */
+  async recordPlans(
+    threadId: string,
+    plans: PlanState[],
+    failed: Record<string, number[]> = {},
+  ): Promise<void> {
+    if (!this.db) return;
+    const now = Date.now();
+    try {
+      for (const plan of plans) {
+        const previous = await this.db.listTasks(threadId, plan.plan_id);
+        const tasks = plan.tasks.map((task, idx): TaskEntity => {
+          const retry = previous.find(previousTask => previousTask.idx === idx)?.retry ?? 0;
+          return {
+            thread_id: threadId,
+            plan_id: plan.plan_id,
+            idx,
+            title: task.title,
+            status: task.status,
+            retry: failed[plan.plan_id]?.includes(idx) ? retry + 1 : retry,
+            result: task.result ?? null,
+            created_at: now,
+            updated_at: now,
+          };
+        });
+        await this.db.savePlan(
+          {
+            thread_id: threadId,
+            plan_id: plan.plan_id,
+            title: plan.title,
+            status: plan.status,
+            created_at: now,
+            updated_at: now,
+          },
+          tasks,
+        );
+      }
+    } catch (error) {
+      logger.error(`Failed to record the plans of thread ${threadId}:`, error);
+    }
+  }
+
+  async getPlans(threadId: string): Promise<PlanEntity[]> {
+    return this.db ? this.db.listPlans(threadId) : [];
+  }
+
+  async getTasks(threadId: string, planId?: string): Promise<TaskEntity[]> {
+    return this.db ? this.db.listTasks(threadId, planId) : [];
+  }
+
+  async getToolCalls(options: ToolCallQueryOptions = {}): Promise<ToolCallEntity[]> {
+    return this.db ? this.db.listToolCalls(options) : [];
+  }
+}
@@ -0,0 +1,154 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { ErrorStep } from '../utils/StructuredError';
+import { IToolExecutionCallback, ToolExecutionData, ToolExecutionState } from './callbacks/types';
+
+/**
+ * Steps failing before anything is signed, e.g. quotes, prices or API calls that may succeed later
+ */
+export const DEFAULT_RETRYABLE_STEPS: string[] = [
+  ErrorStep.PROVIDER_AVAILABILITY,
+  ErrorStep.DATA_RETRIEVAL,
+  ErrorStep.PRICE_RETRIEVAL,
+  ErrorStep.API_REQUEST,
+  ErrorStep.API_RESPONSE,
+];
+
+export interface RetryPolicyConfig {
+  /** Attempts of a request, including the first one (defaults to 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds (defaults to 1000) */
+  initialDelayMs?: number;
+  /** Factor applied to the delay after each retry (defaults to 2) */
+  backoffMultiplier?: number;
+  /** Upper bound of the delay in milliseconds (defaults to 10000) */
+  maxDelayMs?: number;
+  /** Error steps of tool responses worth retrying, see `ErrorStep` */
+  retryableSteps?: string[];
+}
+
+/**
+ * Error response of a tool, as returned by `BaseTool.formatErrorResponse`
+ */
+export interface ToolErrorResponse {
+  status: 'error';
+  tool: string;
+  errorStep: string;
+  message: string;
+  details?: Record<string, any>;
+}
+
+export interface RetryReason {
+  step: string;
+  message: string;
+}
+
+export function parseToolError(output: any): ToolErrorResponse | undefined {
+  let data = output;
+  if (typeof output === 'string') {
+    try {
+      data = JSON.parse(output);
+    } catch (error) {
+      return undefined;
+    }
+  }
+  return data?.status === 'error' && typeof data.errorStep === 'string' ? data : undefined;
+}
+
+const toolRuns = new AsyncLocalStorage<ToolExecutionData[]>();
+
+/**
+ * Keeps the completed and failed tool executions of the running attempt, register it on the agent
+ */
+export const toolRunRecorder: IToolExecutionCallback = {
+  onToolExecution(data: ToolExecutionData) {
+    if (data.state === ToolExecutionState.COMPLETED || data.state === ToolExecutionState.FAILED) {
+      toolRuns.getStore()?.push(data);
+    }
+  },
+};
+
+/**
+ * Run an attempt, tool executions are collected in `runs` even when the attempt throws
+ */
+export function recordToolRuns<T>(runs: ToolExecutionData[], task: () => Promise<T>): Promise<T> {
+  return toolRuns.run(runs, task);
+}
+
+/**
+ * Decides from structured tool responses whether a request is attempted again and when.
+ * A request is never retried once a tool may have sent a transaction.
+ */
+export class RetryPolicy {
+  readonly maxAttempts: number;
+  private readonly initialDelayMs: number;
+  private readonly backoffMultiplier: number;
+  private readonly maxDelayMs: number;
+  private readonly retryableSteps: Set<string>;
+
+  constructor(config: RetryPolicyConfig = {}) {
+    this.maxAttempts = Math.max(1, config.maxAttempts ?? 3);
+    this.initialDelayMs = config.initialDelayMs ?? 1000;
+    this.backoffMultiplier = config.backoffMultiplier ?? 2;
+    this.maxDelayMs = config.maxDelayMs ?? 10000;
+    this.retryableSteps = new Set(config.retryableSteps ?? DEFAULT_RETRYABLE_STEPS);
+  }
+
+  isRetryableStep(step: string): boolean {
+    return this.retryableSteps.has(step);
+  }
+
+  /**
+   * Delay before the given retry, starting at 1
+   */
+  getDelay(retry: number): number {
+    return Math.min(this.initialDelayMs * this.backoffMultiplier ** (retry - 1), this.maxDelayMs);
+  }
+
+  /**
+   * Why the attempt should be retried, undefined when its result is final
+   * @param runs Tool executions of the attempt
+   * @param sendsTransactions Whether a tool may send transactions
+   * @param error Error thrown by the attempt
+   */
+  getRetryReason(
+    runs: ToolExecutionData[],
+    sendsTransactions: (toolName: string) => boolean,
+    error?: unknown,
+  ): RetryReason | undefined {
+    if (runs.some(run => this.mayHaveSentTransaction(run, sendsTransactions))) {
+      return undefined;
+    }
+
+    if (error !== undefined) {
+      // Model and executor failures are retried, structured errors only on retryable steps
+      const step = (error as any)?.step;
+      const message = error instanceof Error ? error.message : (error as any)?.message;
+      if (typeof step === 'string') {
+        return this.isRetryableStep(step) ? { step, message: message ?? step } : undefined;
+      }
+      return { step: ErrorStep.REASONING, message: message ?? String(error) };
+    }
+
+    // The model may have recovered from earlier failures, only an attempt ending on one is retried
+    const toolError = parseToolError(runs[runs.length - 1]?.data);
+    if (toolError && this.isRetryableStep(toolError.errorStep)) {
+      return { step: toolError.errorStep, message: toolError.message };
+    }
+    return undefined;
+  }
+
+  private mayHaveSentTransaction(
+    run: ToolExecutionData,
+    sendsTransactions: (toolName: string) => boolean,
+  ): boolean {
+    if (run.data?.transactionHash) {
+      return true;
+    }
+    if (!sendsTransactions(run.toolName)) {
+      return false;
+    }
+    // Only a failure before signing proves nothing was sent
+    const toolError = parseToolError(run.data);
+    return !toolError || !this.isRetryableStep(toolError.errorStep);
+  }
+}
@@ -0,0 +1,131 @@
+import { DatabaseAdapter } from '../../storage/database';
+import { TaskEntity } from '../../types/database';
+import { runInWalletThread } from '../../wallet/threadContext';
+import { ToolExecutionData, ToolExecutionState } from '../callbacks/types';
+import { ExecutionRecorder } from '../ExecutionRecorder';
+
+describe('ExecutionRecorder', () => {
+  let tasks: TaskEntity[];
+  let db: jest.Mocked<
+    Pick<DatabaseAdapter, 'createToolCall' | 'finishToolCall' | 'savePlan' | 'listTasks'>
+  >;
+  let recorder: ExecutionRecorder;
+
+  const execution = (
+    toolName: string,
+    state: ToolExecutionState,
+    extra: Partial<ToolExecutionData> = {},
+  ): ToolExecutionData => ({
+    id: 'call-1',
+    toolName,
+    input: {},
+    message: '',
+    state,
+    timestamp: 1000,
+    ...extra,
+  });
+
+  const plan = (status: string) => [
+    {
+      plan_id: 'abc12',
+      title: 'Swap BNB to USDT',
+      status: 'pending',
+      tasks: [
+        { title: 'Get BNB balance', status: 'completed' },
+        { title: 'Swap 1 BNB to USDT', status },
+      ],
+    },
+  ];
+
+  beforeEach(() => {
+    tasks = [];
+    db = {
+      createToolCall: jest.fn(),
+      finishToolCall: jest.fn(),
+      savePlan: jest.fn(async (_plan, saved) => {
+        tasks = saved;
+      }),
+      listTasks: jest.fn(async (_threadId: string) => tasks),
+    };
+    recorder = new ExecutionRecorder(db as unknown as DatabaseAdapter);
+  });
+
+  it('should record tool calls of the thread', async () => {
+    await runInWalletThread('thread-1', async () => {
+      await recorder.onToolExecution(
+        execution('swap', ToolExecutionState.STARTED, { input: { amount: '1' } }),
+      );
+      await recorder.onToolExecution(
+        execution('swap', ToolExecutionState.IN_PROCESS, { data: { progress: 50 } }),
+      );
+      await recorder.onToolExecution(
+        execution('swap', ToolExecutionState.FAILED, {
+          error: new Error('insufficient balance'),
+          timestamp: 1500,
+          executionTime: 500,
+        }),
+      );
+    });
+
+    expect(db.createToolCall).toHaveBeenCalledWith({
+      id: 'call-1',
+      thread_id: 'thread-1',
+      tool_name: 'swap',
+      input: { amount: '1' },
+      status: 'started',
+      started_at: 1000,
+    });
+    expect(db.finishToolCall).toHaveBeenCalledTimes(1);
+    expect(db.finishToolCall).toHaveBeenCalledWith('call-1', {
+      status: 'failed',
+      output: null,
+      error: 'insufficient balance',
+      finished_at: 1500,
+      execution_time: 500,
+    });
+  });
+
+  it('should record plans and count the failures of their tasks', async () => {
+    await runInWalletThread('thread-1', async () => {
+      await recorder.onToolExecution(
+        execution('create_plan', ToolExecutionState.COMPLETED, {
+          data: plan('pending'),
+        }),
+      );
+      const update = {
+        input: { plan_id: 'abc12', tasks: [{ index: 1, status: 'failed' }] },
+        data: plan('failed'),
+      };
+      await recorder.onToolExecution(
+        execution('update_plan', ToolExecutionState.COMPLETED, update),
+      );
+      await recorder.onToolExecution(
+        execution('update_plan', ToolExecutionState.COMPLETED, update),
+      );
+    });
+
+    expect(db.savePlan).toHaveBeenLastCalledWith(
+      expect.objectContaining({ thread_id: 'thread-1', plan_id: 'abc12', status: 'pending' }),
+      [
+        expect.objectContaining({ idx: 0, status: 'completed', retry: 0 }),
+        expect.objectContaining({
+          idx: 1,
+          title: 'Swap 1 BNB to USDT',
+          status: 'failed',
+          retry: 2,
+        }),
+      ],
+    );
+  });
+
+  it('should not record plans outside a thread or without a database', async () => {
+    await recorder.onToolExecution(
+      execution('create_plan', ToolExecutionState.COMPLETED, { data: plan('pending') }),
+    );
+    expect(db.savePlan).not.toHaveBeenCalled();
+
+    const detached = new ExecutionRecorder();
+    await detached.onToolExecution(execution('swap', ToolExecutionState.STARTED));
+    await expect(detached.getToolCalls({ threadId: 'thread-1' })).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,125 @@
+import { ErrorStep } from '../../utils/StructuredError';
+import { ToolExecutionData, ToolExecutionState } from '../callbacks/types';
+import { recordToolRuns, RetryPolicy, toolRunRecorder } from '../RetryPolicy';
+
+const run = (toolName: string, data: any): ToolExecutionData => ({
+  id: toolName,
+  toolName,
+  input: {},
+  message: '',
+  data,
+  state: ToolExecutionState.COMPLETED,
+  timestamp: 0,
+});
+
+const toolError = (tool: string, errorStep: string, message = 'failed') => ({
+  status: 'error',
+  tool,
+  errorStep,
+  message,
+});
+
+describe('RetryPolicy', () => {
+  const sendsTransactions = (toolName: string) => toolName === 'swap';
+
+  it('should retry attempts ending on a retryable tool error', () => {
+    const policy = new RetryPolicy();
+
+    expect(
+      policy.getRetryReason(
+        [run('get_token_info', toolError('get_token_info', ErrorStep.API_REQUEST, 'timeout'))],
+        sendsTransactions,
+      ),
+    ).toEqual({ step: ErrorStep.API_REQUEST, message: 'timeout' });
+    // Terminal steps and answers mentioning errors are returned as they are
+    expect(
+      policy.getRetryReason(
+        [run('swap', toolError('swap', ErrorStep.POLICY_VIOLATION))],
+        sendsTransactions,
+      ),
+    ).toBeUndefined();
+    expect(policy.getRetryReason([], sendsTransactions)).toBeUndefined();
+  });
+
+  it('should not retry once the model recovered from an error', () => {
+    const policy = new RetryPolicy();
+
+    expect(
+      policy.getRetryReason(
+        [
+          run('get_token_info', toolError('get_token_info', ErrorStep.DATA_RETRIEVAL)),
+          run('get_token_info', { status: 'success' }),
+        ],
+        sendsTransactions,
+      ),
+    ).toBeUndefined();
+  });
+
+  it('should never retry after a tool may have sent a transaction', () => {
+    const policy = new RetryPolicy();
+    const failedQuote = run('get_token_info', toolError('get_token_info', ErrorStep.API_RESPONSE));
+
+    for (const runs of [
+      [run('swap', { status: 'success', transactionHash: '0x1' }), failedQuote],
+      [run('create_token', { transactionHash: '0x2' }), failedQuote],
+      // Unstructured failures of transaction tools may happen after broadcasting
+      [run('swap', { status: 'error', message: 'receipt timeout' }), failedQuote],
+      [{ ...run('swap', undefined), state: ToolExecutionState.FAILED }, failedQuote],
+    ]) {
+      expect(policy.getRetryReason(runs, sendsTransactions)).toBeUndefined();
+    }
+    expect(
+      policy.getRetryReason([failedQuote], sendsTransactions, new Error('rate limited')),
+    ).toEqual({ step: ErrorStep.REASONING, message: 'rate limited' });
+    expect(
+      policy.getRetryReason(
+        [run('swap', toolError('swap', ErrorStep.PRICE_RETRIEVAL, 'no quote'))],
+        sendsTransactions,
+      ),
+    ).toEqual({ step: ErrorStep.PRICE_RETRIEVAL, message: 'no quote' });
+  });
+
+  it('should use the configured steps and backoff', () => {
+    const policy = new RetryPolicy({
+      maxAttempts: 5,
+      initialDelayMs: 100,
+      backoffMultiplier: 3,
+      maxDelayMs: 1000,
+      retryableSteps: [ErrorStep.EXECUTION],
+    });
+
+    expect(policy.maxAttempts).toBe(5);
+    expect([1, 2, 3, 4].map(retry => policy.getDelay(retry))).toEqual([100, 300, 900, 1000]);
+    expect(policy.isRetryableStep(ErrorStep.EXECUTION)).toBe(true);
+    expect(policy.isRetryableStep(ErrorStep.API_REQUEST)).toBe(false);
+    expect(
+      policy.getRetryReason([], sendsTransactions, {
+        step: ErrorStep.POLICY_VIOLATION,
+        message: '',
+      }),
+    ).toBeUndefined();
+  });
+
+  it('should record the tool runs of each attempt separately', async () => {
+    // Tools notify their callbacks from the attempt's async context
+    const tool = async (token: string) => {
+      await new Promise(resolve => setTimeout(resolve, 1));
+      toolRunRecorder.onToolExecution({
+        ...run('get_token_info', { token }),
+        state: ToolExecutionState.STARTED,
+      });
+      toolRunRecorder.onToolExecution(run('get_token_info', { token }));
+    };
+
+    const first: ToolExecutionData[] = [];
+    const second: ToolExecutionData[] = [];
+    await Promise.all([
+      recordToolRuns(first, () => tool('BNB')),
+      recordToolRuns(second, () => tool('SOL')),
+    ]);
+    await tool('ETH');
+
+    expect(first.map(run => run.data)).toEqual([{ token: 'BNB' }]);
+    expect(second.map(run => run.data)).toEqual([{ token: 'SOL' }]);
+  });
+});
@@ -1,4 +1,5 @@
 import { CallbackManagerForToolRun } from '@langchain/core/callbacks/manager';
+import { Span, SpanStatusCode } from '@opentelemetry/api';
 import { RunnableConfig } from '@langchain/core/runnables';
 import { DynamicStructuredTool } from '@langchain/core/tools';
 import { v4 as uuidv4 } from 'uuid';
@@ -6,12 +7,17 @@ import {
   HumanReviewData,
   IAskUserCallback,
   IHumanReviewCallback,
+  IPriceTriggerCallback,
+  IScheduleCallback,
   IToolExecutionCallback,
+  PriceTriggerData,
+  ScheduleRunData,
   ToolExecutionData,
   ToolExecutionState,
   AskUserData,
 } from './types';
 import { CustomDynamicStructuredTool, ToolProgress } from '../tools/types';
+import { TelemetryAttributes, withSpan } from '../../telemetry';
 
 /**
  * Manages callbacks for agent operations
@@ -20,6 +26,8 @@ export class CallbackManager {
   private toolExecutionCallbacks: IToolExecutionCallback[] = [];
   private humanReviewCallbacks: IHumanReviewCallback[] = [];
   private askUserCallbacks: IAskUserCallback[] = [];
+  private scheduleCallbacks: IScheduleCallback[] = [];
+  private priceTriggerCallbacks: IPriceTriggerCallback[] = [];
 
   registerHumanReviewCallback(callback: IHumanReviewCallback): void {
     this.humanReviewCallbacks.push(callback);
@@ -37,6 +45,22 @@ export class CallbackManager {
     this.askUserCallbacks = this.askUserCallbacks.filter(cb => cb !== callback);
   }
 
+  registerScheduleCallback(callback: IScheduleCallback): void {
+    this.scheduleCallbacks.push(callback);
+  }
+
+  unregisterScheduleCallback(callback: IScheduleCallback): void {
+    this.scheduleCallbacks = this.scheduleCallbacks.filter(cb => cb !== callback);
+  }
+
+  registerPriceTriggerCallback(callback: IPriceTriggerCallback): void {
+    this.priceTriggerCallbacks.push(callback);
+  }
+
+  unregisterPriceTriggerCallback(callback: IPriceTriggerCallback): void {
+    this.priceTriggerCallbacks = this.priceTriggerCallbacks.filter(cb => cb !== callback);
+  }
+
   public notifyHumanReview(data: HumanReviewData): void {
     this.humanReviewCallbacks.forEach(callback => callback.onHumanReview(data));
   }
@@ -45,6 +69,36 @@ export class CallbackManager {
     this.askUserCallbacks.forEach(callback => callback.onAskUser(data));
   }
 
+  /**
+   * Notify the schedule callbacks of a run, a failing callback never stops the scheduler
+   */
+  async notifyScheduleRun(data: ScheduleRunData): Promise<void> {
+    await Promise.all(
+      this.scheduleCallbacks.map(async callback => {
+        try {
+          await callback.onScheduleRun(data);
+        } catch (error) {
+          console.error('Error in schedule callback:', error);
+        }
+      }),
+    );
+  }
+
+  /**
+   * Notify the price trigger callbacks of a fired trigger
+   */
+  async notifyPriceTrigger(data: PriceTriggerData): Promise<void> {
+    await Promise.all(
+      this.priceTriggerCallbacks.map(async callback => {
+        try {
+          await callback.onPriceTrigger(data);
+        } catch (error) {
+          console.error('Error in price trigger callback:', error);
+        }
+      }),
+    );
+  }
+
   /**
    * Register a tool execution callback
    * @param callback The callback to register
@@ -88,10 +142,11 @@ export class CallbackManager {
     const originalFunc = tool.func;
 
     // Create a wrapped function that notifies callbacks
-    const wrappedFunc = async function (
+    const notifyingFunc = async function (
       input: any,
       runManager?: CallbackManagerForToolRun,
       config?: RunnableConfig,
+      span?: Span,
     ): Promise<any> {
       const startTime = Date.now();
       const executionId = uuidv4();
@@ -125,6 +180,12 @@ export class CallbackManager {
         try {
           data = JSON.parse(output);
         } catch (error) {}
+        if (data?.transactionHash) {
+          span?.setAttribute(TelemetryAttributes.TX_HASH, data.transactionHash);
+        }
+        if (data?.status === 'error') {
+          span?.setStatus({ code: SpanStatusCode.ERROR, message: data.message });
+        }
 
         // Notify tool execution completed
         await manager.notifyToolExecution({
@@ -159,6 +220,16 @@ export class CallbackManager {
       }
     };
 
+    // Each call runs in a span nesting the spans of its providers and RPC requests
+    const wrappedFunc = (
+      input: any,
+      runManager?: CallbackManagerForToolRun,
+      config?: RunnableConfig,
+    ) =>
+      withSpan(`tool.${toolName}`, { [TelemetryAttributes.TOOL_NAME]: toolName }, span =>
+        notifyingFunc(input, runManager, config, span),
+      );
+
     // Create a new tool with the wrapped function
     return new DynamicStructuredTool({
       name: tool.name,
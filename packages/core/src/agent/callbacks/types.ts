@@ -1,4 +1,5 @@
 import { DynamicStructuredTool } from '@langchain/core/tools';
+import { PriceTriggerStatus, ScheduleRunStatus, UUID } from '../../types/database';
 
 /**
  * Represents the state of a tool execution
@@ -30,11 +31,36 @@ export interface HumanReviewData {
   input: any;
   data: any;
   timestamp: number;
+  threadId?: string;
+  /** Persisted review to approve or reject through the agent's review manager */
+  reviewId?: string;
+  /** When the review expires, in milliseconds */
+  expiresAt?: number;
 }
 
 export interface AskUserData {
   question: string;
   timestamp: number;
+  threadId?: string;
+}
+
+/**
+ * Run of a recurring schedule, e.g. a failed swap
+ */
+export interface ScheduleRunData {
+  scheduleId: UUID;
+  runId: UUID;
+  description: string;
+  toolName: string;
+  status: ScheduleRunStatus;
+  amount?: string | null;
+  output?: any;
+  error?: string | null;
+  /** Whether the schedule stopped after too many failed runs in a row */
+  stopped: boolean;
+  threadId?: string | null;
+  userId?: UUID | null;
+  timestamp: number;
 }
 
 /**
@@ -56,6 +82,30 @@ export interface IAskUserCallback {
   onAskUser(data: AskUserData): void | Promise<void>;
 }
 
+export interface IScheduleCallback {
+  onScheduleRun(data: ScheduleRunData): void | Promise<void>;
+}
+
+/**
+ * Price trigger that fired and the result of its swap
+ */
+export interface PriceTriggerData {
+  triggerId: UUID;
+  description: string;
+  status: Extract<PriceTriggerStatus, 'executed' | 'failed'>;
+  /** Price of the watched token that fired the trigger, in USD */
+  price: number;
+  output?: any;
+  error?: string | null;
+  threadId?: string | null;
+  userId?: UUID | null;
+  timestamp: number;
+}
+
+export interface IPriceTriggerCallback {
+  onPriceTrigger(data: PriceTriggerData): void | Promise<void>;
+}
+
 /**
  * Configuration for agent callbacks
  */
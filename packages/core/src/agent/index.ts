@@ -3,4 +3,7 @@ export * from './types';
 export * from './tools';
 export * from './callbacks';
 export * from './BaseAgent';
+export * from './RetryPolicy';
+export * from './ExecutionRecorder';
 export * from './planner/PlanningAgent';
+export * from './planner/SessionManager';
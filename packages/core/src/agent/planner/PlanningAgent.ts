@@ -1,18 +1,20 @@
 import { ChatOpenAI } from '@langchain/openai';
 import { AgentExecutor, createOpenAIToolsAgent } from 'langchain/agents';
-import { BaseMessage, HumanMessage, AIMessage, ToolMessage } from '@langchain/core/messages';
+import { BaseMessage, ToolMessage } from '@langchain/core/messages';
 import { ChatPromptTemplate, MessagesPlaceholder } from '@langchain/core/prompts';
 import { IWallet } from '../../wallet/types';
+import { runInWalletThread } from '../../wallet/threadContext';
 import { NetworkName, NetworksConfig } from '../../network/types';
 import { AgentConfig, AgentContext, AgentExecuteParams, AgentNodeTypes, IAgent } from '../types';
 import { CreatePlanTool, GetWalletAddressTool, ITool, UpdatePlanTool } from '../tools';
 import { Agent } from '../Agent';
 import { IPlugin } from '../../plugin/types';
 import { DatabaseAdapter } from '../../storage';
-import { MessageEntity } from '../../types';
+import { DatabaseCheckpointSaver } from '../../storage/DatabaseCheckpointSaver';
 import { EVM_NATIVE_TOKEN_ADDRESS, SOL_NATIVE_TOKEN_ADDRESS } from '../../network';
 import { CallbackManager, IToolExecutionCallback } from '../callbacks';
 import {
+  BaseCheckpointSaver,
   Command,
   CompiledStateGraph,
   END,
@@ -30,8 +32,11 @@ import { tool } from '@langchain/core/tools';
 import { z } from 'zod';
 import { cleanToolParameters, shouldBindTools } from './utils/llm';
 import { BasicQuestionGraph } from './graph/BasicQuestionGraph';
+import { AgentSession, SessionManager } from './SessionManager';
 import { threadId } from 'worker_threads';
 import { BaseModel } from '../../model/BaseModel';
+import { ModelNode } from '../../model/types';
+import { TelemetryAttributes, traceNode, withSpan } from '../../telemetry';
 
 const StateAnnotation = Annotation.Root({
   executor_input: Annotation<string>,
@@ -58,9 +63,8 @@ const StateAnnotation = Annotation.Root({
 export class PlanningAgent extends Agent {
   private workflow!: StateGraph<any, any, any, any, any, any>;
   public graph!: CompiledStateGraph<any, any, any, any, any, any>;
-  private _isAskUser = false;
-  private askUserTimeout: NodeJS.Timeout | null = null;
-  private _processedThreads: Set<string> = new Set();
+  private checkpointer!: BaseCheckpointSaver;
+  private sessions = new SessionManager(this.config.session);
   constructor(model: BaseModel, config: AgentConfig, wallet: IWallet, networks: NetworksConfig['networks']) {
     super(model, config, wallet, networks);
   }
@@ -70,24 +74,48 @@ export class PlanningAgent extends Agent {
     return [];
   }
 
-  public get isAskUser() {
-    return this._isAskUser;
+  async registerDatabase(database: DatabaseAdapter<any> | undefined): Promise<void> {
+    await super.registerDatabase(database);
+    // Recompile so checkpoints are stored in the database
+    if (this.graph) {
+      await this.createExecutor();
+    }
+  }
+
+  public getSession(threadId?: string): AgentSession {
+    return this.sessions.get(threadId);
+  }
+
+  /**
+   * Whether the thread waits for the user's answer
+   * @param threadId Defaults to the session of calls without a thread
+   */
+  public isAskUser(threadId?: string): boolean {
+    return this.sessions.get(threadId).isAskUser;
   }
 
-  public async setAskUser(_isAskUser: boolean) {
-    this._isAskUser = _isAskUser;
-    if (_isAskUser) {
-      this.askUserTimeout = setTimeout(() => {
-        this._isAskUser = false;
-      }, 60 * 1000);
+  /**
+   * Mark whether a thread waits for the user's answer, without a thread id the session of
+   * calls without a thread is updated
+   */
+  public setAskUser(isAskUser: boolean): Promise<void>;
+  public setAskUser(threadId: string | undefined, isAskUser: boolean): Promise<void>;
+  public async setAskUser(threadIdOrAskUser: string | boolean | undefined, isAskUser?: boolean) {
+    if (typeof threadIdOrAskUser === 'boolean') {
+      this.sessions.setAskUser(undefined, threadIdOrAskUser);
     } else {
-      if (this.askUserTimeout) {
-        clearTimeout(this.askUserTimeout);
-        this.askUserTimeout = null;
-      }
+      this.sessions.setAskUser(threadIdOrAskUser, isAskUser ?? false);
     }
   }
 
+  /**
+   * Drop a thread's session and checkpoints once its conversation is over
+   */
+  public async endSession(threadId: string): Promise<void> {
+    this.sessions.delete(threadId);
+    await this.deleteThreadCheckpoints(threadId);
+  }
+
   async supervisorNode(state: typeof StateAnnotation.State) {
     const supervisorPrompt = `You are a supervisor. You need to decide if the user's request is a blockchain execution or other. 
     NOTE: 
@@ -122,7 +150,7 @@ export class PlanningAgent extends Agent {
 
     const tools = [routerTool];
     let modelWithTools;
-    const langchainLLM = this.model.getLangChainLLM();
+    const langchainLLM = this.model.getLangChainLLM(ModelNode.SUPERVISOR);
     if (shouldBindTools(langchainLLM, tools)) {
       if (!('bindTools' in langchainLLM) || typeof langchainLLM.bindTools !== 'function') {
         throw new Error(`llm ${this.model} must define bindTools method.`);
@@ -216,14 +244,14 @@ export class PlanningAgent extends Agent {
     }
 
     const executorGraph = new ExecutorGraph({
-      model: this.model.getLangChainLLM(),
+      model: this.model.getLangChainLLM(ModelNode.EXECUTOR),
       executorPrompt,
       tools: executorTools,
       agent: this,
     }).create();
 
     const plannerGraph = new PlannerGraph({
-      model: this.model.getLangChainLLM(),
+      model: this.model.getLangChainLLM(ModelNode.PLANNER),
       createPlanPrompt: createPlanPrompt,
       updatePlanPrompt: updatePlanPrompt,
       activeTasksPrompt: '',
@@ -233,13 +261,13 @@ export class PlanningAgent extends Agent {
     }).create();
 
     const basicQuestionGraph = new BasicQuestionGraph({
-      model: this.model.getLangChainLLM(),
+      model: this.model.getLangChainLLM(ModelNode.BASIC_QUESTION),
       prompt: this.config.systemPrompt || '',
       tools: this.getRetrievalTools(),
     }).create();
 
     this.workflow = new StateGraph(StateAnnotation)
-      .addNode('supervisor', this.supervisorNode.bind(this))
+      .addNode('supervisor', traceNode('supervisor', this.supervisorNode.bind(this)))
       .addNode('basic_question', basicQuestionGraph)
       .addNode('planner', plannerGraph)
       .addNode('executor', executorGraph)
@@ -270,7 +298,7 @@ export class PlanningAgent extends Agent {
           ) {
             return END;
           } else if (state.ended_by === 'planner_answer' && !isLastActivePlanCompleted) {
-            this._isAskUser = false;
+            this.sessions.setAskUser(state.thread_id, false);
             return 'executor';
           } else {
             return 'executor';
@@ -290,7 +318,7 @@ export class PlanningAgent extends Agent {
           if (state.ended_by === 'other_action') {
             return 'supervisor';
           } else if (state.ended_by === 'reject_transaction' && isLastActivePlanRejected) {
-            this._isAskUser = false;
+            this.sessions.setAskUser(state.thread_id, false);
             return END;
           } else {
             return 'planner';
@@ -304,44 +332,51 @@ export class PlanningAgent extends Agent {
       )
       .addEdge('basic_question', END);
 
-    const checkpointer = new MemorySaver();
+    // Database checkpoints let another process resume a thread paused by an interrupt
+    this.checkpointer = this.db ? new DatabaseCheckpointSaver(this.db) : new MemorySaver();
 
-    this.graph = await this.workflow.compile({ checkpointer });
+    this.graph = await this.workflow.compile({ checkpointer: this.checkpointer });
 
     return this.graph;
   }
 
-  // Implementing the message persistence and history logic in the execute method
   async execute(
     commandOrParams: string | AgentExecuteParams,
     onStream?: (data: string) => void,
   ): Promise<any> {
-    if (typeof commandOrParams === 'string') {
-      commandOrParams = {
-        input: commandOrParams,
-        threadId: uuidv4(),
-      };
-    }
-
-    let isNewThread = false;
-    if (commandOrParams.threadId) {
-      isNewThread = !this._processedThreads.has(commandOrParams.threadId);
-      if (isNewThread) {
-        this._processedThreads.add(commandOrParams.threadId);
-      }
-    }
-
-    // Reset _isAskUser when set new thread
-    if (isNewThread) {
-      this._isAskUser = false;
-      // Cancel timer if it exists
-      if (this.askUserTimeout) {
-        clearTimeout(this.askUserTimeout);
-        this.askUserTimeout = null;
-      }
-    }
+    const params: AgentExecuteParams =
+      typeof commandOrParams === 'string'
+        ? { input: commandOrParams, threadId: uuidv4() }
+        : commandOrParams;
+
+    // Tools sign with the wallet account selected for this thread
+    return runInWalletThread(params.threadId, () =>
+      withSpan('agent.execute', { [TelemetryAttributes.USER_ID]: this.context?.user?.id }, () =>
+        this.executeThread(params, onStream),
+      ),
+    );
+  }
 
-    if (this._isAskUser && typeof commandOrParams !== 'string') {
+  // Implementing the message persistence and history logic in the execute method
+  protected async executeThread(
+    commandOrParams: AgentExecuteParams,
+    onStream?: (data: string) => void,
+  ): Promise<any> {
+    // A new thread starts with a fresh session, other threads keep their own state
+    const session = this.sessions.get(commandOrParams.threadId, this.context?.user?.id);
+    // Refused before any model call once the user's daily budget is spent
+    await this.getUsageTracker().checkBudget(this.context?.user?.id);
+    const callbacks = [
+      this.getUsageTracker().createHandler({
+        threadId: commandOrParams.threadId,
+        userId: this.context?.user?.id,
+      }),
+    ];
+
+    const isAwaitingUser =
+      session.isAskUser || (await this.isThreadInterrupted(commandOrParams.threadId));
+
+    if (isAwaitingUser && typeof commandOrParams !== 'string') {
       let result = '';
       if (onStream) {
         const eventStream = await this.graph.streamEvents(
@@ -363,6 +398,7 @@ export class PlanningAgent extends Agent {
             configurable: {
               thread_id: commandOrParams.threadId,
             },
+            callbacks,
           },
         );
 
@@ -387,6 +423,7 @@ export class PlanningAgent extends Agent {
               configurable: {
                 thread_id: commandOrParams.threadId,
               },
+              callbacks,
             },
           )
         ).answer;
@@ -404,32 +441,11 @@ export class PlanningAgent extends Agent {
 
       return result;
     }
-    let _history: MessageEntity[] = [];
-
-    // Ensure database is initialized before accessing
-    if (this.db) {
-      if (typeof commandOrParams === 'string') {
-        if (this.context?.user?.id) {
-          _history = await this.db.getMessagesByUserId(this.context.user.id);
-        } else {
-          console.warn('User ID is undefined, skipping history retrieval.');
-        }
-      } else {
-        if (commandOrParams?.threadId) {
-          _history = await this.db.getMessagesByThreadId(commandOrParams.threadId);
-        } else {
-          console.warn('Thread ID is undefined, skipping history retrieval.');
-        }
-      }
-    } else {
+    if (!this.db) {
       console.error('Database not initialized.');
     }
-
-    const history = _history.map((message: MessageEntity) =>
-      message?.message_type === 'human'
-        ? new HumanMessage(message?.content)
-        : new AIMessage(message?.content),
-    );
+    // Recent messages within the memory budget, older ones are summarized for the planner
+    const history = await this.loadHistory(commandOrParams);
 
     const input = typeof commandOrParams === 'string' ? commandOrParams : commandOrParams.input;
     const chat_history = history;
@@ -437,12 +453,13 @@ export class PlanningAgent extends Agent {
     let response = '';
     if (onStream) {
       const eventStream = await this.graph.streamEvents(
-        { input, chat_history, thread_id: commandOrParams.threadId },
+        { input, chat_history, thread_id: commandOrParams.threadId, plans: [] },
         {
           version: 'v2',
           configurable: {
             thread_id: commandOrParams.threadId,
           },
+          callbacks,
         },
       );
 
@@ -464,11 +481,13 @@ export class PlanningAgent extends Agent {
             input,
             chat_history: history,
             thread_id: commandOrParams.threadId,
+            plans: [],
           },
           {
             configurable: {
               thread_id: commandOrParams.threadId,
             },
+            callbacks,
           },
         )
       ).answer;
@@ -498,11 +517,45 @@ export class PlanningAgent extends Agent {
 
     //TODO: check this code. we will remove this code after testing
     //RESET DATA
-    if (!this._isAskUser && response.length > 0) {
-      await this.createExecutor();
+    // The stored interrupt also counts, the question may have been asked by another instance
+    const isAwaitingAnswer =
+      session.isAskUser || (await this.isThreadInterrupted(commandOrParams.threadId));
+    if (!isAwaitingAnswer && response.length > 0) {
+      this.sessions.reset(commandOrParams.threadId);
+      if (commandOrParams.threadId) {
+        await this.deleteThreadCheckpoints(commandOrParams.threadId);
+      }
     }
     return response;
   }
+
+  /**
+   * Whether the thread's stored checkpoint is paused on an ask_user or human review interrupt
+   */
+  private async isThreadInterrupted(threadId?: string): Promise<boolean> {
+    if (!threadId || !(this.checkpointer instanceof DatabaseCheckpointSaver)) {
+      return false;
+    }
+    const snapshot = await this.graph.getState({ configurable: { thread_id: threadId } });
+    return snapshot.tasks.some(task => task.interrupts.length > 0);
+  }
+
+  /**
+   * Clear a single thread from the checkpointer, the graph keeps serving the other threads
+   */
+  private async deleteThreadCheckpoints(threadId: string): Promise<void> {
+    if (this.checkpointer instanceof DatabaseCheckpointSaver) {
+      await this.checkpointer.deleteThread(threadId);
+    } else if (this.checkpointer instanceof MemorySaver) {
+      delete this.checkpointer.storage[threadId];
+      // Pending writes are keyed by JSON [thread_id, checkpoint_ns, checkpoint_id]
+      for (const key of Object.keys(this.checkpointer.writes)) {
+        if (JSON.parse(key)[0] === threadId) {
+          delete this.checkpointer.writes[key];
+        }
+      }
+    }
+  }
 }
 function uuidv4(): `${string}-${string}-${string}-${string}-${string}` | undefined {
   throw new Error('Function not implemented.');
@@ -0,0 +1,118 @@
+/** How long a pending question waits for the user before new input starts a new request */
+const ASK_USER_TIMEOUT = 60 * 1000;
+
+/** How long a session is kept once its thread stops being used */
+const SESSION_TTL = 60 * 60 * 1000;
+
+/** Key of the session used when a request has no thread id */
+const DEFAULT_THREAD_ID = 'default';
+
+/**
+ * Conversation state of one thread, so concurrent conversations on a single agent
+ * don't share their ask-user state. Plans and pending interrupts live in the thread's
+ * checkpoints, so a thread resumes on any instance sharing the checkpointer
+ */
+export interface AgentSession {
+  threadId: string;
+  userId?: string;
+  /** The thread is paused on an ask_user or human review interrupt */
+  isAskUser: boolean;
+  askUserTimeout: NodeJS.Timeout | null;
+  lastActiveAt: number;
+}
+
+export interface SessionManagerConfig {
+  /** Milliseconds an idle session is kept before it is evicted (defaults to 1 hour) */
+  ttl?: number;
+}
+
+export class SessionManager {
+  private sessions = new Map<string, AgentSession>();
+  private readonly ttl: number;
+
+  constructor(config: SessionManagerConfig = {}) {
+    this.ttl = config.ttl ?? SESSION_TTL;
+  }
+
+  has(threadId?: string): boolean {
+    this.evictIdle();
+    return this.sessions.has(threadId ?? DEFAULT_THREAD_ID);
+  }
+
+  /**
+   * Get the session of a thread, creating it on first use.
+   * A thread can only be continued by the user who started it
+   */
+  get(threadId?: string, userId?: string): AgentSession {
+    this.evictIdle();
+    const key = threadId ?? DEFAULT_THREAD_ID;
+    let session = this.sessions.get(key);
+    if (!session) {
+      session = {
+        threadId: key,
+        userId,
+        isAskUser: false,
+        askUserTimeout: null,
+        lastActiveAt: Date.now(),
+      };
+      this.sessions.set(key, session);
+    } else if (userId && session.userId && session.userId !== userId) {
+      throw new Error(`Thread ${key} belongs to another user`);
+    } else {
+      session.userId ??= userId;
+      session.lastActiveAt = Date.now();
+    }
+    return session;
+  }
+
+  setAskUser(threadId: string | undefined, isAskUser: boolean): void {
+    const session = this.get(threadId);
+    this.clearAskUserTimeout(session);
+    session.isAskUser = isAskUser;
+    if (isAskUser) {
+      session.askUserTimeout = setTimeout(() => {
+        session.isAskUser = false;
+        session.askUserTimeout = null;
+      }, ASK_USER_TIMEOUT);
+    }
+  }
+
+  /**
+   * Forget the pending question of a finished request
+   */
+  reset(threadId?: string): void {
+    const session = this.get(threadId);
+    this.clearAskUserTimeout(session);
+    session.isAskUser = false;
+  }
+
+  delete(threadId?: string): boolean {
+    const key = threadId ?? DEFAULT_THREAD_ID;
+    const session = this.sessions.get(key);
+    if (session) {
+      this.clearAskUserTimeout(session);
+    }
+    return this.sessions.delete(key);
+  }
+
+  /**
+   * Drop the sessions of threads unused for longer than the ttl, so finished and abandoned
+   * conversations don't accumulate
+   */
+  private evictIdle(): void {
+    const now = Date.now();
+    for (const [key, session] of this.sessions) {
+      if (now - session.lastActiveAt > this.ttl) {
+        this.clearAskUserTimeout(session);
+        this.sessions.delete(key);
+      }
+    }
+  }
+
+  private clearAskUserTimeout(session: AgentSession): void {
+    if (session.askUserTimeout) {
+      clearTimeout(session.askUserTimeout);
+      session.askUserTimeout = null;
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import { AIMessage, BaseMessage } from '@langchain/core/messages';
+import { Annotation, Command, END, MemorySaver, START, StateGraph } from '@langchain/langgraph';
+import { ReviewManager } from '../../../review';
+import { ExecutorGraph } from '../graph/ExecutorGraph';
+
+const TestState = Annotation.Root({
+  messages: Annotation<BaseMessage[]>({
+    reducer: (x, y) => x.concat(y),
+  }),
+  plans: Annotation<any[]>,
+  active_plan_id: Annotation<string>,
+  thread_id: Annotation<string>,
+  executor_input: Annotation<string>,
+  reject_transaction: Annotation<boolean>,
+  ended_by: Annotation<string>,
+  interrupted_request: Annotation<string>,
+  executed: Annotation<boolean>,
+});
+
+function createTool(name: string) {
+  return {
+    getName: () => name,
+    sendsTransactions: () => true,
+    simulateQuoteTool: async (args: any) => ({ ...args, quoted: true }),
+    onReviewApproved: jest.fn(),
+  };
+}
+
+describe('ExecutorGraph review', () => {
+  const config = { configurable: { thread_id: 'thread-1' } };
+  let reviews: ReviewManager;
+  let agent: any;
+
+  const message = new AIMessage({
+    content: '',
+    tool_calls: [
+      { id: 'call-1', name: 'swap', args: { network: 'bnb', amount: '1' } },
+      { id: 'call-2', name: 'transfer', args: { network: 'bnb', amount: '2' } },
+    ],
+  });
+
+  // The review node between stand-ins of the executor nodes it routes to
+  function createGraph() {
+    const executor = new ExecutorGraph({
+      model: {} as any,
+      executorPrompt: '',
+      tools: [],
+      agent,
+    });
+    return new StateGraph(TestState)
+      .addNode('review_transaction', state => executor.reviewTransactionNode(state as any), {
+        ends: ['executor_tools', 'executor_agent', 'executor_terminate'],
+      })
+      .addNode('executor_tools', () => ({ executed: true }))
+      .addNode('executor_agent', () => ({}))
+      .addNode('executor_terminate', () => ({}))
+      .addEdge(START, 'review_transaction')
+      .addEdge('executor_tools', END)
+      .addEdge('executor_agent', END)
+      .addEdge('executor_terminate', END)
+      .compile({ checkpointer: new MemorySaver() });
+  }
+
+  beforeEach(() => {
+    reviews = new ReviewManager();
+    const tools = [createTool('swap'), createTool('transfer')];
+    agent = {
+      config: { isHumanReview: true },
+      getRegisteredTools: () => tools,
+      getReviewManager: () => reviews,
+      getContext: () => ({}),
+      isAskUser: jest.fn(() => false),
+      setAskUser: jest.fn(),
+      notifyHumanReview: jest.fn(),
+      getExecutionRecorder: () => ({ recordPlans: jest.fn() }),
+    };
+  });
+
+  it('should review every call of a message before running the tools', async () => {
+    const graph = createGraph();
+
+    let state = await graph.invoke(
+      { messages: [message], thread_id: 'thread-1', plans: [] },
+      config,
+    );
+    expect(state.executed).toBeUndefined();
+    expect(agent.notifyHumanReview).toHaveBeenCalledTimes(1);
+
+    state = await graph.invoke(new Command({ resume: { action: 'approve' } }), config);
+    expect(state.executed).toBeUndefined();
+    expect(agent.notifyHumanReview).toHaveBeenCalledTimes(2);
+    expect(agent.notifyHumanReview.mock.calls[1][0]).toMatchObject({ toolName: 'transfer' });
+
+    state = await graph.invoke(new Command({ resume: { action: 'approve' } }), config);
+    expect(state.executed).toBe(true);
+    expect(agent.notifyHumanReview).toHaveBeenCalledTimes(2);
+
+    const stored = await reviews.list({ threadId: 'thread-1' });
+    expect(stored.map(({ tool_call_id, status }) => [tool_call_id, status]).sort()).toEqual([
+      ['call-1', 'approved'],
+      ['call-2', 'approved'],
+    ]);
+  });
+
+  it('should not run any call when a later call is rejected', async () => {
+    const graph = createGraph();
+
+    await graph.invoke({ messages: [message], thread_id: 'thread-1', plans: [] }, config);
+    await graph.invoke(new Command({ resume: { action: 'approve' } }), config);
+    const state = await graph.invoke(new Command({ resume: { action: 'reject' } }), config);
+
+    expect(state.executed).toBeUndefined();
+    expect(state.reject_transaction).toBe(true);
+    const [transfer] = await reviews.list({ threadId: 'thread-1', toolCallId: 'call-2' });
+    expect(transfer.status).toBe('rejected');
+  });
+});
@@ -0,0 +1,44 @@
+import { PlannerGraph } from '../graph/PlannerGraph';
+
+describe('PlannerGraph', () => {
+  const plan = {
+    plan_id: 'plan-1',
+    title: 'Swap',
+    status: 'pending',
+    tasks: [{ index: 0, title: 'Swap BNB to USDT', status: 'pending' }],
+  };
+
+  // A graph built by another instance than the one that started the thread
+  const createGraph = () =>
+    new PlannerGraph({
+      model: {} as any,
+      createPlanPrompt: '',
+      updatePlanPrompt: '',
+      activeTasksPrompt: '',
+      answerPrompt: '',
+      listToolsPrompt: '',
+      agent: {} as any,
+    });
+
+  it('should create a plan for a new request', () => {
+    expect(
+      createGraph().shouldCreateOrUpdatePlan({ thread_id: 'thread-1', plans: [] } as any),
+    ).toBe('create_plan');
+  });
+
+  it('should update the checkpointed plan of a resumed thread', () => {
+    const state = { thread_id: 'thread-1', plans: [plan], active_plan_id: 'plan-1' };
+
+    expect(createGraph().shouldCreateOrUpdatePlan(state as any)).toBe('update_plan');
+  });
+
+  it('should create a new plan once the active plan is rejected', () => {
+    const state = {
+      thread_id: 'thread-1',
+      plans: [{ ...plan, status: 'rejected' }],
+      active_plan_id: 'plan-1',
+    };
+
+    expect(createGraph().shouldCreateOrUpdatePlan(state as any)).toBe('create_plan');
+  });
+});
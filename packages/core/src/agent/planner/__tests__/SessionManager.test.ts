@@ -0,0 +1,73 @@
+import { SessionManager } from '../SessionManager';
+
+describe('SessionManager', () => {
+  let sessions: SessionManager;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    sessions = new SessionManager();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should keep the ask-user state of each thread separate', () => {
+    sessions.get('thread-1', 'alice');
+    sessions.get('thread-2', 'bob');
+
+    sessions.setAskUser('thread-1', true);
+
+    expect(sessions.get('thread-1').isAskUser).toBe(true);
+    expect(sessions.get('thread-2').isAskUser).toBe(false);
+
+    sessions.setAskUser('thread-2', false);
+    expect(sessions.get('thread-1').isAskUser).toBe(true);
+  });
+
+  it('should expire a pending question after its timeout', () => {
+    sessions.setAskUser('thread-1', true);
+    jest.advanceTimersByTime(30 * 1000);
+    sessions.setAskUser('thread-2', true);
+    jest.advanceTimersByTime(30 * 1000);
+
+    expect(sessions.get('thread-1').isAskUser).toBe(false);
+    expect(sessions.get('thread-2').isAskUser).toBe(true);
+  });
+
+  it('should reset the pending question of a thread without affecting others', () => {
+    sessions.setAskUser('thread-1', true);
+    sessions.setAskUser('thread-2', true);
+
+    sessions.reset('thread-1');
+
+    expect(sessions.get('thread-1').isAskUser).toBe(false);
+    expect(sessions.get('thread-2').isAskUser).toBe(true);
+    expect(jest.getTimerCount()).toBe(1);
+  });
+
+  it('should evict the sessions of idle threads', () => {
+    sessions = new SessionManager({ ttl: 10 * 60 * 1000 });
+    sessions.get('thread-1', 'alice');
+    sessions.get('thread-2', 'bob');
+
+    jest.advanceTimersByTime(6 * 60 * 1000);
+    sessions.get('thread-2');
+    jest.advanceTimersByTime(6 * 60 * 1000);
+
+    expect(sessions.has('thread-1')).toBe(false);
+    expect(sessions.has('thread-2')).toBe(true);
+    // The evicted thread starts over with a new owner
+    expect(sessions.get('thread-1', 'bob').userId).toBe('bob');
+  });
+
+  it('should refuse a thread started by another user', () => {
+    sessions.get('thread-1', 'alice');
+
+    expect(() => sessions.get('thread-1', 'bob')).toThrow('another user');
+    expect(sessions.get('thread-1').userId).toBe('alice');
+
+    expect(sessions.delete('thread-1')).toBe(true);
+    expect(sessions.has('thread-1')).toBe(false);
+  });
+});
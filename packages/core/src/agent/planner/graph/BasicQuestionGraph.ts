@@ -9,6 +9,7 @@ import { convertToOpenAITool } from '@langchain/core/utils/function_calling';
 import { shouldBindTools } from '../utils/llm';
 import { DynamicStructuredTool, tool } from '@langchain/core/tools';
 import { z } from 'zod';
+import { traceNode } from '../../../telemetry';
 
 const createToolCallId = () => {
   // random 5 characters
@@ -118,7 +119,7 @@ export class BasicQuestionGraph {
 
   create() {
     const executorGraph = new StateGraph(StateAnnotation)
-      .addNode('agent', this.agentNode.bind(this))
+      .addNode('agent', traceNode('basic_question.agent', this.agentNode.bind(this)))
       .addNode('tools', new ToolNode(this.tools))
       .addEdge(START, 'agent')
       .addConditionalEdges('agent', this.routeAfterAgent, {
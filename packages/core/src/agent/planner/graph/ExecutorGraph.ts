@@ -18,7 +18,10 @@ import { z } from 'zod';
 import { AskTool } from '../tools/AskTool';
 import { BaseAgent } from '../../BaseAgent';
 import { PlanningAgent } from '../PlanningAgent';
+import { UUID } from '../../../types';
+import { ITool } from '../../tools';
 import { set } from 'lodash';
+import { traceNode } from '../../../telemetry';
 
 const createToolCallId = () => {
   // random 5 characters
@@ -54,7 +57,6 @@ export class ExecutorGraph {
   private executorPrompt: string;
   private tools: DynamicStructuredTool[];
   private agent: PlanningAgent;
-  private _processedThreads: Set<string> = new Set();
 
   private logToolExecution(
     toolName: string,
@@ -98,10 +100,6 @@ export class ExecutorGraph {
       return 'end';
     }
 
-    if (state.thread_id && !this._processedThreads.has(state.thread_id)) {
-      return 'executor_terminate';
-    }
-
     if (lastMessage?.tool_calls?.length && lastMessage?.tool_calls[0]?.name === 'terminate') {
       return 'executor_terminate';
     }
@@ -113,7 +111,7 @@ export class ExecutorGraph {
     if (lastMessage?.tool_calls?.length && this.agent.config.isHumanReview) {
       for (const toolCall of lastMessage?.tool_calls) {
         const tool = this.agent.getRegisteredTools().find(t => t.getName() === toolCall?.name);
-        if ((tool as any)?.simulateQuoteTool) {
+        if (this.isReviewable(tool)) {
           return 'review_transaction';
         }
       }
@@ -158,17 +156,16 @@ export class ExecutorGraph {
     const askTool = new AskTool();
     const wrappedAskTool = this.agent.addTool2CallbackManager(askTool);
 
-    if (state.thread_id && !this._processedThreads.has(state.thread_id)) {
-      this._processedThreads.add(state.thread_id);
-    }
+    // Tools of the plugins disabled on this thread are left out
+    const tools = this.tools.filter(t => this.agent.isToolEnabled(t.name, state.thread_id));
 
     let modelWithTools;
-    if (shouldBindTools(this.model, this.tools)) {
+    if (shouldBindTools(this.model, tools)) {
       if (!('bindTools' in this.model) || typeof this.model.bindTools !== 'function') {
         throw new Error(`llm ${this.model} must define bindTools method.`);
       }
       modelWithTools = this.model.bind({
-        tools: [...this.tools, terminateTool, wrappedAskTool].map(t => convertToOpenAITool(t)),
+        tools: [...tools, terminateTool, wrappedAskTool].map(t => convertToOpenAITool(t)),
         tool_choice: 'required',
       } as any);
     } else {
@@ -303,15 +300,16 @@ export class ExecutorGraph {
     const question = lastMessage.tool_calls?.[0]?.args?.question ?? '';
 
     // Set ask user state and use interrupt
-    if (!this.agent.isAskUser) {
-      this.agent.setAskUser(true);
+    if (!this.agent.isAskUser(state.thread_id)) {
+      this.agent.setAskUser(state.thread_id, true);
       this.agent.notifyAskUser({
         question,
         timestamp: Date.now(),
+        threadId: state.thread_id,
       });
     }
     const userMessage = interrupt({ question });
-    this.agent.setAskUser(false);
+    this.agent.setAskUser(state.thread_id, false);
 
     // Log completion with the response data
     this.logToolExecution('ask_user', 'completed', {
@@ -346,10 +344,11 @@ export class ExecutorGraph {
     for (const toolCall of toolCalls) {
       const tool = this.agent.getRegisteredTools().find(t => t.getName() === toolCall?.name);
 
-      if ((tool as any)?.simulateQuoteTool) {
+      if (this.isReviewable(tool)) {
+        // Tools without a quote are reviewed from their arguments
         let quote;
         try {
-          quote = await (tool as any).simulateQuoteTool(toolCall.args);
+          quote = await tool.simulateQuoteTool?.(toolCall.args);
         } catch (e: any) {
           console.error('Error when simulate quote', e);
           const toolMessage = new ToolMessage({
@@ -360,6 +359,32 @@ export class ExecutorGraph {
           return new Command({ goto: 'executor_agent', update: { messages: [toolMessage] } });
         }
 
+        // The node runs again when the thread resumes, the review created before the interrupt is reused
+        const reviews = this.agent.getReviewManager();
+        let [review] = toolCall.id
+          ? await reviews.list({ threadId: state.thread_id, toolCallId: toolCall.id, limit: 1 })
+          : [];
+        const isNewReview = !review;
+        if (!review) {
+          const assessment = await reviews.assess(toolCall.name, toolCall.args, quote);
+          if (!assessment.required) {
+            this.logToolExecution('review_transaction', 'completed', {
+              status: 'skipped',
+              reason: 'Not required by the review policy',
+            });
+            continue;
+          }
+          review = await reviews.create({
+            threadId: state.thread_id,
+            toolCallId: toolCall.id,
+            userId: this.agent.getContext().user?.id,
+            toolName: toolCall.name,
+            input: toolCall.args,
+            quote,
+            assessment,
+          });
+        }
+
         // Before human review
         this.logToolExecution('human_review', 'started', {
           question: `I need you to review the transaction and approve it or reject it or 
@@ -367,27 +392,43 @@ export class ExecutorGraph {
           quote: !!quote,
         });
 
-        if (!this.agent.isAskUser) {
-          this.agent.setAskUser(true);
+        // Each review is notified once, earlier reviews of the message are met again on resume
+        if (isNewReview) {
+          this.agent.setAskUser(state.thread_id, true);
           this.agent.notifyHumanReview({
             toolName: toolCall.name,
             input: toolCall.args,
             data: quote,
             timestamp: Date.now(),
+            threadId: state.thread_id,
+            reviewId: review.id,
+            expiresAt: review.expires_at,
           });
         }
 
         const humanReview = interrupt<
-          { question: string; quote: any },
+          { question: string; quote: any; reviewId: string },
           { action?: string; input?: string }
         >({
           question: `I need you to review the transaction and approve it or reject it or 
           if you want to update the transaction, please update the parameters and quote`,
           quote: quote,
+          reviewId: review.id,
         });
 
+        // A decision made through the review manager wins over the resume value
+        const stored = (await reviews.get(review.id)) ?? review;
+        if (stored.status === 'pending' && reviews.isExpired(stored)) {
+          await reviews.expire(review.id);
+          humanReview.action = 'reject';
+          humanReview.input = undefined;
+        } else if (stored.status !== 'pending') {
+          humanReview.action = stored.status === 'approved' ? 'approve' : 'reject';
+          humanReview.input = undefined;
+        }
+
         if (humanReview.input) {
-          this.agent.setAskUser(false);
+          this.agent.setAskUser(state.thread_id, false);
 
           //TODO: use model to detect if the human review is approve or reject
           if (!this.model.withStructuredOutput) {
@@ -436,12 +477,18 @@ export class ExecutorGraph {
           // If no input and action is not set, default to reject
           humanReview.action = 'reject';
         }
+        if (!['approve', 'reject', 'update', 'other'].includes(humanReview.action!)) {
+          humanReview.action = 'reject';
+        }
+        await this.recordReview(review.id, humanReview.action!, humanReview.input);
 
         if (humanReview.action === 'approve') {
+          tool?.onReviewApproved?.(toolCall.args);
           this.logToolExecution('review_transaction', 'completed', {
             status: 'approved',
           });
-          return new Command({ goto: 'executor_tools' });
+          // The other calls of the message are reviewed before any of them runs
+          continue;
         } else if (humanReview.action === 'reject') {
           this.logToolExecution('review_transaction', 'completed', {
             status: 'rejected',
@@ -450,6 +497,7 @@ export class ExecutorGraph {
 
           if (currentPlan) {
             currentPlan.status = 'rejected';
+            await this.agent.getExecutionRecorder().recordPlans(state.thread_id, [currentPlan]);
             return new Command({
               goto: 'executor_terminate',
               update: {
@@ -520,6 +568,7 @@ export class ExecutorGraph {
 
           if (currentPlan) {
             currentPlan.status = 'rejected';
+            await this.agent.getExecutionRecorder().recordPlans(state.thread_id, [currentPlan]);
             return new Command({
               goto: 'executor_terminate',
               update: {
@@ -539,25 +588,56 @@ export class ExecutorGraph {
             },
           });
         }
+      }
+    }
 
-        this.logToolExecution('review_transaction', 'completed', {
-          status: 'No simulateQuoteTool found',
-        });
+    // Every call of the message needing a review was approved
+    return new Command({ goto: 'executor_tools' });
+  }
 
-        return new Command({ goto: 'executor_tools' });
-      }
+  /**
+   * Calls of tools sending transactions or showing a quote to sign go through the review step
+   */
+  private isReviewable(tool?: ITool): tool is ITool {
+    return !!tool && (!!tool.sendsTransactions?.() || !!tool.simulateQuoteTool);
+  }
+
+  /**
+   * Record the reviewer's decision, unless the review was already decided through the review manager
+   */
+  private async recordReview(reviewId: UUID, action: string, input?: string) {
+    const reviews = this.agent.getReviewManager();
+    const review = await reviews.get(reviewId);
+    if (review?.status !== 'pending') return;
+
+    const options = { decidedBy: this.agent.getContext().user?.id, reason: input };
+    if (action === 'approve') {
+      await reviews.approve(reviewId, options);
+    } else {
+      // Updates and other requests reject this call, an updated call gets its own review
+      await reviews.reject(reviewId, options);
     }
   }
 
   create() {
     const executorGraph = new StateGraph(StateAnnotation)
-      .addNode('executor_agent', this.executorAgentNode.bind(this))
+      .addNode(
+        'executor_agent',
+        traceNode('executor.executor_agent', this.executorAgentNode.bind(this)),
+      )
       .addNode('executor_tools', new ToolNode(this.tools))
-      .addNode('executor_terminate', this.executorTerminateNode.bind(this))
-      .addNode('ask_user', this.askNode.bind(this))
-      .addNode('review_transaction', this.reviewTransactionNode.bind(this), {
-        ends: ['executor_tools', 'executor_agent'],
-      })
+      .addNode(
+        'executor_terminate',
+        traceNode('executor.executor_terminate', this.executorTerminateNode.bind(this)),
+      )
+      .addNode('ask_user', traceNode('executor.ask_user', this.askNode.bind(this)))
+      .addNode(
+        'review_transaction',
+        traceNode('executor.review_transaction', this.reviewTransactionNode.bind(this)),
+        {
+          ends: ['executor_tools', 'executor_agent'],
+        },
+      )
       .addNode('end', () => {
         return {};
       })
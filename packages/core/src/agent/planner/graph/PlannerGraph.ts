@@ -10,6 +10,7 @@ import { BaseAgent } from '../../BaseAgent';
 import { UpdatePlanTool } from '../tools/UpdatePlanTool';
 import { SelectTasksTool } from '../tools/SelectTasksTool';
 import { TerminateTool } from '../tools/TerminateTool';
+import { traceNode } from '../../../telemetry';
 
 const StateAnnotation = Annotation.Root({
   executor_input: Annotation<string>,
@@ -42,7 +43,6 @@ export class PlannerGraph {
   private listToolsPrompt: string;
   private agent: BaseAgent;
   private answerPrompt: string;
-  private _processedThreads: Set<string> = new Set();
   constructor({
     model,
     createPlanPrompt,
@@ -263,13 +263,7 @@ export class PlannerGraph {
   }
 
   shouldCreateOrUpdatePlan(state: typeof StateAnnotation.State): string {
-    // Check for new thread first
-    if (state.thread_id && this._processedThreads && !this._processedThreads.has(state.thread_id)) {
-      this._processedThreads.add(state.thread_id);
-      return 'create_plan';
-    }
-
-    // Check if no plans exist
+    // Check if no plans exist, a new request starts without the plans of the previous one
     if (!state?.plans?.length) {
       return 'create_plan';
     }
@@ -322,10 +316,10 @@ export class PlannerGraph {
 
   create() {
     const plannerGraph = new StateGraph(StateAnnotation)
-      .addNode('create_plan', this.createPlanNode.bind(this))
-      .addNode('update_plan', this.updatePlanNode.bind(this))
-      .addNode('select_tasks', this.selectTasksNode.bind(this))
-      .addNode('planning_answer', this.answerNode.bind(this))
+      .addNode('create_plan', traceNode('planner.create_plan', this.createPlanNode.bind(this)))
+      .addNode('update_plan', traceNode('planner.update_plan', this.updatePlanNode.bind(this)))
+      .addNode('select_tasks', traceNode('planner.select_tasks', this.selectTasksNode.bind(this)))
+      .addNode('planning_answer', traceNode('planner.planning_answer', this.answerNode.bind(this)))
       .addNode('end', () => {
         return {};
       })
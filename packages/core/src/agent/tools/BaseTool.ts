@@ -1,7 +1,16 @@
 import { DynamicStructuredTool, DynamicStructuredToolInput } from '@langchain/core/tools';
 import { z } from 'zod';
 import { IAgent, AgentNodeTypes } from '../types';
-import { CustomDynamicStructuredTool, ITool, IToolConfig } from './types';
+import {
+  CustomDynamicStructuredTool,
+  DryRunResult,
+  DryRunSimulation,
+  DryRunStatus,
+  DryRunTransaction,
+  ITool,
+  IToolConfig,
+} from './types';
+import { NetworkName } from '../../network/types';
 import {
   StructuredError,
   createStructuredError,
@@ -28,6 +37,13 @@ export abstract class BaseTool implements ITool {
     this.agent = agent;
   }
 
+  /**
+   * Whether the tool may send transactions, tools sending transactions override it
+   */
+  sendsTransactions(): boolean {
+    return false;
+  }
+
   protected getToolType(): ToolType {
     const name = this.getName();
 
@@ -140,5 +156,57 @@ export abstract class BaseTool implements ITool {
     return this.formatErrorResponse(structuredError, args);
   }
 
+  /**
+   * Simulate the transactions built by the tool instead of broadcasting them.
+   * Used when the agent runs in dry-run mode.
+   */
+  protected async simulateTransactions(
+    network: NetworkName,
+    transactions: DryRunTransaction[],
+  ): Promise<DryRunResult> {
+    // Later steps are simulated with the changes of the earlier ones, an approval or a wrap
+    const results = await this.agent.getWallet().simulateTransactions(
+      network,
+      transactions.map(({ transaction }) => transaction),
+    );
+    const simulations: DryRunSimulation[] = results.map((simulation, index) => ({
+      step: transactions[index].step,
+      status: simulation.success
+        ? 'success'
+        : simulation.dependsOnPrevious
+          ? 'unverified'
+          : 'failed',
+      ...simulation,
+    }));
+    const status: DryRunStatus = simulations.some(simulation => simulation.status === 'failed')
+      ? 'failed'
+      : simulations.some(simulation => simulation.status === 'unverified')
+        ? 'unverified'
+        : 'success';
+
+    const balanceChanges = new Map<string, bigint>();
+    for (const simulation of simulations) {
+      for (const change of simulation.balanceChanges) {
+        balanceChanges.set(
+          change.token,
+          (balanceChanges.get(change.token) ?? BigInt(0)) + BigInt(change.amount),
+        );
+      }
+    }
+
+    return {
+      success: status === 'unverified' ? undefined : status === 'success',
+      status,
+      simulations,
+      totalFee: simulations
+        .reduce((total, simulation) => total + BigInt(simulation.fee ?? 0), BigInt(0))
+        .toString(),
+      balanceChanges: Array.from(balanceChanges.entries()).map(([token, amount]) => ({
+        token,
+        amount: amount.toString(),
+      })),
+    };
+  }
+
   abstract mockResponseTool(args: any): Promise<string>;
 }
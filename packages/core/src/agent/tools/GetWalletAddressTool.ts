@@ -4,6 +4,7 @@ import { IToolConfig } from './types';
 import { BaseTool } from './BaseTool';
 import { createNetworkSchema } from './schemas';
 import { CustomDynamicStructuredTool } from './types';
+import { isMultiAccountWallet } from '../../wallet/HDWallet';
 export class GetWalletAddressTool extends BaseTool {
   getName(): string {
     return 'get_wallet_address';
@@ -11,7 +12,7 @@ export class GetWalletAddressTool extends BaseTool {
 
   getDescription(): string {
     const networks = Object.keys(this.agent.getNetworks()).join(', ');
-    return `Get the wallet address for a specific network. Available networks: ${networks}`;
+    return `Get the wallet address for a specific network, and the index of the active account when the wallet holds several. Available networks: ${networks}`;
   }
 
   getSchema(): z.ZodObject<any> {
@@ -37,7 +38,17 @@ export class GetWalletAddressTool extends BaseTool {
         if (this.agent.isMockResponseTool()) {
           return this.mockResponseTool({ network });
         }
-        return await this.agent.getWallet().getAddress(network);
+        const wallet = this.agent.getWallet();
+        const address = await wallet.getAddress(network);
+        if (!isMultiAccountWallet(wallet)) {
+          return address;
+        }
+        // Multi-account wallets also report which account is active
+        return JSON.stringify({
+          network,
+          address,
+          accountIndex: wallet.getActiveAccount().index,
+        });
       },
     });
   }
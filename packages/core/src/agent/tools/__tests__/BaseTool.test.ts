@@ -0,0 +1,75 @@
+import { z } from 'zod';
+import { NetworkName } from '../../../network/types';
+import { SimulationResult } from '../../../wallet/types';
+import { BaseTool } from '../BaseTool';
+import { DryRunTransaction } from '../types';
+
+class DryRunTool extends BaseTool {
+  getName() {
+    return 'dry_run';
+  }
+  getDescription() {
+    return '';
+  }
+  getSchema() {
+    return z.object({});
+  }
+  createTool(): any {
+    return undefined;
+  }
+  async mockResponseTool() {
+    return '';
+  }
+  simulate(transactions: DryRunTransaction[]) {
+    return this.simulateTransactions(NetworkName.BNB, transactions);
+  }
+}
+
+describe('BaseTool', () => {
+  const transactions: DryRunTransaction[] = [
+    { step: 'approve', transaction: { to: '0x1', data: '0x', value: BigInt(0) } },
+    { step: 'swap', transaction: { to: '0x2', data: '0x', value: BigInt(0) } },
+  ];
+
+  const createTool = (results: Partial<SimulationResult>[]) => {
+    const tool = new DryRunTool({});
+    tool.setAgent({
+      getWallet: () => ({
+        simulateTransactions: async () =>
+          results.map(result => ({
+            network: NetworkName.BNB,
+            success: true,
+            balanceChanges: [],
+            ...result,
+          })),
+      }),
+    } as any);
+    return tool;
+  };
+
+  it('should succeed when every step succeeded', async () => {
+    const result = await createTool([{ fee: '1' }, { fee: '2' }]).simulate(transactions);
+
+    expect(result).toMatchObject({ success: true, status: 'success', totalFee: '3' });
+  });
+
+  it('should report a step depending on an unapplied previous step as unverified', async () => {
+    const result = await createTool([
+      {},
+      { success: false, dependsOnPrevious: true, error: 'insufficient allowance' },
+    ]).simulate(transactions);
+
+    expect(result.success).toBeUndefined();
+    expect(result.status).toBe('unverified');
+    expect(result.simulations.map(({ status }) => status)).toEqual(['success', 'unverified']);
+  });
+
+  it('should fail when a step failed on its own', async () => {
+    const result = await createTool([
+      { success: false, error: 'reverted' },
+      { success: false, dependsOnPrevious: true },
+    ]).simulate(transactions);
+
+    expect(result).toMatchObject({ success: false, status: 'failed' });
+  });
+});
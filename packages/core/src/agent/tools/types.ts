@@ -3,6 +3,7 @@ import { z } from 'zod';
 import { AgentNodeTypes, IAgent } from '../types';
 import { CallbackManagerForToolRun } from '@langchain/core/callbacks/manager';
 import { RunnableConfig } from '@langchain/core/runnables';
+import { BalanceChange, SimulationResult, TransactionRequest } from '../../wallet/types';
 
 export interface ToolProgress {
   progress: number;
@@ -25,6 +26,35 @@ export interface CustomDynamicStructuredTool {
 
 export interface IToolConfig {}
 
+export interface DryRunTransaction {
+  /** The step of the tool flow that built the transaction (approve, swap, bridge, ...) */
+  step: string;
+  transaction: TransactionRequest;
+}
+
+/**
+ * Outcome of a dry run or one of its steps. A step is unverified when it failed on the current
+ * state but depends on a previous step the node could not apply, it may succeed once mined
+ */
+export type DryRunStatus = 'success' | 'failed' | 'unverified';
+
+export interface DryRunSimulation extends SimulationResult {
+  step: string;
+  status: DryRunStatus;
+}
+
+export interface DryRunResult {
+  /** Every step succeeded, undefined when no step failed but some are unverified */
+  success: boolean | undefined;
+  /** Failed when any step failed, unverified when any step is unverified */
+  status: DryRunStatus;
+  simulations: DryRunSimulation[];
+  /** Sum of the estimated fees of all simulated transactions */
+  totalFee: string;
+  /** Net balance changes of all simulated transactions, grouped by token */
+  balanceChanges: BalanceChange[];
+}
+
 export interface ITool {
   getName(): string;
   getDescription(): string;
@@ -32,4 +62,10 @@ export interface ITool {
   createTool(): CustomDynamicStructuredTool;
   setAgent(agent: IAgent): void;
   mockResponseTool(args: any): Promise<string>;
+  /** Whether the tool may send transactions, such tools are never re-invoked by a retry */
+  sendsTransactions?(): boolean;
+  /** What the call would do, shown to the user by the human review step */
+  simulateQuoteTool?(args: any): Promise<any>;
+  /** Called when the human review step approves a call of the tool with these arguments */
+  onReviewApproved?(args: any): void;
 }
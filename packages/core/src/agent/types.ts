@@ -3,10 +3,20 @@ import { NetworkName } from '../network/types';
 import { BaseMessage } from '@langchain/core/messages';
 import { NetworksConfig } from '../network/types';
 import { BaseTool } from './tools/BaseTool';
-import { IPlugin } from '../plugin/types';
+import { IPlugin, IPluginConfig } from '../plugin/types';
 import { UserEntity, UUID } from '../types';
 import { DatabaseAdapter } from '../storage';
 import { IToolExecutionCallback } from './callbacks';
+import { ApprovalManager, ApprovalManagerConfig } from '../approval';
+import { ReviewManager, ReviewPolicyConfig } from '../review';
+import { MemoryConfig, MemoryManager } from '../memory';
+import { UsageConfig, UsageTracker } from '../usage';
+import { Scheduler, SchedulerConfig } from '../scheduler';
+import { TriggerEngine, TriggerEngineConfig } from '../trigger';
+import { PortfolioHistory } from '../portfolio';
+import { RetryPolicyConfig } from './RetryPolicy';
+import { SessionManagerConfig } from './planner/SessionManager';
+import { ExecutionRecorder } from './ExecutionRecorder';
 
 export enum AgentNodeTypes {
   PLANNER = 'planner',
@@ -19,6 +29,25 @@ export interface AgentConfig {
   systemPrompt?: string;
   isHumanReview?: boolean;
   isMockResponseTool?: boolean;
+  isDryRun?: boolean;
+  approval?: ApprovalManagerConfig;
+  /**
+   * Which reviewable tool calls need a human review when isHumanReview is set.
+   * Only PlanningAgent pauses for reviews, Agent runs tools without them
+   */
+  review?: ReviewPolicyConfig;
+  /** When `execute` attempts a request again, see `RetryPolicy` */
+  retry?: RetryPolicyConfig;
+  /** Token budget and summaries of the chat history */
+  memory?: MemoryConfig;
+  /** Prices of the models and daily budgets of the users */
+  usage?: UsageConfig;
+  /** How the recurring schedules are polled and which tools they can run */
+  scheduler?: SchedulerConfig;
+  /** How often price triggers are checked and where their prices come from */
+  trigger?: TriggerEngineConfig;
+  /** How long PlanningAgent keeps the sessions of idle threads */
+  session?: SessionManagerConfig;
 }
 
 export interface AgentContext {
@@ -39,15 +68,45 @@ export interface IAgent {
   registerTool(tool: BaseTool): Promise<void>;
 
   /**
-   * Register a plugin with the agent
+   * Register a plugin with the agent, initializing it when a config is given
    */
-  registerPlugin(plugin: IPlugin): Promise<void>;
+  registerPlugin(plugin: IPlugin, config?: IPluginConfig): Promise<void>;
 
   /**
    * Get a registered plugin by name
    */
   getPlugin(name: string): IPlugin | undefined;
 
+  /**
+   * Get all registered plugins
+   */
+  getPlugins(): IPlugin[];
+
+  /**
+   * Clean up a plugin and remove its tools
+   */
+  unregisterPlugin(name: string): Promise<void>;
+
+  /**
+   * Re-initialize a registered plugin with a new config and replace its tools
+   */
+  reloadPlugin(name: string, config: IPluginConfig): Promise<void>;
+
+  /**
+   * Enable a plugin disabled on a thread
+   */
+  enablePlugin(name: string, threadId: string): void;
+
+  /**
+   * Disable a plugin, and the plugins depending on it, on a thread
+   */
+  disablePlugin(name: string, threadId: string): void;
+
+  /**
+   * Whether a plugin is registered and enabled on a thread
+   */
+  isPluginEnabled(name: string, threadId?: string): boolean;
+
   /**
    * Register a callback for tool execution events
    */
@@ -64,8 +123,24 @@ export interface IAgent {
   execute(command: string): Promise<any>;
 
   execute(params: AgentExecuteParams): Promise<string>;
+
+  /**
+   * Run a registered tool directly, without the model
+   */
+  invokeTool(toolName: string, params: any): Promise<any>;
+
+  getContext(): AgentContext;
   getWallet(): IWallet;
   getNetworks(): NetworksConfig['networks'];
   registerDatabase(db: DatabaseAdapter): Promise<void>;
   isMockResponseTool(): boolean;
+  isDryRun(): boolean;
+  getApprovalManager(): ApprovalManager;
+  getReviewManager(): ReviewManager;
+  getMemoryManager(): MemoryManager;
+  getExecutionRecorder(): ExecutionRecorder;
+  getUsageTracker(): UsageTracker;
+  getScheduler(): Scheduler;
+  getTriggerEngine(): TriggerEngine;
+  getPortfolioHistory(): PortfolioHistory;
 }
@@ -0,0 +1,385 @@
+import { Contract, ethers, Interface } from 'ethers';
+import { NetworkName } from '../network/types';
+import { EVM_NATIVE_TOKEN_ADDRESS } from '../network/constants';
+import { DatabaseAdapter } from '../storage/database';
+import { IWallet, TransactionRequest } from '../wallet/types';
+import {
+  ApprovalManagerConfig,
+  ApprovalMode,
+  ApprovalScan,
+  Eip2612Permit,
+  KnownSpender,
+  Permit2Permit,
+  PermitParams,
+  TokenApproval,
+} from './types';
+
+/** Canonical Permit2 deployment, same address on every EVM chain */
+export const PERMIT2_ADDRESS = '0x000000000022D473030F116dDEE9F6B43aC78BA3';
+
+const ERC20_ABI = [
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+  'function name() view returns (string)',
+  'function version() view returns (string)',
+  'function nonces(address owner) view returns (uint256)',
+  'function DOMAIN_SEPARATOR() view returns (bytes32)',
+];
+
+const PERMIT2_ABI = [
+  'function allowance(address owner, address token, address spender) view returns (uint160 amount, uint48 expiration, uint48 nonce)',
+];
+
+/**
+ * Shared ERC20 approval handling for swap, staking and bridge flows.
+ * Keeps track of the spenders it approved so outstanding allowances can be listed and revoked,
+ * in the database when one is set so they are still listed after a restart.
+ */
+export class ApprovalManager {
+  private readonly erc20 = new Interface(ERC20_ABI);
+  private readonly mode: ApprovalMode;
+  private readonly permits: boolean;
+  private readonly spenders = new Map<NetworkName, Map<string, KnownSpender>>();
+  private readonly tokens = new Map<NetworkName, Set<string>>();
+  /** Token and spender pairs already saved to the database */
+  private readonly saved = new Set<string>();
+
+  constructor(
+    private readonly getProvider: (network: NetworkName) => ethers.Provider,
+    config: ApprovalManagerConfig = {},
+    private db?: DatabaseAdapter,
+  ) {
+    this.mode = config.mode ?? ApprovalMode.EXACT;
+    this.permits = config.permits ?? false;
+
+    for (const [network, spenders] of Object.entries(config.knownSpenders ?? {})) {
+      for (const spender of spenders ?? []) {
+        this.registerSpender(network as NetworkName, spender.address, spender.name);
+      }
+    }
+    for (const [network, tokens] of Object.entries(config.knownTokens ?? {})) {
+      for (const token of tokens ?? []) {
+        this.registerToken(network as NetworkName, token);
+      }
+    }
+  }
+
+  setDatabase(db: DatabaseAdapter | undefined): void {
+    this.db = db;
+  }
+
+  getMode(): ApprovalMode {
+    return this.mode;
+  }
+
+  /**
+   * Whether permits replace approval transactions where the token and the spender support them
+   */
+  usesPermits(): boolean {
+    return this.permits;
+  }
+
+  registerSpender(network: NetworkName, address: string, name?: string): void {
+    const spenders = this.spenders.get(network) ?? new Map<string, KnownSpender>();
+    const existing = spenders.get(address.toLowerCase());
+    spenders.set(address.toLowerCase(), { address, name: name ?? existing?.name });
+    this.spenders.set(network, spenders);
+  }
+
+  registerToken(network: NetworkName, token: string): void {
+    const tokens = this.tokens.get(network) ?? new Set<string>();
+    if (![...tokens].some(t => t.toLowerCase() === token.toLowerCase())) {
+      tokens.add(token);
+    }
+    this.tokens.set(network, tokens);
+  }
+
+  getKnownSpenders(network: NetworkName): KnownSpender[] {
+    return Array.from(this.spenders.get(network)?.values() ?? []);
+  }
+
+  async getAllowance(
+    network: NetworkName,
+    token: string,
+    owner: string,
+    spender: string,
+  ): Promise<bigint> {
+    const contract = new Contract(token, ERC20_ABI, this.getProvider(network));
+    return await contract.allowance(owner, spender);
+  }
+
+  /**
+   * Build an approval for the given amount, or the maximum amount in unlimited mode
+   */
+  buildApproveTransaction(
+    network: NetworkName,
+    token: string,
+    spender: string,
+    amount: bigint,
+  ): TransactionRequest {
+    this.registerSpender(network, spender);
+    this.registerToken(network, token);
+
+    const approveAmount = this.mode === ApprovalMode.UNLIMITED ? ethers.MaxUint256 : amount;
+    return {
+      to: token,
+      data: this.erc20.encodeFunctionData('approve', [spender, approveAmount]),
+      value: BigInt(0),
+      spend: { token },
+    };
+  }
+
+  buildRevokeTransaction(network: NetworkName, token: string, spender: string): TransactionRequest {
+    return {
+      to: token,
+      data: this.erc20.encodeFunctionData('approve', [spender, BigInt(0)]),
+      value: BigInt(0),
+      spend: { token },
+    };
+  }
+
+  /**
+   * Return the approval needed before `spender` can move `amount`, undefined when the allowance suffices
+   * @param spenderName Name shown when listing approvals, usually the provider name
+   */
+  async getApprovalTransaction(
+    network: NetworkName,
+    token: string,
+    owner: string,
+    spender: string,
+    amount: bigint,
+    spenderName?: string,
+  ): Promise<TransactionRequest | undefined> {
+    // Native tokens are sent as value and Solana has no allowances
+    if (!token.startsWith('0x') || token.toLowerCase() === EVM_NATIVE_TOKEN_ADDRESS.toLowerCase()) {
+      return undefined;
+    }
+    await this.rememberApproval(network, token, spender, spenderName);
+
+    const allowance = await this.getAllowance(network, token, owner, spender);
+    if (allowance >= amount) {
+      return undefined;
+    }
+    return this.buildApproveTransaction(network, token, spender, amount);
+  }
+
+  /**
+   * Scan the allowances granted by `owner` to every known spender
+   * @param tokens Tokens to scan, defaults to the known tokens of the network
+   */
+  async listApprovals(
+    network: NetworkName,
+    owner: string,
+    tokens?: string[],
+  ): Promise<TokenApproval[]> {
+    return (await this.scanApprovals(network, owner, tokens)).approvals;
+  }
+
+  /**
+   * Scan the allowances granted by `owner` to every known spender, an allowance that cannot be
+   * read is reported as a failure instead of failing the whole scan
+   * @param tokens Tokens to scan, defaults to the known tokens of the network
+   */
+  async scanApprovals(
+    network: NetworkName,
+    owner: string,
+    tokens?: string[],
+  ): Promise<ApprovalScan> {
+    await this.loadSaved(network);
+    const scannedTokens = tokens ?? Array.from(this.tokens.get(network) ?? []);
+    const spenders = this.getKnownSpenders(network);
+    const pairs = scannedTokens.flatMap(token => spenders.map(spender => ({ token, spender })));
+
+    const results = await Promise.allSettled(
+      pairs.map(({ token, spender }) => this.getAllowance(network, token, owner, spender.address)),
+    );
+
+    const scan: ApprovalScan = { approvals: [], failures: [] };
+    results.forEach((result, index) => {
+      const { token, spender } = pairs[index];
+      if (result.status === 'rejected') {
+        scan.failures.push({
+          network,
+          token,
+          spender: spender.address,
+          error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+        });
+      } else if (result.value > BigInt(0)) {
+        scan.approvals.push({
+          network,
+          token,
+          spender: spender.address,
+          spenderName: spender.name,
+          allowance: result.value.toString(),
+          // Many tokens decrease infinite allowances slightly on transfer
+          unlimited: result.value >= ethers.MaxUint256 / BigInt(2),
+        });
+      }
+    });
+    return scan;
+  }
+
+  /**
+   * Check whether a token implements EIP-2612 permit
+   */
+  async supportsPermit(network: NetworkName, token: string, owner: string): Promise<boolean> {
+    const contract = new Contract(token, ERC20_ABI, this.getProvider(network));
+    try {
+      await Promise.all([contract.nonces(owner), contract.DOMAIN_SEPARATOR()]);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Sign an EIP-2612 permit, letting the spender pull tokens without an approval transaction.
+   * The maximum amount is permitted in unlimited mode
+   */
+  async signPermit(
+    wallet: IWallet,
+    network: NetworkName,
+    params: PermitParams,
+  ): Promise<Eip2612Permit> {
+    const provider = this.getProvider(network);
+    const contract = new Contract(params.token, ERC20_ABI, provider);
+    const owner = await wallet.getAddress(network);
+    await this.rememberApproval(network, params.token, params.spender);
+
+    const [name, nonce, { chainId }] = await Promise.all([
+      contract.name(),
+      contract.nonces(owner),
+      provider.getNetwork(),
+    ]);
+    // Tokens without version() use the OpenZeppelin default
+    const version = await contract.version().catch(() => '1');
+
+    const amount = this.mode === ApprovalMode.UNLIMITED ? ethers.MaxUint256 : params.amount;
+    const value = {
+      owner,
+      spender: params.spender,
+      value: amount,
+      nonce,
+      deadline: params.deadline,
+    };
+    const signature = await wallet.signTypedData(
+      network,
+      { name, version, chainId, verifyingContract: params.token },
+      {
+        Permit: [
+          { name: 'owner', type: 'address' },
+          { name: 'spender', type: 'address' },
+          { name: 'value', type: 'uint256' },
+          { name: 'nonce', type: 'uint256' },
+          { name: 'deadline', type: 'uint256' },
+        ],
+      },
+      value,
+    );
+    const { v, r, s } = ethers.Signature.from(signature);
+
+    return {
+      type: 'eip2612',
+      token: params.token,
+      owner,
+      spender: params.spender,
+      value: amount.toString(),
+      nonce: nonce.toString(),
+      deadline: params.deadline,
+      signature,
+      v,
+      r,
+      s,
+    };
+  }
+
+  /**
+   * Sign a Permit2 PermitSingle, the token must already be approved to the Permit2 contract
+   */
+  async signPermit2(
+    wallet: IWallet,
+    network: NetworkName,
+    params: PermitParams & { expiration: number },
+  ): Promise<Permit2Permit> {
+    const provider = this.getProvider(network);
+    const permit2 = new Contract(PERMIT2_ADDRESS, PERMIT2_ABI, provider);
+    const owner = await wallet.getAddress(network);
+    await this.rememberApproval(network, params.token, PERMIT2_ADDRESS, 'permit2');
+
+    const [[, , nonce], { chainId }] = await Promise.all([
+      permit2.allowance(owner, params.token, params.spender),
+      provider.getNetwork(),
+    ]);
+
+    const permit = {
+      details: {
+        token: params.token,
+        amount: params.amount.toString(),
+        expiration: params.expiration,
+        nonce: nonce.toString(),
+      },
+      spender: params.spender,
+      sigDeadline: params.deadline,
+    };
+    const signature = await wallet.signTypedData(
+      network,
+      { name: 'Permit2', chainId, verifyingContract: PERMIT2_ADDRESS },
+      {
+        PermitSingle: [
+          { name: 'details', type: 'PermitDetails' },
+          { name: 'spender', type: 'address' },
+          { name: 'sigDeadline', type: 'uint256' },
+        ],
+        PermitDetails: [
+          { name: 'token', type: 'address' },
+          { name: 'amount', type: 'uint160' },
+          { name: 'expiration', type: 'uint48' },
+          { name: 'nonce', type: 'uint48' },
+        ],
+      },
+      permit,
+    );
+
+    return { type: 'permit2', owner, permit, signature };
+  }
+
+  /**
+   * Track a token and spender pair so its allowance is listed, saved once to the database
+   */
+  private async rememberApproval(
+    network: NetworkName,
+    token: string,
+    spender: string,
+    spenderName?: string,
+  ): Promise<void> {
+    this.registerSpender(network, spender, spenderName);
+    this.registerToken(network, token);
+
+    const key = this.getPairKey(network, token, spender);
+    if (!this.db || this.saved.has(key)) return;
+    await this.db.saveApprovalSpender({
+      network,
+      token,
+      spender,
+      spender_name: spenderName ?? null,
+      created_at: Date.now(),
+    });
+    this.saved.add(key);
+  }
+
+  /**
+   * Track the pairs saved by earlier sessions or other instances
+   */
+  private async loadSaved(network: NetworkName): Promise<void> {
+    if (!this.db) return;
+    for (const saved of await this.db.listApprovalSpenders(network)) {
+      this.registerSpender(network, saved.spender, saved.spender_name ?? undefined);
+      this.registerToken(network, saved.token);
+      this.saved.add(this.getPairKey(network, saved.token, saved.spender));
+    }
+  }
+
+  private getPairKey(network: NetworkName, token: string, spender: string): string {
+    return `${network}:${token.toLowerCase()}:${spender.toLowerCase()}`;
+  }
+}
@@ -0,0 +1,188 @@
+import { ethers } from 'ethers';
+import { NetworkName } from '../../network/types';
+import { EVM_NATIVE_TOKEN_ADDRESS } from '../../network/constants';
+import { ApprovalManager } from '../ApprovalManager';
+import { ApprovalMode } from '../types';
+
+describe('ApprovalManager', () => {
+  const token = '0x55d398326f99059fF775485246999027B3197955';
+  const spender = '0x10ED43C718714eb63d5aA57B78B54704E256024E';
+  const owner = '0x1234567890123456789012345678901234567890';
+  const erc20 = new ethers.Interface([
+    'function approve(address spender, uint256 amount) returns (bool)',
+  ]);
+
+  // Minimal provider answering allowance() calls with the given value
+  const createProvider = (allowance: bigint) =>
+    ({
+      call: jest
+        .fn()
+        .mockResolvedValue(ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [allowance])),
+    }) as unknown as ethers.Provider;
+
+  const decodeAmount = (data: string) => erc20.decodeFunctionData('approve', data)[1] as bigint;
+
+  it('should approve the exact amount by default', () => {
+    const manager = new ApprovalManager(() => createProvider(BigInt(0)));
+    const tx = manager.buildApproveTransaction(NetworkName.BNB, token, spender, BigInt(100));
+
+    expect(tx.to).toBe(token);
+    expect(decodeAmount(tx.data)).toBe(BigInt(100));
+  });
+
+  it('should approve the maximum amount in unlimited mode', () => {
+    const manager = new ApprovalManager(() => createProvider(BigInt(0)), {
+      mode: ApprovalMode.UNLIMITED,
+    });
+    const tx = manager.buildApproveTransaction(NetworkName.BNB, token, spender, BigInt(100));
+
+    expect(decodeAmount(tx.data)).toBe(ethers.MaxUint256);
+  });
+
+  it('should skip the approval when the allowance is sufficient', async () => {
+    const manager = new ApprovalManager(() => createProvider(BigInt(500)));
+
+    await expect(
+      manager.getApprovalTransaction(NetworkName.BNB, token, owner, spender, BigInt(100)),
+    ).resolves.toBeUndefined();
+    await expect(
+      manager.getApprovalTransaction(NetworkName.BNB, token, owner, spender, BigInt(1000)),
+    ).resolves.toMatchObject({ to: token });
+    await expect(
+      manager.getApprovalTransaction(
+        NetworkName.BNB,
+        EVM_NATIVE_TOKEN_ADDRESS,
+        owner,
+        spender,
+        BigInt(1000),
+      ),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should list outstanding approvals to known spenders', async () => {
+    const manager = new ApprovalManager(() => createProvider(ethers.MaxUint256), {
+      knownSpenders: { [NetworkName.BNB]: [{ address: spender, name: 'pancakeswap' }] },
+      knownTokens: { [NetworkName.BNB]: [token] },
+    });
+
+    const approvals = await manager.listApprovals(NetworkName.BNB, owner);
+
+    expect(approvals).toEqual([
+      {
+        network: NetworkName.BNB,
+        token,
+        spender,
+        spenderName: 'pancakeswap',
+        allowance: ethers.MaxUint256.toString(),
+        unlimited: true,
+      },
+    ]);
+    await expect(manager.listApprovals(NetworkName.ETHEREUM, owner)).resolves.toEqual([]);
+  });
+
+  it('should report the allowances that cannot be read', async () => {
+    const otherToken = '0x0000000000000000000000000000000000000003';
+    const provider = createProvider(BigInt(1000));
+    (provider.call as jest.Mock).mockImplementation(async ({ to }: { to: string }) => {
+      if (to === otherToken) throw new Error('rate limited');
+      return ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [BigInt(1000)]);
+    });
+    const manager = new ApprovalManager(() => provider, {
+      knownSpenders: { [NetworkName.BNB]: [{ address: spender }] },
+      knownTokens: { [NetworkName.BNB]: [token, otherToken] },
+    });
+
+    const scan = await manager.scanApprovals(NetworkName.BNB, owner);
+
+    expect(scan.approvals).toHaveLength(1);
+    expect(scan.approvals[0]).toMatchObject({ token, allowance: '1000', unlimited: false });
+    expect(scan.failures).toEqual([
+      { network: NetworkName.BNB, token: otherToken, spender, error: 'rate limited' },
+    ]);
+  });
+
+  it('should encode revocations as zero approvals', () => {
+    const manager = new ApprovalManager(() => createProvider(BigInt(0)));
+    const tx = manager.buildRevokeTransaction(NetworkName.BNB, token, spender);
+
+    expect(decodeAmount(tx.data)).toBe(BigInt(0));
+  });
+
+  it('should list the spenders saved by an earlier session', async () => {
+    const saved: any[] = [];
+    const db = {
+      saveApprovalSpender: jest.fn(async (entity: any) => {
+        saved.push(entity);
+      }),
+      listApprovalSpenders: jest.fn(async () => saved),
+    } as any;
+    const first = new ApprovalManager(() => createProvider(BigInt(0)), {}, db);
+    await first.getApprovalTransaction(
+      NetworkName.BNB,
+      token,
+      owner,
+      spender,
+      BigInt(100),
+      'pancakeswap',
+    );
+    await first.getApprovalTransaction(NetworkName.BNB, token, owner, spender, BigInt(100));
+    expect(db.saveApprovalSpender).toHaveBeenCalledTimes(1);
+
+    const restarted = new ApprovalManager(() => createProvider(BigInt(100)), {}, db);
+    const approvals = await restarted.listApprovals(NetworkName.BNB, owner);
+
+    expect(approvals).toMatchObject([{ token, spender, spenderName: 'pancakeswap' }]);
+  });
+
+  it('should sign a permit for the maximum amount in unlimited mode', async () => {
+    const signer = ethers.Wallet.createRandom();
+    const token2612 = new ethers.Interface([
+      'function name() view returns (string)',
+      'function version() view returns (string)',
+      'function nonces(address owner) view returns (uint256)',
+    ]);
+    const provider = {
+      getNetwork: jest.fn().mockResolvedValue({ chainId: BigInt(56) }),
+      call: jest.fn(async ({ data }: { data: string }) => {
+        const { name } = token2612.parseTransaction({ data })!;
+        if (name === 'version') throw new Error('execution reverted');
+        return token2612.encodeFunctionResult(name, [name === 'name' ? 'Tether USD' : 3]);
+      }),
+    } as unknown as ethers.Provider;
+    const wallet = {
+      getAddress: async () => signer.address,
+      signTypedData: (_network: NetworkName, domain: any, types: any, value: any) =>
+        signer.signTypedData(domain, types, value),
+    } as any;
+    const manager = new ApprovalManager(() => provider, { mode: ApprovalMode.UNLIMITED });
+
+    const permit = await manager.signPermit(wallet, NetworkName.BNB, {
+      token,
+      spender,
+      amount: BigInt(100),
+      deadline: 1700000000,
+    });
+
+    expect(permit).toMatchObject({
+      type: 'eip2612',
+      owner: signer.address,
+      value: ethers.MaxUint256.toString(),
+      nonce: '3',
+    });
+    const recovered = ethers.verifyTypedData(
+      { name: 'Tether USD', version: '1', chainId: 56, verifyingContract: token },
+      {
+        Permit: [
+          { name: 'owner', type: 'address' },
+          { name: 'spender', type: 'address' },
+          { name: 'value', type: 'uint256' },
+          { name: 'nonce', type: 'uint256' },
+          { name: 'deadline', type: 'uint256' },
+        ],
+      },
+      { owner: signer.address, spender, value: ethers.MaxUint256, nonce: 3, deadline: 1700000000 },
+      permit.signature,
+    );
+    expect(recovered).toBe(signer.address);
+  });
+});
@@ -0,0 +1,84 @@
+import { NetworkName } from '../network/types';
+
+export enum ApprovalMode {
+  /** Approve exactly the amount needed by the transaction */
+  EXACT = 'exact',
+  /** Approve the maximum amount once so later transactions skip the approval */
+  UNLIMITED = 'unlimited',
+}
+
+export interface KnownSpender {
+  address: string;
+  name?: string;
+}
+
+export interface ApprovalManagerConfig {
+  mode?: ApprovalMode;
+  /**
+   * Sign EIP-2612 permits instead of sending approval transactions, for tokens implementing
+   * them and swap providers accepting them
+   */
+  permits?: boolean;
+  /** Spender contracts scanned when listing approvals */
+  knownSpenders?: Partial<Record<NetworkName, KnownSpender[]>>;
+  /** Tokens scanned when listing approvals */
+  knownTokens?: Partial<Record<NetworkName, string[]>>;
+}
+
+export interface TokenApproval {
+  network: NetworkName;
+  token: string;
+  spender: string;
+  spenderName?: string;
+  /** Allowance in the token's smallest unit */
+  allowance: string;
+  unlimited: boolean;
+}
+
+export interface ApprovalScanFailure {
+  network: NetworkName;
+  token: string;
+  spender: string;
+  error: string;
+}
+
+export interface ApprovalScan {
+  /** Allowances above zero */
+  approvals: TokenApproval[];
+  /** Allowances that could not be read */
+  failures: ApprovalScanFailure[];
+}
+
+export interface PermitParams {
+  token: string;
+  spender: string;
+  /** Amount in the token's smallest unit */
+  amount: bigint;
+  /** Unix timestamp in seconds after which the signature is rejected */
+  deadline: number;
+}
+
+export interface Eip2612Permit {
+  type: 'eip2612';
+  token: string;
+  owner: string;
+  spender: string;
+  value: string;
+  nonce: string;
+  deadline: number;
+  signature: string;
+  v: number;
+  r: string;
+  s: string;
+}
+
+export interface Permit2Permit {
+  type: 'permit2';
+  owner: string;
+  permit: {
+    details: { token: string; amount: string; expiration: number; nonce: string };
+    spender: string;
+    sigDeadline: number;
+  };
+  signature: string;
+}
@@ -2,6 +2,15 @@ export * from './agent';
 export * from './network';
 export * from './settings';
 export * from './wallet';
+export * from './policy';
+export * from './approval';
+export * from './review';
+export * from './memory';
+export * from './usage';
+export * from './scheduler';
+export * from './trigger';
+export * from './portfolio';
+export * from './telemetry';
 export * from './plugin';
 export * from './types';
 export * from './storage';
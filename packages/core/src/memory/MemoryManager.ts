@@ -0,0 +1,250 @@
+import { AIMessage, BaseMessage, HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { IModel, ModelNode } from '../model/types';
+import { NetworkName } from '../network/types';
+import { DatabaseAdapter } from '../storage/database';
+import { MemoryFacts, MemorySummaryEntity, MessageEntity, UUID } from '../types/database';
+import { logger } from '../utils/Logger';
+import { ConversationMemory, MemoryConfig, MessageSummarizer, TokenCounter } from './types';
+
+const DEFAULT_MAX_TOKENS = 2000;
+const DEFAULT_HISTORY_LIMIT = 50;
+const MAX_ADDRESSES = 20;
+
+// Transaction hashes and signatures are longer, word boundaries leave them out
+const EVM_ADDRESS = /\b0x[a-fA-F0-9]{40}\b/g;
+const SOLANA_ADDRESS = /\b[1-9A-HJ-NP-Za-km-z]{32,44}\b/g;
+const NETWORK_MENTIONS = Object.values(NetworkName).map(network => ({
+  network,
+  pattern: new RegExp(`(?<![\\w-])${network}(?![\\w-])`, 'gi'),
+}));
+
+const estimateTokens: TokenCounter = text => Math.ceil(text.length / 4);
+
+const emptyFacts = (): MemoryFacts => ({ addresses: [], networks: {} });
+
+const addressKey = (address: string) =>
+  address.startsWith('0x') ? address.toLowerCase() : address;
+
+/**
+ * Addresses and networks mentioned in the messages
+ */
+export function extractFacts(messages: MessageEntity[]): MemoryFacts {
+  const facts = emptyFacts();
+  for (const message of [...messages].reverse()) {
+    const content = message.content ?? '';
+    const addresses = [
+      ...(content.match(EVM_ADDRESS) ?? []),
+      ...(content.match(SOLANA_ADDRESS) ?? []),
+    ];
+    facts.addresses.push(...addresses.reverse());
+    for (const { network, pattern } of NETWORK_MENTIONS) {
+      const mentions = content.match(pattern)?.length ?? 0;
+      if (mentions) {
+        facts.networks[network] = (facts.networks[network] ?? 0) + mentions;
+      }
+    }
+  }
+  return mergeFacts(emptyFacts(), facts);
+}
+
+/**
+ * Facts of an earlier part of the conversation completed with the ones of a later part
+ */
+export function mergeFacts(earlier: MemoryFacts, later: MemoryFacts): MemoryFacts {
+  const seen = new Set<string>();
+  const addresses = [...later.addresses, ...earlier.addresses].filter(address => {
+    const key = addressKey(address);
+    return !seen.has(key) && !!seen.add(key);
+  });
+  const networks = { ...earlier.networks };
+  for (const [network, mentions] of Object.entries(later.networks)) {
+    networks[network] = (networks[network] ?? 0) + mentions;
+  }
+  return { addresses: addresses.slice(0, MAX_ADDRESSES), networks };
+}
+
+/**
+ * Networks of the conversation, the most mentioned first
+ */
+export function getPreferredNetworks(facts: MemoryFacts): NetworkName[] {
+  return Object.entries(facts.networks)
+    .sort(([, a], [, b]) => b - a)
+    .map(([network]) => network as NetworkName);
+}
+
+/**
+ * Summary and facts in a message for the planner, undefined when there is nothing to add
+ */
+export function describeMemory({ summary, facts }: ConversationMemory): string | undefined {
+  const lines: string[] = [];
+  if (summary) lines.push(`Summary of the earlier conversation: ${summary}`);
+  if (facts.addresses.length) lines.push(`Addresses used: ${facts.addresses.join(', ')}`);
+  const networks = getPreferredNetworks(facts);
+  if (networks.length) lines.push(`Preferred networks: ${networks.join(', ')}`);
+  return lines.length ? lines.join('\n') : undefined;
+}
+
+export function toChatHistory(memory: ConversationMemory): BaseMessage[] {
+  const history: BaseMessage[] = memory.messages.map(message =>
+    message?.message_type === 'human'
+      ? new HumanMessage(message?.content)
+      : new AIMessage(message?.content),
+  );
+  const context = describeMemory(memory);
+  // Some providers only accept a system message first, the prompt already starts with one
+  return context ? [new HumanMessage(context), ...history] : history;
+}
+
+/**
+ * Summarizes messages with the agent's model
+ */
+export function summarizeWithModel(model: IModel): MessageSummarizer {
+  return async (summary, messages) => {
+    const transcript = messages
+      .map(message => `${message.message_type === 'ai' ? 'Assistant' : 'User'}: ${message.content}`)
+      .join('\n');
+    const llm = model.getLangChainLLM(ModelNode.SUMMARIZER);
+    const response = await llm.invoke([
+      new SystemMessage(
+        'Summarize the conversation between a user and a DeFi assistant in a few sentences. ' +
+          'Keep the requests and their outcomes with the tokens, amounts, networks and addresses.',
+      ),
+      new HumanMessage(
+        `${summary ? `Summary so far: ${summary}\n\n` : ''}New messages:\n${transcript}`,
+      ),
+    ]);
+    return typeof response.content === 'string'
+      ? response.content
+      : response.content.map(part => (part.type === 'text' ? part.text : '')).join('');
+  };
+}
+
+/**
+ * Keeps the chat history of a conversation under a token budget. Messages leaving the window
+ * are rolled into a summary, stored in the database when one is registered, in memory otherwise.
+ */
+export class MemoryManager {
+  private readonly maxTokens: number;
+  private readonly historyLimit: number;
+  private readonly countTokens: TokenCounter;
+  private readonly summarize?: MessageSummarizer;
+  private db?: DatabaseAdapter;
+  private readonly summaries = new Map<string, MemorySummaryEntity>();
+
+  constructor(config: MemoryConfig = {}, db?: DatabaseAdapter) {
+    this.maxTokens = config.maxTokens ?? DEFAULT_MAX_TOKENS;
+    this.historyLimit = config.historyLimit ?? DEFAULT_HISTORY_LIMIT;
+    this.countTokens = config.countTokens ?? estimateTokens;
+    this.summarize = config.summarize;
+    this.db = db;
+  }
+
+  setDatabase(db: DatabaseAdapter | undefined): void {
+    this.db = db;
+  }
+
+  /**
+   * Memory of a thread, or of the user's messages when no thread is given
+   */
+  async load({
+    threadId,
+    userId,
+  }: {
+    threadId?: UUID;
+    userId?: UUID;
+  }): Promise<ConversationMemory> {
+    if (!this.db || (!threadId && !userId)) {
+      return { facts: emptyFacts(), messages: [] };
+    }
+    const messages = threadId
+      ? await this.db.getMessagesByThreadId(threadId, this.historyLimit)
+      : await this.db.getMessagesByUserId(userId!, this.historyLimit);
+    return this.build(threadId ?? `user:${userId}`, messages, userId);
+  }
+
+  async loadHistory(options: { threadId?: UUID; userId?: UUID }): Promise<BaseMessage[]> {
+    return toChatHistory(await this.load(options));
+  }
+
+  /**
+   * Keep the newest messages within the token budget and roll the older ones into the summary.
+   * Messages are found in the summary by id, messages without one are summarized every time.
+   * @param key Thread id, or `user:<id>` for a user's messages outside threads
+   * @param messages Messages of the conversation, the oldest first
+   */
+  async build(key: string, messages: MessageEntity[], userId?: UUID): Promise<ConversationMemory> {
+    const windowStart = this.getWindowStart(messages);
+    const older = messages.slice(0, windowStart);
+    const recent = messages.slice(windowStart);
+
+    let stored = await this.getSummary(key);
+    const unsummarized = this.getUnsummarized(older, recent, stored?.last_message_id);
+    if (unsummarized.length) {
+      stored = (await this.rollUp(key, stored, unsummarized, userId)) ?? stored;
+    }
+    return {
+      summary: stored?.summary || undefined,
+      facts: mergeFacts(stored?.facts ?? emptyFacts(), extractFacts(recent)),
+      messages: recent,
+    };
+  }
+
+  async getSummary(key: string): Promise<MemorySummaryEntity | null> {
+    const summary = this.db ? await this.db.getMemorySummary(key) : this.summaries.get(key);
+    return summary ?? null;
+  }
+
+  private getWindowStart(messages: MessageEntity[]): number {
+    let start = messages.length;
+    let tokens = 0;
+    while (start > 0) {
+      tokens += this.countTokens(messages[start - 1].content ?? '');
+      // The newest message is kept even above the budget
+      if (tokens > this.maxTokens && start < messages.length) break;
+      start--;
+    }
+    return start;
+  }
+
+  private getUnsummarized(
+    older: MessageEntity[],
+    recent: MessageEntity[],
+    lastMessageId?: UUID | null,
+  ): MessageEntity[] {
+    if (!lastMessageId) return older;
+    if (recent.some(message => message.id === lastMessageId)) return [];
+    // Not found when the summarized messages left the loaded history
+    return older.slice(older.findIndex(message => message.id === lastMessageId) + 1);
+  }
+
+  private async rollUp(
+    key: string,
+    previous: MemorySummaryEntity | null,
+    messages: MessageEntity[],
+    userId?: UUID,
+  ): Promise<MemorySummaryEntity | undefined> {
+    try {
+      const summary = this.summarize
+        ? await this.summarize(previous?.summary || undefined, messages)
+        : (previous?.summary ?? '');
+      const entity: MemorySummaryEntity = {
+        key,
+        user_id: userId ?? previous?.user_id ?? null,
+        summary,
+        facts: mergeFacts(previous?.facts ?? emptyFacts(), extractFacts(messages)),
+        last_message_id: messages[messages.length - 1].id ?? null,
+        updated_at: Date.now(),
+      };
+      if (this.db) {
+        await this.db.saveMemorySummary(entity);
+      } else {
+        this.summaries.set(key, entity);
+      }
+      return entity;
+    } catch (error) {
+      // The messages are summarized again with the next request
+      logger.warn(`Failed to summarize the memory of ${key}:`, error);
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,100 @@
+import { HumanMessage } from '@langchain/core/messages';
+import { NetworkName } from '../../network/types';
+import { MessageEntity, UUID } from '../../types/database';
+import { extractFacts, getPreferredNetworks, MemoryManager, toChatHistory } from '../MemoryManager';
+
+const message = (index: number, content: string): MessageEntity => ({
+  id: `00000000-0000-0000-0000-${String(index).padStart(12, '0')}` as UUID,
+  content,
+  message_type: index % 2 ? 'ai' : 'human',
+});
+
+describe('MemoryManager', () => {
+  const wallet = '0x1111111111111111111111111111111111111111';
+  const recipient = '0x2222222222222222222222222222222222222222';
+  // One token per character keeps the budget easy to follow
+  const countTokens = (text: string) => text.length;
+
+  it('should keep the newest messages within the token budget', async () => {
+    const memory = new MemoryManager({ maxTokens: 10, countTokens });
+    const messages = [message(0, 'aaaa'), message(1, 'bbbb'), message(2, 'cccc')];
+
+    const { messages: recent } = await memory.build('thread-1', messages);
+
+    expect(recent.map(message => message.content)).toEqual(['bbbb', 'cccc']);
+    // The newest message is kept even above the budget
+    await expect(memory.build('thread-2', [message(0, 'a'.repeat(20))])).resolves.toMatchObject({
+      messages: [{ content: 'a'.repeat(20) }],
+    });
+  });
+
+  it('should summarize each message once', async () => {
+    const summarize = jest.fn(
+      async (summary: string | undefined, messages: MessageEntity[]) =>
+        `${summary ? `${summary} ` : ''}${messages.map(message => message.content).join(' ')}`,
+    );
+    const memory = new MemoryManager({ maxTokens: 4, countTokens, summarize });
+    const messages = [message(0, 'swap'), message(1, 'done'), message(2, 'send')];
+
+    await expect(memory.build('thread-1', messages)).resolves.toMatchObject({
+      summary: 'swap done',
+      messages: [{ content: 'send' }],
+    });
+    await memory.build('thread-1', messages);
+    expect(summarize).toHaveBeenCalledTimes(1);
+
+    // Only messages leaving the window later are added, even once older ones are not loaded
+    const next = [...messages.slice(1), message(3, 'sent')];
+    await expect(memory.build('thread-1', next)).resolves.toMatchObject({
+      summary: 'swap done send',
+    });
+    expect(summarize).toHaveBeenLastCalledWith('swap done', [messages[2]]);
+  });
+
+  it('should keep the summary when summarizing fails', async () => {
+    const summarize = jest.fn().mockRejectedValue(new Error('rate limited'));
+    const memory = new MemoryManager({ maxTokens: 4, countTokens, summarize });
+    const messages = [message(0, 'swap'), message(1, 'done')];
+
+    await expect(memory.build('thread-1', messages)).resolves.toMatchObject({
+      summary: undefined,
+      messages: [{ content: 'done' }],
+    });
+    await expect(memory.getSummary('thread-1')).resolves.toBeNull();
+  });
+
+  it('should keep the addresses and networks of summarized messages', async () => {
+    const memory = new MemoryManager({ maxTokens: 10, countTokens });
+    const messages = [
+      message(0, `Send 1 BNB from ${wallet} to ${recipient} on bnb`),
+      message(1, `Sent on BNB, tx 0x${'a'.repeat(64)}`),
+      message(2, 'thanks'),
+    ];
+
+    const result = await memory.build('thread-1', messages);
+
+    expect(result.messages.map(message => message.content)).toEqual(['thanks']);
+    expect(result.facts).toEqual({ addresses: [recipient, wallet], networks: { bnb: 3 } });
+
+    const [context] = toChatHistory(result);
+    expect(context).toBeInstanceOf(HumanMessage);
+    expect(context.content).toBe(
+      `Addresses used: ${recipient}, ${wallet}\nPreferred networks: ${NetworkName.BNB}`,
+    );
+  });
+
+  it('should extract the most mentioned networks first', () => {
+    const facts = extractFacts([
+      message(0, 'Bridge from ethereum to solana, gas on ethereum is high'),
+      message(1, 'Check solana-devnet and solana balances'),
+      message(2, `My Solana wallet is ${'9'.repeat(44)}`),
+    ]);
+
+    expect(getPreferredNetworks(facts)).toEqual([
+      NetworkName.SOLANA,
+      NetworkName.ETHEREUM,
+      NetworkName.SOLANA_DEVNET,
+    ]);
+    expect(facts.addresses).toEqual(['9'.repeat(44)]);
+  });
+});
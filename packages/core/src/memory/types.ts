@@ -0,0 +1,31 @@
+import { MemoryFacts, MessageEntity } from '../types/database';
+
+/**
+ * Rolls messages into the previous summary of the conversation
+ */
+export type MessageSummarizer = (
+  summary: string | undefined,
+  messages: MessageEntity[],
+) => Promise<string>;
+
+export type TokenCounter = (text: string) => number;
+
+export interface MemoryConfig {
+  /** Token budget of the recent messages passed as chat history (defaults to 2000) */
+  maxTokens?: number;
+  /** Messages loaded to fill the window and find the ones to summarize (defaults to 50) */
+  historyLimit?: number;
+  /** Estimates 4 characters per token when omitted */
+  countTokens?: TokenCounter;
+  /** The agent summarizes with its model when omitted */
+  summarize?: MessageSummarizer;
+}
+
+export interface ConversationMemory {
+  /** Summary of the messages older than the window */
+  summary?: string;
+  /** Facts of the whole conversation, summarized messages included */
+  facts: MemoryFacts;
+  /** Recent messages within the token budget, the oldest first */
+  messages: MessageEntity[];
+}
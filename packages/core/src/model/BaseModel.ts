@@ -1,7 +1,7 @@
 import { BaseChatModel } from "@langchain/core/language_models/chat_models";
-import { IModel } from "./types";
+import { IModel, ModelNode } from "./types";
 
 export abstract class BaseModel implements IModel {
-    abstract getLangChainLLM(): BaseChatModel;
+    abstract getLangChainLLM(node?: ModelNode): BaseChatModel;
     // abstract getN8nLLM(): N8nLLM;
-}
\ No newline at end of file
+}
@@ -0,0 +1,168 @@
+import { CallbackManagerForLLMRun } from '@langchain/core/callbacks/manager';
+import { BaseLanguageModelInput } from '@langchain/core/language_models/base';
+import {
+  BaseChatModel,
+  BaseChatModelCallOptions,
+  BindToolsInput,
+} from '@langchain/core/language_models/chat_models';
+import { AIMessageChunk, BaseMessage } from '@langchain/core/messages';
+import { ChatGenerationChunk, ChatResult } from '@langchain/core/outputs';
+import { Runnable } from '@langchain/core/runnables';
+import { convertToOpenAITool } from '@langchain/core/utils/function_calling';
+import { ModelNode } from './types';
+
+export interface ModelCallReport {
+  node?: ModelNode;
+  /** Provider and name of the model, e.g. `openai:gpt-4o` */
+  model: string;
+  success: boolean;
+  error?: string;
+  latencyMs: number;
+}
+
+export interface FailoverChatModelFields {
+  /** Models tried in order */
+  models: BaseChatModel[];
+  node?: ModelNode;
+  /** How long a failing model is tried after the others in milliseconds (defaults to 60000) */
+  cooldownMs?: number;
+  /** When each model is available again, by model name, shared between the nodes of a router */
+  cooldowns?: Map<string, number>;
+  onModelCall?: (report: ModelCallReport) => void;
+}
+
+export function getModelName(llm: BaseChatModel): string {
+  const model = (llm as any).model ?? (llm as any).modelName;
+  return model ? `${llm._llmType()}:${model}` : llm._llmType();
+}
+
+const isAbort = (error: any) => error?.name === 'AbortError' || error?.message === 'Aborted';
+
+/**
+ * Chat model answering with the first of its models that succeeds. Models failing, e.g. on
+ * rate limits, are tried after the others until their cooldown ends.
+ */
+export class FailoverChatModel extends BaseChatModel {
+  private readonly models: BaseChatModel[];
+  private readonly node?: ModelNode;
+  private readonly cooldownMs: number;
+  private readonly cooldowns: Map<string, number>;
+  private readonly onModelCall?: (report: ModelCallReport) => void;
+
+  constructor(fields: FailoverChatModelFields) {
+    super({});
+    if (!fields.models.length) {
+      throw new Error('FailoverChatModel requires at least one model');
+    }
+    this.models = fields.models;
+    this.node = fields.node;
+    this.cooldownMs = fields.cooldownMs ?? 60000;
+    this.cooldowns = fields.cooldowns ?? new Map();
+    this.onModelCall = fields.onModelCall;
+  }
+
+  _llmType(): string {
+    return 'failover';
+  }
+
+  bindTools(
+    tools: BindToolsInput[],
+    kwargs?: Partial<BaseChatModelCallOptions>,
+  ): Runnable<BaseLanguageModelInput, AIMessageChunk, BaseChatModelCallOptions> {
+    // Bound as call options, which every model receives
+    return this.withConfig({
+      tools: tools.map(tool => convertToOpenAITool(tool)),
+      ...kwargs,
+    } as Partial<BaseChatModelCallOptions>);
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this['ParsedCallOptions'],
+  ): Promise<ChatResult> {
+    let lastError: unknown;
+    for (const llm of this.getCandidates()) {
+      const startTime = Date.now();
+      try {
+        const message = await llm.invoke(messages, this.getChildOptions(options));
+        message.response_metadata = { ...message.response_metadata, served_by: getModelName(llm) };
+        this.report(llm, startTime);
+        return {
+          generations: [
+            { text: typeof message.content === 'string' ? message.content : '', message },
+          ],
+        };
+      } catch (error) {
+        this.report(llm, startTime, error);
+        if (isAbort(error)) throw error;
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this['ParsedCallOptions'],
+    runManager?: CallbackManagerForLLMRun,
+  ): AsyncGenerator<ChatGenerationChunk> {
+    let lastError: unknown;
+    for (const llm of this.getCandidates()) {
+      const startTime = Date.now();
+      let streamed = false;
+      try {
+        const stream = await llm.stream(messages, this.getChildOptions(options));
+        for await (const chunk of stream) {
+          streamed = true;
+          const text = typeof chunk.content === 'string' ? chunk.content : '';
+          const generation = new ChatGenerationChunk({ message: chunk, text });
+          yield generation;
+          await runManager?.handleLLMNewToken(text, undefined, undefined, undefined, undefined, {
+            chunk: generation,
+          });
+        }
+        this.report(llm, startTime);
+        return;
+      } catch (error) {
+        this.report(llm, startTime, error);
+        // Another model cannot take over an answer already streamed
+        if (streamed || isAbort(error)) throw error;
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Models in order, the ones cooling down last
+   */
+  private getCandidates(): BaseChatModel[] {
+    const now = Date.now();
+    const availableAt = (llm: BaseChatModel) => {
+      const until = this.cooldowns.get(getModelName(llm)) ?? 0;
+      return until > now ? until : 0;
+    };
+    return [...this.models].sort((a, b) => availableAt(a) - availableAt(b));
+  }
+
+  private getChildOptions(options: this['ParsedCallOptions']) {
+    // Without callbacks the models would stream the answer a second time to graph listeners
+    return { ...options, callbacks: [] };
+  }
+
+  private report(llm: BaseChatModel, startTime: number, error?: unknown) {
+    const model = getModelName(llm);
+    if (error && !isAbort(error)) {
+      this.cooldowns.set(model, Date.now() + this.cooldownMs);
+    } else if (!error) {
+      this.cooldowns.delete(model);
+    }
+    this.onModelCall?.({
+      node: this.node,
+      model,
+      success: !error,
+      error: error ? (error instanceof Error ? error.message : String(error)) : undefined,
+      latencyMs: Date.now() - startTime,
+    });
+  }
+}
@@ -0,0 +1,41 @@
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { BaseModel } from './BaseModel';
+import { FailoverChatModel, ModelCallReport } from './FailoverChatModel';
+import { IModel, ModelNode } from './types';
+
+export interface RouterModelConfig {
+  /** Models tried in order, for the nodes without their own models */
+  models: IModel | IModel[];
+  /** Models of specific nodes, e.g. a cheap model for the supervisor and a strong one to plan */
+  nodes?: Partial<Record<ModelNode, IModel | IModel[]>>;
+  /** How long a failing model is tried after the others in milliseconds (defaults to 60000) */
+  cooldownMs?: number;
+  /** Called with the model that served or failed each call */
+  onModelCall?: (report: ModelCallReport) => void;
+}
+
+/**
+ * Model routing each node of the agents to its own models, failing over between them on errors
+ */
+export class RouterModel extends BaseModel {
+  private readonly config: RouterModelConfig;
+  // Shared by the nodes, a rate limited model is skipped by all of them
+  private readonly cooldowns = new Map<string, number>();
+
+  constructor(config: RouterModelConfig) {
+    super();
+    this.config = config;
+  }
+
+  getLangChainLLM(node?: ModelNode): BaseChatModel {
+    const route = (node && this.config.nodes?.[node]) || this.config.models;
+    const models = Array.isArray(route) ? route : [route];
+    return new FailoverChatModel({
+      models: models.map(model => model.getLangChainLLM(node)),
+      node,
+      cooldownMs: this.config.cooldownMs,
+      cooldowns: this.cooldowns,
+      onModelCall: this.config.onModelCall,
+    });
+  }
+}
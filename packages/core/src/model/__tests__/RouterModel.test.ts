@@ -0,0 +1,144 @@
+import { CallbackManagerForLLMRun } from '@langchain/core/callbacks/manager';
+import { BaseMessage } from '@langchain/core/messages';
+import { ChatGenerationChunk, ChatResult } from '@langchain/core/outputs';
+import { FakeListChatModel } from '@langchain/core/utils/testing';
+import { ModelCallReport } from '../FailoverChatModel';
+import { RouterModel } from '../RouterModel';
+import { ModelNode } from '../types';
+
+class TestChatModel extends FakeListChatModel {
+  calls: this['ParsedCallOptions'][] = [];
+
+  constructor(
+    public model: string,
+    private error?: Error,
+  ) {
+    super({ responses: [`answer from ${model}`] });
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this['ParsedCallOptions'],
+    runManager?: CallbackManagerForLLMRun,
+  ): Promise<ChatResult> {
+    this.calls.push(options);
+    if (this.error) throw this.error;
+    return super._generate(messages, options, runManager);
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this['ParsedCallOptions'],
+    runManager?: CallbackManagerForLLMRun,
+  ): AsyncGenerator<ChatGenerationChunk> {
+    if (this.error) throw this.error;
+    yield* super._streamResponseChunks(messages, options, runManager);
+  }
+}
+
+const modelOf = (llm: TestChatModel) => ({ getLangChainLLM: () => llm });
+
+describe('RouterModel', () => {
+  let reports: ModelCallReport[];
+  const onModelCall = (report: ModelCallReport) => reports.push(report);
+
+  beforeEach(() => {
+    reports = [];
+  });
+
+  it('should serve each node with its own models', async () => {
+    const router = new RouterModel({
+      models: modelOf(new TestChatModel('strong')),
+      nodes: { [ModelNode.SUPERVISOR]: modelOf(new TestChatModel('cheap')) },
+      onModelCall,
+    });
+
+    const answer = await router.getLangChainLLM(ModelNode.SUPERVISOR).invoke('route this');
+    await router.getLangChainLLM(ModelNode.PLANNER).invoke('plan this');
+
+    expect(answer.content).toBe('answer from cheap');
+    expect(answer.response_metadata.served_by).toBe('fake-list:cheap');
+    expect(reports).toEqual([
+      expect.objectContaining({ node: 'supervisor', model: 'fake-list:cheap', success: true }),
+      expect.objectContaining({ node: 'planner', model: 'fake-list:strong', success: true }),
+    ]);
+  });
+
+  it('should fail over and try a failing model last until its cooldown ends', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const primary = new TestChatModel('primary', new Error('429 Rate limit reached'));
+    const router = new RouterModel({
+      models: [modelOf(primary), modelOf(new TestChatModel('backup'))],
+      cooldownMs: 1000,
+      onModelCall,
+    });
+
+    await expect(router.getLangChainLLM().invoke('swap')).resolves.toMatchObject({
+      content: 'answer from backup',
+    });
+    await router.getLangChainLLM(ModelNode.EXECUTOR).invoke('swap');
+    jest.setSystemTime(1000);
+    await router.getLangChainLLM().invoke('swap');
+    jest.useRealTimers();
+
+    expect(reports.map(({ model, success }) => `${model} ${success}`)).toEqual([
+      'fake-list:primary false',
+      'fake-list:backup true',
+      // The cooldown is shared by every node
+      'fake-list:backup true',
+      'fake-list:primary false',
+      'fake-list:backup true',
+    ]);
+    expect(reports[0].error).toBe('429 Rate limit reached');
+  });
+
+  it('should throw the last error when every model fails', async () => {
+    const router = new RouterModel({
+      models: [
+        modelOf(new TestChatModel('a', new Error('down'))),
+        modelOf(new TestChatModel('b', new Error('overloaded'))),
+      ],
+    });
+
+    await expect(router.getLangChainLLM().invoke('swap')).rejects.toThrow('overloaded');
+  });
+
+  it('should fail over before streaming', async () => {
+    const router = new RouterModel({
+      models: [
+        modelOf(new TestChatModel('primary', new Error('down'))),
+        modelOf(new TestChatModel('backup')),
+      ],
+    });
+
+    let answer = '';
+    for await (const chunk of await router.getLangChainLLM().stream('swap')) {
+      answer += chunk.content;
+    }
+
+    expect(answer).toBe('answer from backup');
+  });
+
+  it('should pass bound tools to every model', async () => {
+    const primary = new TestChatModel('primary', new Error('down'));
+    const backup = new TestChatModel('backup');
+    const router = new RouterModel({ models: [modelOf(primary), modelOf(backup)] });
+    const balance = {
+      type: 'function' as const,
+      function: {
+        name: 'get_wallet_balance',
+        description: 'Balance of the wallet',
+        parameters: { type: 'object', properties: { network: { type: 'string' } } },
+      },
+    };
+
+    await router.getLangChainLLM().bindTools!([balance], { tool_choice: 'required' }).invoke('hi');
+
+    for (const llm of [primary, backup]) {
+      expect(llm.calls[0]).toMatchObject({
+        tools: [{ type: 'function', function: { name: 'get_wallet_balance' } }],
+        tool_choice: 'required',
+      });
+    }
+  });
+});
@@ -4,3 +4,5 @@ export * from './AnthropicModel';
 export * from './MistralModel';
 export * from './OllamaModel';
 export * from './types';
+export * from './FailoverChatModel';
+export * from './RouterModel';
@@ -1,5 +1,16 @@
 import { BaseChatModel } from "@langchain/core/language_models/chat_models";
 
+/**
+ * Parts of the agents asking for a model, a `RouterModel` can serve each with its own models
+ */
+export enum ModelNode {
+    SUPERVISOR = "supervisor",
+    PLANNER = "planner",
+    EXECUTOR = "executor",
+    BASIC_QUESTION = "basic_question",
+    SUMMARIZER = "summarizer",
+}
+
 export interface IModel {
-    getLangChainLLM(): BaseChatModel;
-}
\ No newline at end of file
+    getLangChainLLM(node?: ModelNode): BaseChatModel;
+}
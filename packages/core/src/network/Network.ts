@@ -1,5 +1,7 @@
 import { ethers } from 'ethers';
 import { Connection } from '@solana/web3.js';
+import { TracedJsonRpcProvider } from '../telemetry/TracedJsonRpcProvider';
+import { tracedFetch } from '../telemetry/tracing';
 import {
   NetworksConfig,
   NetworkConfig,
@@ -37,9 +39,11 @@ export class Network {
   #createProvider(config: NetworkConfig): ethers.JsonRpcProvider | Connection {
     switch (config.type) {
       case 'evm':
-        return new ethers.JsonRpcProvider((config.config as EVMNetworkConfig).rpcUrl);
+        return new TracedJsonRpcProvider((config.config as EVMNetworkConfig).rpcUrl);
       case 'solana':
-        return new Connection((config.config as SolanaNetworkConfig).rpcUrl);
+        return new Connection((config.config as SolanaNetworkConfig).rpcUrl, {
+          fetch: tracedFetch,
+        });
       default:
         throw new Error(`Unsupported network type: ${config.type}`);
     }
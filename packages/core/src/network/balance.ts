@@ -0,0 +1,60 @@
+import { ethers } from 'ethers';
+import { PublicKey } from '@solana/web3.js';
+import { Network } from './Network';
+import { NetworkName } from './types';
+import {
+  EVM_NATIVE_TOKEN_ADDRESS,
+  SOL_NATIVE_TOKEN_ADDRESS,
+  SOL_NATIVE_TOKEN_ADDRESS2,
+} from './constants';
+
+const ERC20_BALANCE_ABI = [
+  'function balanceOf(address) view returns (uint256)',
+  'function decimals() view returns (uint8)',
+];
+
+export interface TokenBalance {
+  /** Balance in token units */
+  balance: string;
+  decimals: number;
+}
+
+/**
+ * Balance of a native or fungible token held by an address
+ */
+export async function getTokenBalance(
+  network: Network,
+  networkName: NetworkName,
+  token: string,
+  owner: string,
+): Promise<TokenBalance> {
+  if (network.getConfig(networkName).type === 'solana') {
+    const connection = network.getProvider(networkName, 'solana');
+    const wallet = new PublicKey(owner);
+    if ([SOL_NATIVE_TOKEN_ADDRESS, SOL_NATIVE_TOKEN_ADDRESS2].includes(token)) {
+      return { balance: ethers.formatUnits(await connection.getBalance(wallet), 9), decimals: 9 };
+    }
+    const accounts = await connection.getParsedTokenAccountsByOwner(wallet, {
+      mint: new PublicKey(token),
+    });
+    const amounts = accounts.value.map(account => account.account.data.parsed.info.tokenAmount);
+    if (!amounts.length) {
+      const mint = await connection.getParsedAccountInfo(new PublicKey(token));
+      const data = mint.value?.data;
+      return { balance: '0', decimals: data && 'parsed' in data ? data.parsed.info.decimals : 0 };
+    }
+    const raw = amounts.reduce((sum, amount) => sum + BigInt(amount.amount), 0n);
+    return { balance: ethers.formatUnits(raw, amounts[0].decimals), decimals: amounts[0].decimals };
+  }
+
+  const provider = network.getProvider(networkName, 'evm');
+  if (
+    token.toLowerCase() === EVM_NATIVE_TOKEN_ADDRESS ||
+    token.toLowerCase() === ethers.ZeroAddress
+  ) {
+    return { balance: ethers.formatEther(await provider.getBalance(owner)), decimals: 18 };
+  }
+  const contract = new ethers.Contract(token, ERC20_BALANCE_ABI, provider);
+  const [balance, decimals] = await Promise.all([contract.balanceOf(owner), contract.decimals()]);
+  return { balance: ethers.formatUnits(balance, decimals), decimals: Number(decimals) };
+}
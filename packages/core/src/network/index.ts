@@ -1,3 +1,4 @@
 export * from './types';
 export * from './Network';
 export * from './constants';
+export * from './balance';
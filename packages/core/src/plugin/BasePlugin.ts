@@ -15,11 +15,10 @@ export abstract class BasePlugin implements IPlugin {
 
   async register(agent: IAgent): Promise<void> {
     this.agent = agent;
-    const tools = this.getTools();
-    for (const tool of tools) {
-      tool.setAgent(agent);
-      await agent.registerTool(tool);
-    }
+  }
+
+  getDependencies(): string[] {
+    return [];
   }
 
   getTools(): BaseTool[] {
@@ -0,0 +1,57 @@
+import { BasePlugin } from '../BasePlugin';
+import { sortPluginsByDependencies } from '../dependencies';
+import { IPlugin } from '../types';
+
+class TestPlugin extends BasePlugin {
+  constructor(
+    private readonly name: string,
+    private readonly dependencies: string[] = [],
+  ) {
+    super();
+  }
+
+  getName(): string {
+    return this.name;
+  }
+
+  getDependencies(): string[] {
+    return this.dependencies;
+  }
+}
+
+const names = (plugins: IPlugin[]) => plugins.map(plugin => plugin.getName());
+
+describe('sortPluginsByDependencies', () => {
+  it('registers plugins after their dependencies and keeps the others in order', () => {
+    const plugins = [
+      new TestPlugin('swap', ['token']),
+      new TestPlugin('wallet'),
+      new TestPlugin('token'),
+      new TestPlugin('bridge', ['token', 'wallet']),
+    ];
+
+    expect(names(sortPluginsByDependencies(plugins))).toEqual([
+      'token',
+      'swap',
+      'wallet',
+      'bridge',
+    ]);
+  });
+
+  it('accepts dependencies already registered', () => {
+    const plugins = [new TestPlugin('swap', ['token'])];
+
+    expect(names(sortPluginsByDependencies(plugins, ['token']))).toEqual(['swap']);
+    expect(() => sortPluginsByDependencies(plugins)).toThrow(
+      'Plugin swap depends on token, which is not registered',
+    );
+  });
+
+  it('rejects circular dependencies', () => {
+    const plugins = [new TestPlugin('a', ['b']), new TestPlugin('b', ['a'])];
+
+    expect(() => sortPluginsByDependencies(plugins)).toThrow(
+      'Circular dependency between plugins: a -> b -> a',
+    );
+  });
+});
@@ -0,0 +1,42 @@
+import { IPlugin } from './types';
+
+export function getPluginDependencies(plugin: IPlugin): string[] {
+  return plugin.getDependencies?.() ?? [];
+}
+
+/**
+ * Order plugins so each one comes after the plugins it depends on, the others keep their order
+ * @param registered Plugins already registered, which satisfy dependencies
+ */
+export function sortPluginsByDependencies(
+  plugins: IPlugin[],
+  registered: Iterable<string> = [],
+): IPlugin[] {
+  const byName = new Map(plugins.map(plugin => [plugin.getName(), plugin]));
+  const resolved = new Set(registered);
+  const visiting = new Set<string>();
+  const sorted: IPlugin[] = [];
+
+  const visit = (plugin: IPlugin) => {
+    const name = plugin.getName();
+    if (resolved.has(name)) return;
+    if (visiting.has(name)) {
+      throw new Error(`Circular dependency between plugins: ${[...visiting, name].join(' -> ')}`);
+    }
+    visiting.add(name);
+    for (const dependency of getPluginDependencies(plugin)) {
+      const dependencyPlugin = byName.get(dependency);
+      if (dependencyPlugin) {
+        visit(dependencyPlugin);
+      } else if (!resolved.has(dependency)) {
+        throw new Error(`Plugin ${name} depends on ${dependency}, which is not registered`);
+      }
+    }
+    visiting.delete(name);
+    resolved.add(name);
+    sorted.push(plugin);
+  };
+
+  plugins.forEach(visit);
+  return sorted;
+}
@@ -1,2 +1,3 @@
 export * from './BasePlugin';
+export * from './dependencies';
 export * from './types';
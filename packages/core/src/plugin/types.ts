@@ -17,10 +17,15 @@ export interface IPlugin {
   initialize(config: IPluginConfig): Promise<void>;
 
   /**
-   * Register the plugin with an agent
+   * Called by the agent registering the plugin, before it registers the plugin's tools
    */
   register(agent: IAgent): Promise<void>;
 
+  /**
+   * Names of the plugins this plugin needs, which must be registered before it
+   */
+  getDependencies?(): string[];
+
   /**
    * Get all tools provided by this plugin
    */
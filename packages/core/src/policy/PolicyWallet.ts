@@ -0,0 +1,219 @@
+import { Transaction as EvmTransaction } from 'ethers';
+import { NetworkName } from '../network/types';
+import {
+  IMultiAccountWallet,
+  IPendingTransactionManager,
+  FeeEstimate,
+  IWallet,
+  PendingTransaction,
+  SignedTransactionRequest,
+  SignMessageParams,
+  SignTransactionParams,
+  SimulationResult,
+  TransactionReceipt,
+  TransactionRequest,
+  TransactionType,
+  TypedDataDomain,
+  TypedDataTypes,
+  WalletAccount,
+} from '../wallet/types';
+import { isPendingTransactionManager } from '../wallet/TransactionQueue';
+import { isMultiAccountWallet } from '../wallet/HDWallet';
+import { SpendingPolicy } from './SpendingPolicy';
+import { SpendRecord } from './types';
+import {
+  deserializeSolanaTransaction,
+  getEvmTransactionRequests,
+  getSolanaTransactionRequests,
+  getTypedDataRequests,
+} from './requests';
+
+/**
+ * Wallet wrapper enforcing a spending policy before anything is signed or broadcast.
+ * Spends are reserved before a transaction is sent, so parallel sends share the limits.
+ */
+export class PolicyWallet implements IWallet, IPendingTransactionManager, IMultiAccountWallet {
+  constructor(
+    private readonly wallet: IWallet,
+    private readonly policy: SpendingPolicy,
+  ) {}
+
+  getPolicy(): SpendingPolicy {
+    return this.policy;
+  }
+
+  getAddress(network: NetworkName): Promise<string> {
+    return this.wallet.getAddress(network);
+  }
+
+  getPublicKey(network: NetworkName): Promise<string> {
+    return this.wallet.getPublicKey(network);
+  }
+
+  getPrivateKey(network: NetworkName): Promise<string> {
+    return this.wallet.getPrivateKey(network);
+  }
+
+  signMessage(params: SignMessageParams): Promise<string> {
+    return this.wallet.signMessage(params);
+  }
+
+  async signTypedData(
+    network: NetworkName,
+    domain: TypedDataDomain,
+    types: TypedDataTypes,
+    value: Record<string, any>,
+  ): Promise<string> {
+    // Permits grant allowances without an approval transaction
+    await this.#enforce(network, getTypedDataRequests(domain, types, value));
+    return this.wallet.signTypedData(network, domain, types, value);
+  }
+
+  async signTransaction(params: SignTransactionParams): Promise<string> {
+    await this.#enforce(params.network, this.#getRequests(params.transaction));
+    return this.wallet.signTransaction(params);
+  }
+
+  async sendTransaction(
+    network: NetworkName,
+    signedTransaction: SignedTransactionRequest,
+  ): Promise<TransactionReceipt> {
+    const transaction = signedTransaction.transaction.startsWith('0x')
+      ? EvmTransaction.from(signedTransaction.transaction)
+      : deserializeSolanaTransaction(signedTransaction.transaction);
+    return this.#send(network, this.#getRequests(transaction), () =>
+      this.wallet.sendTransaction(network, signedTransaction),
+    );
+  }
+
+  signAndSendTransaction(
+    network: NetworkName,
+    transaction: TransactionRequest,
+  ): Promise<TransactionReceipt> {
+    return this.#send(network, this.#decodeRequest(transaction), () =>
+      this.wallet.signAndSendTransaction(network, transaction),
+    );
+  }
+
+  simulateTransaction(
+    network: NetworkName,
+    transaction: TransactionRequest,
+  ): Promise<SimulationResult> {
+    return this.wallet.simulateTransaction(network, transaction);
+  }
+
+  simulateTransactions(
+    network: NetworkName,
+    transactions: TransactionRequest[],
+  ): Promise<SimulationResult[]> {
+    return this.wallet.simulateTransactions(network, transactions);
+  }
+
+  estimateFees(network: NetworkName, transaction: TransactionRequest): Promise<FeeEstimate> {
+    return this.wallet.estimateFees(network, transaction);
+  }
+
+  getPendingTransactions(network?: NetworkName): PendingTransaction[] {
+    return isPendingTransactionManager(this.wallet)
+      ? this.wallet.getPendingTransactions(network)
+      : [];
+  }
+
+  // Replacements reuse transactions that already passed the policy
+  speedUpTransaction(
+    network: NetworkName,
+    nonce: number,
+    feeBumpPercent?: number,
+  ): Promise<PendingTransaction> {
+    if (!isPendingTransactionManager(this.wallet)) {
+      throw new Error('Wallet does not support replacing pending transactions');
+    }
+    return this.wallet.speedUpTransaction(network, nonce, feeBumpPercent);
+  }
+
+  cancelTransaction(
+    network: NetworkName,
+    nonce: number,
+    feeBumpPercent?: number,
+  ): Promise<PendingTransaction> {
+    if (!isPendingTransactionManager(this.wallet)) {
+      throw new Error('Wallet does not support replacing pending transactions');
+    }
+    return this.wallet.cancelTransaction(network, nonce, feeBumpPercent);
+  }
+
+  getAccounts(): WalletAccount[] {
+    return isMultiAccountWallet(this.wallet) ? this.wallet.getAccounts() : [];
+  }
+
+  addAccount(): WalletAccount {
+    return this.#getMultiAccountWallet().addAccount();
+  }
+
+  getActiveAccount(threadId?: string): WalletAccount {
+    return this.#getMultiAccountWallet().getActiveAccount(threadId);
+  }
+
+  setActiveAccount(index: number, threadId?: string): WalletAccount {
+    return this.#getMultiAccountWallet().setActiveAccount(index, threadId);
+  }
+
+  #getRequests(transaction: TransactionType): TransactionRequest[] {
+    if (transaction instanceof EvmTransaction) {
+      return getEvmTransactionRequests(transaction);
+    }
+    return getSolanaTransactionRequests(transaction);
+  }
+
+  /**
+   * What a request spends, decoded from its content unless the tool building it described it
+   */
+  #decodeRequest(transaction: TransactionRequest): TransactionRequest[] {
+    if (transaction.spend) {
+      return [transaction];
+    }
+    if (transaction.to.startsWith('0x')) {
+      return getEvmTransactionRequests(transaction);
+    }
+    try {
+      // Solana requests carry the serialized transaction
+      return getSolanaTransactionRequests(deserializeSolanaTransaction(transaction.data));
+    } catch (e) {
+      return [transaction];
+    }
+  }
+
+  async #enforce(network: NetworkName, requests: TransactionRequest[]) {
+    for (const request of requests) {
+      await this.policy.enforce(network, request);
+    }
+  }
+
+  /**
+   * Send once the spends are reserved, the reservations are released when the send fails
+   */
+  async #send<T>(
+    network: NetworkName,
+    requests: TransactionRequest[],
+    send: () => Promise<T>,
+  ): Promise<T> {
+    const reservations: SpendRecord[] = [];
+    try {
+      for (const request of requests) {
+        const reservation = await this.policy.reserve(network, request);
+        if (reservation) reservations.push(reservation);
+      }
+      return await send();
+    } catch (error) {
+      reservations.forEach(reservation => this.policy.release(reservation));
+      throw error;
+    }
+  }
+
+  #getMultiAccountWallet(): IMultiAccountWallet {
+    if (!isMultiAccountWallet(this.wallet)) {
+      throw new Error('Wallet does not support multiple accounts');
+    }
+    return this.wallet;
+  }
+}
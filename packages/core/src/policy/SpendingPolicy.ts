@@ -0,0 +1,308 @@
+import { ethers } from 'ethers';
+import { NetworkName } from '../network/types';
+import { EVM_NATIVE_TOKEN_ADDRESS } from '../network/constants';
+import { SpendContext, TransactionRequest } from '../wallet/types';
+import { createStructuredError, ErrorStep } from '../utils/StructuredError';
+import { PolicyCheckResult, SpendingPolicyConfig, SpendLimit, SpendRecord } from './types';
+
+const DEFAULT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+interface ResolvedSpend {
+  token?: string;
+  amount?: number;
+  slippage?: number;
+  unknown?: SpendContext['unknown'];
+}
+
+/**
+ * Rules enforced on every transaction before it reaches the signer.
+ * Spent amounts are kept in memory to enforce rolling caps.
+ */
+export class SpendingPolicy {
+  private readonly config: SpendingPolicyConfig;
+  private records: SpendRecord[] = [];
+
+  constructor(config: SpendingPolicyConfig) {
+    this.config = config;
+  }
+
+  private normalize(address: string): string {
+    // EVM addresses are case insensitive, base58 addresses are not
+    return address.startsWith('0x') ? address.toLowerCase() : address;
+  }
+
+  private includes(list: string[], address: string): boolean {
+    const normalized = this.normalize(address);
+    return list.some(item => this.normalize(item) === normalized);
+  }
+
+  private violation(message: string, details: Record<string, any>) {
+    return createStructuredError(ErrorStep.POLICY_VIOLATION, message, details);
+  }
+
+  private resolveSpend(transaction: TransactionRequest): ResolvedSpend {
+    if (transaction.spend) {
+      const amount =
+        transaction.spend.amount != null ? Number(transaction.spend.amount) : undefined;
+      return {
+        token: transaction.spend.token,
+        amount: amount != null && !isNaN(amount) ? amount : undefined,
+        slippage: transaction.spend.slippage,
+        unknown: transaction.spend.unknown,
+      };
+    }
+    // Without spend context, only native value transfers on EVM can be priced
+    const value = BigInt(transaction.value ?? 0);
+    if (value > BigInt(0) && transaction.to?.startsWith('0x')) {
+      return { token: EVM_NATIVE_TOKEN_ADDRESS, amount: Number(ethers.formatEther(value)) };
+    }
+    return {};
+  }
+
+  private appliesTo(limit: SpendLimit, network: NetworkName, token: string): boolean {
+    if (limit.network && limit.network !== network) return false;
+    if (limit.token && this.normalize(limit.token) !== this.normalize(token)) return false;
+    return true;
+  }
+
+  private needsUsd(network: NetworkName, token: string): boolean {
+    if (this.config.maxUsdPerTransaction != null) return true;
+    return (this.config.spendLimits ?? []).some(
+      limit => limit.maxUsd != null && this.appliesTo(limit, network, token),
+    );
+  }
+
+  private async getUsdValue(network: NetworkName, token: string, amount: number): Promise<number> {
+    let price: number | undefined;
+    try {
+      price = await this.config.getTokenPriceUsd?.(network, token);
+    } catch (error) {
+      price = undefined;
+    }
+    if (price == null || isNaN(price)) {
+      // Fail closed, a USD cap cannot be enforced without a price
+      throw this.violation(`Cannot enforce USD limits, no price available for token ${token}`, {
+        network,
+        token,
+      });
+    }
+    return amount * price;
+  }
+
+  private checkLists(transaction: TransactionRequest, token?: string) {
+    const { allowedContracts, deniedContracts, allowedTokens, deniedTokens } = this.config;
+    const to = transaction.to;
+
+    if (to) {
+      if (deniedContracts && this.includes(deniedContracts, to)) {
+        throw this.violation(`Contract ${to} is denied by the spending policy`, { contract: to });
+      }
+      if (allowedContracts && !this.includes(allowedContracts, to)) {
+        throw this.violation(`Contract ${to} is not in the allowed contracts`, { contract: to });
+      }
+    }
+
+    if (token) {
+      if (deniedTokens && this.includes(deniedTokens, token)) {
+        throw this.violation(`Token ${token} is denied by the spending policy`, { token });
+      }
+      if (allowedTokens && !this.includes(allowedTokens, token)) {
+        throw this.violation(`Token ${token} is not in the allowed tokens`, { token });
+      }
+    }
+  }
+
+  /**
+   * Fail closed on a spend that was not fully decoded when a rule depends on what is unknown
+   */
+  private checkUnknown(network: NetworkName, token: string, unknown: SpendContext['unknown']) {
+    if (!unknown?.length) return;
+    const { allowedTokens, deniedTokens, maxUsdPerTransaction, spendLimits = [] } = this.config;
+    const unknownToken = unknown.includes('token');
+
+    const isLimited =
+      maxUsdPerTransaction != null ||
+      spendLimits.some(
+        limit =>
+          (limit.maxAmount != null || limit.maxUsd != null) &&
+          (unknownToken
+            ? !limit.network || limit.network === network
+            : this.appliesTo(limit, network, token)),
+      );
+    if (isLimited || (unknownToken && (allowedTokens || deniedTokens))) {
+      throw this.violation(
+        `Cannot enforce the spending policy, the ${unknown.join(' and ')} spent could not be decoded`,
+        { network, token, unknown },
+      );
+    }
+  }
+
+  private spentInWindow(limit: SpendLimit, now: number) {
+    const since = now - (limit.windowMs ?? DEFAULT_WINDOW_MS);
+    return this.records
+      .filter(
+        record => record.timestamp > since && this.appliesTo(limit, record.network, record.token),
+      )
+      .reduce(
+        (total, record) => ({
+          amount: total.amount + record.amount,
+          usd: total.usd + (record.usdValue ?? 0),
+        }),
+        { amount: 0, usd: 0 },
+      );
+  }
+
+  /**
+   * Check the lists, the slippage and the per transaction cap, and price the spend
+   */
+  private async check(network: NetworkName, transaction: TransactionRequest) {
+    const { token, amount, slippage, unknown } = this.resolveSpend(transaction);
+
+    if (token) {
+      this.checkUnknown(network, token, unknown);
+    }
+    this.checkLists(transaction, unknown?.includes('token') ? undefined : token);
+
+    if (slippage != null && this.config.maxSlippage != null && slippage > this.config.maxSlippage) {
+      throw this.violation(
+        `Slippage ${slippage}% exceeds the maximum of ${this.config.maxSlippage}%`,
+        { slippage, maxSlippage: this.config.maxSlippage },
+      );
+    }
+
+    if (!token || amount == null) {
+      return undefined;
+    }
+
+    const usdValue = this.needsUsd(network, token)
+      ? await this.getUsdValue(network, token, amount)
+      : undefined;
+
+    if (
+      usdValue != null &&
+      this.config.maxUsdPerTransaction != null &&
+      usdValue > this.config.maxUsdPerTransaction
+    ) {
+      throw this.violation(
+        `Transaction value of $${usdValue.toFixed(2)} exceeds the maximum of $${this.config.maxUsdPerTransaction} per transaction`,
+        {
+          network,
+          token,
+          amount,
+          usdValue,
+          maxUsdPerTransaction: this.config.maxUsdPerTransaction,
+        },
+      );
+    }
+
+    return { token, amount, usdValue };
+  }
+
+  /**
+   * Check the rolling spend caps, synchronous so nothing is recorded between the check and
+   * the reservation that follows it
+   */
+  private checkLimits(
+    network: NetworkName,
+    token: string,
+    amount: number,
+    usdValue: number | undefined,
+    now: number,
+  ) {
+    for (const limit of this.config.spendLimits ?? []) {
+      if (!this.appliesTo(limit, network, token)) continue;
+      const spent = this.spentInWindow(limit, now);
+
+      if (
+        limit.maxAmount != null &&
+        limit.token &&
+        spent.amount + amount > Number(limit.maxAmount)
+      ) {
+        throw this.violation(
+          `Spending ${amount} of ${token} exceeds the limit of ${limit.maxAmount} (${spent.amount} already spent)`,
+          { network, token, amount, spent: spent.amount, limit },
+        );
+      }
+      if (limit.maxUsd != null && usdValue != null && spent.usd + usdValue > limit.maxUsd) {
+        throw this.violation(
+          `Spending $${usdValue.toFixed(2)} exceeds the limit of $${limit.maxUsd} ($${spent.usd.toFixed(2)} already spent)`,
+          { network, token, usdValue, spent: spent.usd, limit },
+        );
+      }
+    }
+  }
+
+  private addRecord(record: SpendRecord): SpendRecord {
+    const longestWindow = Math.max(
+      DEFAULT_WINDOW_MS,
+      ...(this.config.spendLimits ?? []).map(limit => limit.windowMs ?? DEFAULT_WINDOW_MS),
+    );
+    this.records = this.records.filter(
+      previous => previous.timestamp > record.timestamp - longestWindow,
+    );
+    this.records.push(record);
+    return record;
+  }
+
+  /**
+   * Check a transaction against the policy
+   * @throws StructuredError with step POLICY_VIOLATION when a rule is broken
+   */
+  async enforce(network: NetworkName, transaction: TransactionRequest): Promise<PolicyCheckResult> {
+    const spend = await this.check(network, transaction);
+    if (!spend) {
+      return {};
+    }
+
+    this.checkLimits(network, spend.token, spend.amount, spend.usdValue, Date.now());
+    return { usdValue: spend.usdValue };
+  }
+
+  /**
+   * Check a transaction against the policy and count it towards the rolling limits at once,
+   * so transactions sent in parallel cannot all pass a limit before any is recorded.
+   * Release the reservation when the transaction is not sent.
+   * @returns The reserved spend, undefined when the transaction spends nothing priced
+   * @throws StructuredError with step POLICY_VIOLATION when a rule is broken
+   */
+  async reserve(
+    network: NetworkName,
+    transaction: TransactionRequest,
+  ): Promise<SpendRecord | undefined> {
+    const spend = await this.check(network, transaction);
+    if (!spend) {
+      return undefined;
+    }
+
+    const now = Date.now();
+    this.checkLimits(network, spend.token, spend.amount, spend.usdValue, now);
+    return this.addRecord({
+      network,
+      token: spend.token,
+      amount: spend.amount,
+      usdValue: spend.usdValue,
+      timestamp: now,
+    });
+  }
+
+  /**
+   * Stop counting a reserved spend, for a transaction that failed to be sent
+   */
+  release(reservation?: SpendRecord) {
+    this.records = this.records.filter(record => record !== reservation);
+  }
+
+  /**
+   * Record a sent transaction so it counts towards rolling limits
+   */
+  record(network: NetworkName, transaction: TransactionRequest, result: PolicyCheckResult = {}) {
+    const { token, amount } = this.resolveSpend(transaction);
+    if (!token || amount == null) return;
+
+    this.addRecord({ network, token, amount, usdValue: result.usdValue, timestamp: Date.now() });
+  }
+
+  getRecords(): SpendRecord[] {
+    return [...this.records];
+  }
+}
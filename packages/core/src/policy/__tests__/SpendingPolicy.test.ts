@@ -0,0 +1,316 @@
+import {
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction as SolanaTransaction,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import { ethers } from 'ethers';
+import { NetworkName } from '../../network/types';
+import { ErrorStep } from '../../utils/StructuredError';
+import { IWallet } from '../../wallet/types';
+import { SpendingPolicy } from '../SpendingPolicy';
+import { PolicyWallet } from '../PolicyWallet';
+
+describe('SpendingPolicy', () => {
+  const token = '0x55d398326f99059fF775485246999027B3197955';
+  const router = '0x10ED43C718714eb63d5aA57B78B54704E256024E';
+  const getTokenPriceUsd = jest.fn().mockResolvedValue(1);
+
+  const request = (amount: string, overrides: Record<string, any> = {}) => ({
+    to: router,
+    data: '0x',
+    value: BigInt(0),
+    spend: { token, amount },
+    ...overrides,
+  });
+
+  it('should reject transactions above the per transaction USD cap', async () => {
+    const policy = new SpendingPolicy({ maxUsdPerTransaction: 100, getTokenPriceUsd });
+
+    await expect(policy.enforce(NetworkName.BNB, request('50'))).resolves.toEqual({
+      usdValue: 50,
+    });
+    await expect(policy.enforce(NetworkName.BNB, request('150'))).rejects.toMatchObject({
+      step: ErrorStep.POLICY_VIOLATION,
+    });
+  });
+
+  it('should fail closed when no price is available for a USD cap', async () => {
+    const policy = new SpendingPolicy({ maxUsdPerTransaction: 100 });
+
+    await expect(policy.enforce(NetworkName.BNB, request('1'))).rejects.toMatchObject({
+      step: ErrorStep.POLICY_VIOLATION,
+    });
+  });
+
+  it('should enforce rolling spend caps with recorded transactions', async () => {
+    const policy = new SpendingPolicy({
+      spendLimits: [{ network: NetworkName.BNB, token, maxAmount: '100' }],
+    });
+
+    const first = request('60');
+    policy.record(NetworkName.BNB, first, await policy.enforce(NetworkName.BNB, first));
+
+    await expect(policy.enforce(NetworkName.BNB, request('50'))).rejects.toMatchObject({
+      step: ErrorStep.POLICY_VIOLATION,
+    });
+    await expect(policy.enforce(NetworkName.BNB, request('40'))).resolves.toBeDefined();
+    // Limits scoped to a network do not apply elsewhere
+    await expect(policy.enforce(NetworkName.ETHEREUM, request('50'))).resolves.toBeDefined();
+  });
+
+  it('should enforce contract and token lists case insensitively', async () => {
+    const policy = new SpendingPolicy({
+      allowedContracts: [router.toLowerCase()],
+      deniedTokens: [token.toUpperCase().replace('0X', '0x')],
+    });
+
+    await expect(
+      policy.enforce(
+        NetworkName.BNB,
+        request('1', { to: '0x0000000000000000000000000000000000000001' }),
+      ),
+    ).rejects.toMatchObject({ step: ErrorStep.POLICY_VIOLATION });
+    await expect(policy.enforce(NetworkName.BNB, request('1'))).rejects.toMatchObject({
+      step: ErrorStep.POLICY_VIOLATION,
+      details: { token },
+    });
+  });
+
+  it('should not let parallel reservations overrun a rolling cap', async () => {
+    const policy = new SpendingPolicy({
+      spendLimits: [{ token, maxUsd: 100 }],
+      getTokenPriceUsd,
+    });
+
+    const results = await Promise.allSettled([
+      policy.reserve(NetworkName.BNB, request('60')),
+      policy.reserve(NetworkName.BNB, request('60')),
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect(policy.getRecords()).toHaveLength(1);
+  });
+
+  it('should stop counting a released reservation', async () => {
+    const policy = new SpendingPolicy({
+      spendLimits: [{ token, maxAmount: '100' }],
+    });
+
+    const reservation = await policy.reserve(NetworkName.BNB, request('60'));
+    await expect(policy.reserve(NetworkName.BNB, request('60'))).rejects.toMatchObject({
+      step: ErrorStep.POLICY_VIOLATION,
+    });
+
+    policy.release(reservation);
+    await expect(policy.reserve(NetworkName.BNB, request('60'))).resolves.toBeDefined();
+  });
+
+  it('should reject slippage above the maximum', async () => {
+    const policy = new SpendingPolicy({ maxSlippage: 1 });
+
+    await expect(
+      policy.enforce(NetworkName.BNB, request('1', { spend: { token, amount: '1', slippage: 5 } })),
+    ).rejects.toMatchObject({ step: ErrorStep.POLICY_VIOLATION });
+  });
+});
+
+describe('PolicyWallet', () => {
+  it('should not sign transactions that violate the policy', async () => {
+    const wallet = {
+      signAndSendTransaction: jest.fn().mockResolvedValue({ hash: '0xhash' }),
+    } as unknown as IWallet;
+    const policy = new SpendingPolicy({
+      deniedContracts: ['0x0000000000000000000000000000000000000001'],
+    });
+    const policyWallet = new PolicyWallet(wallet, policy);
+
+    await expect(
+      policyWallet.signAndSendTransaction(NetworkName.BNB, {
+        to: '0x0000000000000000000000000000000000000001',
+        data: '0x',
+        value: BigInt(0),
+      }),
+    ).rejects.toMatchObject({ step: ErrorStep.POLICY_VIOLATION });
+    expect(wallet.signAndSendTransaction).not.toHaveBeenCalled();
+  });
+
+  it('should release the reserved spend when sending fails', async () => {
+    const wallet = {
+      signAndSendTransaction: jest.fn().mockRejectedValue(new Error('nonce too low')),
+    } as unknown as IWallet;
+    const policy = new SpendingPolicy({
+      spendLimits: [{ token: '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee', maxAmount: '1' }],
+    });
+    const policyWallet = new PolicyWallet(wallet, policy);
+
+    await expect(
+      policyWallet.signAndSendTransaction(NetworkName.BNB, {
+        to: '0x0000000000000000000000000000000000000001',
+        data: '0x',
+        value: BigInt(10 ** 17),
+      }),
+    ).rejects.toThrow('nonce too low');
+    expect(policy.getRecords()).toEqual([]);
+  });
+
+  it('should check permits against the token lists', async () => {
+    const wallet = { signTypedData: jest.fn().mockResolvedValue('0xsig') } as unknown as IWallet;
+    const token = '0x55d398326f99059fF775485246999027B3197955';
+    const policyWallet = new PolicyWallet(wallet, new SpendingPolicy({ deniedTokens: [token] }));
+    const spender = '0x10ED43C718714eb63d5aA57B78B54704E256024E';
+
+    await expect(
+      policyWallet.signTypedData(
+        NetworkName.BNB,
+        { name: 'Token', chainId: 56, verifyingContract: token },
+        { Permit: [{ name: 'spender', type: 'address' }] },
+        { owner: spender, spender, value: '1', nonce: 0, deadline: 0 },
+      ),
+    ).rejects.toMatchObject({ step: ErrorStep.POLICY_VIOLATION, details: { token } });
+    await expect(
+      policyWallet.signTypedData(
+        NetworkName.BNB,
+        { name: 'Permit2', chainId: 56 },
+        { PermitSingle: [{ name: 'spender', type: 'address' }] },
+        { details: { token, amount: '1', expiration: 0, nonce: 0 }, spender, sigDeadline: 0 },
+      ),
+    ).rejects.toMatchObject({ step: ErrorStep.POLICY_VIOLATION });
+    expect(wallet.signTypedData).not.toHaveBeenCalled();
+  });
+
+  it('should enforce the SOL transfers of signed Solana transactions', async () => {
+    const wallet = {
+      sendTransaction: jest.fn().mockResolvedValue({ hash: 'signature' }),
+    } as unknown as IWallet;
+    const policy = new SpendingPolicy({
+      spendLimits: [{ token: 'So11111111111111111111111111111111111111111', maxAmount: '1' }],
+    });
+    const policyWallet = new PolicyWallet(wallet, policy);
+
+    const payer = Keypair.generate();
+    const transfer = (lamports: number) => {
+      const tx = new SolanaTransaction({
+        feePayer: payer.publicKey,
+        recentBlockhash: Keypair.generate().publicKey.toBase58(),
+      }).add(
+        SystemProgram.transfer({
+          fromPubkey: payer.publicKey,
+          toPubkey: Keypair.generate().publicKey,
+          lamports,
+        }),
+      );
+      tx.sign(payer);
+      return { transaction: tx.serialize().toString('base64') };
+    };
+
+    await policyWallet.sendTransaction(NetworkName.SOLANA, transfer(6 * 10 ** 8));
+    await expect(
+      policyWallet.sendTransaction(NetworkName.SOLANA, transfer(6 * 10 ** 8)),
+    ).rejects.toMatchObject({ step: ErrorStep.POLICY_VIOLATION });
+    expect(wallet.sendTransaction).toHaveBeenCalledTimes(1);
+  });
+  describe('raw transactions', () => {
+    const token = '0x55d398326f99059fF775485246999027B3197955';
+    const recipient = '0x0000000000000000000000000000000000000002';
+    const erc20 = new ethers.Interface([
+      'function transfer(address to, uint256 amount)',
+      'function approve(address spender, uint256 amount)',
+    ]);
+
+    const createWallet = () =>
+      ({
+        signAndSendTransaction: jest.fn().mockResolvedValue({ hash: '0xhash' }),
+        sendTransaction: jest.fn().mockResolvedValue({ hash: '0xhash' }),
+      }) as unknown as IWallet;
+
+    it('should fail closed on signed ERC20 transfers under an amount limit', async () => {
+      const wallet = createWallet();
+      const signer = ethers.Wallet.createRandom();
+      const signed = await signer.signTransaction({
+        to: token,
+        data: erc20.encodeFunctionData('transfer', [recipient, ethers.parseEther('1000')]),
+        chainId: 56,
+        nonce: 0,
+        gasLimit: 100000,
+        gasPrice: 1,
+      });
+
+      const limited = new PolicyWallet(
+        wallet,
+        new SpendingPolicy({ spendLimits: [{ token, maxAmount: '100' }] }),
+      );
+      await expect(
+        limited.sendTransaction(NetworkName.BNB, { transaction: signed }),
+      ).rejects.toMatchObject({
+        step: ErrorStep.POLICY_VIOLATION,
+        details: { token, unknown: ['amount'] },
+      });
+
+      // Limits on other tokens do not depend on the amount
+      const unlimited = new PolicyWallet(
+        wallet,
+        new SpendingPolicy({ spendLimits: [{ token: recipient, maxAmount: '100' }] }),
+      );
+      await unlimited.sendTransaction(NetworkName.BNB, { transaction: signed });
+      expect(wallet.sendTransaction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should check the tokens of ERC20 calls sent without a spend', async () => {
+      const wallet = createWallet();
+      const policyWallet = new PolicyWallet(wallet, new SpendingPolicy({ deniedTokens: [token] }));
+
+      for (const data of [
+        erc20.encodeFunctionData('transfer', [recipient, BigInt(1)]),
+        erc20.encodeFunctionData('approve', [recipient, ethers.MaxUint256]),
+      ]) {
+        await expect(
+          policyWallet.signAndSendTransaction(NetworkName.BNB, {
+            to: token,
+            data,
+            value: BigInt(0),
+          }),
+        ).rejects.toMatchObject({ step: ErrorStep.POLICY_VIOLATION, details: { token } });
+      }
+      expect(wallet.signAndSendTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should fail closed on SPL transfers without a mint under token rules', async () => {
+      const wallet = createWallet();
+      const payer = Keypair.generate();
+      const data = Buffer.alloc(9);
+      data.writeUInt8(3, 0);
+      data.writeBigUInt64LE(BigInt(10 ** 6), 1);
+      const tx = new SolanaTransaction({
+        feePayer: payer.publicKey,
+        recentBlockhash: Keypair.generate().publicKey.toBase58(),
+      }).add(
+        new TransactionInstruction({
+          programId: new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA'),
+          keys: [
+            { pubkey: Keypair.generate().publicKey, isSigner: false, isWritable: true },
+            { pubkey: Keypair.generate().publicKey, isSigner: false, isWritable: true },
+            { pubkey: payer.publicKey, isSigner: true, isWritable: false },
+          ],
+          data,
+        }),
+      );
+      tx.sign(payer);
+      const signed = { transaction: tx.serialize().toString('base64') };
+
+      const restricted = new PolicyWallet(
+        wallet,
+        new SpendingPolicy({ deniedTokens: ['EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v'] }),
+      );
+      await expect(restricted.sendTransaction(NetworkName.SOLANA, signed)).rejects.toMatchObject({
+        step: ErrorStep.POLICY_VIOLATION,
+        details: { unknown: ['token', 'amount'] },
+      });
+
+      const unrestricted = new PolicyWallet(wallet, new SpendingPolicy({}));
+      await unrestricted.sendTransaction(NetworkName.SOLANA, signed);
+      expect(wallet.sendTransaction).toHaveBeenCalledTimes(1);
+    });
+  });
+});
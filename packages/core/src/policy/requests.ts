@@ -0,0 +1,201 @@
+import {
+  ComputeBudgetProgram,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemInstruction,
+  SystemProgram,
+  Transaction as SolanaTransaction,
+  TransactionInstruction,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { ethers } from 'ethers';
+import { SOL_NATIVE_TOKEN_ADDRESS } from '../network/constants';
+import { TransactionRequest, TypedDataDomain, TypedDataTypes } from '../wallet/types';
+
+const SPL_TOKEN_PROGRAMS = [
+  'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
+  'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb',
+];
+const SPL_TRANSFER = 3;
+const SPL_TRANSFER_CHECKED = 12;
+
+const ERC20_INTERFACE = new ethers.Interface([
+  'function transfer(address to, uint256 amount)',
+  'function transferFrom(address from, address to, uint256 amount)',
+  'function approve(address spender, uint256 amount)',
+]);
+
+/**
+ * Allowances granted by an EIP-2612 permit or a Permit2 signature, as approvals of each token
+ * to the spender. Other typed data grants nothing and returns no request.
+ */
+export function getTypedDataRequests(
+  domain: TypedDataDomain,
+  types: TypedDataTypes,
+  value: Record<string, any>,
+): TransactionRequest[] {
+  const spender = value.spender;
+  if (typeof spender !== 'string') return [];
+
+  let tokens: unknown[] = [];
+  if (types.Permit && domain.verifyingContract) {
+    // EIP-2612, the token is the contract verifying the signature
+    tokens = [domain.verifyingContract];
+  } else {
+    // Permit2 allowances (details) and signature transfers (permitted), single or batch
+    const permits = value.details ?? value.permitted;
+    tokens = (Array.isArray(permits) ? permits : [permits]).map(permit => permit?.token);
+  }
+
+  return tokens
+    .filter((token): token is string => typeof token === 'string')
+    .map(token => ({ to: spender, data: '0x', value: BigInt(0), spend: { token } }));
+}
+
+/**
+ * What an EVM transaction does: ERC20 approvals are approvals of the token called, ERC20
+ * transfers spends of it (the amount is unknown without the token's decimals), native value a
+ * spend of the native token
+ */
+export function getEvmTransactionRequests(transaction: {
+  to?: string | null;
+  data: string;
+  value?: bigint;
+}): TransactionRequest[] {
+  const to = transaction.to ?? '';
+  const value = BigInt(transaction.value ?? 0);
+
+  let call: ethers.TransactionDescription | null = null;
+  try {
+    call = ERC20_INTERFACE.parseTransaction({ data: transaction.data });
+  } catch (e) {
+    call = null;
+  }
+  if (!call || !to) {
+    return [{ to, data: transaction.data, value }];
+  }
+
+  const requests: TransactionRequest[] = [
+    {
+      to,
+      data: transaction.data,
+      value: BigInt(0),
+      spend: call.name === 'approve' ? { token: to } : { token: to, unknown: ['amount'] },
+    },
+  ];
+  if (value > BigInt(0)) {
+    requests.push({ to, data: '0x', value });
+  }
+  return requests;
+}
+
+function isSystemTransfer(instruction: TransactionInstruction): boolean {
+  if (!instruction.programId.equals(SystemProgram.programId)) return false;
+  try {
+    return SystemInstruction.decodeInstructionType(instruction) === 'Transfer';
+  } catch (e) {
+    return false;
+  }
+}
+
+function getInstructions(
+  transaction: SolanaTransaction | VersionedTransaction,
+): TransactionInstruction[] {
+  if (transaction instanceof SolanaTransaction) {
+    return transaction.instructions;
+  }
+
+  const { staticAccountKeys, compiledInstructions } = transaction.message;
+  return compiledInstructions.map(
+    instruction =>
+      new TransactionInstruction({
+        programId: staticAccountKeys[instruction.programIdIndex],
+        // Accounts loaded from lookup tables are not known without fetching the tables
+        keys: instruction.accountKeyIndexes.map(index => ({
+          pubkey: staticAccountKeys[index] ?? PublicKey.default,
+          isSigner: false,
+          isWritable: false,
+        })),
+        data: Buffer.from(instruction.data),
+      }),
+  );
+}
+
+/**
+ * What a signed Solana transaction does, one request per instruction: SOL transfers are
+ * spends to their recipient, SPL transfers spends of their mint (unknown for plain transfers),
+ * other instructions calls of their program
+ */
+export function getSolanaTransactionRequests(
+  transaction: SolanaTransaction | VersionedTransaction,
+): TransactionRequest[] {
+  const requests: TransactionRequest[] = [];
+  for (const instruction of getInstructions(transaction)) {
+    const programId = instruction.programId.toBase58();
+    if (instruction.programId.equals(ComputeBudgetProgram.programId)) continue;
+
+    if (isSystemTransfer(instruction)) {
+      const { toPubkey, lamports } = SystemInstruction.decodeTransfer(instruction);
+      requests.push({
+        to: toPubkey.equals(PublicKey.default) ? programId : toPubkey.toBase58(),
+        data: '',
+        value: BigInt(0),
+        spend: {
+          token: SOL_NATIVE_TOKEN_ADDRESS,
+          amount: String(Number(lamports) / LAMPORTS_PER_SOL),
+        },
+      });
+    } else if (
+      SPL_TOKEN_PROGRAMS.includes(programId) &&
+      instruction.data[0] === SPL_TRANSFER_CHECKED &&
+      instruction.data.length >= 10 &&
+      instruction.keys.length >= 4 &&
+      !instruction.keys[1].pubkey.equals(PublicKey.default)
+    ) {
+      // source, mint, destination, owner; then the amount (u64) and the decimals (u8)
+      const amount = instruction.data.readBigUInt64LE(1);
+      const decimals = instruction.data[9];
+      requests.push({
+        to: programId,
+        data: '',
+        value: BigInt(0),
+        spend: {
+          token: instruction.keys[1].pubkey.toBase58(),
+          amount: String(Number(amount) / 10 ** decimals),
+        },
+      });
+    } else if (
+      SPL_TOKEN_PROGRAMS.includes(programId) &&
+      [SPL_TRANSFER, SPL_TRANSFER_CHECKED].includes(instruction.data[0])
+    ) {
+      // Plain transfers name no mint and checked ones may load it from a lookup table, the
+      // source token account stands for the unknown token
+      requests.push({
+        to: programId,
+        data: '',
+        value: BigInt(0),
+        spend: {
+          token: instruction.keys[0]?.pubkey.toBase58() ?? programId,
+          unknown: ['token', 'amount'],
+        },
+      });
+    } else {
+      requests.push({ to: programId, data: '', value: BigInt(0) });
+    }
+  }
+  return requests;
+}
+
+/**
+ * Decode a base64 signed Solana transaction, versioned or legacy
+ */
+export function deserializeSolanaTransaction(
+  data: string,
+): SolanaTransaction | VersionedTransaction {
+  const buffer = Buffer.from(data, 'base64');
+  try {
+    return VersionedTransaction.deserialize(buffer);
+  } catch (e) {
+    return SolanaTransaction.from(buffer);
+  }
+}
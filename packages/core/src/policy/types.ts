@@ -0,0 +1,51 @@
+import { NetworkName } from '../network/types';
+
+/**
+ * Resolves the USD price of a token, returns undefined when the price is unknown
+ */
+export type TokenPriceResolver = (
+  network: NetworkName,
+  tokenAddress: string,
+) => Promise<number | undefined>;
+
+export interface SpendLimit {
+  /** Network the limit applies to, all networks when omitted */
+  network?: NetworkName;
+  /** Token the limit applies to, all tokens when omitted */
+  token?: string;
+  /** Maximum human readable token amount spent within the window, requires `token` */
+  maxAmount?: string;
+  /** Maximum USD value spent within the window */
+  maxUsd?: number;
+  /** Length of the rolling window in milliseconds (defaults to 24 hours) */
+  windowMs?: number;
+}
+
+export interface SpendingPolicyConfig {
+  /** Maximum USD value of a single transaction */
+  maxUsdPerTransaction?: number;
+  /** Rolling spend caps per token and network */
+  spendLimits?: SpendLimit[];
+  /** When set, only these contracts can be called */
+  allowedContracts?: string[];
+  deniedContracts?: string[];
+  /** When set, only these tokens can be spent or approved */
+  allowedTokens?: string[];
+  deniedTokens?: string[];
+  /** Maximum slippage percentage for swaps and bridges */
+  maxSlippage?: number;
+  /** Required to enforce USD based rules */
+  getTokenPriceUsd?: TokenPriceResolver;
+}
+
+export interface SpendRecord {
+  network: NetworkName;
+  token: string;
+  amount: number;
+  usdValue?: number;
+  timestamp: number;
+}
+
+export interface PolicyCheckResult {
+  usdValue?: number;
+}
@@ -0,0 +1,91 @@
+import { randomUUID } from 'crypto';
+import { DatabaseAdapter } from '../storage/database';
+import { PortfolioSnapshotEntity, PortfolioSnapshotQueryOptions, UUID } from '../types/database';
+import { PortfolioChange } from './types';
+
+/**
+ * Key of the snapshots of a wallet from its address on each network of the portfolio, values
+ * are only compared between snapshots of the same networks
+ */
+export function getWalletKey(addresses: Record<string, string>): string {
+  return Object.entries(addresses)
+    .map(([network, address]) => `${network}:${address}`)
+    .sort()
+    .join(',');
+}
+
+/**
+ * Snapshots of the USD value of the wallets, taken by the portfolio plugin, to show how
+ * their value changes over time. Snapshots are stored in the database when one is
+ * registered, in memory otherwise.
+ */
+export class PortfolioHistory {
+  private db?: DatabaseAdapter;
+  private readonly snapshots: PortfolioSnapshotEntity[] = [];
+
+  constructor(db?: DatabaseAdapter) {
+    this.db = db;
+  }
+
+  setDatabase(db: DatabaseAdapter | undefined): void {
+    this.db = db;
+  }
+
+  async record(
+    snapshot: Omit<PortfolioSnapshotEntity, 'id' | 'created_at'>,
+    now = Date.now(),
+  ): Promise<PortfolioSnapshotEntity> {
+    const entity: PortfolioSnapshotEntity = {
+      ...snapshot,
+      id: randomUUID() as UUID,
+      created_at: now,
+    };
+    if (this.db) {
+      await this.db.createPortfolioSnapshot(entity);
+    } else {
+      this.snapshots.push(entity);
+    }
+    return entity;
+  }
+
+  /**
+   * Snapshots from the newest
+   */
+  async list(options: PortfolioSnapshotQueryOptions = {}): Promise<PortfolioSnapshotEntity[]> {
+    if (this.db) {
+      return this.db.listPortfolioSnapshots(options);
+    }
+    const snapshots = this.snapshots
+      .filter(
+        snapshot =>
+          (options.userId === undefined || snapshot.user_id === options.userId) &&
+          (options.wallet === undefined || snapshot.wallet === options.wallet) &&
+          (options.since === undefined || snapshot.created_at >= options.since) &&
+          (options.before === undefined || snapshot.created_at <= options.before),
+      )
+      .sort((a, b) => b.created_at - a.created_at);
+    return options.limit === undefined ? snapshots : snapshots.slice(0, options.limit);
+  }
+
+  /**
+   * Change of the value of a wallet from its newest snapshot taken at or before a time,
+   * from its latest snapshot without one. Null when there is no snapshot to compare with.
+   */
+  async getChange(
+    wallet: string,
+    totalUsdValue: number,
+    before?: number,
+  ): Promise<PortfolioChange | null> {
+    const [previous] = await this.list({ wallet, before, limit: 1 });
+    if (!previous) return null;
+
+    const changeUsd = totalUsdValue - previous.total_usd_value;
+    return {
+      since: previous.created_at,
+      previousUsdValue: previous.total_usd_value,
+      changeUsd,
+      changePercent:
+        previous.total_usd_value > 0 ? (changeUsd / previous.total_usd_value) * 100 : null,
+    };
+  }
+}
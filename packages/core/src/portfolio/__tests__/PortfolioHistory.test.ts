@@ -0,0 +1,62 @@
+import { getWalletKey, PortfolioHistory } from '../PortfolioHistory';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 0, 8);
+
+const EVM_ADDRESS = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e';
+const SOLANA_ADDRESS = '7yNa8J1KTgGFWVuKHuEKLCcZCkZq5xoSPiAjjviDNc7z';
+
+describe('PortfolioHistory', () => {
+  let history: PortfolioHistory;
+  const wallet = getWalletKey({ solana: SOLANA_ADDRESS, bnb: EVM_ADDRESS });
+
+  const record = (total: number, at: number, key = wallet) =>
+    history.record(
+      {
+        wallet: key,
+        total_usd_value: total,
+        wallet_usd_value: total,
+        staked_usd_value: 0,
+        assets: [],
+      },
+      at,
+    );
+
+  beforeEach(() => {
+    history = new PortfolioHistory();
+  });
+
+  it('should key a wallet by its address on each network', () => {
+    expect(wallet).toBe(`bnb:${EVM_ADDRESS},solana:${SOLANA_ADDRESS}`);
+    expect(getWalletKey({ bnb: EVM_ADDRESS })).not.toBe(wallet);
+  });
+
+  it('should list the snapshots of a wallet from the newest', async () => {
+    await record(1000, NOW - 7 * DAY);
+    await record(1100, NOW - DAY);
+    await record(50, NOW, getWalletKey({ bnb: EVM_ADDRESS }));
+
+    const snapshots = await history.list({ wallet, since: NOW - 7 * DAY });
+
+    expect(snapshots.map(snapshot => snapshot.total_usd_value)).toEqual([1100, 1000]);
+    expect(await history.list({ wallet, limit: 1 })).toEqual([snapshots[0]]);
+  });
+
+  it('should compare the value with the snapshot taken before a time', async () => {
+    await record(1000, NOW - 7 * DAY);
+    await record(1100, NOW - DAY);
+
+    expect(await history.getChange(wallet, 1210)).toEqual({
+      since: NOW - DAY,
+      previousUsdValue: 1100,
+      changeUsd: 110,
+      changePercent: 10,
+    });
+    expect(await history.getChange(wallet, 900, NOW - 2 * DAY)).toMatchObject({
+      since: NOW - 7 * DAY,
+      changeUsd: -100,
+      changePercent: -10,
+    });
+    expect(await history.getChange(wallet, 900, NOW - 8 * DAY)).toBeNull();
+  });
+});
@@ -0,0 +1,11 @@
+/**
+ * Change of the value of a portfolio from a previous snapshot
+ */
+export interface PortfolioChange {
+  /** Timestamp in milliseconds of the snapshot compared with */
+  since: number;
+  previousUsdValue: number;
+  changeUsd: number;
+  /** Missing when the previous value was zero */
+  changePercent: number | null;
+}
@@ -0,0 +1,177 @@
+import { randomUUID } from 'crypto';
+import { DatabaseAdapter } from '../storage/database';
+import {
+  ReviewDecision,
+  ReviewEntity,
+  ReviewQueryOptions,
+  ReviewStatus,
+  UUID,
+} from '../types/database';
+import { logger } from '../utils/Logger';
+import { ReviewPolicy } from './ReviewPolicy';
+import { ReviewAssessment, ReviewPolicyConfig, ReviewRequest } from './types';
+
+const DEFAULT_EXPIRES_IN = 60 * 60 * 1000;
+
+export interface ReviewDecisionOptions {
+  /** Who decided, recorded for the audit */
+  decidedBy?: string;
+  reason?: string;
+}
+
+/**
+ * Pending human reviews of tool calls with their approve, reject and expire decisions.
+ * Reviews are stored in the database when one is registered, in memory otherwise.
+ */
+export class ReviewManager {
+  private readonly policy: ReviewPolicy;
+  private readonly expiresIn: number;
+  private db?: DatabaseAdapter;
+  private readonly reviews = new Map<UUID, ReviewEntity>();
+
+  constructor(config: ReviewPolicyConfig = {}, db?: DatabaseAdapter) {
+    this.policy = new ReviewPolicy(config);
+    this.expiresIn = config.expiresIn ?? DEFAULT_EXPIRES_IN;
+    this.db = db;
+  }
+
+  setDatabase(db: DatabaseAdapter | undefined): void {
+    this.db = db;
+  }
+
+  /**
+   * Whether the policy requires a review of the tool call, from its simulated quote
+   */
+  assess(toolName: string, input: any, quote: any): Promise<ReviewAssessment> {
+    return this.policy.assess(toolName, input, quote);
+  }
+
+  async create(request: ReviewRequest): Promise<ReviewEntity> {
+    const now = Date.now();
+    const review: ReviewEntity = {
+      id: randomUUID() as UUID,
+      thread_id: request.threadId,
+      tool_call_id: request.toolCallId ?? null,
+      user_id: (request.userId as UUID) ?? null,
+      tool_name: request.toolName,
+      input: request.input,
+      quote: request.quote,
+      network: request.assessment.network ?? null,
+      usd_value: request.assessment.usdValue ?? null,
+      reasons: request.assessment.reasons,
+      status: 'pending',
+      created_at: now,
+      expires_at: now + this.expiresIn,
+    };
+    if (this.db) {
+      await this.db.createReview(review);
+    } else {
+      this.reviews.set(review.id, review);
+    }
+    return review;
+  }
+
+  async get(reviewId: UUID): Promise<ReviewEntity | null> {
+    const review = this.db ? await this.db.getReview(reviewId) : this.reviews.get(reviewId);
+    return review ?? null;
+  }
+
+  /**
+   * Reviews from the newest to the oldest, the audit of who approved what
+   */
+  async list(options: ReviewQueryOptions = {}): Promise<ReviewEntity[]> {
+    if (this.db) {
+      return this.db.listReviews(options);
+    }
+    const reviews = [...this.reviews.values()]
+      .filter(
+        review =>
+          (!options.threadId || review.thread_id === options.threadId) &&
+          (!options.toolCallId || review.tool_call_id === options.toolCallId) &&
+          (!options.status || review.status === options.status),
+      )
+      .sort((a, b) => b.created_at - a.created_at);
+    return options.limit !== undefined ? reviews.slice(0, options.limit) : reviews;
+  }
+
+  approve(reviewId: UUID, options: ReviewDecisionOptions = {}): Promise<ReviewEntity> {
+    return this.decide(reviewId, 'approved', options);
+  }
+
+  reject(reviewId: UUID, options: ReviewDecisionOptions = {}): Promise<ReviewEntity> {
+    return this.decide(reviewId, 'rejected', options);
+  }
+
+  expire(reviewId: UUID, options: ReviewDecisionOptions = {}): Promise<ReviewEntity> {
+    return this.decide(reviewId, 'expired', options);
+  }
+
+  isExpired(review: ReviewEntity, now = Date.now()): boolean {
+    return review.status === 'expired' || (review.status === 'pending' && now >= review.expires_at);
+  }
+
+  /**
+   * Expire every pending review past its deadline
+   * @returns The expired reviews
+   */
+  async expirePending(): Promise<ReviewEntity[]> {
+    const now = Date.now();
+    const pending = await this.list({ status: 'pending' });
+    const expired: ReviewEntity[] = [];
+    for (const review of pending.filter(review => this.isExpired(review, now))) {
+      const updated = await this.record(review.id, { status: 'expired', decided_at: now });
+      if (updated) expired.push(updated);
+    }
+    return expired;
+  }
+
+  private async decide(
+    reviewId: UUID,
+    status: Exclude<ReviewStatus, 'pending'>,
+    { decidedBy, reason }: ReviewDecisionOptions,
+  ): Promise<ReviewEntity> {
+    const review = await this.get(reviewId);
+    if (!review) {
+      throw new Error(`Review ${reviewId} not found`);
+    }
+    const now = Date.now();
+    // A late decision cannot approve a review that already expired
+    if (status !== 'expired' && this.isExpired(review, now)) {
+      if (review.status === 'pending') {
+        await this.record(reviewId, { status: 'expired', decided_at: now });
+      }
+      throw new Error(`Review ${reviewId} has expired`);
+    }
+
+    const updated = await this.record(reviewId, {
+      status,
+      decided_by: decidedBy ?? null,
+      reason: reason ?? null,
+      decided_at: now,
+    });
+    if (!updated) {
+      const current = await this.get(reviewId);
+      throw new Error(`Review ${reviewId} is already ${current?.status ?? review.status}`);
+    }
+    logger.info(
+      `Review ${reviewId} of ${review.tool_name} ${status}${decidedBy ? ` by ${decidedBy}` : ''}`,
+    );
+    return updated;
+  }
+
+  /**
+   * Record the decision of a pending review, null when it is not pending anymore
+   */
+  private async record(reviewId: UUID, decision: ReviewDecision): Promise<ReviewEntity | null> {
+    if (this.db) {
+      return this.db.decideReview(reviewId, decision);
+    }
+    const review = this.reviews.get(reviewId);
+    if (!review || review.status !== 'pending') {
+      return null;
+    }
+    const updated = { ...review, ...decision };
+    this.reviews.set(reviewId, updated);
+    return updated;
+  }
+}
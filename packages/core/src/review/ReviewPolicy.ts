@@ -0,0 +1,133 @@
+import { NetworkName } from '../network/types';
+import { ReviewAssessment, ReviewPolicyConfig, ReviewRule, TokenRisk } from './types';
+
+const RISK_LEVELS: Record<TokenRisk, number> = { low: 0, medium: 1, high: 2 };
+
+interface ResolvedCall {
+  network?: NetworkName;
+  spentToken?: string;
+  spentAmount?: number;
+  /** Every token the call involves */
+  tokens: string[];
+}
+
+/**
+ * Decides which tool calls need a human review from the tool, the network,
+ * the USD value and the token risk of their simulated quote
+ */
+export class ReviewPolicy {
+  private readonly config: ReviewPolicyConfig;
+
+  constructor(config: ReviewPolicyConfig = {}) {
+    this.config = config;
+  }
+
+  async assess(toolName: string, input: any, quote: any): Promise<ReviewAssessment> {
+    const call = this.resolveCall(input, quote);
+    const usdValue = await this.getUsdValue(call);
+    const { rules } = this.config;
+
+    if (!rules) {
+      return {
+        required: true,
+        reasons: [this.describe(toolName, call)],
+        network: call.network,
+        usdValue,
+      };
+    }
+
+    const risk = rules.some(rule => rule.minRisk) ? await this.getRisk(call) : undefined;
+    const reasons: string[] = [];
+    for (const rule of rules) {
+      const conditions = this.match(rule, toolName, call, usdValue, risk);
+      if (conditions) {
+        reasons.push(this.describe(toolName, call, conditions));
+      }
+    }
+    return { required: reasons.length > 0, reasons, network: call.network, usdValue };
+  }
+
+  /**
+   * Conditions met by the call, undefined when the rule does not match
+   */
+  private match(
+    rule: ReviewRule,
+    toolName: string,
+    call: ResolvedCall,
+    usdValue?: number,
+    risk?: TokenRisk,
+  ): string[] | undefined {
+    if (rule.tools && !rule.tools.includes(toolName)) return undefined;
+    if (rule.networks && (!call.network || !rule.networks.includes(call.network))) return undefined;
+
+    // Unknown values match, a review is safer than letting the call through unchecked
+    const conditions: string[] = [];
+    if (rule.minUsd != null) {
+      if (usdValue != null && usdValue < rule.minUsd) return undefined;
+      conditions.push(
+        usdValue != null
+          ? `$${usdValue.toFixed(2)} is at least $${rule.minUsd}`
+          : 'unknown USD value',
+      );
+    }
+    if (rule.minRisk) {
+      if (risk && RISK_LEVELS[risk] < RISK_LEVELS[rule.minRisk]) return undefined;
+      conditions.push(risk ? `${risk} risk token` : 'unknown token risk');
+    }
+    return conditions;
+  }
+
+  private describe(toolName: string, call: ResolvedCall, conditions: string[] = []): string {
+    const network = call.network ? ` on ${call.network}` : '';
+    return `${toolName}${network}${conditions.length ? `: ${conditions.join(', ')}` : ''}`;
+  }
+
+  private resolveCall(input: any, quote: any): ResolvedCall {
+    // Quotes hold token objects, tool arguments hold addresses
+    const address = (token: any): string | undefined =>
+      typeof token === 'string' ? token : token?.address;
+    const data = { ...(input ?? {}), ...(quote ?? {}) };
+
+    // Swaps and bridges spend fromToken, transfers token and staking tokenA
+    const spentAmount = Number(data.fromAmount ?? data.amount ?? data.amountA);
+    return {
+      network: data.network ?? data.fromNetwork,
+      spentToken: address(data.fromToken ?? data.token ?? data.tokenA),
+      spentAmount: isNaN(spentAmount) ? undefined : spentAmount,
+      tokens: [data.fromToken, data.toToken, data.token, data.tokenA, data.tokenB]
+        .map(address)
+        .filter((token): token is string => !!token),
+    };
+  }
+
+  private async getUsdValue({ network, spentToken, spentAmount }: ResolvedCall) {
+    if (!this.config.getTokenPriceUsd || !network || !spentToken || spentAmount == null) {
+      return undefined;
+    }
+    try {
+      const price = await this.config.getTokenPriceUsd(network, spentToken);
+      return price == null || isNaN(price) ? undefined : spentAmount * price;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Highest risk of the call's tokens, undefined when any of them is unknown
+   */
+  private async getRisk({ network, tokens }: ResolvedCall): Promise<TokenRisk | undefined> {
+    if (!this.config.getTokenRisk || !network || !tokens.length) return undefined;
+    let highest: TokenRisk = 'low';
+    for (const token of tokens) {
+      let risk: TokenRisk | undefined;
+      try {
+        risk = await this.config.getTokenRisk(network, token);
+      } catch (error) {
+        risk = undefined;
+      }
+      if (!risk) return undefined;
+      if (RISK_LEVELS[risk] > RISK_LEVELS[highest]) highest = risk;
+    }
+    return highest;
+  }
+}
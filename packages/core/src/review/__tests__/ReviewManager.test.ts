@@ -0,0 +1,141 @@
+import { NetworkName } from '../../network/types';
+import { ReviewManager } from '../ReviewManager';
+import { ReviewPolicy } from '../ReviewPolicy';
+
+describe('ReviewPolicy', () => {
+  const usdt = '0x55d398326f99059fF775485246999027B3197955';
+  const meme = '0x1111111111111111111111111111111111111111';
+  const getTokenPriceUsd = jest.fn().mockResolvedValue(2);
+  const getTokenRisk = jest.fn(async (network: NetworkName, token: string) =>
+    token === meme ? ('high' as const) : ('low' as const),
+  );
+
+  const swapQuote = (fromAmount: string, toToken = meme) => ({
+    network: NetworkName.BNB,
+    fromToken: { address: usdt, symbol: 'USDT', decimals: 18 },
+    toToken: { address: toToken, symbol: 'TOKEN', decimals: 18 },
+    fromAmount,
+    toAmount: '1',
+  });
+
+  it('should review every call without rules', async () => {
+    const policy = new ReviewPolicy();
+
+    await expect(policy.assess('swap', {}, swapQuote('1'))).resolves.toEqual({
+      required: true,
+      reasons: ['swap on bnb'],
+      network: NetworkName.BNB,
+      usdValue: undefined,
+    });
+  });
+
+  it('should review calls above a USD value on matching tools and networks', async () => {
+    const policy = new ReviewPolicy({
+      rules: [{ tools: ['swap'], networks: [NetworkName.BNB], minUsd: 100 }],
+      getTokenPriceUsd,
+    });
+
+    await expect(policy.assess('swap', {}, swapQuote('40'))).resolves.toMatchObject({
+      required: false,
+      usdValue: 80,
+    });
+    await expect(policy.assess('swap', {}, swapQuote('60'))).resolves.toMatchObject({
+      required: true,
+      reasons: ['swap on bnb: $120.00 is at least $100'],
+    });
+    await expect(policy.assess('bridge', {}, swapQuote('60'))).resolves.toMatchObject({
+      required: false,
+    });
+    await expect(
+      policy.assess('swap', {}, { ...swapQuote('60'), network: NetworkName.ETHEREUM }),
+    ).resolves.toMatchObject({ required: false });
+  });
+
+  it('should review risky tokens and fail closed on unknown values', async () => {
+    const policy = new ReviewPolicy({
+      rules: [{ minRisk: 'high' }, { minUsd: 1000 }],
+      getTokenRisk,
+    });
+
+    await expect(policy.assess('swap', {}, swapQuote('1', usdt))).resolves.toMatchObject({
+      required: true,
+      // Without a price resolver, the USD rule cannot be checked
+      reasons: ['swap on bnb: unknown USD value'],
+    });
+    await expect(policy.assess('swap', {}, swapQuote('1'))).resolves.toMatchObject({
+      reasons: ['swap on bnb: high risk token', 'swap on bnb: unknown USD value'],
+    });
+  });
+
+  it('should read transfer arguments and quotes', async () => {
+    const policy = new ReviewPolicy({ rules: [{ minUsd: 10 }], getTokenPriceUsd });
+
+    await expect(
+      policy.assess(
+        'transfer_tokens',
+        { network: NetworkName.BNB, token: usdt, amount: '4', toAddress: meme },
+        { token: { address: usdt }, amount: '4' },
+      ),
+    ).resolves.toMatchObject({ required: false, usdValue: 8 });
+    expect(getTokenPriceUsd).toHaveBeenLastCalledWith(NetworkName.BNB, usdt);
+  });
+});
+
+describe('ReviewManager', () => {
+  const request = {
+    threadId: 'thread-1',
+    toolCallId: 'call-1',
+    toolName: 'swap',
+    input: { amount: '1' },
+    quote: { network: NetworkName.BNB, fromAmount: '1' },
+    assessment: { required: true, reasons: ['swap on bnb'], network: NetworkName.BNB },
+  };
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should keep who approved a review', async () => {
+    const reviews = new ReviewManager();
+    const review = await reviews.create(request);
+
+    expect(review).toMatchObject({ status: 'pending', tool_name: 'swap', network: 'bnb' });
+
+    const approved = await reviews.approve(review.id, { decidedBy: 'alice' });
+
+    expect(approved).toMatchObject({ status: 'approved', decided_by: 'alice' });
+    expect(approved.decided_at).toEqual(expect.any(Number));
+    await expect(reviews.list({ threadId: 'thread-1', toolCallId: 'call-1' })).resolves.toEqual([
+      approved,
+    ]);
+    await expect(reviews.list({ status: 'pending' })).resolves.toEqual([]);
+  });
+
+  it('should refuse a second decision', async () => {
+    const reviews = new ReviewManager();
+    const review = await reviews.create(request);
+    await reviews.reject(review.id, { decidedBy: 'alice', reason: 'too expensive' });
+
+    await expect(reviews.approve(review.id)).rejects.toThrow(
+      `Review ${review.id} is already rejected`,
+    );
+    await expect(reviews.approve('00000000-0000-0000-0000-000000000000')).rejects.toThrow(
+      'not found',
+    );
+  });
+
+  it('should expire reviews past their deadline', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const reviews = new ReviewManager({ expiresIn: 1000 });
+    const late = await reviews.create(request);
+    const stale = await reviews.create({ ...request, toolCallId: 'call-2' });
+
+    jest.setSystemTime(1000);
+
+    await expect(reviews.approve(late.id)).rejects.toThrow(`Review ${late.id} has expired`);
+    await expect(reviews.get(late.id)).resolves.toMatchObject({ status: 'expired' });
+    await expect(reviews.expirePending()).resolves.toEqual([
+      expect.objectContaining({ id: stale.id, status: 'expired' }),
+    ]);
+  });
+});
@@ -0,0 +1,64 @@
+import { NetworkName } from '../network/types';
+import { TokenPriceResolver } from '../policy/types';
+
+export type TokenRisk = 'low' | 'medium' | 'high';
+
+/**
+ * Resolves the risk of a token, e.g. from a token security API, returns undefined when unknown
+ */
+export type TokenRiskResolver = (
+  network: NetworkName,
+  tokenAddress: string,
+) => Promise<TokenRisk | undefined>;
+
+/**
+ * Matches a tool call when all of its conditions match
+ */
+export interface ReviewRule {
+  /**
+   * Tools the rule applies to, all reviewable tools when omitted. Reviewable tools are the
+   * ones sending transactions or showing a quote to review, other names never match a call
+   */
+  tools?: string[];
+  /** Networks the rule applies to, all networks when omitted */
+  networks?: NetworkName[];
+  /** Matches calls spending at least this USD value, or whose value is unknown */
+  minUsd?: number;
+  /** Matches calls involving a token of at least this risk, or whose risk is unknown */
+  minRisk?: TokenRisk;
+}
+
+export interface ReviewPolicyConfig {
+  /**
+   * A review is required when any rule matches.
+   * Every reviewable tool call is reviewed when omitted, none when empty
+   */
+  rules?: ReviewRule[];
+  /** How long a review waits for a decision in milliseconds (defaults to 1 hour) */
+  expiresIn?: number;
+  /** Required by `minUsd` rules */
+  getTokenPriceUsd?: TokenPriceResolver;
+  /** Required by `minRisk` rules */
+  getTokenRisk?: TokenRiskResolver;
+}
+
+/**
+ * Outcome of the review policy for a tool call
+ */
+export interface ReviewAssessment {
+  required: boolean;
+  /** Descriptions of the matched rules */
+  reasons: string[];
+  network?: NetworkName;
+  usdValue?: number;
+}
+
+export interface ReviewRequest {
+  threadId: string;
+  toolCallId?: string;
+  userId?: string;
+  toolName: string;
+  input: any;
+  quote: any;
+  assessment: ReviewAssessment;
+}
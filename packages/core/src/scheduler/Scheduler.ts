@@ -0,0 +1,338 @@
+import { randomUUID } from 'crypto';
+import { ethers } from 'ethers';
+import { DatabaseAdapter } from '../storage/database';
+import {
+  ScheduleEntity,
+  ScheduleQueryOptions,
+  ScheduleRunEntity,
+  ScheduleRunStatus,
+  UUID,
+} from '../types/database';
+import { TokenBalance } from '../network/balance';
+import { logger } from '../utils/Logger';
+import { getFirstRunAt, getNextRunAt, validateCadence } from './cadence';
+import { SchedulableTool, ScheduleExecutor, SchedulerConfig, ScheduleRequest } from './types';
+
+const DEFAULT_POLL_INTERVAL = 60_000;
+const DEFAULT_MAX_FAILURES = 3;
+
+export const DEFAULT_SCHEDULABLE_TOOLS: Record<string, SchedulableTool> = {
+  swap: { amountParam: 'amount', tokenParam: 'fromToken' },
+  staking: { amountParam: 'amountA', tokenParam: 'tokenA' },
+};
+
+/**
+ * Percentage of a token amount, rounded down to the decimals of the token
+ */
+function percentOf(amount: string, percent: number, decimals: number): string {
+  const share = (ethers.parseUnits(amount, decimals) * BigInt(Math.round(percent * 100))) / 10000n;
+  return ethers.formatUnits(share, decimals);
+}
+
+/**
+ * Difference of two token amounts, zero when the balance went down
+ */
+function increaseOf(balance: string, previous: string, decimals: number): string {
+  const increase = ethers.parseUnits(balance, decimals) - ethers.parseUnits(previous, decimals);
+  return ethers.formatUnits(increase > 0n ? increase : 0n, decimals);
+}
+
+/**
+ * Recurring tool calls, e.g. weekly DCA swaps, run without the model by polling the due
+ * schedules. Schedules are stored in the database when one is registered, in memory otherwise.
+ */
+export class Scheduler {
+  private readonly executor: ScheduleExecutor;
+  private readonly config: SchedulerConfig;
+  private db?: DatabaseAdapter;
+  private readonly schedules = new Map<UUID, ScheduleEntity>();
+  private readonly runs: ScheduleRunEntity[] = [];
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(executor: ScheduleExecutor, config: SchedulerConfig = {}, db?: DatabaseAdapter) {
+    this.executor = executor;
+    this.config = config;
+    this.db = db;
+  }
+
+  setDatabase(db: DatabaseAdapter | undefined): void {
+    this.db = db;
+  }
+
+  getSchedulableTool(toolName: string): SchedulableTool | undefined {
+    return (this.config.tools ?? DEFAULT_SCHEDULABLE_TOOLS)[toolName];
+  }
+
+  getSchedulableToolNames(): string[] {
+    return Object.keys(this.config.tools ?? DEFAULT_SCHEDULABLE_TOOLS);
+  }
+
+  async create(request: ScheduleRequest, now = Date.now()): Promise<ScheduleEntity> {
+    const tool = this.getSchedulableTool(request.toolName);
+    if (!tool) {
+      throw new Error(
+        `Tool ${request.toolName} cannot be scheduled, use one of: ${this.getSchedulableToolNames().join(', ')}`,
+      );
+    }
+    validateCadence(request.cadence);
+
+    const { amount } = request;
+    if (amount.type === 'fixed') {
+      if (!(Number(amount.amount) > 0)) {
+        throw new Error(`Schedule amount must be a positive number, got ${amount.amount}`);
+      }
+    } else if (!(amount.percent > 0 && amount.percent <= 100)) {
+      throw new Error(`Schedule percentage must be between 0 and 100, got ${amount.percent}`);
+    }
+    if (amount.type !== 'fixed' && !request.params[tool.tokenParam]) {
+      throw new Error(`Schedule params need ${tool.tokenParam} for a balance percentage`);
+    }
+
+    const schedule: ScheduleEntity = {
+      id: randomUUID() as UUID,
+      user_id: request.userId ?? null,
+      thread_id: request.threadId ?? null,
+      description: request.description,
+      tool_name: request.toolName,
+      params: request.params,
+      amount,
+      cadence: request.cadence,
+      status: 'active',
+      last_balance: null,
+      failures: 0,
+      created_at: now,
+      next_run_at: getFirstRunAt(request.cadence, now),
+      last_run_at: null,
+    };
+    // Only the balance received after the schedule is created is spent
+    if (amount.type === 'new_balance_percent') {
+      schedule.last_balance = (await this.getBalance(schedule, tool)).balance;
+    }
+    await this.save(schedule);
+    return schedule;
+  }
+
+  async get(scheduleId: UUID): Promise<ScheduleEntity | null> {
+    if (this.db) {
+      return this.db.getSchedule(scheduleId);
+    }
+    return this.schedules.get(scheduleId) ?? null;
+  }
+
+  async list(options: ScheduleQueryOptions = {}): Promise<ScheduleEntity[]> {
+    if (this.db) {
+      return this.db.listSchedules(options);
+    }
+    return [...this.schedules.values()]
+      .filter(
+        schedule =>
+          (options.userId === undefined || schedule.user_id === options.userId) &&
+          (options.threadId === undefined || schedule.thread_id === options.threadId) &&
+          (options.status === undefined || schedule.status === options.status) &&
+          (options.dueAt === undefined || schedule.next_run_at <= options.dueAt),
+      )
+      .sort((a, b) => a.next_run_at - b.next_run_at);
+  }
+
+  async cancel(scheduleId: UUID): Promise<ScheduleEntity> {
+    const schedule = await this.get(scheduleId);
+    if (!schedule) {
+      throw new Error(`Schedule ${scheduleId} not found`);
+    }
+    if (schedule.status === 'active') {
+      schedule.status = 'cancelled';
+      await this.save(schedule);
+    }
+    return schedule;
+  }
+
+  /**
+   * Runs of a schedule from the newest
+   */
+  async getRuns(scheduleId: UUID, limit?: number): Promise<ScheduleRunEntity[]> {
+    if (this.db) {
+      return this.db.listScheduleRuns(scheduleId, limit);
+    }
+    const runs = this.runs.filter(run => run.schedule_id === scheduleId).reverse();
+    return limit === undefined ? runs : runs.slice(0, limit);
+  }
+
+  /**
+   * Polls the due schedules until stopped, the timer does not keep the process alive
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.runDue().catch(error => logger.error('Failed to run the due schedules:', error));
+    }, this.config.pollInterval ?? DEFAULT_POLL_INTERVAL);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Runs the active schedules due at a time one after the other, skipped while a poll runs
+   */
+  async runDue(now = Date.now()): Promise<ScheduleRunEntity[]> {
+    if (this.running) return [];
+    this.running = true;
+    try {
+      const runs: ScheduleRunEntity[] = [];
+      for (const schedule of await this.list({ status: 'active', dueAt: now })) {
+        // Schedules cancelled since the list was loaded are left as they are
+        const current = await this.get(schedule.id);
+        if (current?.status !== 'active') continue;
+        runs.push(await this.run(current, now));
+      }
+      return runs;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Runs the tool call of a schedule once and plans its next run. A failing run is
+   * attempted again at the next run, the schedule fails after `maxFailures` in a row.
+   */
+  async run(schedule: ScheduleEntity, now = Date.now()): Promise<ScheduleRunEntity> {
+    const tool = this.getSchedulableTool(schedule.tool_name);
+    const startedAt = Date.now();
+    let status: ScheduleRunStatus = 'succeeded';
+    let amount: string | null = null;
+    let output: any;
+    let error: string | null = null;
+
+    try {
+      if (!tool) {
+        throw new Error(`Tool ${schedule.tool_name} cannot be scheduled`);
+      }
+      amount = await this.getAmount(schedule, tool);
+      if (!(Number(amount) > 0)) {
+        status = 'skipped';
+        error =
+          schedule.amount.type === 'new_balance_percent'
+            ? 'No balance received since the previous run'
+            : 'No balance to spend';
+        amount = null;
+      } else {
+        output = await this.executor.runTool(schedule, {
+          ...schedule.params,
+          [tool.amountParam]: amount,
+        });
+        const result = typeof output === 'string' ? this.parseOutput(output) : output;
+        if (result?.status === 'error') {
+          throw new Error(result.message ?? 'Tool call failed');
+        }
+      }
+    } catch (e) {
+      status = 'failed';
+      error = e instanceof Error ? e.message : String(e);
+    }
+
+    const maxFailures = this.config.maxFailures ?? DEFAULT_MAX_FAILURES;
+    if (status === 'failed') {
+      schedule.failures++;
+      if (schedule.failures >= maxFailures) {
+        schedule.status = 'failed';
+      }
+    } else {
+      schedule.failures = 0;
+    }
+    // After a skipped run, a lower balance is where the next increase is counted from
+    if (schedule.amount.type === 'new_balance_percent' && status !== 'failed' && tool) {
+      try {
+        schedule.last_balance = (await this.getBalance(schedule, tool)).balance;
+      } catch (e) {
+        logger.error(`Failed to read the balance of schedule ${schedule.id}:`, e);
+      }
+    }
+    // A schedule cancelled while it ran stays cancelled
+    const latest = await this.get(schedule.id);
+    if (latest?.status === 'cancelled') {
+      schedule.status = 'cancelled';
+    }
+    schedule.last_run_at = now;
+    schedule.next_run_at = getNextRunAt(schedule.cadence, now);
+    await this.save(schedule);
+
+    const run: ScheduleRunEntity = {
+      id: randomUUID() as UUID,
+      schedule_id: schedule.id,
+      status,
+      amount,
+      output: output ?? null,
+      error,
+      started_at: startedAt,
+      finished_at: Date.now(),
+    };
+    await this.saveRun(run);
+    await this.executor.notify({
+      scheduleId: schedule.id,
+      runId: run.id,
+      description: schedule.description,
+      toolName: schedule.tool_name,
+      status,
+      amount,
+      output: run.output,
+      error,
+      stopped: schedule.status === 'failed',
+      threadId: schedule.thread_id,
+      userId: schedule.user_id,
+      timestamp: run.finished_at,
+    });
+    return run;
+  }
+
+  private async getAmount(schedule: ScheduleEntity, tool: SchedulableTool): Promise<string> {
+    const { amount } = schedule;
+    switch (amount.type) {
+      case 'fixed':
+        return amount.amount;
+      case 'balance_percent': {
+        const { balance, decimals } = await this.getBalance(schedule, tool);
+        return percentOf(balance, amount.percent, decimals);
+      }
+      case 'new_balance_percent': {
+        const { balance, decimals } = await this.getBalance(schedule, tool);
+        const received = increaseOf(balance, schedule.last_balance ?? balance, decimals);
+        return percentOf(received, amount.percent, decimals);
+      }
+    }
+  }
+
+  private getBalance(schedule: ScheduleEntity, tool: SchedulableTool): Promise<TokenBalance> {
+    return this.executor.getBalance(
+      schedule,
+      schedule.params.network,
+      schedule.params[tool.tokenParam],
+    );
+  }
+
+  private parseOutput(output: string): any {
+    try {
+      return JSON.parse(output);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async save(schedule: ScheduleEntity): Promise<void> {
+    if (this.db) {
+      await this.db.saveSchedule(schedule);
+    } else {
+      this.schedules.set(schedule.id, { ...schedule });
+    }
+  }
+
+  private async saveRun(run: ScheduleRunEntity): Promise<void> {
+    if (this.db) {
+      await this.db.createScheduleRun(run);
+    } else {
+      this.runs.push(run);
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import { IAgent } from '../agent/types';
+import { BasePlugin } from '../plugin/BasePlugin';
+import { CancelScheduleTool, CreateScheduleTool, ListSchedulesTool } from './tools';
+
+/**
+ * Tools managing the recurring schedules of the agent, which runs them while registered.
+ * The scheduler itself is configured through the agent's `scheduler` config.
+ */
+export class SchedulerPlugin extends BasePlugin {
+  constructor() {
+    super();
+    this.tools = [
+      new CreateScheduleTool({}),
+      new ListSchedulesTool({}),
+      new CancelScheduleTool({}),
+    ];
+  }
+
+  getName(): string {
+    return 'scheduler';
+  }
+
+  async register(agent: IAgent): Promise<void> {
+    await super.register(agent);
+    agent.getScheduler().start();
+  }
+
+  async cleanup(): Promise<void> {
+    this.agent?.getScheduler().stop();
+  }
+}
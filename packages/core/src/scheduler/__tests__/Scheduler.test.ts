@@ -0,0 +1,183 @@
+import { ScheduleRunData } from '../../agent/callbacks/types';
+import { TokenBalance } from '../../network/balance';
+import { ScheduleEntity } from '../../types/database';
+import { getFirstRunAt, getNextRunAt, validateCadence } from '../cadence';
+import { Scheduler } from '../Scheduler';
+import { ScheduleExecutor } from '../types';
+
+// Wednesday
+const NOW = Date.UTC(2025, 0, 1, 12, 0);
+
+const swap = {
+  fromToken: '0x55d398326f99059ff775485246999027b3197955',
+  toToken: '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee',
+  amountType: 'input',
+  network: 'bnb',
+};
+
+class FakeExecutor implements ScheduleExecutor {
+  balance = '100';
+  output: any = JSON.stringify({ status: 'success' });
+  calls: Record<string, any>[] = [];
+  notifications: ScheduleRunData[] = [];
+  onRun?: () => Promise<void>;
+
+  async getBalance(): Promise<TokenBalance> {
+    return { balance: this.balance, decimals: 18 };
+  }
+
+  async runTool(schedule: ScheduleEntity, params: Record<string, any>): Promise<any> {
+    this.calls.push(params);
+    await this.onRun?.();
+    if (this.output instanceof Error) throw this.output;
+    return this.output;
+  }
+
+  async notify(data: ScheduleRunData): Promise<void> {
+    this.notifications.push(data);
+  }
+}
+
+describe('cadence', () => {
+  it('should find the first run matching the cadence', () => {
+    expect(getFirstRunAt({ every: 'hour', time: '00:30' }, NOW)).toBe(Date.UTC(2025, 0, 1, 12, 30));
+    expect(getFirstRunAt({ every: 'day', time: '09:00' }, NOW)).toBe(Date.UTC(2025, 0, 2, 9, 0));
+    expect(getFirstRunAt({ every: 'week' }, NOW)).toBe(Date.UTC(2025, 0, 6));
+    expect(getFirstRunAt({ every: 'month', dayOfMonth: 15 }, NOW)).toBe(Date.UTC(2025, 0, 15));
+    expect(getFirstRunAt({ every: 'month' }, NOW)).toBe(Date.UTC(2025, 1, 1));
+  });
+
+  it('should skip intervals after a run', () => {
+    const monday = Date.UTC(2025, 0, 6);
+
+    expect(getNextRunAt({ every: 'week' }, monday)).toBe(Date.UTC(2025, 0, 13));
+    expect(getNextRunAt({ every: 'week', interval: 2 }, monday)).toBe(Date.UTC(2025, 0, 20));
+  });
+
+  it('should reject cadences that cannot be scheduled', () => {
+    expect(() => validateCadence({ every: 'day', time: '25:00' })).toThrow(
+      'Schedule time must be HH:mm, got 25:00',
+    );
+    expect(() => validateCadence({ every: 'month', dayOfMonth: 31 })).toThrow(
+      'Schedule day of month must be from 1 to 28',
+    );
+  });
+});
+
+describe('Scheduler', () => {
+  let executor: FakeExecutor;
+  let scheduler: Scheduler;
+
+  beforeEach(() => {
+    executor = new FakeExecutor();
+    scheduler = new Scheduler(executor, { maxFailures: 2 });
+  });
+
+  const createWeeklySwap = () =>
+    scheduler.create(
+      {
+        description: 'Buy $50 of BNB with USDT every Monday',
+        toolName: 'swap',
+        params: swap,
+        amount: { type: 'fixed', amount: '50' },
+        cadence: { every: 'week' },
+        threadId: 'thread-1',
+      },
+      NOW,
+    );
+
+  it('should run due schedules with their amount and plan the next run', async () => {
+    const schedule = await createWeeklySwap();
+    expect(schedule.next_run_at).toBe(Date.UTC(2025, 0, 6));
+
+    expect(await scheduler.runDue(NOW)).toEqual([]);
+
+    const monday = Date.UTC(2025, 0, 6, 0, 0, 30);
+    const [run] = await scheduler.runDue(monday);
+
+    expect(run).toMatchObject({ status: 'succeeded', amount: '50' });
+    expect(executor.calls).toEqual([{ ...swap, amount: '50' }]);
+    expect((await scheduler.get(schedule.id))?.next_run_at).toBe(Date.UTC(2025, 0, 13));
+    expect(await scheduler.getRuns(schedule.id)).toEqual([run]);
+  });
+
+  it('should stop a schedule after failing runs in a row and notify each failure', async () => {
+    const schedule = await createWeeklySwap();
+    executor.output = JSON.stringify({ status: 'error', message: 'Insufficient balance' });
+
+    await scheduler.run(schedule, Date.UTC(2025, 0, 6));
+    expect((await scheduler.get(schedule.id))?.status).toBe('active');
+
+    await scheduler.run(schedule, Date.UTC(2025, 0, 13));
+    expect((await scheduler.get(schedule.id))?.status).toBe('failed');
+
+    expect(
+      executor.notifications.map(({ status, error, stopped }) => [status, error, stopped]),
+    ).toEqual([
+      ['failed', 'Insufficient balance', false],
+      ['failed', 'Insufficient balance', true],
+    ]);
+  });
+
+  it('should neither run nor reactivate schedules cancelled during a poll', async () => {
+    const first = await createWeeklySwap();
+    const second = await createWeeklySwap();
+    executor.onRun = async () => {
+      await scheduler.cancel(first.id);
+      await scheduler.cancel(second.id);
+    };
+
+    const runs = await scheduler.runDue(Date.UTC(2025, 0, 6));
+
+    expect(runs).toHaveLength(1);
+    expect(executor.calls).toHaveLength(1);
+    expect((await scheduler.get(first.id))?.status).toBe('cancelled');
+    expect((await scheduler.get(second.id))?.status).toBe('cancelled');
+  });
+
+  it('should spend a percentage of the balance received since the previous run', async () => {
+    const schedule = await scheduler.create(
+      {
+        description: 'Stake 10% of new CAKE weekly',
+        toolName: 'staking',
+        params: { tokenA: '0xcake', type: 'stake', network: 'bnb' },
+        amount: { type: 'new_balance_percent', percent: 10 },
+        cadence: { every: 'week' },
+      },
+      NOW,
+    );
+    expect(schedule.last_balance).toBe('100');
+
+    const skipped = await scheduler.run(schedule, Date.UTC(2025, 0, 6));
+    expect(skipped).toMatchObject({ status: 'skipped', amount: null });
+
+    executor.balance = '125.5';
+    const run = await scheduler.run(schedule, Date.UTC(2025, 0, 13));
+
+    expect(run).toMatchObject({ status: 'succeeded', amount: '2.55' });
+    expect(executor.calls).toEqual([
+      { tokenA: '0xcake', type: 'stake', network: 'bnb', amountA: '2.55' },
+    ]);
+  });
+
+  it('should only schedule the configured tools and cancel schedules', async () => {
+    await expect(
+      scheduler.create(
+        {
+          description: 'Bridge weekly',
+          toolName: 'bridge',
+          params: {},
+          amount: { type: 'fixed', amount: '1' },
+          cadence: { every: 'week' },
+        },
+        NOW,
+      ),
+    ).rejects.toThrow('Tool bridge cannot be scheduled, use one of: swap, staking');
+
+    const schedule = await createWeeklySwap();
+    await scheduler.cancel(schedule.id);
+
+    expect(await scheduler.list({ status: 'active' })).toEqual([]);
+    expect(await scheduler.runDue(Date.UTC(2025, 0, 6))).toEqual([]);
+  });
+});
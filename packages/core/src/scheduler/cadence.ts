@@ -0,0 +1,105 @@
+import { ScheduleCadence } from '../types/database';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Throw when the cadence cannot be scheduled
+ */
+export function validateCadence(cadence: ScheduleCadence): void {
+  if (!['hour', 'day', 'week', 'month'].includes(cadence.every)) {
+    throw new Error(`Unsupported schedule cadence: every ${cadence.every}`);
+  }
+  if (
+    cadence.interval !== undefined &&
+    !(Number.isInteger(cadence.interval) && cadence.interval > 0)
+  ) {
+    throw new Error('Schedule interval must be a positive integer');
+  }
+  if (cadence.time !== undefined && !TIME_PATTERN.test(cadence.time)) {
+    throw new Error(`Schedule time must be HH:mm, got ${cadence.time}`);
+  }
+  if (
+    cadence.dayOfWeek !== undefined &&
+    !(Number.isInteger(cadence.dayOfWeek) && cadence.dayOfWeek >= 0 && cadence.dayOfWeek <= 6)
+  ) {
+    throw new Error('Schedule day of week must be from 0 (Sunday) to 6');
+  }
+  // Later days are missing from some months
+  if (
+    cadence.dayOfMonth !== undefined &&
+    !(Number.isInteger(cadence.dayOfMonth) && cadence.dayOfMonth >= 1 && cadence.dayOfMonth <= 28)
+  ) {
+    throw new Error('Schedule day of month must be from 1 to 28');
+  }
+}
+
+/**
+ * First time matching the cadence strictly after a timestamp, the interval is not applied
+ */
+export function getFirstRunAt(cadence: ScheduleCadence, after: number): number {
+  const [hours, minutes] = (cadence.time ?? '00:00').split(':').map(Number);
+  const date = new Date(after);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const day = date.getUTCDate();
+
+  switch (cadence.every) {
+    case 'hour': {
+      const next = Date.UTC(year, month, day, date.getUTCHours(), minutes);
+      return next > after ? next : next + HOUR_MS;
+    }
+    case 'day': {
+      const next = Date.UTC(year, month, day, hours, minutes);
+      return next > after ? next : next + DAY_MS;
+    }
+    case 'week': {
+      const dayOfWeek = cadence.dayOfWeek ?? 1;
+      const next = Date.UTC(
+        year,
+        month,
+        day + ((dayOfWeek - date.getUTCDay() + 7) % 7),
+        hours,
+        minutes,
+      );
+      return next > after ? next : next + 7 * DAY_MS;
+    }
+    case 'month': {
+      const dayOfMonth = cadence.dayOfMonth ?? 1;
+      const next = Date.UTC(year, month, dayOfMonth, hours, minutes);
+      return next > after ? next : Date.UTC(year, month + 1, dayOfMonth, hours, minutes);
+    }
+    default:
+      throw new Error(`Unsupported schedule cadence: every ${cadence.every}`);
+  }
+}
+
+/**
+ * Run following the one at `after`, `interval` times matching the cadence later
+ */
+export function getNextRunAt(cadence: ScheduleCadence, after: number): number {
+  let next = after;
+  for (let i = 0; i < (cadence.interval ?? 1); i++) {
+    next = getFirstRunAt(cadence, next);
+  }
+  return next;
+}
+
+export function describeCadence(cadence: ScheduleCadence): string {
+  const interval = cadence.interval ?? 1;
+  const every = interval === 1 ? `every ${cadence.every}` : `every ${interval} ${cadence.every}s`;
+  const time = cadence.time ?? '00:00';
+  switch (cadence.every) {
+    case 'hour':
+      return `${every} at minute ${time.slice(3)}`;
+    case 'week': {
+      const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+      return `${every} on ${days[cadence.dayOfWeek ?? 1]} at ${time} UTC`;
+    }
+    case 'month':
+      return `${every} on day ${cadence.dayOfMonth ?? 1} at ${time} UTC`;
+    default:
+      return `${every} at ${time} UTC`;
+  }
+}
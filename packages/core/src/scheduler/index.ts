@@ -0,0 +1,5 @@
+export * from './types';
+export * from './cadence';
+export * from './Scheduler';
+export * from './SchedulerPlugin';
+export * from './tools';
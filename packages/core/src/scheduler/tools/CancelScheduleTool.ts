@@ -0,0 +1,57 @@
+import { DynamicStructuredTool } from '@langchain/core/tools';
+import { z } from 'zod';
+import { BaseTool } from '../../agent/tools/BaseTool';
+import { CustomDynamicStructuredTool } from '../../agent/tools/types';
+import { UUID } from '../../types/database';
+import { summarizeSchedule } from './summary';
+
+export class CancelScheduleTool extends BaseTool {
+  getName(): string {
+    return 'cancel_schedule';
+  }
+
+  getDescription(): string {
+    return 'Cancel a recurring schedule so it never runs again, find its id with list_schedules';
+  }
+
+  getSchema(): z.ZodObject<any> {
+    return z.object({
+      scheduleId: z.string().describe('The id of the schedule to cancel'),
+    });
+  }
+
+  mockResponseTool(args: any): Promise<string> {
+    return Promise.resolve(
+      JSON.stringify({
+        status: 'success',
+        schedule: { id: args.scheduleId, status: 'cancelled' },
+      }),
+    );
+  }
+
+  createTool(): CustomDynamicStructuredTool {
+    return new DynamicStructuredTool({
+      name: this.getName(),
+      description: this.getDescription(),
+      schema: this.getSchema(),
+      func: async (args: any) => {
+        if (this.agent.isMockResponseTool()) {
+          return this.mockResponseTool(args);
+        }
+        try {
+          const scheduler = this.agent.getScheduler();
+          const userId = this.agent.getContext().user?.id;
+          const schedule = await scheduler.get(args.scheduleId as UUID);
+          // Schedules of other users are reported as missing
+          if (!schedule || (userId && schedule.user_id && schedule.user_id !== userId)) {
+            throw new Error(`Schedule ${args.scheduleId} not found`);
+          }
+          const cancelled = await scheduler.cancel(schedule.id);
+          return JSON.stringify({ status: 'success', schedule: summarizeSchedule(cancelled) });
+        } catch (error) {
+          return this.handleError(error, args);
+        }
+      },
+    });
+  }
+}
@@ -0,0 +1,110 @@
+import { DynamicStructuredTool } from '@langchain/core/tools';
+import { z } from 'zod';
+import { BaseTool } from '../../agent/tools/BaseTool';
+import { CustomDynamicStructuredTool } from '../../agent/tools/types';
+import { ScheduleAmount } from '../../types/database';
+import { getWalletThreadId } from '../../wallet/threadContext';
+import { summarizeSchedule } from './summary';
+
+export class CreateScheduleTool extends BaseTool {
+  getName(): string {
+    return 'create_schedule';
+  }
+
+  getDescription(): string {
+    const tools = this.agent.getScheduler().getSchedulableToolNames().join(', ');
+    return `Schedule a recurring ${tools} run automatically without asking again, e.g. buying $50 of BNB with USDT every Monday (DCA) or staking 10% of the newly received CAKE weekly. Resolve token addresses and the network first. Times are in UTC.`;
+  }
+
+  getSchema(): z.ZodObject<any> {
+    const tools = this.agent.getScheduler().getSchedulableToolNames();
+    return z.object({
+      description: z.string().describe('Short description of the schedule in the user words'),
+      toolName: z.enum(tools as [string, ...string[]]).describe('The tool run on each run'),
+      params: z
+        .record(z.any())
+        .describe(
+          'Arguments of the tool besides the amount, with token addresses and network, e.g. fromToken, toToken, network and amountType "input" for swap',
+        ),
+      amountType: z
+        .enum(['fixed', 'balance_percent', 'new_balance_percent'])
+        .describe(
+          'Spend a fixed amount, a percentage of the balance, or a percentage of the balance received since the previous run',
+        ),
+      amount: z.string().optional().describe('Amount of the token spent on each run, for fixed'),
+      percent: z
+        .number()
+        .optional()
+        .describe('Percentage from 0 to 100, for balance_percent and new_balance_percent'),
+      every: z.enum(['hour', 'day', 'week', 'month']).describe('How often the schedule runs'),
+      interval: z
+        .number()
+        .optional()
+        .describe('Run every N hours, days, weeks or months (default: 1)'),
+      time: z
+        .string()
+        .optional()
+        .describe(
+          'Time of the runs as HH:mm in UTC, only the minutes for hourly runs (default: 00:00)',
+        ),
+      dayOfWeek: z
+        .number()
+        .optional()
+        .describe('Day of weekly runs from 0 (Sunday) to 6 (default: 1, Monday)'),
+      dayOfMonth: z.number().optional().describe('Day of monthly runs from 1 to 28 (default: 1)'),
+    });
+  }
+
+  mockResponseTool(args: any): Promise<string> {
+    return Promise.resolve(
+      JSON.stringify({
+        status: 'success',
+        schedule: {
+          id: '00000000-0000-0000-0000-000000000000',
+          description: args.description,
+          tool: args.toolName,
+          params: args.params,
+          status: 'active',
+        },
+      }),
+    );
+  }
+
+  createTool(): CustomDynamicStructuredTool {
+    return new DynamicStructuredTool({
+      name: this.getName(),
+      description: this.getDescription(),
+      schema: this.getSchema(),
+      func: async (args: any) => {
+        if (this.agent.isMockResponseTool()) {
+          return this.mockResponseTool(args);
+        }
+        try {
+          const amount: ScheduleAmount =
+            args.amountType === 'fixed'
+              ? { type: 'fixed', amount: args.amount }
+              : { type: args.amountType, percent: args.percent };
+          const schedule = await this.agent.getScheduler().create({
+            description: args.description,
+            toolName: args.toolName,
+            params: args.params,
+            amount,
+            cadence: {
+              every: args.every,
+              interval: args.interval,
+              time: args.time,
+              dayOfWeek: args.dayOfWeek,
+              dayOfMonth: args.dayOfMonth,
+            },
+            userId: this.agent.getContext().user?.id,
+            // Runs sign with the wallet account of the thread creating the schedule
+            threadId: getWalletThreadId(),
+          });
+          return JSON.stringify({ status: 'success', schedule: summarizeSchedule(schedule) });
+        } catch (error) {
+          return this.handleError(error, args);
+        }
+      },
+    });
+  }
+}
@@ -0,0 +1,63 @@
+import { DynamicStructuredTool } from '@langchain/core/tools';
+import { z } from 'zod';
+import { BaseTool } from '../../agent/tools/BaseTool';
+import { CustomDynamicStructuredTool } from '../../agent/tools/types';
+import { summarizeSchedule } from './summary';
+
+export class ListSchedulesTool extends BaseTool {
+  getName(): string {
+    return 'list_schedules';
+  }
+
+  getDescription(): string {
+    return 'List the recurring schedules of the user with their next run, optionally with their latest runs';
+  }
+
+  getSchema(): z.ZodObject<any> {
+    return z.object({
+      status: z
+        .enum(['active', 'cancelled', 'failed'])
+        .optional()
+        .describe('Only list schedules with this status'),
+      runs: z
+        .number()
+        .optional()
+        .describe('Number of latest runs to include for each schedule (default: 0)'),
+    });
+  }
+
+  mockResponseTool(args: any): Promise<string> {
+    return Promise.resolve(JSON.stringify({ status: 'success', schedules: [] }));
+  }
+
+  createTool(): CustomDynamicStructuredTool {
+    return new DynamicStructuredTool({
+      name: this.getName(),
+      description: this.getDescription(),
+      schema: this.getSchema(),
+      func: async (args: any) => {
+        if (this.agent.isMockResponseTool()) {
+          return this.mockResponseTool(args);
+        }
+        try {
+          const scheduler = this.agent.getScheduler();
+          const schedules = await scheduler.list({
+            userId: this.agent.getContext().user?.id,
+            status: args.status,
+          });
+          return JSON.stringify({
+            status: 'success',
+            schedules: await Promise.all(
+              schedules.map(async schedule => ({
+                ...summarizeSchedule(schedule),
+                ...(args.runs ? { runs: await scheduler.getRuns(schedule.id, args.runs) } : {}),
+              })),
+            ),
+          });
+        } catch (error) {
+          return this.handleError(error, args);
+        }
+      },
+    });
+  }
+}
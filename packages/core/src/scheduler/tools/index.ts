@@ -0,0 +1,4 @@
+export * from './summary';
+export * from './CreateScheduleTool';
+export * from './ListSchedulesTool';
+export * from './CancelScheduleTool';
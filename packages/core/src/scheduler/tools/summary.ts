@@ -0,0 +1,20 @@
+import { ScheduleEntity } from '../../types/database';
+import { describeCadence } from '../cadence';
+
+/**
+ * Schedule as reported to the model, with readable cadence and times
+ */
+export function summarizeSchedule(schedule: ScheduleEntity) {
+  return {
+    id: schedule.id,
+    description: schedule.description,
+    tool: schedule.tool_name,
+    params: schedule.params,
+    amount: schedule.amount,
+    cadence: describeCadence(schedule.cadence),
+    status: schedule.status,
+    failures: schedule.failures,
+    nextRunAt: new Date(schedule.next_run_at).toISOString(),
+    lastRunAt: schedule.last_run_at ? new Date(schedule.last_run_at).toISOString() : null,
+  };
+}
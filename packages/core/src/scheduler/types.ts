@@ -0,0 +1,54 @@
+import { ScheduleRunData } from '../agent/callbacks/types';
+import { TokenBalance } from '../network/balance';
+import { ScheduleAmount, ScheduleCadence, ScheduleEntity, UUID } from '../types/database';
+
+/**
+ * Tool a schedule can run, with the arguments the scheduler fills in
+ */
+export interface SchedulableTool {
+  /** Argument receiving the amount of each run, e.g. amount */
+  amountParam: string;
+  /** Argument holding the token spent, whose balance percentage amounts are taken from */
+  tokenParam: string;
+}
+
+export interface SchedulerConfig {
+  /** How often due schedules are looked up, in milliseconds, every minute by default */
+  pollInterval?: number;
+  /** Failed runs in a row before a schedule stops, 3 by default */
+  maxFailures?: number;
+  /** Tools schedules can run, swap and staking by default */
+  tools?: Record<string, SchedulableTool>;
+}
+
+export interface ScheduleRequest {
+  description: string;
+  toolName: string;
+  /** Arguments of the tool call besides the amount, with resolved token addresses and network */
+  params: Record<string, any>;
+  amount: ScheduleAmount;
+  cadence: ScheduleCadence;
+  userId?: UUID;
+  threadId?: string;
+}
+
+/**
+ * Runs the tool calls of schedules and reads the balances their amounts depend on
+ */
+export interface ScheduleExecutor {
+  /**
+   * Wallet balance of a token in token units, with the wallet account of the schedule's thread
+   */
+  getBalance(schedule: ScheduleEntity, network: string, token: string): Promise<TokenBalance>;
+
+  /**
+   * Run the schedule's tool without the model
+   * @returns The tool output
+   */
+  runTool(schedule: ScheduleEntity, params: Record<string, any>): Promise<any>;
+
+  /**
+   * Notify the agent's schedule callbacks of a run
+   */
+  notify(data: ScheduleRunData): Promise<void>;
+}
@@ -0,0 +1,187 @@
+import type { RunnableConfig } from '@langchain/core/runnables';
+import {
+  BaseCheckpointSaver,
+  Checkpoint,
+  CheckpointMetadata,
+  CheckpointTuple,
+  copyCheckpoint,
+} from '@langchain/langgraph';
+import type { CheckpointEntity } from '../types/database';
+import { DatabaseAdapter } from './database';
+
+type PendingWrite = Parameters<BaseCheckpointSaver['putWrites']>[1][number];
+type ListOptions = Parameters<BaseCheckpointSaver['list']>[1];
+type CheckpointPendingWrite = NonNullable<CheckpointTuple['pendingWrites']>[number];
+
+// Channel and special write indexes defined by @langchain/langgraph-checkpoint
+const TASKS = '__pregel_tasks';
+const WRITES_IDX_MAP: Record<string, number> = {
+  __error__: -1,
+  __scheduled__: -2,
+  __interrupt__: -3,
+  __resume__: -4,
+};
+
+/**
+ * LangGraph checkpointer persisting checkpoints and pending writes through a DatabaseAdapter,
+ * so interrupted threads can be resumed by thread id from any process.
+ */
+export class DatabaseCheckpointSaver extends BaseCheckpointSaver {
+  constructor(private readonly db: DatabaseAdapter) {
+    super();
+  }
+
+  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    const threadId = config.configurable?.thread_id;
+    if (threadId === undefined) {
+      return undefined;
+    }
+    const entity = await this.db.getCheckpoint(
+      threadId,
+      config.configurable?.checkpoint_ns ?? '',
+      config.configurable?.checkpoint_id || config.configurable?.thread_ts || undefined,
+    );
+    return entity ? this.toTuple(entity) : undefined;
+  }
+
+  async *list(config: RunnableConfig, options?: ListOptions): AsyncGenerator<CheckpointTuple> {
+    const { before, filter } = options ?? {};
+    let limit = options?.limit;
+    const checkpointId = config.configurable?.checkpoint_id;
+
+    const entities = await this.db.listCheckpoints(
+      config.configurable?.thread_id,
+      config.configurable?.checkpoint_ns,
+      {
+        before: before?.configurable?.checkpoint_id,
+        // Metadata filters are applied here, the limit can only be pushed down without them
+        limit: filter || checkpointId ? undefined : limit,
+      },
+    );
+
+    for (const entity of entities) {
+      if (checkpointId && entity.checkpoint_id !== checkpointId) {
+        continue;
+      }
+      const tuple = await this.toTuple(entity);
+      if (
+        filter &&
+        !Object.entries(filter).every(
+          ([key, value]) => (tuple.metadata as Record<string, unknown>)?.[key] === value,
+        )
+      ) {
+        continue;
+      }
+      if (limit !== undefined) {
+        if (limit <= 0) break;
+        limit -= 1;
+      }
+      yield tuple;
+    }
+  }
+
+  async put(
+    config: RunnableConfig,
+    checkpoint: Checkpoint,
+    metadata: CheckpointMetadata,
+  ): Promise<RunnableConfig> {
+    const threadId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? '';
+    if (threadId === undefined) {
+      throw new Error('Failed to put checkpoint, the config has no thread_id');
+    }
+
+    // Pending sends are rebuilt from the parent's writes when the checkpoint is loaded
+    const prepared: Partial<Checkpoint> = copyCheckpoint(checkpoint);
+    delete prepared.pending_sends;
+    const [type, serializedCheckpoint] = this.serde.dumpsTyped(prepared);
+    const [, serializedMetadata] = this.serde.dumpsTyped(metadata);
+
+    await this.db.putCheckpoint({
+      thread_id: threadId,
+      checkpoint_ns: checkpointNs,
+      checkpoint_id: checkpoint.id,
+      parent_checkpoint_id: config.configurable?.checkpoint_id ?? null,
+      type,
+      checkpoint: serializedCheckpoint,
+      metadata: serializedMetadata,
+    });
+
+    return {
+      configurable: {
+        thread_id: threadId,
+        checkpoint_ns: checkpointNs,
+        checkpoint_id: checkpoint.id,
+      },
+    };
+  }
+
+  async putWrites(config: RunnableConfig, writes: PendingWrite[], taskId: string): Promise<void> {
+    const threadId = config.configurable?.thread_id;
+    const checkpointId = config.configurable?.checkpoint_id;
+    if (threadId === undefined || checkpointId === undefined) {
+      throw new Error('Failed to put writes, the config has no thread_id or checkpoint_id');
+    }
+
+    await this.db.putCheckpointWrites(
+      writes.map(([channel, value], idx) => {
+        const [type, serialized] = this.serde.dumpsTyped(value);
+        return {
+          thread_id: threadId,
+          checkpoint_ns: config.configurable?.checkpoint_ns ?? '',
+          checkpoint_id: checkpointId,
+          task_id: taskId,
+          idx: WRITES_IDX_MAP[channel] ?? idx,
+          channel,
+          type,
+          value: serialized,
+        };
+      }),
+    );
+  }
+
+  /**
+   * Delete every checkpoint of a thread, the next run of the thread starts from scratch
+   */
+  async deleteThread(threadId: string): Promise<void> {
+    await this.db.deleteCheckpoints(threadId);
+  }
+
+  private async toTuple(entity: CheckpointEntity): Promise<CheckpointTuple> {
+    const { thread_id, checkpoint_ns, checkpoint_id, parent_checkpoint_id } = entity;
+    // The serializer's loadsTyped resolves asynchronously despite its declared type
+    const load = async (type: string, data: Uint8Array) => await this.serde.loadsTyped(type, data);
+
+    const writes = await this.db.getCheckpointWrites(thread_id, checkpoint_ns, checkpoint_id);
+    const parentWrites = parent_checkpoint_id
+      ? await this.db.getCheckpointWrites(thread_id, checkpoint_ns, parent_checkpoint_id)
+      : [];
+    const pendingSends = await Promise.all(
+      parentWrites
+        .filter(write => write.channel === TASKS)
+        .map(write => load(write.type, write.value)),
+    );
+
+    const tuple: CheckpointTuple = {
+      config: { configurable: { thread_id, checkpoint_ns, checkpoint_id } },
+      checkpoint: {
+        ...(await load(entity.type, entity.checkpoint)),
+        pending_sends: pendingSends,
+      },
+      metadata: await load(entity.type, entity.metadata),
+      pendingWrites: await Promise.all(
+        writes.map(async (write): Promise<CheckpointPendingWrite> => [
+          write.task_id,
+          write.channel,
+          await load(write.type, write.value),
+        ]),
+      ),
+    };
+    if (parent_checkpoint_id) {
+      tuple.parentConfig = {
+        configurable: { thread_id, checkpoint_ns, checkpoint_id: parent_checkpoint_id },
+      };
+    }
+    return tuple;
+  }
+}
@@ -0,0 +1,234 @@
+import { Annotation, Command, END, interrupt, START, StateGraph } from '@langchain/langgraph';
+import { DatabaseAdapter } from '../database';
+import { DatabaseCheckpointSaver } from '../DatabaseCheckpointSaver';
+import {
+  CheckpointEntity,
+  CheckpointQueryOptions,
+  CheckpointWriteEntity,
+} from '../../types/database';
+
+// Keeps checkpoints in arrays, other entities are not used by the checkpointer
+class InMemoryCheckpointAdapter extends DatabaseAdapter {
+  checkpoints: CheckpointEntity[] = [];
+  writes: CheckpointWriteEntity[] = [];
+
+  async init() {}
+  async close() {}
+  async createUser() {
+    return true;
+  }
+  async createAndGetUserByAddress() {
+    return null;
+  }
+  async getUserById() {
+    return null;
+  }
+  async getUserByAddress() {
+    return null;
+  }
+  async createMessages() {
+    return true;
+  }
+  async createMessage() {
+    return true;
+  }
+  async getMessageById() {
+    return null;
+  }
+  async getMessagesByUserId() {
+    return [];
+  }
+  async getMessagesByThreadId() {
+    return [];
+  }
+  async createThreadIfNotExists() {
+    return '00000000-0000-0000-0000-000000000000' as const;
+  }
+  async clearMessagesByUserId() {
+    return true;
+  }
+  async clearMessagesByThreadId() {
+    return true;
+  }
+  async createReview() {}
+  async getReview() {
+    return null;
+  }
+  async listReviews() {
+    return [];
+  }
+  async decideReview() {
+    return null;
+  }
+  async getMemorySummary() {
+    return null;
+  }
+  async saveMemorySummary() {}
+  async savePlan() {}
+  async listPlans() {
+    return [];
+  }
+  async listTasks() {
+    return [];
+  }
+  async createToolCall() {}
+  async finishToolCall() {}
+  async listToolCalls() {
+    return [];
+  }
+  async createUsage() {}
+  async getDailyUsage() {
+    return [];
+  }
+  async saveSchedule() {}
+  async getSchedule() {
+    return null;
+  }
+  async listSchedules() {
+    return [];
+  }
+  async createScheduleRun() {}
+  async listScheduleRuns() {
+    return [];
+  }
+  async savePriceTrigger() {}
+  async getPriceTrigger() {
+    return null;
+  }
+  async listPriceTriggers() {
+    return [];
+  }
+  async createPortfolioSnapshot() {}
+  async listPortfolioSnapshots() {
+    return [];
+  }
+  async saveApprovalSpender() {}
+  async listApprovalSpenders() {
+    return [];
+  }
+
+  async putCheckpoint(checkpoint: CheckpointEntity) {
+    this.checkpoints = this.checkpoints.filter(
+      c =>
+        c.thread_id !== checkpoint.thread_id ||
+        c.checkpoint_ns !== checkpoint.checkpoint_ns ||
+        c.checkpoint_id !== checkpoint.checkpoint_id,
+    );
+    this.checkpoints.push(checkpoint);
+  }
+
+  async getCheckpoint(threadId: string, checkpointNs: string, checkpointId?: string) {
+    const checkpoints = await this.listCheckpoints(threadId, checkpointNs);
+    return checkpoints.find(c => !checkpointId || c.checkpoint_id === checkpointId) ?? null;
+  }
+
+  async listCheckpoints(
+    threadId?: string,
+    checkpointNs?: string,
+    options: CheckpointQueryOptions = {},
+  ) {
+    return this.checkpoints
+      .filter(
+        c =>
+          (threadId === undefined || c.thread_id === threadId) &&
+          (checkpointNs === undefined || c.checkpoint_ns === checkpointNs) &&
+          (!options.before || c.checkpoint_id < options.before),
+      )
+      .sort((a, b) => b.checkpoint_id.localeCompare(a.checkpoint_id))
+      .slice(0, options.limit);
+  }
+
+  async putCheckpointWrites(writes: CheckpointWriteEntity[]) {
+    for (const write of writes) {
+      const index = this.writes.findIndex(
+        w =>
+          w.thread_id === write.thread_id &&
+          w.checkpoint_ns === write.checkpoint_ns &&
+          w.checkpoint_id === write.checkpoint_id &&
+          w.task_id === write.task_id &&
+          w.idx === write.idx,
+      );
+      if (index < 0) {
+        this.writes.push(write);
+      } else if (write.idx < 0) {
+        this.writes[index] = write;
+      }
+    }
+  }
+
+  async getCheckpointWrites(threadId: string, checkpointNs: string, checkpointId: string) {
+    return this.writes.filter(
+      w =>
+        w.thread_id === threadId &&
+        w.checkpoint_ns === checkpointNs &&
+        w.checkpoint_id === checkpointId,
+    );
+  }
+
+  async deleteCheckpoints(threadId: string) {
+    this.checkpoints = this.checkpoints.filter(c => c.thread_id !== threadId);
+    this.writes = this.writes.filter(w => w.thread_id !== threadId);
+    return true;
+  }
+}
+
+describe('DatabaseCheckpointSaver', () => {
+  const State = Annotation.Root({
+    input: Annotation<string>,
+    answer: Annotation<string>,
+  });
+
+  const createGraph = (db: DatabaseAdapter) =>
+    new StateGraph(State)
+      .addNode('review', state => {
+        const review = interrupt<{ question: string }, string>({ question: state.input });
+        return { answer: `${state.input}: ${review}` };
+      })
+      .addEdge(START, 'review')
+      .addEdge('review', END)
+      .compile({ checkpointer: new DatabaseCheckpointSaver(db) });
+
+  it('should resume an interrupted thread from another saver instance', async () => {
+    const db = new InMemoryCheckpointAdapter();
+    const config = { configurable: { thread_id: 'thread-1' } };
+
+    await createGraph(db).invoke({ input: 'swap 1 BNB' }, config);
+
+    // A fresh graph, as in another process, sees the pending interrupt
+    const graph = createGraph(db);
+    const snapshot = await graph.getState(config);
+    expect(snapshot.tasks[0].interrupts[0].value).toEqual({ question: 'swap 1 BNB' });
+
+    const result = await graph.invoke(new Command({ resume: 'approved' }), config);
+    expect(result.answer).toBe('swap 1 BNB: approved');
+    expect((await graph.getState(config)).next).toEqual([]);
+  });
+
+  it('should list checkpoints newest first and delete threads', async () => {
+    const db = new InMemoryCheckpointAdapter();
+    const saver = new DatabaseCheckpointSaver(db);
+    const config = { configurable: { thread_id: 'thread-2' } };
+    await createGraph(db).invoke({ input: 'bridge' }, config);
+
+    const tuples = [];
+    for await (const tuple of saver.list(config)) {
+      tuples.push(tuple);
+    }
+    expect(tuples.length).toBeGreaterThan(1);
+    expect(tuples[0].config.configurable?.checkpoint_id).toBe(
+      (await saver.getTuple(config))?.config.configurable?.checkpoint_id,
+    );
+    expect(tuples[0].parentConfig?.configurable?.checkpoint_id).toBe(
+      tuples[1].config.configurable?.checkpoint_id,
+    );
+
+    const limited = [];
+    for await (const tuple of saver.list(config, { limit: 1 })) {
+      limited.push(tuple);
+    }
+    expect(limited).toHaveLength(1);
+
+    await saver.deleteThread('thread-2');
+    expect(await saver.getTuple(config)).toBeUndefined();
+  });
+});
@@ -1,4 +1,31 @@
-import type { UserEntity, MessageEntity, UUID } from '../types/database';
+import type {
+  ApprovalSpenderEntity,
+  UserEntity,
+  MessageEntity,
+  UUID,
+  CheckpointEntity,
+  CheckpointQueryOptions,
+  CheckpointWriteEntity,
+  DailyUsage,
+  MemorySummaryEntity,
+  PlanEntity,
+  PortfolioSnapshotEntity,
+  PortfolioSnapshotQueryOptions,
+  ReviewDecision,
+  ReviewEntity,
+  PriceTriggerEntity,
+  PriceTriggerQueryOptions,
+  ReviewQueryOptions,
+  ScheduleEntity,
+  ScheduleQueryOptions,
+  ScheduleRunEntity,
+  TaskEntity,
+  ToolCallEntity,
+  ToolCallQueryOptions,
+  ToolCallResult,
+  UsageEntity,
+  UsageQueryOptions,
+} from '../types/database';
 import { CircuitBreaker } from './CircuitBreaker';
 
 /**
@@ -80,6 +107,156 @@ export abstract class DatabaseAdapter<DB = any> {
   abstract clearMessagesByUserId(userId: UUID): Promise<boolean>;
 
   abstract clearMessagesByThreadId(threadId: UUID): Promise<boolean>;
+
+  /**
+   * Saves a graph checkpoint, replacing a checkpoint with the same id.
+   */
+  abstract putCheckpoint(checkpoint: CheckpointEntity): Promise<void>;
+
+  /**
+   * Gets a checkpoint of a thread, the latest one when no checkpoint id is given.
+   */
+  abstract getCheckpoint(
+    threadId: string,
+    checkpointNs: string,
+    checkpointId?: string,
+  ): Promise<CheckpointEntity | null>;
+
+  /**
+   * Lists checkpoints from the newest to the oldest.
+   * @param threadId Thread of the checkpoints, all threads when omitted
+   * @param checkpointNs Namespace of the checkpoints, all namespaces when omitted
+   */
+  abstract listCheckpoints(
+    threadId?: string,
+    checkpointNs?: string,
+    options?: CheckpointQueryOptions,
+  ): Promise<CheckpointEntity[]>;
+
+  /**
+   * Saves pending writes of a task. Writes already saved with the same position are kept,
+   * except special writes (negative idx) which are replaced.
+   */
+  abstract putCheckpointWrites(writes: CheckpointWriteEntity[]): Promise<void>;
+
+  /**
+   * Gets the pending writes of a checkpoint ordered by task and position.
+   */
+  abstract getCheckpointWrites(
+    threadId: string,
+    checkpointNs: string,
+    checkpointId: string,
+  ): Promise<CheckpointWriteEntity[]>;
+
+  /**
+   * Deletes every checkpoint and pending write of a thread.
+   */
+  abstract deleteCheckpoints(threadId: string): Promise<boolean>;
+
+  abstract createReview(review: ReviewEntity): Promise<void>;
+
+  abstract getReview(reviewId: UUID): Promise<ReviewEntity | null>;
+
+  /**
+   * Lists reviews from the newest to the oldest.
+   */
+  abstract listReviews(options?: ReviewQueryOptions): Promise<ReviewEntity[]>;
+
+  /**
+   * Records the decision of a pending review.
+   * @returns The updated review, null when the review is not pending anymore
+   */
+  abstract decideReview(reviewId: UUID, decision: ReviewDecision): Promise<ReviewEntity | null>;
+
+  abstract getMemorySummary(key: string): Promise<MemorySummaryEntity | null>;
+
+  /**
+   * Saves the summary of a conversation, replacing the previous one.
+   */
+  abstract saveMemorySummary(summary: MemorySummaryEntity): Promise<void>;
+
+  /**
+   * Saves a plan with its tasks, plans and tasks saved before keep their creation time.
+   */
+  abstract savePlan(plan: PlanEntity, tasks: TaskEntity[]): Promise<void>;
+
+  /**
+   * Lists the plans of a thread from the oldest to the newest.
+   */
+  abstract listPlans(threadId: string): Promise<PlanEntity[]>;
+
+  /**
+   * Lists the tasks of a thread ordered by plan and position.
+   * @param planId Plan of the tasks, all plans when omitted
+   */
+  abstract listTasks(threadId: string, planId?: string): Promise<TaskEntity[]>;
+
+  abstract createToolCall(toolCall: ToolCallEntity): Promise<void>;
+
+  abstract finishToolCall(toolCallId: string, result: ToolCallResult): Promise<void>;
+
+  /**
+   * Lists tool calls from the oldest to the newest.
+   */
+  abstract listToolCalls(options?: ToolCallQueryOptions): Promise<ToolCallEntity[]>;
+
+  abstract createUsage(usage: UsageEntity): Promise<void>;
+
+  /**
+   * Sums the usage of the matching model calls per day (UTC) from the oldest day.
+   */
+  abstract getDailyUsage(options?: UsageQueryOptions): Promise<DailyUsage[]>;
+
+  /**
+   * Saves a schedule, replacing the previous version of it.
+   */
+  abstract saveSchedule(schedule: ScheduleEntity): Promise<void>;
+
+  abstract getSchedule(scheduleId: UUID): Promise<ScheduleEntity | null>;
+
+  /**
+   * Lists schedules from the next to run to the last.
+   */
+  abstract listSchedules(options?: ScheduleQueryOptions): Promise<ScheduleEntity[]>;
+
+  abstract createScheduleRun(run: ScheduleRunEntity): Promise<void>;
+
+  /**
+   * Lists the runs of a schedule from the newest to the oldest.
+   */
+  abstract listScheduleRuns(scheduleId: UUID, limit?: number): Promise<ScheduleRunEntity[]>;
+
+  /**
+   * Saves a price trigger, replacing the previous version of it.
+   */
+  abstract savePriceTrigger(trigger: PriceTriggerEntity): Promise<void>;
+
+  abstract getPriceTrigger(triggerId: UUID): Promise<PriceTriggerEntity | null>;
+
+  /**
+   * Lists price triggers from the oldest.
+   */
+  abstract listPriceTriggers(options?: PriceTriggerQueryOptions): Promise<PriceTriggerEntity[]>;
+
+  abstract createPortfolioSnapshot(snapshot: PortfolioSnapshotEntity): Promise<void>;
+
+  /**
+   * Lists portfolio snapshots from the newest to the oldest.
+   */
+  abstract listPortfolioSnapshots(
+    options?: PortfolioSnapshotQueryOptions,
+  ): Promise<PortfolioSnapshotEntity[]>;
+
+  /**
+   * Saves a token and spender pair approved by the agent, the name of a saved pair is kept
+   * when none is given.
+   */
+  abstract saveApprovalSpender(spender: ApprovalSpenderEntity): Promise<void>;
+
+  /**
+   * Lists the approved token and spender pairs of a network from the oldest.
+   */
+  abstract listApprovalSpenders(network: string): Promise<ApprovalSpenderEntity[]>;
   //   /**
   //    * Removes a specific room from the database.
   //    * @param roomId The UUID of the room to remove.
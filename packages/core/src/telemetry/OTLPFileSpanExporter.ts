@@ -0,0 +1,98 @@
+import { AttributeValue, Attributes, HrTime } from '@opentelemetry/api';
+import { ExportResult, ExportResultCode } from '@opentelemetry/core';
+import { ReadableSpan, SpanExporter } from '@opentelemetry/sdk-trace-base';
+import { appendFile } from 'fs/promises';
+
+const toNanos = ([seconds, nanos]: HrTime) =>
+  (BigInt(seconds) * 1_000_000_000n + BigInt(nanos)).toString();
+
+function toAnyValue(value: AttributeValue | undefined): Record<string, any> {
+  if (Array.isArray(value)) {
+    return { arrayValue: { values: value.map(item => toAnyValue(item ?? undefined)) } };
+  }
+  switch (typeof value) {
+    case 'boolean':
+      return { boolValue: value };
+    case 'number':
+      return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+    case 'string':
+      return { stringValue: value };
+    default:
+      return {};
+  }
+}
+
+const toKeyValues = (attributes: Attributes) =>
+  Object.entries(attributes).map(([key, value]) => ({ key, value: toAnyValue(value) }));
+
+function toOtlpSpan(span: ReadableSpan) {
+  const { traceId, spanId } = span.spanContext();
+  return {
+    traceId,
+    spanId,
+    parentSpanId: span.parentSpanContext?.spanId,
+    name: span.name,
+    // OTLP numbers span kinds from 1
+    kind: span.kind + 1,
+    startTimeUnixNano: toNanos(span.startTime),
+    endTimeUnixNano: toNanos(span.endTime),
+    attributes: toKeyValues(span.attributes),
+    events: span.events.map(event => ({
+      timeUnixNano: toNanos(event.time),
+      name: event.name,
+      attributes: toKeyValues(event.attributes ?? {}),
+    })),
+    status: { code: span.status.code, message: span.status.message },
+  };
+}
+
+/**
+ * Appends each batch of spans to a file as a line of OTLP JSON, which collectors and trace
+ * viewers read back for local debugging
+ */
+export class OTLPFileSpanExporter implements SpanExporter {
+  private pending = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    if (!spans.length) {
+      resultCallback({ code: ExportResultCode.SUCCESS });
+      return;
+    }
+    const scopes = new Map<string, ReadableSpan[]>();
+    for (const span of spans) {
+      const scope = span.instrumentationScope.name;
+      scopes.set(scope, [...(scopes.get(scope) ?? []), span]);
+    }
+    const line = JSON.stringify({
+      resourceSpans: [
+        {
+          resource: { attributes: toKeyValues(spans[0].resource.attributes) },
+          scopeSpans: [...scopes.values()].map(scopeSpans => ({
+            scope: {
+              name: scopeSpans[0].instrumentationScope.name,
+              version: scopeSpans[0].instrumentationScope.version,
+            },
+            spans: scopeSpans.map(toOtlpSpan),
+          })),
+        },
+      ],
+    });
+    // Lines are appended in the order of the batches
+    this.pending = this.pending
+      .then(() => appendFile(this.filePath, `${line}\n`))
+      .then(
+        () => resultCallback({ code: ExportResultCode.SUCCESS }),
+        error => resultCallback({ code: ExportResultCode.FAILED, error }),
+      );
+  }
+
+  forceFlush(): Promise<void> {
+    return this.pending;
+  }
+
+  shutdown(): Promise<void> {
+    return this.pending;
+  }
+}
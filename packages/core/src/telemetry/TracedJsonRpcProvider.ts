@@ -0,0 +1,22 @@
+import { SpanKind } from '@opentelemetry/api';
+import { ethers, JsonRpcPayload, JsonRpcResult } from 'ethers';
+import { withSpan } from './tracing';
+
+/**
+ * JSON-RPC provider sending each request, or batch of requests, in a client span
+ */
+export class TracedJsonRpcProvider extends ethers.JsonRpcProvider {
+  async _send(payload: JsonRpcPayload | JsonRpcPayload[]): Promise<JsonRpcResult[]> {
+    const methods = (Array.isArray(payload) ? payload : [payload]).map(request => request.method);
+    return withSpan(
+      `RPC ${[...new Set(methods)].join(',')}`,
+      {
+        'rpc.system': 'jsonrpc',
+        'rpc.method': methods.join(','),
+        'rpc.batch_size': methods.length,
+      },
+      () => super._send(payload),
+      SpanKind.CLIENT,
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import { SpanStatusCode, context, trace } from '@opentelemetry/api';
+import {
+  InMemorySpanExporter,
+  NodeTracerProvider,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-node';
+import { GraphInterrupt } from '@langchain/langgraph';
+import { mkdtempSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runInWalletThread } from '../../wallet/threadContext';
+import { OTLPFileSpanExporter } from '../OTLPFileSpanExporter';
+import { traceNode, traceProvider, withSpan } from '../tracing';
+import { TelemetryAttributes } from '../types';
+
+describe('tracing', () => {
+  const exporter = new InMemorySpanExporter();
+
+  beforeAll(() => {
+    new NodeTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] }).register();
+  });
+
+  afterEach(() => exporter.reset());
+
+  afterAll(() => {
+    trace.disable();
+    context.disable();
+  });
+
+  it('nests spans and tags them with the thread', async () => {
+    const result = await runInWalletThread('thread-1', () =>
+      withSpan('agent.execute', { [TelemetryAttributes.USER_ID]: undefined }, () =>
+        traceNode('planner.create_plan', async () => 'plan')(),
+      ),
+    );
+
+    expect(result).toBe('plan');
+    const [node, root] = exporter.getFinishedSpans();
+    expect(node.name).toBe('graph.planner.create_plan');
+    expect(node.parentSpanContext?.spanId).toBe(root.spanContext().spanId);
+    expect(node.attributes).toMatchObject({
+      [TelemetryAttributes.THREAD_ID]: 'thread-1',
+      [TelemetryAttributes.GRAPH_NODE]: 'planner',
+      [TelemetryAttributes.GRAPH_STEP]: 'create_plan',
+    });
+    expect(root.attributes).not.toHaveProperty(TelemetryAttributes.USER_ID);
+  });
+
+  it('records errors but not graph interrupts', async () => {
+    await expect(
+      withSpan('tool.swap', {}, () => {
+        throw new Error('Insufficient balance');
+      }),
+    ).rejects.toThrow('Insufficient balance');
+    await expect(
+      withSpan('graph.executor.ask_user', {}, () => {
+        throw new GraphInterrupt();
+      }),
+    ).rejects.toBeInstanceOf(GraphInterrupt);
+
+    const [failed, interrupted] = exporter.getFinishedSpans();
+    expect(failed.status).toEqual({ code: SpanStatusCode.ERROR, message: 'Insufficient balance' });
+    expect(failed.events[0].name).toBe('exception');
+    expect(interrupted.status.code).toBe(SpanStatusCode.UNSET);
+    expect(interrupted.attributes[TelemetryAttributes.INTERRUPTED]).toBe(true);
+  });
+
+  it('traces the quotes and transaction builds of providers only', async () => {
+    const provider = traceProvider(
+      {
+        getName: () => 'pancakeswap',
+        getQuote: async (params: { network: string }) => ({ network: params.network }),
+        buildSwapTransaction: async () => ({ data: '0x' }),
+      },
+      'swap',
+    );
+
+    expect(provider.getName()).toBe('pancakeswap');
+    await provider.getQuote({ network: 'bnb' });
+    await provider.buildSwapTransaction();
+
+    const [quote, build] = exporter.getFinishedSpans();
+    expect(exporter.getFinishedSpans()).toHaveLength(2);
+    expect(quote.name).toBe('swap.getQuote');
+    expect(quote.attributes).toMatchObject({
+      [TelemetryAttributes.PROVIDER]: 'pancakeswap',
+      [TelemetryAttributes.NETWORK]: 'bnb',
+    });
+    expect(build.name).toBe('swap.buildSwapTransaction');
+  });
+
+  it('writes spans as OTLP JSON lines', async () => {
+    await withSpan('agent.execute', { [TelemetryAttributes.USER_ID]: 'user-1' }, () => undefined);
+    const filePath = join(mkdtempSync(join(tmpdir(), 'traces-')), 'traces.jsonl');
+    const fileExporter = new OTLPFileSpanExporter(filePath);
+
+    const result = await new Promise(resolve =>
+      fileExporter.export(exporter.getFinishedSpans(), resolve),
+    );
+    await fileExporter.shutdown();
+
+    expect(result).toEqual({ code: 0 });
+    const [line] = readFileSync(filePath, 'utf8')
+      .trim()
+      .split('\n')
+      .map(l => JSON.parse(l));
+    const [span] = line.resourceSpans[0].scopeSpans[0].spans;
+    expect(line.resourceSpans[0].scopeSpans[0].scope.name).toBe('@binkai/core');
+    expect(span).toMatchObject({
+      name: 'agent.execute',
+      kind: 1,
+      attributes: [{ key: TelemetryAttributes.USER_ID, value: { stringValue: 'user-1' } }],
+    });
+    expect(BigInt(span.endTimeUnixNano)).toBeGreaterThanOrEqual(BigInt(span.startTimeUnixNano));
+  });
+});
@@ -0,0 +1,5 @@
+export * from './types';
+export * from './tracing';
+export * from './TracedJsonRpcProvider';
+export * from './OTLPFileSpanExporter';
+export * from './setup';
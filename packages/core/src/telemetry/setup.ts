@@ -0,0 +1,66 @@
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  BatchSpanProcessor,
+  ConsoleSpanExporter,
+  NodeTracerProvider,
+  SimpleSpanProcessor,
+  SpanProcessor,
+} from '@opentelemetry/sdk-trace-node';
+import { settings } from '../settings';
+import { logger } from '../utils/Logger';
+import { OTLPFileSpanExporter } from './OTLPFileSpanExporter';
+import { TelemetryConfig, TelemetryExporter } from './types';
+
+let provider: NodeTracerProvider | undefined;
+
+function createSpanProcessor(
+  exporter: TelemetryExporter,
+  filePath: string,
+): SpanProcessor | undefined {
+  switch (exporter) {
+    case 'console':
+      // Printed as each span ends to follow the run
+      return new SimpleSpanProcessor(new ConsoleSpanExporter());
+    case 'otlp-file':
+      return new BatchSpanProcessor(new OTLPFileSpanExporter(filePath));
+    case 'none':
+      return undefined;
+    default:
+      throw new Error(`Unsupported telemetry exporter: ${exporter}`);
+  }
+}
+
+/**
+ * Register the tracer provider exporting the spans of the agents, its graph nodes, tools,
+ * providers and RPC calls. Options default to the TELEMETRY_* settings.
+ * @returns The registered provider, undefined when no spans are exported
+ */
+export function initTelemetry(config: TelemetryConfig = {}): NodeTracerProvider | undefined {
+  if (provider) return provider;
+  const exporter =
+    config.exporter ?? (settings.get('TELEMETRY_EXPORTER', 'none') as TelemetryExporter);
+  const processor = createSpanProcessor(
+    exporter,
+    config.filePath ?? settings.get('TELEMETRY_FILE', 'traces.jsonl')!,
+  );
+  if (!processor) return undefined;
+
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({
+      'service.name': config.serviceName ?? settings.get('TELEMETRY_SERVICE_NAME', 'binkai')!,
+    }),
+    spanProcessors: [processor],
+  });
+  // Also registers the context manager that nests spans across async calls
+  provider.register();
+  logger.info(`✓ Telemetry exporting spans to ${exporter}`);
+  return provider;
+}
+
+/**
+ * Export the remaining spans and stop the provider
+ */
+export async function shutdownTelemetry(): Promise<void> {
+  await provider?.shutdown();
+  provider = undefined;
+}
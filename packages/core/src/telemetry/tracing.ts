@@ -0,0 +1,124 @@
+import {
+  Attributes,
+  AttributeValue,
+  Span,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+} from '@opentelemetry/api';
+import { isGraphInterrupt } from '@langchain/langgraph';
+import { getWalletThreadId } from '../wallet/threadContext';
+import { TelemetryAttributes } from './types';
+
+const TRACER_NAME = '@binkai/core';
+
+// Provider methods reaching quote APIs and building transactions
+const TRACED_PROVIDER_METHODS = /^(getQuote|build\w*Transaction)$/;
+
+/**
+ * Spans are dropped until a tracer provider is registered, see `initTelemetry`
+ */
+export function getTracer() {
+  return trace.getTracer(TRACER_NAME);
+}
+
+function definedAttributes(attributes: Record<string, AttributeValue | undefined>): Attributes {
+  return Object.fromEntries(Object.entries(attributes).filter(([, value]) => value != null));
+}
+
+/**
+ * Run a task in an active span, which nests the spans it starts. The span records the error
+ * the task throws, graph interrupts only pause the thread and are not errors.
+ */
+export function withSpan<T>(
+  name: string,
+  attributes: Record<string, AttributeValue | undefined>,
+  task: (span: Span) => Promise<T> | T,
+  kind: SpanKind = SpanKind.INTERNAL,
+): Promise<T> {
+  const spanAttributes = definedAttributes({
+    [TelemetryAttributes.THREAD_ID]: getWalletThreadId(),
+    ...attributes,
+  });
+  return getTracer().startActiveSpan(name, { kind, attributes: spanAttributes }, async span => {
+    try {
+      return await task(span);
+    } catch (error) {
+      if (isGraphInterrupt(error)) {
+        span.setAttribute(TelemetryAttributes.INTERRUPTED, true);
+      } else {
+        span.recordException(error instanceof Error ? error : String(error));
+        span.setStatus({
+          code: SpanStatusCode.ERROR,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * Graph node running in a span
+ * @param name Node of the agent's graph, e.g. supervisor, or of its subgraphs, e.g. planner.create_plan
+ */
+export function traceNode<F extends (...args: any[]) => any>(name: string, fn: F): F {
+  const [node, step] = name.split('.');
+  const attributes = {
+    [TelemetryAttributes.GRAPH_NODE]: node,
+    [TelemetryAttributes.GRAPH_STEP]: step,
+  };
+  return ((...args: any[]) => withSpan(`graph.${name}`, attributes, () => fn(...args))) as F;
+}
+
+/**
+ * Provider whose quotes and transaction builds run in spans
+ * @param kind What the provider does, e.g. swap
+ */
+export function traceProvider<T extends { getName(): string }>(provider: T, kind: string): T {
+  return new Proxy(provider, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (
+        typeof property !== 'string' ||
+        typeof value !== 'function' ||
+        !TRACED_PROVIDER_METHODS.test(property)
+      ) {
+        return value;
+      }
+      return (...args: any[]) =>
+        withSpan(
+          `${kind}.${property}`,
+          {
+            [TelemetryAttributes.PROVIDER]: target.getName(),
+            [TelemetryAttributes.NETWORK]: args[0]?.network ?? args[0]?.fromNetwork,
+          },
+          () => value.apply(target, args),
+        );
+    },
+  });
+}
+
+/**
+ * fetch running each request in a client span
+ */
+export const tracedFetch: typeof fetch = (input, init) => {
+  const method = init?.method ?? (input instanceof Request ? input.method : 'GET');
+  const url = new URL(input instanceof Request ? input.url : input.toString());
+  // Only the host, RPC and API urls often carry keys in their path or query
+  return withSpan(
+    `HTTP ${method}`,
+    { 'http.request.method': method, 'server.address': url.host },
+    async span => {
+      const response = await fetch(input, init);
+      span.setAttribute('http.response.status_code', response.status);
+      if (!response.ok) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: response.statusText });
+      }
+      return response;
+    },
+    SpanKind.CLIENT,
+  );
+};
@@ -0,0 +1,30 @@
+/**
+ * Where spans are exported, `otlp-file` writes OTLP JSON lines for local use
+ */
+export type TelemetryExporter = 'console' | 'otlp-file' | 'none';
+
+export interface TelemetryConfig {
+  /** Defaults to the TELEMETRY_EXPORTER setting, no spans are exported without it */
+  exporter?: TelemetryExporter;
+  /** File of the otlp-file exporter, defaults to the TELEMETRY_FILE setting or traces.jsonl */
+  filePath?: string;
+  /** Defaults to the TELEMETRY_SERVICE_NAME setting or binkai */
+  serviceName?: string;
+}
+
+/**
+ * Attributes set on the spans of the agent
+ */
+export const TelemetryAttributes = {
+  THREAD_ID: 'binkai.thread_id',
+  USER_ID: 'binkai.user_id',
+  /** Graph node running the span: supervisor, planner, executor or basic_question */
+  GRAPH_NODE: 'binkai.graph.node',
+  /** Node of the node's own graph, e.g. create_plan in the planner */
+  GRAPH_STEP: 'binkai.graph.step',
+  INTERRUPTED: 'binkai.graph.interrupted',
+  TOOL_NAME: 'binkai.tool.name',
+  PROVIDER: 'binkai.provider',
+  NETWORK: 'binkai.network',
+  TX_HASH: 'binkai.tx_hash',
+} as const;
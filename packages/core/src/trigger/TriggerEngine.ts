@@ -0,0 +1,231 @@
+import { randomUUID } from 'crypto';
+import { PriceTriggerData } from '../agent/callbacks/types';
+import { DatabaseAdapter } from '../storage/database';
+import { PriceTriggerEntity, PriceTriggerQueryOptions, UUID } from '../types/database';
+import { logger } from '../utils/Logger';
+import { isConditionMet, validateCondition } from './conditions';
+import { PriceFeed, PriceTriggerRequest, TriggerEngineConfig, TriggerExecutor } from './types';
+
+const DEFAULT_POLL_INTERVAL = 30_000;
+
+/**
+ * Swaps executed once a token price meets a condition, e.g. stop-loss and take-profit
+ * orders on DEXes without native limit orders. Prices are polled from the price feed and
+ * triggers are stored in the database when one is registered, in memory otherwise.
+ */
+export class TriggerEngine {
+  private readonly executor: TriggerExecutor;
+  private readonly config: TriggerEngineConfig;
+  private db?: DatabaseAdapter;
+  private priceFeed?: PriceFeed;
+  private readonly triggers = new Map<UUID, PriceTriggerEntity>();
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(executor: TriggerExecutor, config: TriggerEngineConfig = {}, db?: DatabaseAdapter) {
+    this.executor = executor;
+    this.config = config;
+    this.db = db;
+    this.priceFeed = config.priceFeed;
+  }
+
+  setDatabase(db: DatabaseAdapter | undefined): void {
+    this.db = db;
+  }
+
+  /**
+   * Replace the price feed, the one of the config is kept when set
+   */
+  setPriceFeed(priceFeed: PriceFeed): void {
+    this.priceFeed = this.config.priceFeed ?? priceFeed;
+  }
+
+  async create(request: PriceTriggerRequest, now = Date.now()): Promise<PriceTriggerEntity> {
+    validateCondition(request.condition);
+    // Percent changes and trailing stops are measured from the current price
+    const price = await this.getPrice(request.network, request.token);
+
+    const trigger: PriceTriggerEntity = {
+      id: randomUUID() as UUID,
+      user_id: request.userId ?? null,
+      thread_id: request.threadId ?? null,
+      description: request.description,
+      network: request.network,
+      token: request.token,
+      condition: request.condition,
+      params: request.params,
+      status: 'active',
+      reference_price: price,
+      peak_price: request.condition.type === 'trailing_stop' ? price : null,
+      last_price: price,
+      output: null,
+      error: null,
+      created_at: now,
+      checked_at: now,
+      triggered_at: null,
+    };
+    await this.save(trigger);
+    return trigger;
+  }
+
+  async get(triggerId: UUID): Promise<PriceTriggerEntity | null> {
+    if (this.db) {
+      return this.db.getPriceTrigger(triggerId);
+    }
+    return this.triggers.get(triggerId) ?? null;
+  }
+
+  async list(options: PriceTriggerQueryOptions = {}): Promise<PriceTriggerEntity[]> {
+    if (this.db) {
+      return this.db.listPriceTriggers(options);
+    }
+    return [...this.triggers.values()].filter(
+      trigger =>
+        (options.userId === undefined || trigger.user_id === options.userId) &&
+        (options.threadId === undefined || trigger.thread_id === options.threadId) &&
+        (options.status === undefined || trigger.status === options.status),
+    );
+  }
+
+  async cancel(triggerId: UUID): Promise<PriceTriggerEntity> {
+    const trigger = await this.get(triggerId);
+    if (!trigger) {
+      throw new Error(`Trigger ${triggerId} not found`);
+    }
+    if (trigger.status !== 'active') {
+      throw new Error(`Trigger ${triggerId} is ${trigger.status} and cannot be cancelled`);
+    }
+    trigger.status = 'cancelled';
+    await this.save(trigger);
+    return trigger;
+  }
+
+  /**
+   * Checks the prices of active triggers until stopped, the timer does not keep the process alive
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.check().catch(error => logger.error('Failed to check the price triggers:', error));
+    }, this.config.pollInterval ?? DEFAULT_POLL_INTERVAL);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Checks the prices of the active triggers, each token once, and executes the swaps of
+   * those whose condition is met one after the other. Skipped while a check runs.
+   * @returns The triggers that fired
+   */
+  async check(now = Date.now()): Promise<PriceTriggerEntity[]> {
+    if (this.running) return [];
+    this.running = true;
+    try {
+      const fired: PriceTriggerEntity[] = [];
+      const prices = new Map<string, Promise<number>>();
+      for (const trigger of await this.list({ status: 'active' })) {
+        const key = `${trigger.network}:${trigger.token.toLowerCase()}`;
+        if (!prices.has(key)) {
+          prices.set(key, this.getPrice(trigger.network, trigger.token));
+        }
+        let price: number;
+        try {
+          price = await prices.get(key)!;
+        } catch (error) {
+          logger.error(`Failed to get the price of ${trigger.token} on ${trigger.network}:`, error);
+          continue;
+        }
+
+        // Triggers cancelled since the list was loaded are left as they are
+        const current = await this.get(trigger.id);
+        if (current?.status !== 'active') continue;
+
+        current.last_price = price;
+        current.checked_at = now;
+        if (current.condition.type === 'trailing_stop') {
+          current.peak_price = Math.max(current.peak_price ?? current.reference_price, price);
+        }
+        if (!isConditionMet(current, price)) {
+          await this.save(current);
+        } else if (this.executor.isReady?.() === false) {
+          // The trigger stays active and fires on a later check, e.g. once a reloaded plugin is back
+          logger.warn(`Trigger ${current.id} is due but its swap cannot run yet`);
+          await this.save(current);
+        } else {
+          await this.fire(current, price, now);
+          fired.push(current);
+        }
+      }
+      return fired;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Executes the swap of a trigger once, a failed swap is not attempted again
+   */
+  private async fire(trigger: PriceTriggerEntity, price: number, now: number): Promise<void> {
+    trigger.status = 'triggered';
+    trigger.triggered_at = now;
+    await this.save(trigger);
+
+    let status: PriceTriggerData['status'] = 'executed';
+    try {
+      const output = await this.executor.execute(trigger);
+      trigger.output = output ?? null;
+      const result = typeof output === 'string' ? this.parseOutput(output) : output;
+      if (result?.status === 'error') {
+        throw new Error(result.message ?? 'Swap failed');
+      }
+    } catch (error) {
+      status = 'failed';
+      trigger.error = error instanceof Error ? error.message : String(error);
+    }
+    trigger.status = status;
+    await this.save(trigger);
+
+    await this.executor.notify({
+      triggerId: trigger.id,
+      description: trigger.description,
+      status,
+      price,
+      output: trigger.output,
+      error: trigger.error,
+      threadId: trigger.thread_id,
+      userId: trigger.user_id,
+      timestamp: Date.now(),
+    });
+  }
+
+  private async getPrice(network: string, token: string): Promise<number> {
+    if (!this.priceFeed) {
+      throw new Error('No price feed configured for price triggers');
+    }
+    const price = await this.priceFeed.getPrice(network, token);
+    if (!(price > 0)) {
+      throw new Error(`No price found for ${token} on ${network}`);
+    }
+    return price;
+  }
+
+  private parseOutput(output: string): any {
+    try {
+      return JSON.parse(output);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async save(trigger: PriceTriggerEntity): Promise<void> {
+    if (this.db) {
+      await this.db.savePriceTrigger(trigger);
+    } else {
+      this.triggers.set(trigger.id, { ...trigger });
+    }
+  }
+}
@@ -0,0 +1,209 @@
+import { PriceTriggerData } from '../../agent/callbacks/types';
+import { PriceTriggerEntity } from '../../types/database';
+import { TriggerEngine } from '../TriggerEngine';
+import { PriceFeed, TriggerExecutor } from '../types';
+
+const BNB = '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee';
+const USDT = '0x55d398326f99059ff775485246999027b3197955';
+
+class LocalPriceFeed implements PriceFeed {
+  prices: Record<string, number> = { [BNB]: 600 };
+  requests = 0;
+
+  async getPrice(network: string, token: string): Promise<number> {
+    this.requests++;
+    return this.prices[token];
+  }
+}
+
+class FakeExecutor implements TriggerExecutor {
+  output: any = JSON.stringify({ status: 'success', transactionHash: '0x1' });
+  executed: PriceTriggerEntity[] = [];
+  notifications: PriceTriggerData[] = [];
+  isReady?: () => boolean;
+
+  async execute(trigger: PriceTriggerEntity): Promise<any> {
+    this.executed.push(trigger);
+    return this.output;
+  }
+
+  async notify(data: PriceTriggerData): Promise<void> {
+    this.notifications.push(data);
+  }
+}
+
+describe('TriggerEngine', () => {
+  let feed: LocalPriceFeed;
+  let executor: FakeExecutor;
+  let engine: TriggerEngine;
+
+  const sellBnb = {
+    fromToken: BNB,
+    toToken: USDT,
+    amount: '1',
+    amountType: 'input',
+    network: 'bnb',
+  };
+
+  beforeEach(() => {
+    feed = new LocalPriceFeed();
+    executor = new FakeExecutor();
+    engine = new TriggerEngine(executor, { priceFeed: feed });
+  });
+
+  it('should execute the swap once the price crosses the condition', async () => {
+    const trigger = await engine.create({
+      description: 'Stop-loss BNB at $550',
+      network: 'bnb',
+      token: BNB,
+      condition: { type: 'price_below', price: 550 },
+      params: sellBnb,
+      threadId: 'thread-1',
+    });
+
+    feed.prices[BNB] = 560;
+    expect(await engine.check()).toEqual([]);
+
+    feed.prices[BNB] = 549;
+    await engine.check();
+    await engine.check();
+
+    expect(executor.executed.map(({ params }) => params)).toEqual([sellBnb]);
+    expect(await engine.get(trigger.id)).toMatchObject({ status: 'executed', last_price: 549 });
+    expect(executor.notifications).toMatchObject([
+      { triggerId: trigger.id, status: 'executed', price: 549, threadId: 'thread-1' },
+    ]);
+  });
+
+  it('should measure percent changes from the price at creation', async () => {
+    await engine.create({
+      description: 'Take profit on a 20% pump',
+      network: 'bnb',
+      token: BNB,
+      condition: { type: 'percent_change', percent: 20 },
+      params: sellBnb,
+    });
+
+    feed.prices[BNB] = 700;
+    expect(await engine.check()).toEqual([]);
+
+    feed.prices[BNB] = 720;
+    expect(await engine.check()).toHaveLength(1);
+  });
+
+  it('should follow the highest price for trailing stops', async () => {
+    const trigger = await engine.create({
+      description: 'Trailing stop of 10%',
+      network: 'bnb',
+      token: BNB,
+      condition: { type: 'trailing_stop', percent: 10 },
+      params: sellBnb,
+    });
+
+    feed.prices[BNB] = 800;
+    await engine.check();
+    // 10% below the $600 at creation, but not below the $800 peak
+    feed.prices[BNB] = 721;
+    expect(await engine.check()).toEqual([]);
+    expect((await engine.get(trigger.id))?.peak_price).toBe(800);
+
+    feed.prices[BNB] = 720;
+    expect(await engine.check()).toHaveLength(1);
+  });
+
+  it('should fetch each token price once per check', async () => {
+    for (const price of [500, 700]) {
+      await engine.create({
+        description: `BNB at $${price}`,
+        network: 'bnb',
+        token: BNB,
+        condition: { type: 'price_below', price },
+        params: sellBnb,
+      });
+    }
+    feed.requests = 0;
+
+    await engine.check();
+
+    expect(feed.requests).toBe(1);
+  });
+
+  it('should report failed swaps without executing them again', async () => {
+    const trigger = await engine.create({
+      description: 'Buy BNB above $650',
+      network: 'bnb',
+      token: BNB,
+      condition: { type: 'price_above', price: 650 },
+      params: { ...sellBnb, fromToken: USDT, toToken: BNB, amount: '100' },
+    });
+    executor.output = JSON.stringify({ status: 'error', message: 'Insufficient balance' });
+
+    feed.prices[BNB] = 660;
+    await engine.check();
+    await engine.check();
+
+    expect(executor.executed).toHaveLength(1);
+    expect(await engine.get(trigger.id)).toMatchObject({
+      status: 'failed',
+      error: 'Insufficient balance',
+    });
+    expect(executor.notifications).toMatchObject([{ status: 'failed' }]);
+    await expect(engine.cancel(trigger.id)).rejects.toThrow(
+      `Trigger ${trigger.id} is failed and cannot be cancelled`,
+    );
+  });
+
+  it('should not fire a trigger cancelled while its price is checked', async () => {
+    const trigger = await engine.create({
+      description: 'Stop-loss BNB at $550',
+      network: 'bnb',
+      token: BNB,
+      condition: { type: 'price_below', price: 550 },
+      params: sellBnb,
+    });
+    jest.spyOn(feed, 'getPrice').mockImplementationOnce(async () => {
+      await engine.cancel(trigger.id);
+      return 540;
+    });
+
+    expect(await engine.check()).toEqual([]);
+    expect(executor.executed).toEqual([]);
+    expect(await engine.get(trigger.id)).toMatchObject({ status: 'cancelled', last_price: 600 });
+  });
+
+  it('should keep due triggers active until the executor is ready', async () => {
+    let ready = false;
+    executor.isReady = () => ready;
+    const trigger = await engine.create({
+      description: 'Stop-loss BNB at $550',
+      network: 'bnb',
+      token: BNB,
+      condition: { type: 'price_below', price: 550 },
+      params: sellBnb,
+    });
+
+    feed.prices[BNB] = 540;
+    expect(await engine.check()).toEqual([]);
+    expect(await engine.get(trigger.id)).toMatchObject({ status: 'active', last_price: 540 });
+
+    ready = true;
+    expect(await engine.check()).toMatchObject([{ id: trigger.id }]);
+    expect(await engine.get(trigger.id)).toMatchObject({ status: 'executed' });
+  });
+
+  it('should reject conditions that cannot be met and unknown prices', async () => {
+    const request = {
+      description: 'Stop-loss',
+      network: 'bnb',
+      token: BNB,
+      params: sellBnb,
+    };
+
+    await expect(
+      engine.create({ ...request, condition: { type: 'trailing_stop', percent: 100 } }),
+    ).rejects.toThrow('Trailing stop percent must be between 0 and 100, got 100');
+    await expect(
+      engine.create({ ...request, token: USDT, condition: { type: 'price_below', price: 1 } }),
+    ).rejects.toThrow(`No price found for ${USDT} on bnb`);
+  });
+});
@@ -0,0 +1,76 @@
+import { PriceTriggerCondition, PriceTriggerEntity } from '../types/database';
+
+/**
+ * Throw when the condition can never be met
+ */
+export function validateCondition(condition: PriceTriggerCondition): void {
+  switch (condition.type) {
+    case 'price_above':
+    case 'price_below':
+      if (!(condition.price > 0)) {
+        throw new Error(`Trigger price must be a positive number, got ${condition.price}`);
+      }
+      return;
+    case 'percent_change':
+      if (!(condition.percent > -100 && condition.percent !== 0)) {
+        throw new Error(
+          `Trigger percent change must be above -100 and not 0, got ${condition.percent}`,
+        );
+      }
+      return;
+    case 'trailing_stop':
+      if (!(condition.percent > 0 && condition.percent < 100)) {
+        throw new Error(
+          `Trailing stop percent must be between 0 and 100, got ${condition.percent}`,
+        );
+      }
+      return;
+    default:
+      throw new Error(`Unsupported trigger condition: ${(condition as any).type}`);
+  }
+}
+
+/**
+ * Price at which the trigger fires, with the highest price seen for trailing stops
+ */
+export function getTriggerPrice(trigger: PriceTriggerEntity): number {
+  const { condition } = trigger;
+  switch (condition.type) {
+    case 'price_above':
+    case 'price_below':
+      return condition.price;
+    case 'percent_change':
+      return trigger.reference_price * (1 + condition.percent / 100);
+    case 'trailing_stop':
+      return (trigger.peak_price ?? trigger.reference_price) * (1 - condition.percent / 100);
+  }
+}
+
+/**
+ * Whether the trigger fires at a price, trailing stops must see the price first
+ */
+export function isConditionMet(trigger: PriceTriggerEntity, price: number): boolean {
+  const { condition } = trigger;
+  const target = getTriggerPrice(trigger);
+  switch (condition.type) {
+    case 'price_above':
+      return price >= target;
+    case 'percent_change':
+      return condition.percent > 0 ? price >= target : price <= target;
+    default:
+      return price <= target;
+  }
+}
+
+export function describeCondition(condition: PriceTriggerCondition): string {
+  switch (condition.type) {
+    case 'price_above':
+      return `price at or above $${condition.price}`;
+    case 'price_below':
+      return `price at or below $${condition.price}`;
+    case 'percent_change':
+      return `price ${condition.percent > 0 ? 'up' : 'down'} ${Math.abs(condition.percent)}%`;
+    case 'trailing_stop':
+      return `price ${condition.percent}% below its highest`;
+  }
+}
@@ -0,0 +1,52 @@
+import { PriceTriggerData } from '../agent/callbacks/types';
+import { PriceTriggerCondition, PriceTriggerEntity, UUID } from '../types/database';
+
+/**
+ * Source of token prices watched by price triggers, e.g. the token plugin's providers
+ */
+export interface PriceFeed {
+  /**
+   * Price of a token in USD
+   */
+  getPrice(network: string, token: string): Promise<number>;
+}
+
+export interface TriggerEngineConfig {
+  /** How often the prices of active triggers are checked, in milliseconds, 30s by default */
+  pollInterval?: number;
+  /** Prices watched by the triggers, the swap plugin uses its token providers by default */
+  priceFeed?: PriceFeed;
+}
+
+export interface PriceTriggerRequest {
+  description: string;
+  network: string;
+  /** Address of the token whose price is watched */
+  token: string;
+  condition: PriceTriggerCondition;
+  /** Arguments of the swap tool call, with resolved token addresses */
+  params: Record<string, any>;
+  userId?: UUID;
+  threadId?: string;
+}
+
+/**
+ * Executes the swaps of the triggers that fired
+ */
+export interface TriggerExecutor {
+  /**
+   * Run the trigger's swap without the model
+   * @returns The swap tool output
+   */
+  execute(trigger: PriceTriggerEntity): Promise<any>;
+
+  /**
+   * Whether swaps can run now, due triggers wait while it returns false
+   */
+  isReady?(): boolean;
+
+  /**
+   * Notify the agent's trigger callbacks of a fired trigger
+   */
+  notify(data: PriceTriggerData): Promise<void>;
+}
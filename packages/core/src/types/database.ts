@@ -35,3 +35,389 @@ export interface ThreadEntity {
   id?: UUID;
   title?: string;
 }
+
+/**
+ * Serialized LangGraph checkpoint of a thread
+ */
+export interface CheckpointEntity {
+  thread_id: string;
+  checkpoint_ns: string;
+  checkpoint_id: string;
+  parent_checkpoint_id?: string | null;
+  /** Serializer type of the checkpoint and metadata */
+  type: string;
+  checkpoint: Uint8Array;
+  metadata: Uint8Array;
+}
+
+/**
+ * Pending write of a graph task, linked to the checkpoint it applies to
+ */
+export interface CheckpointWriteEntity {
+  thread_id: string;
+  checkpoint_ns: string;
+  checkpoint_id: string;
+  task_id: string;
+  /** Position of the write in the task, negative for special writes (errors, interrupts...) */
+  idx: number;
+  channel: string;
+  type: string;
+  value: Uint8Array;
+}
+
+export interface CheckpointQueryOptions {
+  /** Only checkpoints created before this checkpoint id */
+  before?: string;
+  limit?: number;
+}
+
+export type ReviewStatus = 'pending' | 'approved' | 'rejected' | 'expired';
+
+/**
+ * Human review of a tool call, kept as the audit of who approved what
+ */
+export interface ReviewEntity {
+  id: UUID;
+  thread_id: string;
+  /** Id of the reviewed tool call in the thread */
+  tool_call_id?: string | null;
+  /** User the agent was acting for */
+  user_id?: UUID | null;
+  tool_name: string;
+  /** Arguments of the tool call */
+  input: any;
+  /** Quote or decoded transaction returned by the tool simulation */
+  quote: any;
+  network?: string | null;
+  usd_value?: number | null;
+  /** Why the policy requires the review */
+  reasons: string[];
+  status: ReviewStatus;
+  /** User id, API key name or any identifier of who decided */
+  decided_by?: string | null;
+  /** Rejection reason or requested changes */
+  reason?: string | null;
+  /** Timestamps in milliseconds */
+  created_at: number;
+  expires_at: number;
+  decided_at?: number | null;
+}
+
+export interface ReviewQueryOptions {
+  threadId?: string;
+  toolCallId?: string;
+  status?: ReviewStatus;
+  limit?: number;
+}
+
+export type ReviewDecision = Pick<ReviewEntity, 'status' | 'decided_by' | 'reason' | 'decided_at'>;
+
+/**
+ * Salient facts of a conversation kept for the planner
+ */
+export interface MemoryFacts {
+  /** Wallet and token addresses used, the most recent first */
+  addresses: string[];
+  /** Mentions of each network */
+  networks: Record<string, number>;
+}
+
+/**
+ * Rolling summary of the messages older than the chat history window
+ */
+export interface MemorySummaryEntity {
+  /** Thread id, or `user:<id>` for a user's messages outside threads */
+  key: string;
+  user_id?: UUID | null;
+  summary: string;
+  facts: MemoryFacts;
+  /** Last message rolled into the summary */
+  last_message_id?: UUID | null;
+  /** Timestamp in milliseconds */
+  updated_at: number;
+}
+
+/**
+ * Plan of the planner in a thread
+ */
+export interface PlanEntity {
+  thread_id: string;
+  /** Id given by the planner, unique in the thread */
+  plan_id: string;
+  title: string;
+  /** pending, in-progress, completed or rejected */
+  status: string;
+  /** Timestamps in milliseconds */
+  created_at: number;
+  updated_at: number;
+}
+
+export interface TaskEntity {
+  thread_id: string;
+  plan_id: string;
+  /** Position of the task in the plan */
+  idx: number;
+  title: string;
+  /** pending, in-progress, completed or failed */
+  status: string;
+  /** Times the executor failed the task */
+  retry: number;
+  result?: string | null;
+  /** Timestamps in milliseconds */
+  created_at: number;
+  updated_at: number;
+}
+
+export type ToolCallStatus = 'started' | 'completed' | 'failed';
+
+export interface ToolCallEntity {
+  /** Execution id of the tool callbacks */
+  id: string;
+  /** Missing for commands run outside a thread */
+  thread_id?: string | null;
+  tool_name: string;
+  input: any;
+  /** Tool response, parsed when it is JSON */
+  output?: any;
+  error?: string | null;
+  status: ToolCallStatus;
+  /** Timestamps in milliseconds */
+  started_at: number;
+  finished_at?: number | null;
+  execution_time?: number | null;
+}
+
+export type ToolCallResult = Pick<
+  ToolCallEntity,
+  'status' | 'output' | 'error' | 'finished_at' | 'execution_time'
+>;
+
+export interface ToolCallQueryOptions {
+  threadId?: string;
+  toolName?: string;
+  status?: ToolCallStatus;
+  limit?: number;
+}
+
+/**
+ * Tokens used by a model call of the agent
+ */
+export interface UsageEntity {
+  id: UUID;
+  /** Missing for commands run outside a thread */
+  thread_id?: string | null;
+  user_id?: UUID | null;
+  /** Node of the agent that called the model, e.g. planner */
+  node?: string | null;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  /** Null when the price table has no price for the model */
+  cost_usd: number | null;
+  /** Timestamp in milliseconds */
+  created_at: number;
+}
+
+export interface UsageQueryOptions {
+  threadId?: string;
+  userId?: UUID;
+  /** Timestamps in milliseconds, from included and to excluded */
+  from?: number;
+  to?: number;
+}
+
+/**
+ * Usage of the matching model calls summed over a day (UTC)
+ */
+export interface DailyUsage {
+  /** YYYY-MM-DD */
+  day: string;
+  calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  /** Cost of the priced calls */
+  cost_usd: number;
+}
+
+export type ScheduleStatus = 'active' | 'cancelled' | 'failed';
+
+/**
+ * When a schedule runs, in UTC
+ */
+export interface ScheduleCadence {
+  every: 'hour' | 'day' | 'week' | 'month';
+  /** Runs every `interval` hours, days, weeks or months, 1 by default */
+  interval?: number;
+  /** HH:mm of the runs, only the minutes for hourly runs, 00:00 by default */
+  time?: string;
+  /** Day of weekly runs from 0 (Sunday) to 6, Monday by default */
+  dayOfWeek?: number;
+  /** Day of monthly runs from 1 to 28, the 1st by default */
+  dayOfMonth?: number;
+}
+
+/**
+ * Amount of each run, fixed or a percentage of the wallet balance of the token spent
+ */
+export type ScheduleAmount =
+  | { type: 'fixed'; amount: string }
+  | { type: 'balance_percent'; percent: number }
+  /** Percentage of the balance received since the previous run */
+  | { type: 'new_balance_percent'; percent: number };
+
+/**
+ * Tool call repeated on a cadence without the model, e.g. a DCA swap
+ */
+export interface ScheduleEntity {
+  id: UUID;
+  user_id?: UUID | null;
+  /** Thread the schedule was created in, its runs use the thread's wallet account */
+  thread_id?: string | null;
+  description: string;
+  tool_name: string;
+  /** Arguments of the tool call besides the amount */
+  params: Record<string, any>;
+  amount: ScheduleAmount;
+  cadence: ScheduleCadence;
+  status: ScheduleStatus;
+  /** Balance of the token spent after the previous run, for new_balance_percent amounts */
+  last_balance?: string | null;
+  /** Failed runs in a row, the schedule fails once it reaches the scheduler's limit */
+  failures: number;
+  /** Timestamps in milliseconds */
+  created_at: number;
+  next_run_at: number;
+  last_run_at?: number | null;
+}
+
+export interface ScheduleQueryOptions {
+  userId?: UUID;
+  threadId?: string;
+  status?: ScheduleStatus;
+  /** Timestamp in milliseconds, schedules due to run at or before it */
+  dueAt?: number;
+}
+
+export type ScheduleRunStatus = 'succeeded' | 'failed' | 'skipped';
+
+export interface ScheduleRunEntity {
+  id: UUID;
+  schedule_id: UUID;
+  status: ScheduleRunStatus;
+  /** Amount passed to the tool, missing for skipped runs */
+  amount?: string | null;
+  output?: any;
+  /** Why the run failed or was skipped */
+  error?: string | null;
+  /** Timestamps in milliseconds */
+  started_at: number;
+  finished_at: number;
+}
+
+/**
+ * A trigger is `triggered` while its swap runs, it never fires twice
+ */
+export type PriceTriggerStatus = 'active' | 'triggered' | 'executed' | 'failed' | 'cancelled';
+
+/**
+ * Price of the watched token, in USD, at which a trigger fires
+ */
+export type PriceTriggerCondition =
+  | { type: 'price_above'; price: number }
+  | { type: 'price_below'; price: number }
+  /** Move from the price when the trigger was created, e.g. -10 for a 10% drop */
+  | { type: 'percent_change'; percent: number }
+  /** Drop from the highest price seen since the trigger was created */
+  | { type: 'trailing_stop'; percent: number };
+
+/**
+ * Swap prepared in advance and executed once the price of a token meets a condition,
+ * e.g. a stop-loss or take-profit order
+ */
+export interface PriceTriggerEntity {
+  id: UUID;
+  user_id?: UUID | null;
+  /** Thread the trigger was created in, its swap uses the thread's wallet account */
+  thread_id?: string | null;
+  description: string;
+  network: string;
+  /** Address of the token whose price is watched */
+  token: string;
+  condition: PriceTriggerCondition;
+  /** Arguments of the swap tool call */
+  params: Record<string, any>;
+  status: PriceTriggerStatus;
+  /** Price when the trigger was created */
+  reference_price: number;
+  /** Highest price seen, for trailing stops */
+  peak_price?: number | null;
+  last_price?: number | null;
+  /** Swap tool output once executed */
+  output?: any;
+  error?: string | null;
+  /** Timestamps in milliseconds */
+  created_at: number;
+  checked_at?: number | null;
+  triggered_at?: number | null;
+}
+
+export interface PriceTriggerQueryOptions {
+  userId?: UUID;
+  threadId?: string;
+  status?: PriceTriggerStatus;
+}
+
+/**
+ * Holding of one token in a portfolio snapshot, valued in USD
+ */
+export interface PortfolioSnapshotAsset {
+  network: string;
+  /** Address of the token */
+  token: string;
+  symbol: string;
+  /** Balances in token units, held in the wallet and staked */
+  balance: string;
+  staked: string;
+  /** USD price and value, missing when no provider prices the token */
+  price?: number | null;
+  value?: number | null;
+}
+
+/**
+ * Value of a wallet across its networks at a point in time, to follow it over time
+ */
+export interface PortfolioSnapshotEntity {
+  id: UUID;
+  user_id?: UUID | null;
+  /** Addresses of the wallet on the networks of the snapshot, see `getWalletKey` */
+  wallet: string;
+  total_usd_value: number;
+  wallet_usd_value: number;
+  staked_usd_value: number;
+  assets: PortfolioSnapshotAsset[];
+  /** Timestamp in milliseconds */
+  created_at: number;
+}
+
+export interface PortfolioSnapshotQueryOptions {
+  userId?: UUID;
+  wallet?: string;
+  /** Timestamps in milliseconds, snapshots taken from `since` and at or before `before` */
+  since?: number;
+  before?: number;
+  limit?: number;
+}
+
+/**
+ * Token and spender pair approved by the agent, scanned when listing approvals
+ */
+export interface ApprovalSpenderEntity {
+  network: string;
+  token: string;
+  spender: string;
+  /** Name shown when listing approvals, usually the provider name */
+  spender_name?: string | null;
+  /** Timestamp in milliseconds */
+  created_at: number;
+}
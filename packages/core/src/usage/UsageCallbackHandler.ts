@@ -0,0 +1,108 @@
+import { BaseCallbackHandler } from '@langchain/core/callbacks/base';
+import { BaseMessage } from '@langchain/core/messages';
+import { LLMResult } from '@langchain/core/outputs';
+import { Serialized } from '@langchain/core/load/serializable';
+import { UUID } from '../types/database';
+import type { UsageTracker } from './UsageTracker';
+
+export interface UsageContext {
+  threadId?: string;
+  userId?: UUID;
+  /** Node of the calls made outside a graph */
+  node?: string;
+}
+
+interface ModelRun {
+  node?: string;
+  model?: string;
+}
+
+/**
+ * Node of the graph making the call. Calls in subgraphs count for the node of the parent
+ * graph, found first in the checkpoint namespace (`planner:<task>|create_plan:<task>`).
+ */
+function getNode(metadata?: Record<string, unknown>): string | undefined {
+  const namespace = metadata?.langgraph_checkpoint_ns;
+  if (typeof namespace === 'string' && namespace) {
+    return namespace.split('|')[0].split(':')[0];
+  }
+  return typeof metadata?.langgraph_node === 'string' ? metadata.langgraph_node : undefined;
+}
+
+function getTokens(output: LLMResult): { promptTokens: number; completionTokens: number } {
+  let promptTokens = 0;
+  let completionTokens = 0;
+  let hasUsage = false;
+  for (const generation of output.generations.flat()) {
+    const usage = (generation as { message?: BaseMessage & { usage_metadata?: any } }).message
+      ?.usage_metadata;
+    if (usage) {
+      hasUsage = true;
+      promptTokens += usage.input_tokens ?? 0;
+      completionTokens += usage.output_tokens ?? 0;
+    }
+  }
+  // Models without usage metadata report it with the output
+  const tokenUsage = output.llmOutput?.tokenUsage ?? output.llmOutput?.estimatedTokenUsage;
+  if (!hasUsage && tokenUsage) {
+    promptTokens = tokenUsage.promptTokens ?? 0;
+    completionTokens = tokenUsage.completionTokens ?? 0;
+  }
+  return { promptTokens, completionTokens };
+}
+
+/**
+ * Records the tokens of each chat model call of a request with the tracker
+ */
+export class UsageCallbackHandler extends BaseCallbackHandler {
+  name = 'usage_tracker';
+  private readonly runs = new Map<string, ModelRun>();
+
+  constructor(
+    private readonly tracker: UsageTracker,
+    private readonly context: UsageContext = {},
+  ) {
+    // Usage is recorded before the request returns, so the next one sees it in the budget
+    super({ _awaitHandler: true });
+  }
+
+  handleChatModelStart(
+    llm: Serialized,
+    _messages: BaseMessage[][],
+    runId: string,
+    _parentRunId?: string,
+    extraParams?: Record<string, unknown>,
+    _tags?: string[],
+    metadata?: Record<string, unknown>,
+  ): void {
+    const invocationParams = extraParams?.invocation_params as Record<string, any> | undefined;
+    this.runs.set(runId, {
+      node: getNode(metadata) ?? this.context.node,
+      model: invocationParams?.model ?? invocationParams?.model_name ?? llm.id?.at(-1),
+    });
+  }
+
+  async handleLLMEnd(output: LLMResult, runId: string): Promise<void> {
+    const run = this.runs.get(runId);
+    this.runs.delete(runId);
+    const { promptTokens, completionTokens } = getTokens(output);
+    if (!promptTokens && !completionTokens) return;
+
+    const metadata = (output.generations[0]?.[0] as { message?: BaseMessage } | undefined)?.message
+      ?.response_metadata;
+    // The model that answered, behind a router the one it failed over to
+    const model = metadata?.model_name ?? metadata?.model ?? run?.model ?? 'unknown';
+    await this.tracker.record({
+      threadId: this.context.threadId,
+      userId: this.context.userId,
+      node: run?.node ?? this.context.node,
+      model,
+      promptTokens,
+      completionTokens,
+    });
+  }
+
+  handleLLMError(_error: Error, runId: string): void {
+    this.runs.delete(runId);
+  }
+}
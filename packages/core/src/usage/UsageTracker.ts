@@ -0,0 +1,172 @@
+import { randomUUID } from 'crypto';
+import { DatabaseAdapter } from '../storage/database';
+import { DailyUsage, UsageEntity, UsageQueryOptions, UUID } from '../types/database';
+import { logger } from '../utils/Logger';
+import { UsageCallbackHandler, UsageContext } from './UsageCallbackHandler';
+import { ModelPrice, ModelUsage, UsageBudget, UsageConfig } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDay = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+
+/**
+ * Usage of the records summed per day (UTC) from the oldest day
+ */
+function sumDailyUsage(records: UsageEntity[]): DailyUsage[] {
+  const days = new Map<string, DailyUsage>();
+  for (const record of records) {
+    const day = toDay(record.created_at);
+    const usage = days.get(day) ?? {
+      day,
+      calls: 0,
+      prompt_tokens: 0,
+      completion_tokens: 0,
+      total_tokens: 0,
+      cost_usd: 0,
+    };
+    usage.calls++;
+    usage.prompt_tokens += record.prompt_tokens;
+    usage.completion_tokens += record.completion_tokens;
+    usage.total_tokens += record.prompt_tokens + record.completion_tokens;
+    usage.cost_usd += record.cost_usd ?? 0;
+    days.set(day, usage);
+  }
+  return [...days.values()].sort((a, b) => a.day.localeCompare(b.day));
+}
+
+/**
+ * Token usage and cost of the model calls of the agent per thread, user and day, with the
+ * daily budgets of the users. Usage is stored in the database when one is registered,
+ * in memory otherwise.
+ */
+export class UsageTracker {
+  private readonly config: UsageConfig;
+  private db?: DatabaseAdapter;
+  private readonly records: UsageEntity[] = [];
+
+  constructor(config: UsageConfig = {}, db?: DatabaseAdapter) {
+    this.config = config;
+    this.db = db;
+  }
+
+  setDatabase(db: DatabaseAdapter | undefined): void {
+    this.db = db;
+  }
+
+  /**
+   * Callback handler recording the model calls of a request, passed to its invocation
+   */
+  createHandler(context: UsageContext = {}): UsageCallbackHandler {
+    return new UsageCallbackHandler(this, context);
+  }
+
+  getPrice(model: string): ModelPrice | undefined {
+    const prices = this.config.prices ?? {};
+    if (prices[model]) return prices[model];
+    const prefix = Object.keys(prices)
+      .filter(name => model.startsWith(name))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix ? prices[prefix] : undefined;
+  }
+
+  /**
+   * Cost in USD of the tokens, null when the model has no price
+   */
+  getCost(model: string, promptTokens: number, completionTokens: number): number | null {
+    const price = this.getPrice(model);
+    if (!price) return null;
+    return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+  }
+
+  /**
+   * Records a model call, failures never interrupt the agent
+   */
+  async record(usage: ModelUsage): Promise<UsageEntity | undefined> {
+    const entity: UsageEntity = {
+      id: randomUUID() as UUID,
+      thread_id: usage.threadId ?? null,
+      user_id: usage.userId ?? null,
+      node: usage.node ?? null,
+      model: usage.model,
+      prompt_tokens: usage.promptTokens,
+      completion_tokens: usage.completionTokens,
+      cost_usd: this.getCost(usage.model, usage.promptTokens, usage.completionTokens),
+      created_at: Date.now(),
+    };
+    try {
+      if (this.db) {
+        await this.db.createUsage(entity);
+      } else {
+        this.records.push(entity);
+      }
+      return entity;
+    } catch (error) {
+      logger.error(`Failed to record the usage of ${usage.model}:`, error);
+      return undefined;
+    }
+  }
+
+  async getDailyUsage(options: UsageQueryOptions = {}): Promise<DailyUsage[]> {
+    if (this.db) {
+      return this.db.getDailyUsage(options);
+    }
+    return sumDailyUsage(
+      this.records.filter(
+        record =>
+          (options.threadId === undefined || record.thread_id === options.threadId) &&
+          (options.userId === undefined || record.user_id === options.userId) &&
+          (options.from === undefined || record.created_at >= options.from) &&
+          (options.to === undefined || record.created_at < options.to),
+      ),
+    );
+  }
+
+  /**
+   * Usage of the matching model calls summed over every day
+   */
+  async getTotalUsage(options: UsageQueryOptions = {}): Promise<Omit<DailyUsage, 'day'>> {
+    const total = {
+      calls: 0,
+      prompt_tokens: 0,
+      completion_tokens: 0,
+      total_tokens: 0,
+      cost_usd: 0,
+    };
+    for (const { day, ...usage } of await this.getDailyUsage(options)) {
+      total.calls += usage.calls;
+      total.prompt_tokens += usage.prompt_tokens;
+      total.completion_tokens += usage.completion_tokens;
+      total.total_tokens += usage.total_tokens;
+      total.cost_usd += usage.cost_usd;
+    }
+    return total;
+  }
+
+  async getBudget(userId: UUID): Promise<UsageBudget | undefined> {
+    return (await this.config.getUserBudget?.(userId)) ?? this.config.budget;
+  }
+
+  /**
+   * Throws when the user reached one of the limits of their budget today (UTC)
+   */
+  async checkBudget(userId?: UUID): Promise<void> {
+    if (!userId) return;
+    const budget = await this.getBudget(userId);
+    if (!budget || (budget.maxTokensPerDay === undefined && budget.maxUsdPerDay === undefined)) {
+      return;
+    }
+
+    const from = Math.floor(Date.now() / DAY_MS) * DAY_MS;
+    const today = await this.getTotalUsage({ userId, from });
+    if (budget.maxTokensPerDay !== undefined && today.total_tokens >= budget.maxTokensPerDay) {
+      throw new Error(
+        `Daily token budget reached: ${today.total_tokens} of ${budget.maxTokensPerDay} tokens used today`,
+      );
+    }
+    if (budget.maxUsdPerDay !== undefined && today.cost_usd >= budget.maxUsdPerDay) {
+      throw new Error(
+        `Daily cost budget reached: $${today.cost_usd.toFixed(4)} of $${budget.maxUsdPerDay} spent today`,
+      );
+    }
+  }
+}
@@ -0,0 +1,160 @@
+import { AIMessage } from '@langchain/core/messages';
+import { DatabaseAdapter } from '../../storage/database';
+import { UUID } from '../../types/database';
+import { UsageTracker } from '../UsageTracker';
+
+const USER = '00000000-0000-0000-0000-000000000001' as UUID;
+
+describe('UsageTracker', () => {
+  const prices = {
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  };
+
+  const answer = (model: string, input_tokens: number, output_tokens: number) => ({
+    generations: [
+      [
+        {
+          text: '',
+          message: new AIMessage({
+            content: '',
+            response_metadata: { model_name: model },
+            usage_metadata: {
+              input_tokens,
+              output_tokens,
+              total_tokens: input_tokens + output_tokens,
+            },
+          }),
+        },
+      ],
+    ],
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should price models by their longest known name', () => {
+    const tracker = new UsageTracker({ prices });
+
+    expect(tracker.getCost('gpt-4o-mini-2024-07-18', 1_000_000, 1_000_000)).toBeCloseTo(0.75);
+    expect(tracker.getCost('gpt-4o-2024-08-06', 1000, 500)).toBeCloseTo(0.0075);
+    expect(tracker.getCost('claude-3-5-sonnet', 1000, 500)).toBeNull();
+  });
+
+  it('should record the calls of each node per thread and day', async () => {
+    const tracker = new UsageTracker({ prices });
+    const handler = tracker.createHandler({ threadId: 'thread-1', userId: USER });
+
+    handler.handleChatModelStart(
+      { lc: 1, type: 'not_implemented', id: ['ChatOpenAI'] },
+      [],
+      'run-1',
+      undefined,
+      {},
+      [],
+      {
+        langgraph_node: 'create_plan',
+        langgraph_checkpoint_ns: 'planner:1a2b|create_plan:3c4d',
+      },
+    );
+    await handler.handleLLMEnd(answer('gpt-4o-2024-08-06', 1000, 200), 'run-1');
+    handler.handleChatModelStart(
+      { lc: 1, type: 'not_implemented', id: ['ChatOpenAI'] },
+      [],
+      'run-2',
+      undefined,
+      {},
+      [],
+      {
+        langgraph_node: 'supervisor',
+      },
+    );
+    await handler.handleLLMEnd(answer('gpt-4o-mini', 500, 100), 'run-2');
+    await tracker
+      .createHandler({ threadId: 'thread-2', userId: USER })
+      .handleLLMEnd(answer('gpt-4o', 100, 10), 'run-3');
+
+    const [day] = await tracker.getDailyUsage({ threadId: 'thread-1' });
+    expect(day).toEqual({
+      day: new Date().toISOString().slice(0, 10),
+      calls: 2,
+      prompt_tokens: 1500,
+      completion_tokens: 300,
+      total_tokens: 1800,
+      cost_usd: expect.closeTo(0.0045 + 0.000135, 8),
+    });
+    await expect(tracker.getTotalUsage({ userId: USER })).resolves.toMatchObject({
+      calls: 3,
+      total_tokens: 1910,
+    });
+  });
+
+  it('should fall back to the token usage of the output and the invoked model', async () => {
+    const db = { createUsage: jest.fn(), getDailyUsage: jest.fn(async () => []) };
+    const tracker = new UsageTracker({ prices }, db as unknown as DatabaseAdapter);
+    const handler = tracker.createHandler({ threadId: 'thread-1', node: 'executor' });
+
+    handler.handleChatModelStart(
+      { lc: 1, type: 'not_implemented', id: ['ChatOpenAI'] },
+      [],
+      'run-1',
+      undefined,
+      {
+        invocation_params: { model: 'gpt-4o-mini' },
+      },
+    );
+    await handler.handleLLMEnd(
+      {
+        generations: [[{ text: 'done' }]],
+        llmOutput: { tokenUsage: { promptTokens: 300, completionTokens: 20 } },
+      },
+      'run-1',
+    );
+
+    expect(db.createUsage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        thread_id: 'thread-1',
+        user_id: null,
+        node: 'executor',
+        model: 'gpt-4o-mini',
+        prompt_tokens: 300,
+        completion_tokens: 20,
+        cost_usd: expect.closeTo(0.000057, 10),
+      }),
+    );
+  });
+
+  it('should refuse users over their daily budget', async () => {
+    jest.useFakeTimers({ now: new Date('2026-10-18T23:00:00Z') });
+    const tracker = new UsageTracker({
+      prices,
+      budget: { maxTokensPerDay: 1000 },
+      getUserBudget: userId => (userId === USER ? { maxUsdPerDay: 0.01 } : undefined),
+    });
+    const other = '00000000-0000-0000-0000-000000000002' as UUID;
+
+    await tracker.record({
+      userId: other,
+      model: 'gpt-4o',
+      promptTokens: 900,
+      completionTokens: 100,
+    });
+    await tracker.record({
+      userId: USER,
+      model: 'gpt-4o',
+      promptTokens: 2000,
+      completionTokens: 500,
+    });
+
+    await expect(tracker.checkBudget(other)).rejects.toThrow(
+      'Daily token budget reached: 1000 of 1000 tokens used today',
+    );
+    await expect(tracker.checkBudget(USER)).rejects.toThrow('Daily cost budget reached');
+    await expect(tracker.checkBudget(undefined)).resolves.toBeUndefined();
+
+    // Budgets start again the next day
+    jest.setSystemTime(new Date('2026-10-19T00:00:00Z'));
+    await expect(tracker.checkBudget(other)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,41 @@
+import { UUID } from '../types/database';
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * Daily limits of a user, a request is refused once one of them is reached
+ */
+export interface UsageBudget {
+  maxTokensPerDay?: number;
+  maxUsdPerDay?: number;
+}
+
+export interface UsageConfig {
+  /**
+   * Prices by model name. A model without its own price takes the price of the longest name
+   * it starts with, e.g. `gpt-4o-2024-08-06` the one of `gpt-4o`.
+   */
+  prices?: Record<string, ModelPrice>;
+  /** Budget of every user */
+  budget?: UsageBudget;
+  /** Budget of a user, the default budget applies when it returns undefined */
+  getUserBudget?: (userId: UUID) => UsageBudget | undefined | Promise<UsageBudget | undefined>;
+}
+
+/**
+ * Tokens of a model call
+ */
+export interface ModelUsage {
+  threadId?: string;
+  userId?: UUID;
+  node?: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+}
@@ -26,6 +26,7 @@ export enum ErrorStep {
   UNKNOWN = 'unknown',
   API_RESPONSE = 'api_response',
   API_REQUEST = 'api_request',
+  POLICY_VIOLATION = 'policy_violation',
 }
 
 /**
@@ -0,0 +1,520 @@
+import { ethers } from 'ethers';
+import {
+  Keypair,
+  Transaction as SolanaTransaction,
+  VersionedTransaction,
+  Connection,
+  sendAndConfirmTransaction,
+  sendAndConfirmRawTransaction,
+} from '@solana/web3.js';
+import bs58 from 'bs58';
+import nacl from 'tweetnacl';
+
+import { Network } from '../network';
+import { TracedJsonRpcProvider } from '../telemetry/TracedJsonRpcProvider';
+import { tracedFetch } from '../telemetry/tracing';
+import { NetworkName } from '../network/types';
+import {
+  SignMessageParams,
+  SignTransactionParams,
+  TransactionType,
+  IWallet,
+  TransactionRequest,
+  TransactionReceipt,
+  SignedTransactionRequest,
+  SimulationResult,
+  IPendingTransactionManager,
+  PendingTransaction,
+  GasStrategy,
+  FeeEstimate,
+  TypedDataDomain,
+  TypedDataTypes,
+} from './types';
+import {
+  simulateEvmTransaction,
+  simulateEvmTransactions,
+  simulateSolanaTransaction,
+  simulateSolanaTransactions,
+} from './simulation';
+import { EvmTransactionQueue } from './TransactionQueue';
+import {
+  addSolanaComputeBudget,
+  estimateEvmFees,
+  estimateSolanaFees,
+  getEvmFeeQuote,
+  resolveGasStrategy,
+} from './gas';
+import { confirmSolanaTransaction } from './confirmation';
+import { getSolanaOffchainMessage, getSolanaTypedDataMessage } from './typedData';
+
+/**
+ * Wallet signing locally with in-memory EVM and Solana keys
+ */
+export abstract class BaseWallet implements IWallet, IPendingTransactionManager {
+  readonly #network: Network;
+  // Queues are keyed by network and address so each account keeps its own nonces
+  readonly #transactionQueues = new Map<string, EvmTransactionQueue>();
+  readonly #gasStrategy?: GasStrategy;
+  readonly #receiptTimeout?: number;
+
+  constructor(network: Network, gasStrategy?: GasStrategy, receiptTimeout?: number) {
+    this.#network = network;
+    this.#gasStrategy = gasStrategy;
+    this.#receiptTimeout = receiptTimeout;
+  }
+
+  protected abstract getEvmWallet(): ethers.Wallet | ethers.HDNodeWallet;
+
+  protected abstract getSolanaKeypair(): Keypair;
+
+  public async getAddress(network: NetworkName): Promise<string> {
+    const networkType = this.#network.getNetworkType(network);
+
+    if (networkType === 'evm') {
+      return this.getEvmWallet().address;
+    } else {
+      return this.getSolanaKeypair().publicKey.toString();
+    }
+  }
+
+  public async signMessage(params: SignMessageParams): Promise<string> {
+    const networkType = this.#network.getNetworkType(params.network);
+
+    if (networkType === 'evm') {
+      return await this.getEvmWallet().signMessage(params.message);
+    } else {
+      const messageBytes = new TextEncoder().encode(params.message);
+      const signature = nacl.sign.detached(messageBytes, this.getSolanaKeypair().secretKey);
+      return bs58.encode(signature);
+    }
+  }
+
+  public async signTypedData(
+    network: NetworkName,
+    domain: TypedDataDomain,
+    types: TypedDataTypes,
+    value: Record<string, any>,
+  ): Promise<string> {
+    if (this.#network.getNetworkType(network) === 'evm') {
+      return await this.getEvmWallet().signTypedData(domain, types, value);
+    }
+    const message = getSolanaOffchainMessage(getSolanaTypedDataMessage(domain, types, value));
+    return bs58.encode(nacl.sign.detached(message, this.getSolanaKeypair().secretKey));
+  }
+
+  public async signTransaction(params: SignTransactionParams): Promise<string> {
+    const networkType = this.#network.getNetworkType(params.network);
+    const transaction = params.transaction as TransactionType;
+
+    if (networkType === 'evm') {
+      const evmTx = transaction as ethers.Transaction;
+      const signer = this.getEvmWallet().connect(this.#network.getProvider(params.network, 'evm'));
+      return await signer.signTransaction(evmTx);
+    } else {
+      if (transaction instanceof VersionedTransaction) {
+        transaction.sign([this.getSolanaKeypair()]);
+        return Buffer.from(transaction.serialize()).toString('base64');
+      } else if (transaction instanceof SolanaTransaction) {
+        transaction.partialSign(this.getSolanaKeypair());
+        return Buffer.from(transaction.serialize()).toString('base64');
+      }
+      throw new Error('Invalid Solana transaction type');
+    }
+  }
+
+  public async getPublicKey(network: NetworkName): Promise<string> {
+    const networkType = this.#network.getNetworkType(network);
+
+    if (networkType === 'evm') {
+      return this.getEvmWallet().signingKey.compressedPublicKey;
+    } else {
+      return this.getSolanaKeypair().publicKey.toBase58();
+    }
+  }
+
+  // TODO: THIS METHOD WILL BE REMOVED IN THE FUTURE
+  public async getPrivateKey(network: NetworkName): Promise<string> {
+    const networkType = this.#network.getNetworkType(network);
+
+    if (networkType === 'evm') {
+      return this.getEvmWallet().privateKey;
+    } else {
+      return bs58.encode(this.getSolanaKeypair().secretKey);
+    }
+  }
+
+  public async sendTransaction(
+    network: NetworkName,
+    signedTransaction: SignedTransactionRequest,
+  ): Promise<TransactionReceipt> {
+    const networkType = this.#network.getNetworkType(network);
+    const networkConfig = this.#network.getConfig(network);
+
+    if (networkType === 'evm') {
+      const provider = new TracedJsonRpcProvider(networkConfig.config.rpcUrl);
+
+      const tx = await provider.broadcastTransaction(signedTransaction.transaction);
+
+      const receipt = await tx.wait();
+      if (!receipt) throw new Error('Transaction failed');
+
+      return {
+        hash: tx.hash,
+        wait: async () => {
+          const finalReceipt = await tx.wait();
+          if (!finalReceipt) throw new Error('Transaction failed');
+          return {
+            hash: finalReceipt.hash,
+            wait: async () => ({
+              hash: finalReceipt.hash,
+              wait: async () => {
+                throw new Error('Already waited');
+              },
+            }),
+          };
+        },
+      };
+    } else {
+      const connection = new Connection(networkConfig.config.rpcUrl, { fetch: tracedFetch });
+
+      // Try to parse as VersionedTransaction first
+      let isVersionedTransaction = false;
+      try {
+        const tx = VersionedTransaction.deserialize(
+          Buffer.from(signedTransaction.transaction, 'base64'),
+        );
+
+        isVersionedTransaction = true;
+
+        let lastValidBlockHeight = signedTransaction.lastValidBlockHeight;
+
+        if (!tx.message.recentBlockhash) {
+          const latestBlockhash = await connection.getLatestBlockhash('finalized');
+          tx.message.recentBlockhash = latestBlockhash.blockhash;
+          lastValidBlockHeight = latestBlockhash.lastValidBlockHeight;
+        }
+
+        if (!lastValidBlockHeight) {
+          throw new Error('Last valid block height is required');
+        }
+
+        const simulation = await connection.simulateTransaction(tx, { sigVerify: true });
+
+        if (simulation.value?.err) {
+          throw new Error(`Transaction failed: ${JSON.stringify(simulation.value?.err)}`);
+        }
+
+        // Send and confirm transaction
+        const signature = await connection.sendTransaction(tx);
+
+        return {
+          hash: signature,
+          wait: async () => {
+            await confirmSolanaTransaction(
+              connection,
+              signature,
+              lastValidBlockHeight,
+              tx.serialize(),
+            );
+            return {
+              hash: signature,
+              wait: async () => ({
+                hash: signature,
+                wait: async () => {
+                  throw new Error('Already waited');
+                },
+              }),
+            };
+          },
+        };
+      } catch (e) {
+        // If not a VersionedTransaction, try as regular Transaction
+        if (isVersionedTransaction) {
+          throw e;
+        }
+
+        const tx = SolanaTransaction.from(Buffer.from(signedTransaction.transaction, 'base64'));
+
+        if (!tx.recentBlockhash) {
+          const latestBlockhash = await connection.getLatestBlockhash('finalized');
+          tx.recentBlockhash = latestBlockhash.blockhash;
+          tx.lastValidBlockHeight = latestBlockhash.lastValidBlockHeight;
+        }
+
+        const simulation = await connection.simulateTransaction(tx);
+
+        if (simulation.value?.err) {
+          throw new Error(`Transaction failed: ${JSON.stringify(simulation.value?.err)}`);
+        }
+
+        const lastValidBlockHeight =
+          tx.lastValidBlockHeight ?? signedTransaction.lastValidBlockHeight;
+        if (!lastValidBlockHeight) {
+          throw new Error('Last valid block height is required');
+        }
+
+        // Send and confirm transaction
+        const rawTransaction = tx.serialize();
+        const signature = await connection.sendRawTransaction(rawTransaction);
+
+        return {
+          hash: signature,
+          wait: async () => {
+            await confirmSolanaTransaction(
+              connection,
+              signature,
+              lastValidBlockHeight,
+              rawTransaction,
+            );
+            return {
+              hash: signature,
+              wait: async () => ({
+                hash: signature,
+                wait: async () => {
+                  throw new Error('Already waited');
+                },
+              }),
+            };
+          },
+        };
+      }
+    }
+  }
+
+  public async signAndSendTransaction(
+    network: NetworkName,
+    transaction: TransactionRequest,
+  ): Promise<TransactionReceipt> {
+    const networkType = this.#network.getNetworkType(network);
+    const networkConfig = this.#network.getConfig(network);
+
+    if (networkType === 'evm') {
+      // Submissions are serialized per network, the transaction is not awaited here
+      const queue = this.#getTransactionQueue(network);
+      const fees = await getEvmFeeQuote(
+        this.#network.getProvider(network, 'evm'),
+        network,
+        this.getEvmWallet().address,
+        transaction,
+        this.#gasStrategy,
+      );
+      const pending = await queue.send(transaction, fees);
+
+      return {
+        hash: pending.hash,
+        wait: async () => {
+          const finalReceipt = await queue.wait(pending.nonce);
+          return {
+            hash: finalReceipt.hash,
+            wait: async () => ({
+              hash: finalReceipt.hash,
+              wait: async () => {
+                throw new Error('Already waited');
+              },
+            }),
+          };
+        },
+      };
+    } else {
+      const connection = new Connection(networkConfig.config.rpcUrl, { fetch: tracedFetch });
+      const strategy = resolveGasStrategy(transaction, this.#gasStrategy);
+      let isVersionedTransaction = false;
+      // Try to parse as VersionedTransaction first
+      try {
+        let tx = VersionedTransaction.deserialize(Buffer.from(transaction.data, 'base64'));
+        isVersionedTransaction = true;
+        let lastValidBlockHeight = transaction.lastValidBlockHeight;
+        if (!tx.message.recentBlockhash) {
+          const latestBlockhash = await connection.getLatestBlockhash('finalized');
+          tx.message.recentBlockhash = latestBlockhash.blockhash;
+          lastValidBlockHeight = latestBlockhash.lastValidBlockHeight;
+        }
+
+        if (!lastValidBlockHeight) {
+          throw new Error('Last valid block height is required');
+        }
+
+        if (strategy.computeBudget) {
+          tx = await addSolanaComputeBudget(connection, tx, strategy);
+        }
+
+        // Clear existing signatures before signing to avoid conflicts
+        tx.signatures = [];
+
+        // Sign transaction
+        tx.sign([this.getSolanaKeypair()]);
+
+        // Send raw transaction
+        const rawTransaction = Buffer.from(tx.serialize());
+        const signature = await connection.sendRawTransaction(rawTransaction, {
+          skipPreflight: false,
+          preflightCommitment: 'confirmed',
+        });
+
+        return {
+          hash: signature,
+          wait: async () => {
+            await confirmSolanaTransaction(
+              connection,
+              signature,
+              lastValidBlockHeight,
+              rawTransaction,
+            );
+            return {
+              hash: signature,
+              wait: async () => ({
+                hash: signature,
+                wait: async () => {
+                  throw new Error('Already waited');
+                },
+              }),
+            };
+          },
+        };
+      } catch (e) {
+        console.log('🚀 ~ Wallet ~ signAndSendTransactionSolana ~ error:', e);
+        if (isVersionedTransaction) {
+          throw e;
+        }
+
+        // If not a VersionedTransaction, try as regular Transaction
+        const tx = SolanaTransaction.from(Buffer.from(transaction.data, 'base64'));
+        if (!tx.recentBlockhash) {
+          const latestBlockhash = await connection.getLatestBlockhash('finalized');
+          tx.recentBlockhash = latestBlockhash.blockhash;
+          tx.lastValidBlockHeight = latestBlockhash.lastValidBlockHeight;
+        }
+
+        const lastValidBlockHeight = tx.lastValidBlockHeight ?? transaction.lastValidBlockHeight;
+        if (!lastValidBlockHeight) {
+          throw new Error('Last valid block height is required');
+        }
+
+        if (strategy.computeBudget) {
+          await addSolanaComputeBudget(connection, tx, strategy);
+        }
+
+        // Clear existing signatures before signing to avoid conflicts
+        tx.signatures = [];
+
+        // Sign transaction
+        tx.sign(this.getSolanaKeypair());
+
+        // Send raw transaction
+        const rawTransaction = tx.serialize();
+        const signature = await connection.sendRawTransaction(rawTransaction, {
+          skipPreflight: false,
+          preflightCommitment: 'confirmed',
+        });
+
+        return {
+          hash: signature,
+          wait: async () => {
+            await confirmSolanaTransaction(
+              connection,
+              signature,
+              lastValidBlockHeight,
+              rawTransaction,
+            );
+            return {
+              hash: signature,
+              wait: async () => ({
+                hash: signature,
+                wait: async () => {
+                  throw new Error('Already waited');
+                },
+              }),
+            };
+          },
+        };
+      }
+    }
+  }
+
+  public async estimateFees(
+    network: NetworkName,
+    transaction: TransactionRequest,
+  ): Promise<FeeEstimate> {
+    const networkType = this.#network.getNetworkType(network);
+    const address = await this.getAddress(network);
+
+    if (networkType === 'evm') {
+      const provider = this.#network.getProvider(network, 'evm');
+      return estimateEvmFees(provider, network, address, transaction, this.#gasStrategy);
+    } else {
+      const connection = this.#network.getProvider(network, 'solana');
+      return estimateSolanaFees(connection, network, address, transaction, this.#gasStrategy);
+    }
+  }
+
+  #getTransactionQueue(network: NetworkName): EvmTransactionQueue {
+    const evmWallet = this.getEvmWallet();
+    const key = `${network}:${evmWallet.address}`;
+    let queue = this.#transactionQueues.get(key);
+    if (!queue) {
+      const provider = this.#network.getProvider(network, 'evm');
+      queue = new EvmTransactionQueue(
+        network,
+        evmWallet.connect(provider),
+        undefined,
+        this.#receiptTimeout,
+      );
+      this.#transactionQueues.set(key, queue);
+    }
+    return queue;
+  }
+
+  public getPendingTransactions(network?: NetworkName): PendingTransaction[] {
+    return Array.from(this.#transactionQueues.values())
+      .flatMap(queue => queue.getPendingTransactions())
+      .filter(tx => !network || tx.network === network);
+  }
+
+  public async speedUpTransaction(
+    network: NetworkName,
+    nonce: number,
+    feeBumpPercent?: number,
+  ): Promise<PendingTransaction> {
+    return this.#getTransactionQueue(network).speedUp(nonce, feeBumpPercent);
+  }
+
+  public async cancelTransaction(
+    network: NetworkName,
+    nonce: number,
+    feeBumpPercent?: number,
+  ): Promise<PendingTransaction> {
+    return this.#getTransactionQueue(network).cancel(nonce, feeBumpPercent);
+  }
+
+  public async simulateTransaction(
+    network: NetworkName,
+    transaction: TransactionRequest,
+  ): Promise<SimulationResult> {
+    const networkType = this.#network.getNetworkType(network);
+    const address = await this.getAddress(network);
+
+    if (networkType === 'evm') {
+      const provider = this.#network.getProvider(network, 'evm');
+      return simulateEvmTransaction(provider, network, address, transaction);
+    } else {
+      const connection = this.#network.getProvider(network, 'solana');
+      return simulateSolanaTransaction(connection, network, address, transaction);
+    }
+  }
+
+  public async simulateTransactions(
+    network: NetworkName,
+    transactions: TransactionRequest[],
+  ): Promise<SimulationResult[]> {
+    const networkType = this.#network.getNetworkType(network);
+    const address = await this.getAddress(network);
+
+    if (networkType === 'evm') {
+      const provider = this.#network.getProvider(network, 'evm');
+      return simulateEvmTransactions(provider, network, address, transactions);
+    } else {
+      const connection = this.#network.getProvider(network, 'solana');
+      return simulateSolanaTransactions(connection, network, address, transactions);
+    }
+  }
+}
@@ -6,7 +6,20 @@ import {
   SignTransactionParams,
   TransactionReceipt,
   TransactionRequest,
+  SimulationResult,
+  FeeEstimate,
+  TypedDataDomain,
+  TypedDataTypes,
 } from './types';
+import {
+  simulateEvmTransaction,
+  simulateEvmTransactions,
+  simulateSolanaTransaction,
+  simulateSolanaTransactions,
+} from './simulation';
+import { confirmSolanaTransaction } from './confirmation';
+import { estimateEvmFees, estimateSolanaFees, getEvmFeeQuote } from './gas';
+import { encodeTypedDataValue } from './typedData';
 import { Socket } from 'socket.io';
 import { Network } from '../network/Network';
 import { ethers, Transaction as EvmTransaction } from 'ethers';
@@ -82,6 +95,31 @@ export class ExtensionWallet implements IWallet {
     return response.signature;
   }
 
+  public async signTypedData(
+    network: NetworkName,
+    domain: TypedDataDomain,
+    types: TypedDataTypes,
+    value: Record<string, any>,
+  ): Promise<string> {
+    await this.ensureConnection();
+
+    // Bigints are not JSON serializable, they are sent as decimal strings
+    const response = (await this.socket?.timeout(this.timeout).emitWithAck('sign_typed_data', {
+      network,
+      domain: encodeTypedDataValue(domain),
+      types,
+      value: encodeTypedDataValue(value),
+    })) as { signature?: string; error?: string };
+
+    if (response.error) {
+      throw new Error(response.error);
+    }
+    if (!response.signature) {
+      throw new Error('No signature found');
+    }
+    return response.signature;
+  }
+
   public async signTransaction(params: SignTransactionParams): Promise<string> {
     await this.ensureConnection();
 
@@ -109,26 +147,6 @@ export class ExtensionWallet implements IWallet {
     return response.signedTransaction;
   }
 
-  public async waitForSolanaTransaction(
-    connection: Connection,
-    signature: string,
-    blockhash: string,
-    lastValidBlockHeight: number,
-  ): Promise<void> {
-    const result = await connection.confirmTransaction(
-      {
-        signature,
-        blockhash,
-        lastValidBlockHeight,
-      },
-      'confirmed',
-    );
-
-    if (result.value.err) {
-      throw new Error(`Transaction failed: ${result.value.err.toString()}`);
-    }
-  }
-
   public async sendTransaction(
     network: NetworkName,
     signedTransaction: SignedTransactionRequest,
@@ -192,11 +210,11 @@ export class ExtensionWallet implements IWallet {
         return {
           hash: signature,
           wait: async () => {
-            await this.waitForSolanaTransaction(
+            await confirmSolanaTransaction(
               connection,
               signature,
-              tx.message.recentBlockhash,
               lastValidBlockHeight,
+              tx.serialize(),
             );
             return {
               hash: signature,
@@ -225,17 +243,24 @@ export class ExtensionWallet implements IWallet {
           throw new Error(`Transaction failed: ${JSON.stringify(simulation.value?.err)}`);
         }
 
+        const lastValidBlockHeight =
+          tx.lastValidBlockHeight ?? signedTransaction.lastValidBlockHeight;
+        if (!lastValidBlockHeight) {
+          throw new Error('Last valid block height is required');
+        }
+
         // Send and confirm transaction
-        const signature = await connection.sendRawTransaction(tx.serialize());
+        const rawTransaction = tx.serialize();
+        const signature = await connection.sendRawTransaction(rawTransaction);
 
         return {
           hash: signature,
           wait: async () => {
-            await this.waitForSolanaTransaction(
+            await confirmSolanaTransaction(
               connection,
               signature,
-              tx.recentBlockhash!,
-              tx.lastValidBlockHeight!,
+              lastValidBlockHeight,
+              rawTransaction,
             );
             return {
               hash: signature,
@@ -264,13 +289,18 @@ export class ExtensionWallet implements IWallet {
       const address = await this.getAddress(network);
 
       const signer = new ethers.VoidSigner(address, provider);
+      const fees = await getEvmFeeQuote(provider, network, address, transaction);
 
       // Create and sign transaction
       const tx = await signer.populateTransaction({
         to: transaction.to,
         data: transaction.data,
         value: transaction.value,
-        gasLimit: transaction.gasLimit,
+        gasLimit: fees.gasLimit,
+        type: fees.type,
+        gasPrice: fees.gasPrice,
+        maxFeePerGas: fees.maxFeePerGas,
+        maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
       });
 
       tx.from = null;
@@ -334,11 +364,11 @@ export class ExtensionWallet implements IWallet {
         return {
           hash: signature,
           wait: async () => {
-            await this.waitForSolanaTransaction(
+            await confirmSolanaTransaction(
               connection,
               signature,
-              tx.message.recentBlockhash,
               lastValidBlockHeight,
+              rawTransaction,
             );
             return {
               hash: signature,
@@ -361,6 +391,10 @@ export class ExtensionWallet implements IWallet {
           tx.recentBlockhash = latestBlockhash.blockhash;
           tx.lastValidBlockHeight = latestBlockhash.lastValidBlockHeight;
         }
+        const lastValidBlockHeight = tx.lastValidBlockHeight ?? transaction.lastValidBlockHeight;
+        if (!lastValidBlockHeight) {
+          throw new Error('Last valid block height is required');
+        }
         // Sign transaction
         const signedTx = await this.signTransaction({
           network,
@@ -376,11 +410,11 @@ export class ExtensionWallet implements IWallet {
         return {
           hash: signature,
           wait: async () => {
-            await this.waitForSolanaTransaction(
+            await confirmSolanaTransaction(
               connection,
               signature,
-              tx.recentBlockhash!,
-              tx.lastValidBlockHeight!,
+              lastValidBlockHeight,
+              rawTransaction,
             );
             return {
               hash: signature,
@@ -397,6 +431,54 @@ export class ExtensionWallet implements IWallet {
     }
   }
 
+  public async simulateTransaction(
+    network: NetworkName,
+    transaction: TransactionRequest,
+  ): Promise<SimulationResult> {
+    const networkType = this.#network.getNetworkType(network);
+    const address = await this.getAddress(network);
+
+    if (networkType === 'evm') {
+      const provider = this.#network.getProvider(network, 'evm');
+      return simulateEvmTransaction(provider, network, address, transaction);
+    } else {
+      const connection = this.#network.getProvider(network, 'solana');
+      return simulateSolanaTransaction(connection, network, address, transaction);
+    }
+  }
+
+  public async simulateTransactions(
+    network: NetworkName,
+    transactions: TransactionRequest[],
+  ): Promise<SimulationResult[]> {
+    const networkType = this.#network.getNetworkType(network);
+    const address = await this.getAddress(network);
+
+    if (networkType === 'evm') {
+      const provider = this.#network.getProvider(network, 'evm');
+      return simulateEvmTransactions(provider, network, address, transactions);
+    } else {
+      const connection = this.#network.getProvider(network, 'solana');
+      return simulateSolanaTransactions(connection, network, address, transactions);
+    }
+  }
+
+  public async estimateFees(
+    network: NetworkName,
+    transaction: TransactionRequest,
+  ): Promise<FeeEstimate> {
+    const networkType = this.#network.getNetworkType(network);
+    const address = await this.getAddress(network);
+
+    if (networkType === 'evm') {
+      const provider = this.#network.getProvider(network, 'evm');
+      return estimateEvmFees(provider, network, address, transaction);
+    } else {
+      const connection = this.#network.getProvider(network, 'solana');
+      return estimateSolanaFees(connection, network, address, transaction);
+    }
+  }
+
   // Method to disconnect the socket
   public disconnect(): void {
     this.socket?.disconnect();
@@ -0,0 +1,96 @@
+import { ethers } from 'ethers';
+import { Keypair } from '@solana/web3.js';
+import { mnemonicToSeedSync } from 'bip39';
+import { derivePath } from 'ed25519-hd-key';
+
+import { Network } from '../network';
+import { HDWalletConfig, IMultiAccountWallet, IWallet, WalletAccount } from './types';
+import { BaseWallet } from './BaseWallet';
+import { getWalletThreadId } from './threadContext';
+
+interface DerivedAccount {
+  evmWallet: ethers.HDNodeWallet;
+  solanaKeypair: Keypair;
+}
+
+/**
+ * Wallet deriving several accounts from one seed, with the same index on EVM
+ * (m/44'/60'/0'/0/i) and Solana (m/44'/501'/i'/0').
+ * Each thread signs with its own active account, the first account is the default.
+ */
+export class HDWallet extends BaseWallet implements IMultiAccountWallet {
+  readonly #seedPhrase: string;
+  readonly #seed: string;
+  readonly #accounts: DerivedAccount[] = [];
+  readonly #activeAccounts = new Map<string | undefined, number>();
+
+  constructor(config: HDWalletConfig, network: Network) {
+    super(network, config.gasStrategy, config.receiptTimeout);
+    this.#seedPhrase = config.seedPhrase;
+    this.#seed = mnemonicToSeedSync(config.seedPhrase).toString('hex');
+
+    for (let i = 0; i < Math.max(config.accounts ?? 1, 1); i++) {
+      this.addAccount();
+    }
+  }
+
+  public getAccounts(): WalletAccount[] {
+    return this.#accounts.map((_, index) => this.#toWalletAccount(index));
+  }
+
+  public addAccount(): WalletAccount {
+    const index = this.#accounts.length;
+    this.#accounts.push({
+      evmWallet: ethers.HDNodeWallet.fromPhrase(
+        this.#seedPhrase,
+        undefined,
+        `m/44'/60'/0'/0/${index}`,
+      ),
+      solanaKeypair: Keypair.fromSeed(derivePath(`m/44'/501'/${index}'/0'`, this.#seed).key),
+    });
+    return this.#toWalletAccount(index);
+  }
+
+  public getActiveAccount(threadId: string | undefined = getWalletThreadId()): WalletAccount {
+    return this.#toWalletAccount(this.#getActiveIndex(threadId));
+  }
+
+  public setActiveAccount(
+    index: number,
+    threadId: string | undefined = getWalletThreadId(),
+  ): WalletAccount {
+    if (!Number.isInteger(index) || index < 0 || index >= this.#accounts.length) {
+      throw new Error(
+        `Account ${index} does not exist, the wallet has ${this.#accounts.length} accounts`,
+      );
+    }
+    this.#activeAccounts.set(threadId, index);
+    return this.#toWalletAccount(index);
+  }
+
+  protected getEvmWallet(): ethers.HDNodeWallet {
+    return this.#accounts[this.#getActiveIndex(getWalletThreadId())].evmWallet;
+  }
+
+  protected getSolanaKeypair(): Keypair {
+    return this.#accounts[this.#getActiveIndex(getWalletThreadId())].solanaKeypair;
+  }
+
+  #getActiveIndex(threadId: string | undefined): number {
+    return this.#activeAccounts.get(threadId) ?? this.#activeAccounts.get(undefined) ?? 0;
+  }
+
+  #toWalletAccount(index: number): WalletAccount {
+    const { evmWallet, solanaKeypair } = this.#accounts[index];
+    return {
+      index,
+      evmAddress: evmWallet.address,
+      solanaAddress: solanaKeypair.publicKey.toBase58(),
+    };
+  }
+}
+
+export function isMultiAccountWallet(wallet: IWallet): wallet is IWallet & IMultiAccountWallet {
+  const accounts = (wallet as Partial<IMultiAccountWallet>).getAccounts;
+  return typeof accounts === 'function' && accounts.call(wallet).length > 0;
+}
@@ -0,0 +1,67 @@
+import { ethers } from 'ethers';
+import { Keypair } from '@solana/web3.js';
+import bs58 from 'bs58';
+
+import { Network } from '../network';
+import { settings } from '../settings';
+import { KeystoreWalletConfig, PrivateKeyWalletConfig } from './types';
+import { PrivateKeyWallet, parseSolanaPrivateKey } from './PrivateKeyWallet';
+
+export const DEFAULT_KEYSTORE_PASSWORD_KEY = 'WALLET_KEYSTORE_PASSWORD';
+
+/**
+ * Encrypt a private key into a scrypt JSON keystore (Web3 Secret Storage).
+ * Solana keys are stored as their 32 byte ed25519 seed.
+ */
+export async function encryptKeystore(
+  privateKey: string,
+  password: string,
+  type: 'evm' | 'solana',
+  options?: ethers.EncryptOptions,
+): Promise<string> {
+  const key =
+    type === 'evm'
+      ? privateKey
+      : ethers.hexlify(parseSolanaPrivateKey(privateKey).secretKey.slice(0, 32));
+  return ethers.encryptKeystoreJson(
+    { address: ethers.computeAddress(key), privateKey: key },
+    password,
+    options,
+  );
+}
+
+/**
+ * Wallet whose keys are decrypted from JSON keystores, the password is read from Settings
+ */
+export class KeystoreWallet extends PrivateKeyWallet {
+  private constructor(config: PrivateKeyWalletConfig, network: Network) {
+    super(config, network);
+  }
+
+  static async load(
+    config: KeystoreWalletConfig,
+    network: Network,
+    password: string = settings.getRequired(config.passwordKey ?? DEFAULT_KEYSTORE_PASSWORD_KEY),
+  ): Promise<KeystoreWallet> {
+    if (!config.evmKeystore && !config.solanaKeystore) {
+      throw new Error('At least one of evmKeystore or solanaKeystore is required');
+    }
+
+    const [evmAccount, solanaAccount] = await Promise.all([
+      config.evmKeystore && ethers.decryptKeystoreJson(config.evmKeystore, password),
+      config.solanaKeystore && ethers.decryptKeystoreJson(config.solanaKeystore, password),
+    ]);
+
+    return new KeystoreWallet(
+      {
+        evmPrivateKey: evmAccount ? evmAccount.privateKey : undefined,
+        solanaPrivateKey: solanaAccount
+          ? bs58.encode(Keypair.fromSeed(ethers.getBytes(solanaAccount.privateKey)).secretKey)
+          : undefined,
+        gasStrategy: config.gasStrategy,
+        receiptTimeout: config.receiptTimeout,
+      },
+      network,
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { ethers } from 'ethers';
+import { Keypair } from '@solana/web3.js';
+import bs58 from 'bs58';
+
+import { Network } from '../network';
+import { PrivateKeyWalletConfig } from './types';
+import { BaseWallet } from './BaseWallet';
+
+/**
+ * Decode a Solana secret key, either base58 or the JSON byte array written by `solana-keygen`
+ */
+export function parseSolanaPrivateKey(privateKey: string): Keypair {
+  const value = privateKey.trim();
+  const secretKey = value.startsWith('[')
+    ? Uint8Array.from(JSON.parse(value) as number[])
+    : bs58.decode(value);
+  return secretKey.length === 32 ? Keypair.fromSeed(secretKey) : Keypair.fromSecretKey(secretKey);
+}
+
+/**
+ * Wallet built from raw EVM and/or Solana private keys, no mnemonic involved
+ */
+export class PrivateKeyWallet extends BaseWallet {
+  readonly #evmWallet?: ethers.Wallet;
+  readonly #solanaKeypair?: Keypair;
+
+  constructor(config: PrivateKeyWalletConfig, network: Network) {
+    super(network, config.gasStrategy, config.receiptTimeout);
+
+    if (!config.evmPrivateKey && !config.solanaPrivateKey) {
+      throw new Error('At least one of evmPrivateKey or solanaPrivateKey is required');
+    }
+
+    if (config.evmPrivateKey) {
+      this.#evmWallet = new ethers.Wallet(config.evmPrivateKey);
+    }
+    if (config.solanaPrivateKey) {
+      this.#solanaKeypair = parseSolanaPrivateKey(config.solanaPrivateKey);
+    }
+  }
+
+  protected getEvmWallet(): ethers.Wallet {
+    if (!this.#evmWallet) {
+      throw new Error('No EVM private key configured for this wallet');
+    }
+    return this.#evmWallet;
+  }
+
+  protected getSolanaKeypair(): Keypair {
+    if (!this.#solanaKeypair) {
+      throw new Error('No Solana private key configured for this wallet');
+    }
+    return this.#solanaKeypair;
+  }
+}
@@ -0,0 +1,182 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { ethers, Transaction as EvmTransaction } from 'ethers';
+import { Transaction as SolanaTransaction, VersionedTransaction } from '@solana/web3.js';
+
+import { NetworkName } from '../network/types';
+import { IWallet } from './types';
+import {
+  REMOTE_SIGNER_PROTOCOL_VERSION,
+  RemoteSignerMethod,
+  RemoteSignerRequest,
+  RemoteSignerResponse,
+  RemoteSignerResults,
+  decodeTransactionRequest,
+  getAttestationMessage,
+} from './remoteSigner';
+
+export interface RemoteSignerServerConfig {
+  /** Bearer token required from clients */
+  apiKey?: string;
+  /** Private key attesting every response, clients verify it with its address */
+  attestationKey?: string;
+  /** Networks the signer accepts, all networks when omitted */
+  networks?: NetworkName[];
+}
+
+const MAX_BODY_SIZE = 1024 * 1024;
+
+/**
+ * Reference implementation of the remote signer protocol backed by a local wallet.
+ * It is meant for testing RemoteWallet locally and as a template for production signers.
+ */
+export class RemoteSignerServer {
+  readonly #wallet: IWallet;
+  readonly #config: RemoteSignerServerConfig;
+  readonly #attestationWallet?: ethers.Wallet;
+  #server?: Server;
+
+  constructor(wallet: IWallet, config: RemoteSignerServerConfig = {}) {
+    this.#wallet = wallet;
+    this.#config = config;
+    if (config.attestationKey) {
+      this.#attestationWallet = new ethers.Wallet(config.attestationKey);
+    }
+  }
+
+  listen(port: number = 0, host: string = '127.0.0.1'): Promise<AddressInfo> {
+    const server = createServer((req, res) => void this.#handle(req, res));
+    this.#server = server;
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => resolve(server.address() as AddressInfo));
+    });
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.#server) return resolve();
+      this.#server.close(error => (error ? reject(error) : resolve()));
+    });
+  }
+
+  #isAuthorized(req: IncomingMessage): boolean {
+    if (!this.#config.apiKey) return true;
+    // Digests have the same length, so the comparison time reveals nothing about the key
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    return timingSafeEqual(
+      digest(req.headers.authorization ?? ''),
+      digest(`Bearer ${this.#config.apiKey}`),
+    );
+  }
+
+  async #handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const match = req.url?.match(new RegExp(`^/${REMOTE_SIGNER_PROTOCOL_VERSION}/(\\w+)$`));
+    if (req.method !== 'POST' || !match) {
+      return this.#send(res, 404, { id: '', error: 'Not found' });
+    }
+    if (!this.#isAuthorized(req)) {
+      return this.#send(res, 401, { id: '', error: 'Unauthorized' });
+    }
+
+    let request: RemoteSignerRequest;
+    try {
+      request = JSON.parse(await this.#readBody(req));
+    } catch (e) {
+      return this.#send(res, 400, { id: '', error: 'Invalid JSON body' });
+    }
+    if (typeof request !== 'object' || request === null || Array.isArray(request)) {
+      return this.#send(res, 400, { id: '', error: 'Request body must be a JSON object' });
+    }
+
+    try {
+      if (this.#config.networks && !this.#config.networks.includes(request.network)) {
+        throw new Error(`Network ${request.network} is not enabled on this signer`);
+      }
+      const result = await this.#execute(match[1] as RemoteSignerMethod, request);
+      const signature = await this.#attestationWallet?.signMessage(
+        getAttestationMessage(request.id, result),
+      );
+      this.#send(res, 200, { id: request.id, result, signature });
+    } catch (e) {
+      this.#send(res, 400, {
+        id: request.id,
+        error: e instanceof Error ? e.message : String(e),
+      });
+    }
+  }
+
+  async #execute(
+    method: RemoteSignerMethod,
+    request: RemoteSignerRequest,
+  ): Promise<RemoteSignerResults[RemoteSignerMethod]> {
+    const { network } = request;
+
+    switch (method) {
+      case 'getAddress':
+        return { address: await this.#wallet.getAddress(network) };
+      case 'getPublicKey':
+        return { publicKey: await this.#wallet.getPublicKey(network) };
+      case 'signMessage': {
+        const { message } = request as RemoteSignerRequest<'signMessage'>;
+        return { signature: await this.#wallet.signMessage({ network, message }) };
+      }
+      case 'signTypedData': {
+        const { domain, types, value } = request as RemoteSignerRequest<'signTypedData'>;
+        return { signature: await this.#wallet.signTypedData(network, domain, types, value) };
+      }
+      case 'signTransaction': {
+        const { transaction } = request as RemoteSignerRequest<'signTransaction'>;
+        return {
+          signedTransaction: await this.#wallet.signTransaction({
+            network,
+            transaction: this.#parseTransaction(transaction),
+          }),
+        };
+      }
+      case 'signAndSendTransaction': {
+        const { transaction } = request as RemoteSignerRequest<'signAndSendTransaction'>;
+        const receipt = await this.#wallet.signAndSendTransaction(
+          network,
+          decodeTransactionRequest(transaction),
+        );
+        return { hash: receipt.hash };
+      }
+      default:
+        throw new Error(`Unknown method ${method}`);
+    }
+  }
+
+  #parseTransaction(transaction: string) {
+    if (transaction.startsWith('0x')) {
+      return EvmTransaction.from(transaction);
+    }
+    const bytes = Buffer.from(transaction, 'base64');
+    try {
+      return VersionedTransaction.deserialize(bytes);
+    } catch (e) {
+      return SolanaTransaction.from(bytes);
+    }
+  }
+
+  #readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let body = '';
+      req.on('data', chunk => {
+        body += chunk;
+        if (body.length > MAX_BODY_SIZE) {
+          reject(new Error('Request body too large'));
+          req.destroy();
+        }
+      });
+      req.on('end', () => resolve(body));
+      req.on('error', reject);
+    });
+  }
+
+  #send(res: ServerResponse, status: number, body: RemoteSignerResponse): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -0,0 +1,351 @@
+import { ethers, Transaction as EvmTransaction } from 'ethers';
+import { PublicKey, Transaction as SolanaTransaction, VersionedTransaction } from '@solana/web3.js';
+import bs58 from 'bs58';
+import nacl from 'tweetnacl';
+import { v4 as uuidv4 } from 'uuid';
+
+import { Network } from '../network/Network';
+import { tracedFetch } from '../telemetry/tracing';
+import { NetworkName } from '../network/types';
+import {
+  FeeEstimate,
+  IWallet,
+  RemoteWalletConfig,
+  SignedTransactionRequest,
+  SignMessageParams,
+  SignTransactionParams,
+  SimulationResult,
+  TransactionReceipt,
+  TransactionRequest,
+  TypedDataDomain,
+  TypedDataTypes,
+} from './types';
+import {
+  REMOTE_SIGNER_PROTOCOL_VERSION,
+  RemoteSignerMethod,
+  RemoteSignerParams,
+  RemoteSignerResponse,
+  RemoteSignerResults,
+  encodeTransactionRequest,
+  verifyAttestation,
+} from './remoteSigner';
+import {
+  simulateEvmTransaction,
+  simulateEvmTransactions,
+  simulateSolanaTransaction,
+  simulateSolanaTransactions,
+} from './simulation';
+import { estimateEvmFees, estimateSolanaFees } from './gas';
+import { confirmSolanaTransaction } from './confirmation';
+import {
+  encodeTypedDataValue,
+  getSolanaOffchainMessage,
+  getSolanaTypedDataMessage,
+} from './typedData';
+
+const DEFAULT_TIMEOUT = 30000;
+
+/**
+ * Wallet delegating signatures to a remote signing service, keys never enter the agent process.
+ * Signatures returned by the service are verified against the wallet address before use.
+ */
+export class RemoteWallet implements IWallet {
+  readonly #network: Network;
+  readonly #config: RemoteWalletConfig;
+  readonly #addresses = new Map<NetworkName, Promise<string>>();
+
+  constructor(config: RemoteWalletConfig, network: Network) {
+    this.#network = network;
+    this.#config = config;
+  }
+
+  async #request<M extends RemoteSignerMethod>(
+    method: M,
+    network: NetworkName,
+    params: RemoteSignerParams[M],
+  ): Promise<RemoteSignerResults[M]> {
+    const id = uuidv4();
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.#config.timeout ?? DEFAULT_TIMEOUT);
+
+    let response: RemoteSignerResponse<M>;
+    try {
+      const res = await tracedFetch(
+        `${this.#config.url.replace(/\/$/, '')}/${REMOTE_SIGNER_PROTOCOL_VERSION}/${method}`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(this.#config.apiKey && { Authorization: `Bearer ${this.#config.apiKey}` }),
+          },
+          body: JSON.stringify({ id, network, ...params }),
+          signal: controller.signal,
+        },
+      );
+      response = (await res.json()) as RemoteSignerResponse<M>;
+    } catch (e) {
+      if (controller.signal.aborted) {
+        throw new Error(`Remote signer did not answer ${method} ${id} in time`);
+      }
+      throw new Error(`Remote signer request ${method} ${id} failed: ${(e as Error).message}`);
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    if (response.error) {
+      throw new Error(`Remote signer rejected ${method}: ${response.error}`);
+    }
+    if (response.id !== id) {
+      throw new Error(`Remote signer answered ${response.id} to request ${id}`);
+    }
+    if (!response.result) {
+      throw new Error(`Remote signer returned no result for ${method}`);
+    }
+    if (
+      this.#config.attestationAddress &&
+      !verifyAttestation(response, this.#config.attestationAddress)
+    ) {
+      throw new Error(`Remote signer response to ${method} has an invalid attestation`);
+    }
+    return response.result;
+  }
+
+  public getAddress(network: NetworkName): Promise<string> {
+    let address = this.#addresses.get(network);
+    if (!address) {
+      address = this.#request('getAddress', network, {}).then(result => result.address);
+      // Failed lookups are retried on the next call
+      address.catch(() => this.#addresses.delete(network));
+      this.#addresses.set(network, address);
+    }
+    return address;
+  }
+
+  public async getPublicKey(network: NetworkName): Promise<string> {
+    return (await this.#request('getPublicKey', network, {})).publicKey;
+  }
+
+  public async getPrivateKey(network: NetworkName): Promise<string> {
+    throw new Error('Private keys are kept by the remote signer');
+  }
+
+  public async signMessage(params: SignMessageParams): Promise<string> {
+    const address = await this.getAddress(params.network);
+    const { signature } = await this.#request('signMessage', params.network, {
+      message: params.message,
+    });
+
+    const valid =
+      this.#network.getNetworkType(params.network) === 'evm'
+        ? ethers.verifyMessage(params.message, signature).toLowerCase() === address.toLowerCase()
+        : nacl.sign.detached.verify(
+            new TextEncoder().encode(params.message),
+            bs58.decode(signature),
+            new PublicKey(address).toBytes(),
+          );
+    if (!valid) {
+      throw new Error('Remote signer returned a message signature from another key');
+    }
+    return signature;
+  }
+
+  public async signTypedData(
+    network: NetworkName,
+    domain: TypedDataDomain,
+    types: TypedDataTypes,
+    value: Record<string, any>,
+  ): Promise<string> {
+    const address = await this.getAddress(network);
+    const { signature } = await this.#request('signTypedData', network, {
+      domain: encodeTypedDataValue(domain),
+      types,
+      value: encodeTypedDataValue(value),
+    });
+
+    const valid =
+      this.#network.getNetworkType(network) === 'evm'
+        ? ethers.verifyTypedData(domain, types, value, signature).toLowerCase() ===
+          address.toLowerCase()
+        : nacl.sign.detached.verify(
+            getSolanaOffchainMessage(getSolanaTypedDataMessage(domain, types, value)),
+            bs58.decode(signature),
+            new PublicKey(address).toBytes(),
+          );
+    if (!valid) {
+      throw new Error('Remote signer returned a typed data signature from another key');
+    }
+    return signature;
+  }
+
+  public async signTransaction(params: SignTransactionParams): Promise<string> {
+    const address = await this.getAddress(params.network);
+    const { transaction } = params;
+
+    if (transaction instanceof EvmTransaction) {
+      const { signedTransaction } = await this.#request('signTransaction', params.network, {
+        transaction: transaction.unsignedSerialized,
+      });
+      const signed = EvmTransaction.from(signedTransaction);
+      if (
+        signed.from?.toLowerCase() !== address.toLowerCase() ||
+        signed.unsignedSerialized !== transaction.unsignedSerialized
+      ) {
+        throw new Error('Remote signer returned a transaction that does not match the request');
+      }
+      return signedTransaction;
+    }
+
+    const message =
+      transaction instanceof VersionedTransaction
+        ? transaction.message.serialize()
+        : transaction.serializeMessage();
+    const serialized =
+      transaction instanceof VersionedTransaction
+        ? transaction.serialize()
+        : transaction.serialize({ requireAllSignatures: false, verifySignatures: false });
+    const { signedTransaction } = await this.#request('signTransaction', params.network, {
+      transaction: Buffer.from(serialized).toString('base64'),
+    });
+
+    if (!this.#verifySolanaTransaction(signedTransaction, message, new PublicKey(address))) {
+      throw new Error('Remote signer returned a transaction that does not match the request');
+    }
+    return signedTransaction;
+  }
+
+  #verifySolanaTransaction(signedTransaction: string, message: Uint8Array, owner: PublicKey) {
+    const bytes = Buffer.from(signedTransaction, 'base64');
+    let signedMessage: Uint8Array;
+    let signature: Uint8Array | null | undefined;
+    try {
+      const tx = VersionedTransaction.deserialize(bytes);
+      const signerIndex = tx.message.staticAccountKeys
+        .slice(0, tx.message.header.numRequiredSignatures)
+        .findIndex(key => key.equals(owner));
+      signedMessage = tx.message.serialize();
+      signature = signerIndex >= 0 ? tx.signatures[signerIndex] : undefined;
+    } catch (e) {
+      const tx = SolanaTransaction.from(bytes);
+      signedMessage = tx.serializeMessage();
+      signature = tx.signatures.find(entry => entry.publicKey.equals(owner))?.signature;
+    }
+
+    return (
+      !!signature &&
+      Buffer.from(signedMessage).equals(Buffer.from(message)) &&
+      nacl.sign.detached.verify(signedMessage, signature, owner.toBytes())
+    );
+  }
+
+  public async sendTransaction(
+    network: NetworkName,
+    signedTransaction: SignedTransactionRequest,
+  ): Promise<TransactionReceipt> {
+    if (this.#network.getNetworkType(network) === 'evm') {
+      const provider = this.#network.getProvider(network, 'evm');
+      const tx = await provider.broadcastTransaction(signedTransaction.transaction);
+      return this.#createReceipt(network, tx.hash);
+    }
+
+    const connection = this.#network.getProvider(network, 'solana');
+    const rawTransaction = Buffer.from(signedTransaction.transaction, 'base64');
+    const signature = await connection.sendRawTransaction(rawTransaction, {
+      preflightCommitment: 'confirmed',
+    });
+    return this.#createReceipt(network, signature, signedTransaction.lastValidBlockHeight);
+  }
+
+  public async signAndSendTransaction(
+    network: NetworkName,
+    transaction: TransactionRequest,
+  ): Promise<TransactionReceipt> {
+    const { hash } = await this.#request('signAndSendTransaction', network, {
+      transaction: encodeTransactionRequest(transaction),
+    });
+    return this.#createReceipt(network, hash, transaction.lastValidBlockHeight);
+  }
+
+  #createReceipt(
+    network: NetworkName,
+    hash: string,
+    lastValidBlockHeight?: number,
+  ): TransactionReceipt {
+    return {
+      hash,
+      wait: async () => {
+        if (this.#network.getNetworkType(network) === 'evm') {
+          const provider = this.#network.getProvider(network, 'evm');
+          const receipt = await provider.waitForTransaction(hash);
+          if (!receipt || receipt.status !== 1) throw new Error('Transaction failed');
+          if (receipt.from.toLowerCase() !== (await this.getAddress(network)).toLowerCase()) {
+            throw new Error(`Transaction ${hash} was not sent by this wallet`);
+          }
+        } else {
+          const connection = this.#network.getProvider(network, 'solana');
+          await confirmSolanaTransaction(
+            connection,
+            hash,
+            lastValidBlockHeight ?? (await connection.getLatestBlockhash()).lastValidBlockHeight,
+          );
+        }
+        return {
+          hash,
+          wait: async () => ({
+            hash,
+            wait: async () => {
+              throw new Error('Already waited');
+            },
+          }),
+        };
+      },
+    };
+  }
+
+  public async simulateTransaction(
+    network: NetworkName,
+    transaction: TransactionRequest,
+  ): Promise<SimulationResult> {
+    const networkType = this.#network.getNetworkType(network);
+    const address = await this.getAddress(network);
+
+    if (networkType === 'evm') {
+      const provider = this.#network.getProvider(network, 'evm');
+      return simulateEvmTransaction(provider, network, address, transaction);
+    } else {
+      const connection = this.#network.getProvider(network, 'solana');
+      return simulateSolanaTransaction(connection, network, address, transaction);
+    }
+  }
+
+  public async simulateTransactions(
+    network: NetworkName,
+    transactions: TransactionRequest[],
+  ): Promise<SimulationResult[]> {
+    const networkType = this.#network.getNetworkType(network);
+    const address = await this.getAddress(network);
+
+    if (networkType === 'evm') {
+      const provider = this.#network.getProvider(network, 'evm');
+      return simulateEvmTransactions(provider, network, address, transactions);
+    } else {
+      const connection = this.#network.getProvider(network, 'solana');
+      return simulateSolanaTransactions(connection, network, address, transactions);
+    }
+  }
+
+  public async estimateFees(
+    network: NetworkName,
+    transaction: TransactionRequest,
+  ): Promise<FeeEstimate> {
+    const networkType = this.#network.getNetworkType(network);
+    const address = await this.getAddress(network);
+
+    if (networkType === 'evm') {
+      const provider = this.#network.getProvider(network, 'evm');
+      return estimateEvmFees(provider, network, address, transaction);
+    } else {
+      const connection = this.#network.getProvider(network, 'solana');
+      return estimateSolanaFees(connection, network, address, transaction);
+    }
+  }
+}
@@ -0,0 +1,313 @@
+import { ethers } from 'ethers';
+import { NetworkName } from '../network/types';
+import {
+  IPendingTransactionManager,
+  IWallet,
+  PendingTransaction,
+  TransactionRequest,
+} from './types';
+import { EvmFeeQuote } from './gas';
+
+const DEFAULT_FEE_BUMP_PERCENT = 20;
+const DEFAULT_POLLING_INTERVAL = 4000;
+export const DEFAULT_RECEIPT_TIMEOUT = 10 * 60 * 1000;
+/** Consecutive polls a transaction must be unknown to the node before it counts as dropped */
+const DROPPED_POLLS = 2;
+/** Settled waits kept so repeated waits on a nonce share the result */
+const MAX_SETTLED_RECEIPTS = 100;
+
+function bump(value: bigint, percent: number): bigint {
+  return (value * BigInt(100 + percent) + BigInt(99)) / BigInt(100);
+}
+
+function max(a: bigint, b?: bigint | null): bigint {
+  return b != null && b > a ? b : a;
+}
+
+/**
+ * Serializes EVM submissions of one account on one network.
+ * Nonces are assigned locally so consecutive transactions never collide, and
+ * broadcast transactions are tracked until mined so they can be sped up or cancelled.
+ */
+export class EvmTransactionQueue {
+  readonly #network: NetworkName;
+  readonly #signer: ethers.Wallet | ethers.HDNodeWallet;
+  readonly #pollingInterval: number;
+  readonly #timeout: number;
+  readonly #pending = new Map<number, PendingTransaction>();
+  readonly #receipts = new Map<number, Promise<ethers.TransactionReceipt>>();
+  readonly #settled: number[] = [];
+  /** Hashes of the replacements sent by cancel, and their speed ups */
+  readonly #cancelHashes = new Set<string>();
+  #lock: Promise<void> = Promise.resolve();
+  #nextNonce?: number;
+
+  constructor(
+    network: NetworkName,
+    signer: ethers.Wallet | ethers.HDNodeWallet,
+    pollingInterval: number = DEFAULT_POLLING_INTERVAL,
+    timeout: number = DEFAULT_RECEIPT_TIMEOUT,
+  ) {
+    if (!signer.provider) {
+      throw new Error('Transaction queue signer must be connected to a provider');
+    }
+    this.#network = network;
+    this.#signer = signer;
+    this.#pollingInterval = pollingInterval;
+    this.#timeout = timeout;
+  }
+
+  get #provider(): ethers.Provider {
+    return this.#signer.provider!;
+  }
+
+  #runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.#lock.then(task);
+    this.#lock = run.then(
+      () => undefined,
+      () => undefined,
+    );
+    return run;
+  }
+
+  async #reserveNonce(): Promise<number> {
+    const chainNonce = await this.#provider.getTransactionCount(this.#signer.address, 'pending');
+    return Math.max(chainNonce, this.#nextNonce ?? 0);
+  }
+
+  async #broadcast(tx: ethers.TransactionRequest): Promise<ethers.TransactionResponse> {
+    const signedTx = await this.#signer.signTransaction(tx);
+    return await this.#provider.broadcastTransaction(signedTx);
+  }
+
+  #track(nonce: number, tx: ethers.TransactionLike, hash: string, previous?: PendingTransaction) {
+    const pending: PendingTransaction = {
+      network: this.#network,
+      from: this.#signer.address,
+      nonce,
+      hash,
+      replacedHashes: previous ? [...previous.replacedHashes, previous.hash] : [],
+      to: tx.to ?? '',
+      data: tx.data ?? '0x',
+      value: (tx.value ?? BigInt(0)).toString(),
+      gasLimit: tx.gasLimit?.toString(),
+      gasPrice: tx.gasPrice?.toString(),
+      maxFeePerGas: tx.maxFeePerGas?.toString(),
+      maxPriorityFeePerGas: tx.maxPriorityFeePerGas?.toString(),
+      cancelled: previous?.cancelled ?? false,
+      submittedAt: previous?.submittedAt ?? Date.now(),
+    };
+    if (pending.cancelled) {
+      this.#cancelHashes.add(hash);
+    }
+    this.#pending.set(nonce, pending);
+    return pending;
+  }
+
+  /**
+   * Assign the next nonce, sign and broadcast without waiting for the transaction to be mined
+   * @param fees Gas limit and fees resolved from the gas strategy, ethers picks them when omitted
+   */
+  send(transaction: TransactionRequest, fees?: EvmFeeQuote): Promise<PendingTransaction> {
+    return this.#runExclusive(async () => {
+      const nonce = await this.#reserveNonce();
+      try {
+        const tx = await this.#signer.populateTransaction({
+          to: transaction.to,
+          data: transaction.data,
+          value: transaction.value,
+          gasLimit: fees?.gasLimit ?? transaction.gasLimit,
+          type: fees?.type,
+          gasPrice: fees?.gasPrice,
+          maxFeePerGas: fees?.maxFeePerGas,
+          maxPriorityFeePerGas: fees?.maxPriorityFeePerGas,
+          nonce,
+        });
+        const response = await this.#broadcast(tx);
+        this.#nextNonce = nonce + 1;
+        return this.#track(nonce, tx, response.hash);
+      } catch (error) {
+        // Resync with the chain on the next submission
+        this.#nextNonce = undefined;
+        throw error;
+      }
+    });
+  }
+
+  async #replace(
+    nonce: number,
+    feeBumpPercent: number,
+    override?: Pick<ethers.TransactionRequest, 'to' | 'data' | 'value' | 'gasLimit'>,
+  ): Promise<PendingTransaction> {
+    const pending = this.#pending.get(nonce);
+    if (!pending) {
+      throw new Error(`No pending transaction with nonce ${nonce} on ${this.#network}`);
+    }
+
+    // Nodes only accept a replacement paying at least ~10% more, and never less than the market
+    const feeData = await this.#provider.getFeeData();
+    const fees: ethers.TransactionRequest = pending.maxFeePerGas
+      ? {
+          maxFeePerGas: max(
+            bump(BigInt(pending.maxFeePerGas), feeBumpPercent),
+            feeData.maxFeePerGas,
+          ),
+          maxPriorityFeePerGas: max(
+            bump(BigInt(pending.maxPriorityFeePerGas ?? 0), feeBumpPercent),
+            feeData.maxPriorityFeePerGas,
+          ),
+        }
+      : {
+          gasPrice: max(bump(BigInt(pending.gasPrice ?? 0), feeBumpPercent), feeData.gasPrice),
+        };
+
+    const tx = await this.#signer.populateTransaction({
+      to: pending.to,
+      data: pending.data,
+      value: BigInt(pending.value),
+      gasLimit: pending.gasLimit ? BigInt(pending.gasLimit) : undefined,
+      ...override,
+      ...fees,
+      nonce,
+    });
+    const response = await this.#broadcast(tx);
+    return this.#track(nonce, tx, response.hash, pending);
+  }
+
+  /**
+   * Rebroadcast a pending transaction with higher fees
+   */
+  speedUp(
+    nonce: number,
+    feeBumpPercent: number = DEFAULT_FEE_BUMP_PERCENT,
+  ): Promise<PendingTransaction> {
+    return this.#runExclusive(() => this.#replace(nonce, feeBumpPercent));
+  }
+
+  /**
+   * Replace a pending transaction with an empty transfer to self using the same nonce
+   */
+  cancel(
+    nonce: number,
+    feeBumpPercent: number = DEFAULT_FEE_BUMP_PERCENT,
+  ): Promise<PendingTransaction> {
+    return this.#runExclusive(async () => {
+      const replacement = await this.#replace(nonce, feeBumpPercent, {
+        to: this.#signer.address,
+        data: '0x',
+        value: BigInt(0),
+        gasLimit: BigInt(21000),
+      });
+      replacement.cancelled = true;
+      this.#cancelHashes.add(replacement.hash);
+      return replacement;
+    });
+  }
+
+  async #findReceipt(pending: PendingTransaction): Promise<ethers.TransactionReceipt | null> {
+    for (const hash of [pending.hash, ...pending.replacedHashes]) {
+      const receipt = await this.#provider.getTransactionReceipt(hash);
+      if (receipt) return receipt;
+    }
+    return null;
+  }
+
+  async #isKnown(pending: PendingTransaction): Promise<boolean> {
+    for (const hash of [pending.hash, ...pending.replacedHashes]) {
+      if (await this.#provider.getTransaction(hash)) return true;
+    }
+    return false;
+  }
+
+  #forget(nonce: number, pending: PendingTransaction) {
+    this.#pending.delete(nonce);
+    [pending.hash, ...pending.replacedHashes].forEach(hash => this.#cancelHashes.delete(hash));
+  }
+
+  /**
+   * Wait until any version of the transaction with this nonce is mined
+   * @throws When the transaction failed, was cancelled, was replaced outside of the queue or
+   * was dropped, or when it is still pending after the timeout
+   */
+  wait(nonce: number): Promise<ethers.TransactionReceipt> {
+    // Concurrent and repeated waits share the same result
+    let receipt = this.#receipts.get(nonce);
+    if (!receipt) {
+      receipt = this.#waitForReceipt(nonce);
+      this.#receipts.set(nonce, receipt);
+      const settle = () => this.#settle(nonce);
+      receipt.then(settle, settle);
+    }
+    return receipt;
+  }
+
+  #settle(nonce: number) {
+    this.#settled.push(nonce);
+    while (this.#settled.length > MAX_SETTLED_RECEIPTS) {
+      this.#receipts.delete(this.#settled.shift()!);
+    }
+  }
+
+  async #waitForReceipt(nonce: number): Promise<ethers.TransactionReceipt> {
+    const deadline = Date.now() + this.#timeout;
+    let unknownPolls = 0;
+    for (;;) {
+      const pending = this.#pending.get(nonce);
+      if (!pending) {
+        throw new Error(`No pending transaction with nonce ${nonce} on ${this.#network}`);
+      }
+
+      const minedNonce = await this.#provider.getTransactionCount(this.#signer.address, 'latest');
+      const receipt = await this.#findReceipt(pending);
+      if (receipt) {
+        const cancelled = this.#cancelHashes.has(receipt.hash);
+        this.#forget(nonce, pending);
+        if (cancelled) {
+          throw new Error(`Transaction with nonce ${nonce} was cancelled`);
+        }
+        if (receipt.status === 0) throw new Error('Transaction failed');
+        return receipt;
+      }
+      if (minedNonce > nonce) {
+        // The nonce was consumed by a transaction sent outside of this queue
+        this.#forget(nonce, pending);
+        throw new Error(`Transaction with nonce ${nonce} was replaced`);
+      }
+
+      unknownPolls = (await this.#isKnown(pending)) ? 0 : unknownPolls + 1;
+      if (unknownPolls >= DROPPED_POLLS) {
+        const pendingNonce = await this.#provider.getTransactionCount(
+          this.#signer.address,
+          'pending',
+        );
+        if (pendingNonce <= nonce) {
+          // Evicted from the mempool, the nonce is free again and the next submission reuses it
+          this.#forget(nonce, pending);
+          this.#nextNonce = undefined;
+          throw new Error(`Transaction with nonce ${nonce} was dropped`);
+        }
+      }
+
+      if (Date.now() >= deadline) {
+        // Still tracked, so it can be sped up or cancelled and waited on again
+        this.#receipts.delete(nonce);
+        throw new Error(
+          `Transaction with nonce ${nonce} is still pending after ${this.#timeout}ms`,
+        );
+      }
+      await new Promise(resolve => setTimeout(resolve, this.#pollingInterval));
+    }
+  }
+
+  getPendingTransactions(): PendingTransaction[] {
+    return Array.from(this.#pending.values()).sort((a, b) => a.nonce - b.nonce);
+  }
+}
+
+export function isPendingTransactionManager(
+  wallet: IWallet,
+): wallet is IWallet & IPendingTransactionManager {
+  return (
+    typeof (wallet as Partial<IPendingTransactionManager>).getPendingTransactions === 'function'
+  );
+}
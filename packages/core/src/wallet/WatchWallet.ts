@@ -0,0 +1,143 @@
+import { Network } from '../network';
+import { NetworkName } from '../network/types';
+import {
+  FeeEstimate,
+  IWallet,
+  SignedTransactionRequest,
+  SignMessageParams,
+  SignTransactionParams,
+  SimulationResult,
+  TransactionReceipt,
+  TransactionRequest,
+  TypedDataDomain,
+  TypedDataTypes,
+  WatchWalletConfig,
+} from './types';
+import {
+  simulateEvmTransaction,
+  simulateEvmTransactions,
+  simulateSolanaTransaction,
+  simulateSolanaTransactions,
+} from './simulation';
+import { estimateEvmFees, estimateSolanaFees } from './gas';
+
+/**
+ * Read-only wallet for an arbitrary address, it can quote, simulate and estimate but never signs
+ */
+export class WatchWallet implements IWallet {
+  readonly #network: Network;
+  readonly #config: WatchWalletConfig;
+
+  constructor(config: WatchWalletConfig, network: Network) {
+    if (!config.evmAddress && !config.solanaAddress) {
+      throw new Error('At least one of evmAddress or solanaAddress is required');
+    }
+    this.#network = network;
+    this.#config = config;
+  }
+
+  public async getAddress(network: NetworkName): Promise<string> {
+    const networkType = this.#network.getNetworkType(network);
+    const address = networkType === 'evm' ? this.#config.evmAddress : this.#config.solanaAddress;
+
+    if (!address) {
+      throw new Error(`No ${networkType} address configured for this watch-only wallet`);
+    }
+    return address;
+  }
+
+  public async getPublicKey(network: NetworkName): Promise<string> {
+    if (this.#network.getNetworkType(network) === 'evm') {
+      throw new Error('The public key of a watch-only EVM address is unknown');
+    }
+    // Solana addresses are public keys
+    return this.getAddress(network);
+  }
+
+  public async getPrivateKey(network: NetworkName): Promise<string> {
+    throw this.#readOnlyError();
+  }
+
+  public async signMessage(params: SignMessageParams): Promise<string> {
+    throw this.#readOnlyError();
+  }
+
+  public async signTypedData(
+    network: NetworkName,
+    domain: TypedDataDomain,
+    types: TypedDataTypes,
+    value: Record<string, any>,
+  ): Promise<string> {
+    throw this.#readOnlyError();
+  }
+
+  public async signTransaction(params: SignTransactionParams): Promise<string> {
+    throw this.#readOnlyError();
+  }
+
+  public async sendTransaction(
+    network: NetworkName,
+    signedTransaction: SignedTransactionRequest,
+  ): Promise<TransactionReceipt> {
+    throw this.#readOnlyError();
+  }
+
+  public async signAndSendTransaction(
+    network: NetworkName,
+    transaction: TransactionRequest,
+  ): Promise<TransactionReceipt> {
+    throw this.#readOnlyError();
+  }
+
+  public async simulateTransaction(
+    network: NetworkName,
+    transaction: TransactionRequest,
+  ): Promise<SimulationResult> {
+    const networkType = this.#network.getNetworkType(network);
+    const address = await this.getAddress(network);
+
+    if (networkType === 'evm') {
+      const provider = this.#network.getProvider(network, 'evm');
+      return simulateEvmTransaction(provider, network, address, transaction);
+    } else {
+      const connection = this.#network.getProvider(network, 'solana');
+      return simulateSolanaTransaction(connection, network, address, transaction);
+    }
+  }
+
+  public async simulateTransactions(
+    network: NetworkName,
+    transactions: TransactionRequest[],
+  ): Promise<SimulationResult[]> {
+    const networkType = this.#network.getNetworkType(network);
+    const address = await this.getAddress(network);
+
+    if (networkType === 'evm') {
+      const provider = this.#network.getProvider(network, 'evm');
+      return simulateEvmTransactions(provider, network, address, transactions);
+    } else {
+      const connection = this.#network.getProvider(network, 'solana');
+      return simulateSolanaTransactions(connection, network, address, transactions);
+    }
+  }
+
+  public async estimateFees(
+    network: NetworkName,
+    transaction: TransactionRequest,
+  ): Promise<FeeEstimate> {
+    const networkType = this.#network.getNetworkType(network);
+    const address = await this.getAddress(network);
+
+    if (networkType === 'evm') {
+      const provider = this.#network.getProvider(network, 'evm');
+      return estimateEvmFees(provider, network, address, transaction);
+    } else {
+      const connection = this.#network.getProvider(network, 'solana');
+      return estimateSolanaFees(connection, network, address, transaction);
+    }
+  }
+
+  #readOnlyError(): Error {
+    return new Error('This is a watch-only wallet, it cannot sign or send transactions');
+  }
+}
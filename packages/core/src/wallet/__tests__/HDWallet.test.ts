@@ -0,0 +1,75 @@
+import { ethers } from 'ethers';
+import { Network } from '../../network';
+import { NetworkName, NetworksConfig, NetworkType } from '../../network/types';
+import { HDWallet, isMultiAccountWallet } from '../HDWallet';
+import { Wallet } from '../Wallet';
+import { runInWalletThread } from '../threadContext';
+
+describe('HDWallet', () => {
+  const seedPhrase = 'test test test test test test test test test test test junk';
+  const networkConfig: NetworksConfig = {
+    networks: {
+      bnb: {
+        type: 'evm' as NetworkType,
+        config: {
+          rpcUrl: 'https://bsc-dataseed1.binance.org',
+          chainId: 56,
+          name: 'BNB Chain',
+          nativeCurrency: { name: 'BNB', symbol: 'BNB', decimals: 18 },
+        },
+      },
+      solana: {
+        type: 'solana' as NetworkType,
+        config: {
+          rpcUrl: 'https://api.mainnet-beta.solana.com',
+          name: 'Solana',
+          nativeCurrency: { name: 'Solana', symbol: 'SOL', decimals: 9 },
+        },
+      },
+    },
+  };
+
+  let network: Network;
+
+  beforeEach(() => {
+    network = new Network(networkConfig);
+  });
+
+  it('should derive accounts on both EVM and Solana', async () => {
+    const wallet = new HDWallet({ seedPhrase, accounts: 2 }, network);
+    const single = new Wallet({ seedPhrase }, network);
+
+    const accounts = wallet.getAccounts();
+    expect(accounts.map(account => account.index)).toEqual([0, 1]);
+    expect(accounts[0].evmAddress).toBe(await single.getAddress(NetworkName.BNB));
+    expect(accounts[0].solanaAddress).toBe(await single.getAddress(NetworkName.SOLANA));
+    expect(accounts[1].evmAddress).toBe(
+      ethers.HDNodeWallet.fromPhrase(seedPhrase, undefined, "m/44'/60'/0'/0/1").address,
+    );
+    expect(new Set(accounts.map(account => account.solanaAddress)).size).toBe(2);
+
+    expect(wallet.addAccount().index).toBe(2);
+    expect(isMultiAccountWallet(wallet)).toBe(true);
+    expect(isMultiAccountWallet(single)).toBe(false);
+  });
+
+  it('should keep the active account per thread', async () => {
+    const wallet = new HDWallet({ seedPhrase, accounts: 3 }, network);
+    const [first, second, third] = wallet.getAccounts();
+
+    await runInWalletThread('thread-a', async () => {
+      wallet.setActiveAccount(1);
+    });
+    wallet.setActiveAccount(2, 'thread-b');
+
+    await runInWalletThread('thread-a', async () => {
+      expect(await wallet.getAddress(NetworkName.BNB)).toBe(second.evmAddress);
+      expect(await wallet.getAddress(NetworkName.SOLANA)).toBe(second.solanaAddress);
+    });
+    await runInWalletThread('thread-b', async () => {
+      expect(wallet.getActiveAccount().index).toBe(third.index);
+    });
+    expect(await wallet.getAddress(NetworkName.BNB)).toBe(first.evmAddress);
+    expect(() => wallet.setActiveAccount(3)).toThrow('Account 3 does not exist');
+  });
+});
@@ -0,0 +1,112 @@
+import { ethers } from 'ethers';
+import { Keypair } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { Network } from '../../network';
+import { NetworkName, NetworksConfig, NetworkType } from '../../network/types';
+import { PrivateKeyWallet } from '../PrivateKeyWallet';
+import { KeystoreWallet, encryptKeystore } from '../KeystoreWallet';
+import { WatchWallet } from '../WatchWallet';
+
+describe('PrivateKeyWallet', () => {
+  const networkConfig: NetworksConfig = {
+    networks: {
+      bnb: {
+        type: 'evm' as NetworkType,
+        config: {
+          rpcUrl: 'https://bsc-dataseed1.binance.org',
+          chainId: 56,
+          name: 'BNB Chain',
+          nativeCurrency: { name: 'BNB', symbol: 'BNB', decimals: 18 },
+        },
+      },
+      solana: {
+        type: 'solana' as NetworkType,
+        config: {
+          rpcUrl: 'https://api.mainnet-beta.solana.com',
+          name: 'Solana',
+          nativeCurrency: { name: 'Solana', symbol: 'SOL', decimals: 9 },
+        },
+      },
+    },
+  };
+
+  const evmWallet = ethers.Wallet.createRandom();
+  const solanaKeypair = Keypair.generate();
+  let network: Network;
+
+  beforeEach(() => {
+    network = new Network(networkConfig);
+  });
+
+  it('should load EVM and Solana private keys', async () => {
+    const wallet = new PrivateKeyWallet(
+      {
+        evmPrivateKey: evmWallet.privateKey,
+        solanaPrivateKey: JSON.stringify(Array.from(solanaKeypair.secretKey)),
+      },
+      network,
+    );
+
+    expect(await wallet.getAddress(NetworkName.BNB)).toBe(evmWallet.address);
+    expect(await wallet.getAddress(NetworkName.SOLANA)).toBe(solanaKeypair.publicKey.toBase58());
+    expect(await wallet.getPublicKey(NetworkName.BNB)).toBe(evmWallet.publicKey);
+    expect(await wallet.signMessage({ network: NetworkName.BNB, message: 'hello' })).toBe(
+      await evmWallet.signMessage('hello'),
+    );
+  });
+
+  it('should reject networks without a key', async () => {
+    const wallet = new PrivateKeyWallet({ evmPrivateKey: evmWallet.privateKey }, network);
+
+    await expect(wallet.getAddress(NetworkName.SOLANA)).rejects.toThrow(
+      'No Solana private key configured',
+    );
+    expect(() => new PrivateKeyWallet({}, network)).toThrow();
+  });
+
+  it('should decrypt keystores with the password', async () => {
+    const options = { scrypt: { N: 1024 } };
+    const wallet = await KeystoreWallet.load(
+      {
+        evmKeystore: await encryptKeystore(evmWallet.privateKey, 'secret', 'evm', options),
+        solanaKeystore: await encryptKeystore(
+          bs58.encode(solanaKeypair.secretKey),
+          'secret',
+          'solana',
+          options,
+        ),
+      },
+      network,
+      'secret',
+    );
+
+    expect(await wallet.getAddress(NetworkName.BNB)).toBe(evmWallet.address);
+    expect(await wallet.getPrivateKey(NetworkName.SOLANA)).toBe(
+      bs58.encode(solanaKeypair.secretKey),
+    );
+    await expect(
+      KeystoreWallet.load(
+        { evmKeystore: await encryptKeystore(evmWallet.privateKey, 'secret', 'evm', options) },
+        network,
+        'wrong',
+      ),
+    ).rejects.toThrow();
+  });
+
+  it('should refuse to sign with a watch-only wallet', async () => {
+    const wallet = new WatchWallet({ evmAddress: evmWallet.address }, network);
+
+    expect(await wallet.getAddress(NetworkName.BNB)).toBe(evmWallet.address);
+    await expect(wallet.getAddress(NetworkName.SOLANA)).rejects.toThrow();
+    await expect(
+      wallet.signMessage({ network: NetworkName.BNB, message: 'hello' }),
+    ).rejects.toThrow('watch-only');
+    await expect(
+      wallet.signAndSendTransaction(NetworkName.BNB, {
+        to: evmWallet.address,
+        data: '0x',
+        value: BigInt(0),
+      }),
+    ).rejects.toThrow('watch-only');
+  });
+});
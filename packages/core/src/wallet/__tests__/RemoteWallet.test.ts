@@ -0,0 +1,174 @@
+import { ethers, Transaction as EvmTransaction } from 'ethers';
+import {
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction as SolanaTransaction,
+} from '@solana/web3.js';
+import bs58 from 'bs58';
+import nacl from 'tweetnacl';
+import { Network } from '../../network';
+import { NetworkName, NetworksConfig, NetworkType } from '../../network/types';
+import { Wallet } from '../Wallet';
+import { RemoteWallet } from '../RemoteWallet';
+import { RemoteSignerServer } from '../RemoteSignerServer';
+import { REMOTE_SIGNER_PROTOCOL_VERSION } from '../remoteSigner';
+
+describe('RemoteWallet', () => {
+  const seedPhrase = 'test test test test test test test test test test test junk';
+  const attestationKey = ethers.Wallet.createRandom();
+  const networkConfig: NetworksConfig = {
+    networks: {
+      bnb: {
+        type: 'evm' as NetworkType,
+        config: {
+          rpcUrl: 'https://bsc-dataseed1.binance.org',
+          chainId: 56,
+          name: 'BNB Chain',
+          nativeCurrency: { name: 'BNB', symbol: 'BNB', decimals: 18 },
+        },
+      },
+      solana: {
+        type: 'solana' as NetworkType,
+        config: {
+          rpcUrl: 'https://api.mainnet-beta.solana.com',
+          name: 'Solana',
+          nativeCurrency: { name: 'Solana', symbol: 'SOL', decimals: 9 },
+        },
+      },
+    },
+  };
+
+  const network = new Network(networkConfig);
+  const localWallet = new Wallet({ seedPhrase }, network);
+  const server = new RemoteSignerServer(localWallet, {
+    apiKey: 'secret',
+    attestationKey: attestationKey.privateKey,
+  });
+  let url: string;
+
+  beforeAll(async () => {
+    const { port } = await server.listen();
+    url = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  const createWallet = (config: Partial<ConstructorParameters<typeof RemoteWallet>[0]> = {}) =>
+    new RemoteWallet(
+      { url, apiKey: 'secret', attestationAddress: attestationKey.address, ...config },
+      network,
+    );
+
+  it('should sign EVM messages and transactions remotely', async () => {
+    const wallet = createWallet();
+    const address = await wallet.getAddress(NetworkName.BNB);
+    expect(address).toBe(await localWallet.getAddress(NetworkName.BNB));
+
+    const signature = await wallet.signMessage({ network: NetworkName.BNB, message: 'hello' });
+    expect(ethers.verifyMessage('hello', signature)).toBe(address);
+
+    const transaction = EvmTransaction.from({
+      to: address,
+      value: BigInt(1),
+      nonce: 0,
+      gasLimit: BigInt(21000),
+      gasPrice: BigInt(1000000000),
+      chainId: 56,
+    });
+    const signed = EvmTransaction.from(
+      await wallet.signTransaction({ network: NetworkName.BNB, transaction }),
+    );
+    expect(signed.from).toBe(address);
+    expect(signed.unsignedSerialized).toBe(transaction.unsignedSerialized);
+
+    const types = { Login: [{ name: 'nonce', type: 'uint256' }] };
+    const typedSignature = await wallet.signTypedData(
+      NetworkName.BNB,
+      { name: 'Login', chainId: 56 },
+      types,
+      { nonce: BigInt(7) },
+    );
+    expect(
+      ethers.verifyTypedData({ name: 'Login', chainId: 56 }, types, { nonce: 7 }, typedSignature),
+    ).toBe(address);
+  });
+
+  it('should sign Solana messages and transactions remotely', async () => {
+    const wallet = createWallet();
+    const address = await wallet.getAddress(NetworkName.SOLANA);
+    const owner = new PublicKey(address);
+
+    const signature = await wallet.signMessage({ network: NetworkName.SOLANA, message: 'hello' });
+    expect(
+      nacl.sign.detached.verify(
+        new TextEncoder().encode('hello'),
+        bs58.decode(signature),
+        owner.toBytes(),
+      ),
+    ).toBe(true);
+
+    const transaction = new SolanaTransaction({
+      feePayer: owner,
+      recentBlockhash: Keypair.generate().publicKey.toBase58(),
+    }).add(
+      SystemProgram.transfer({
+        fromPubkey: owner,
+        toPubkey: Keypair.generate().publicKey,
+        lamports: 1,
+      }),
+    );
+    const signed = SolanaTransaction.from(
+      Buffer.from(
+        await wallet.signTransaction({ network: NetworkName.SOLANA, transaction }),
+        'base64',
+      ),
+    );
+    expect(signed.verifySignatures()).toBe(true);
+  });
+
+  it('should reject unauthorized and unattested responses', async () => {
+    await expect(createWallet({ apiKey: 'wrong' }).getAddress(NetworkName.BNB)).rejects.toThrow(
+      'Unauthorized',
+    );
+    await expect(
+      createWallet({ attestationAddress: ethers.Wallet.createRandom().address }).getAddress(
+        NetworkName.BNB,
+      ),
+    ).rejects.toThrow('invalid attestation');
+    await expect(createWallet().getPrivateKey(NetworkName.BNB)).rejects.toThrow();
+  });
+
+  it('should answer bodies that are not JSON objects with a bad request', async () => {
+    for (const body of ['null', '42', '[]']) {
+      const response = await fetch(`${url}/${REMOTE_SIGNER_PROTOCOL_VERSION}/getAddress`, {
+        method: 'POST',
+        headers: { authorization: 'Bearer secret', 'content-type': 'application/json' },
+        body,
+      });
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        id: '',
+        error: 'Request body must be a JSON object',
+      });
+    }
+  });
+
+  it('should time out when the signer does not answer', async () => {
+    const slowServer = new RemoteSignerServer({
+      ...localWallet,
+      getAddress: () => new Promise<string>(resolve => setTimeout(() => resolve(''), 1000)),
+    } as unknown as Wallet);
+    const { port } = await slowServer.listen();
+
+    try {
+      const wallet = new RemoteWallet({ url: `http://127.0.0.1:${port}`, timeout: 50 }, network);
+      await expect(wallet.getAddress(NetworkName.BNB)).rejects.toThrow('in time');
+    } finally {
+      await slowServer.close();
+    }
+  });
+});
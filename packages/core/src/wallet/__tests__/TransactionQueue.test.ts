@@ -0,0 +1,156 @@
+import { ethers } from 'ethers';
+import { NetworkName } from '../../network/types';
+import { EvmTransactionQueue } from '../TransactionQueue';
+
+describe('EvmTransactionQueue', () => {
+  const seedPhrase = 'test test test test test test test test test test test junk';
+  const to = '0x0000000000000000000000000000000000000001';
+
+  const createProvider = (chainNonce = 5) => {
+    const receipts = new Map<string, { hash: string; status: number }>();
+    // Hashes known to the node, until mined or dropped
+    const mempool = new Set<string>();
+    const provider = {
+      getNetwork: jest.fn().mockResolvedValue(new ethers.Network('test', 1)),
+      getTransactionCount: jest.fn().mockResolvedValue(chainNonce),
+      getFeeData: jest.fn().mockResolvedValue(new ethers.FeeData(null, BigInt(100), BigInt(10))),
+      estimateGas: jest.fn().mockResolvedValue(BigInt(21000)),
+      broadcastTransaction: jest.fn().mockImplementation(async (signedTx: string) => {
+        const hash = ethers.Transaction.from(signedTx).hash!;
+        mempool.add(hash);
+        return { hash };
+      }),
+      getTransaction: jest
+        .fn()
+        .mockImplementation(async (hash: string) => (mempool.has(hash) ? { hash } : null)),
+      getTransactionReceipt: jest
+        .fn()
+        .mockImplementation(async (hash: string) => receipts.get(hash) ?? null),
+      receipts,
+      mempool,
+    };
+    return provider;
+  };
+
+  const createQueue = (provider: ReturnType<typeof createProvider>, timeout?: number) =>
+    new EvmTransactionQueue(
+      NetworkName.BNB,
+      ethers.Wallet.fromPhrase(seedPhrase).connect(provider as unknown as ethers.Provider),
+      1,
+      timeout,
+    );
+
+  it('should assign consecutive nonces to concurrent submissions', async () => {
+    const provider = createProvider();
+    const queue = createQueue(provider);
+
+    const sent = await Promise.all([
+      queue.send({ to, data: '0x', value: BigInt(1) }),
+      queue.send({ to, data: '0x', value: BigInt(2) }),
+      queue.send({ to, data: '0x', value: BigInt(3) }),
+    ]);
+
+    expect(sent.map(tx => tx.nonce)).toEqual([5, 6, 7]);
+    expect(queue.getPendingTransactions().map(tx => tx.value)).toEqual(['1', '2', '3']);
+  });
+
+  it('should resync the nonce after a failed broadcast', async () => {
+    const provider = createProvider();
+    const queue = createQueue(provider);
+    provider.broadcastTransaction.mockRejectedValueOnce(new Error('nonce too low'));
+    provider.getTransactionCount.mockResolvedValueOnce(5).mockResolvedValueOnce(9);
+
+    await expect(queue.send({ to, data: '0x', value: BigInt(1) })).rejects.toThrow('nonce too low');
+    await expect(queue.send({ to, data: '0x', value: BigInt(1) })).resolves.toMatchObject({
+      nonce: 9,
+    });
+  });
+
+  it('should replace a pending transaction with higher fees', async () => {
+    const provider = createProvider();
+    const queue = createQueue(provider);
+
+    const original = await queue.send({ to, data: '0x', value: BigInt(1) });
+    const replacement = await queue.speedUp(original.nonce, 20);
+
+    expect(replacement.nonce).toBe(original.nonce);
+    expect(replacement.replacedHashes).toEqual([original.hash]);
+    expect(BigInt(replacement.maxFeePerGas!)).toBe(BigInt(120));
+    expect(BigInt(replacement.maxPriorityFeePerGas!)).toBe(BigInt(12));
+    expect(queue.getPendingTransactions()).toHaveLength(1);
+
+    const cancellation = await queue.cancel(original.nonce);
+    expect(cancellation.cancelled).toBe(true);
+    expect(cancellation.to).toBe(ethers.Wallet.fromPhrase(seedPhrase).address);
+    expect(cancellation.value).toBe('0');
+  });
+
+  it('should resolve waits with the receipt of whichever version was mined', async () => {
+    const provider = createProvider();
+    const queue = createQueue(provider);
+
+    const original = await queue.send({ to, data: '0x', value: BigInt(1) });
+    await queue.speedUp(original.nonce);
+    provider.receipts.set(original.hash, { hash: original.hash, status: 1 });
+
+    await expect(queue.wait(original.nonce)).resolves.toMatchObject({ hash: original.hash });
+    expect(queue.getPendingTransactions()).toEqual([]);
+  });
+
+  it('should reject waits when the cancellation was mined', async () => {
+    const provider = createProvider();
+    const queue = createQueue(provider);
+
+    const original = await queue.send({ to, data: '0x', value: BigInt(1) });
+    const cancellation = await queue.cancel(original.nonce);
+    provider.receipts.set(cancellation.hash, { hash: cancellation.hash, status: 1 });
+
+    await expect(queue.wait(original.nonce)).rejects.toThrow(
+      `Transaction with nonce ${original.nonce} was cancelled`,
+    );
+    expect(queue.getPendingTransactions()).toEqual([]);
+  });
+
+  it('should resolve waits when the original won over a cancellation', async () => {
+    const provider = createProvider();
+    const queue = createQueue(provider);
+
+    const original = await queue.send({ to, data: '0x', value: BigInt(1) });
+    const cancellation = await queue.cancel(original.nonce);
+    await queue.speedUp(cancellation.nonce);
+    provider.receipts.set(original.hash, { hash: original.hash, status: 1 });
+
+    await expect(queue.wait(original.nonce)).resolves.toMatchObject({ hash: original.hash });
+  });
+
+  it('should reject waits and reuse the nonce when the transaction was dropped', async () => {
+    const provider = createProvider();
+    const queue = createQueue(provider);
+
+    const original = await queue.send({ to, data: '0x', value: BigInt(1) });
+    provider.mempool.clear();
+
+    await expect(queue.wait(original.nonce)).rejects.toThrow(
+      `Transaction with nonce ${original.nonce} was dropped`,
+    );
+    expect(queue.getPendingTransactions()).toEqual([]);
+    await expect(queue.send({ to, data: '0x', value: BigInt(1) })).resolves.toMatchObject({
+      nonce: original.nonce,
+    });
+  });
+
+  it('should reject waits still pending after the timeout and keep tracking them', async () => {
+    const provider = createProvider();
+    const queue = createQueue(provider, 5);
+
+    const original = await queue.send({ to, data: '0x', value: BigInt(1) });
+
+    await expect(queue.wait(original.nonce)).rejects.toThrow(
+      `Transaction with nonce ${original.nonce} is still pending after 5ms`,
+    );
+    expect(queue.getPendingTransactions()).toHaveLength(1);
+
+    provider.receipts.set(original.hash, { hash: original.hash, status: 1 });
+    await expect(queue.wait(original.nonce)).resolves.toMatchObject({ hash: original.hash });
+  });
+});
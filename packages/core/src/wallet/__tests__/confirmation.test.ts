@@ -0,0 +1,69 @@
+import { confirmSolanaTransaction } from '../confirmation';
+
+describe('confirmSolanaTransaction', () => {
+  const signature = 'signature';
+  const rawTransaction = new Uint8Array([1, 2, 3]);
+
+  const createConnection = (statuses: any[], blockHeights: number[] = [100]) => ({
+    getBlockHeight: jest
+      .fn()
+      .mockImplementation(async () =>
+        blockHeights.length > 1 ? blockHeights.shift() : blockHeights[0],
+      ),
+    getSignatureStatus: jest.fn().mockImplementation(async () => ({
+      value: statuses.length > 1 ? statuses.shift() : statuses[0],
+    })),
+    sendRawTransaction: jest.fn().mockResolvedValue(signature),
+  });
+
+  it('should rebroadcast until the transaction is confirmed', async () => {
+    const connection = createConnection([
+      null,
+      { confirmationStatus: 'processed', err: null },
+      { confirmationStatus: 'confirmed', err: null },
+    ]);
+
+    await confirmSolanaTransaction(connection as any, signature, 150, rawTransaction, {
+      pollingInterval: 1,
+    });
+
+    expect(connection.getSignatureStatus).toHaveBeenCalledTimes(3);
+    expect(connection.sendRawTransaction).toHaveBeenCalledTimes(2);
+    expect(connection.sendRawTransaction).toHaveBeenCalledWith(rawTransaction, {
+      skipPreflight: true,
+      maxRetries: 0,
+    });
+  });
+
+  it('should throw when the transaction fails', async () => {
+    const connection = createConnection([{ confirmationStatus: 'confirmed', err: 'Custom' }]);
+
+    await expect(
+      confirmSolanaTransaction(connection as any, signature, 150, rawTransaction, {
+        pollingInterval: 1,
+      }),
+    ).rejects.toThrow('Transaction failed: "Custom"');
+  });
+
+  it('should throw once the blockhash expires', async () => {
+    const connection = createConnection([null], [149, 150, 151]);
+
+    await expect(
+      confirmSolanaTransaction(connection as any, signature, 150, undefined, {
+        pollingInterval: 1,
+      }),
+    ).rejects.toThrow('expired before it was confirmed');
+    expect(connection.getSignatureStatus).toHaveBeenCalledTimes(3);
+  });
+
+  it('should tolerate transient RPC failures', async () => {
+    const connection = createConnection([{ confirmationStatus: 'finalized', err: null }]);
+    connection.getBlockHeight.mockRejectedValueOnce(new Error('fetch failed'));
+
+    await confirmSolanaTransaction(connection as any, signature, 150, rawTransaction, {
+      pollingInterval: 1,
+    });
+
+    expect(connection.getBlockHeight).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,166 @@
+import { ethers } from 'ethers';
+import {
+  ComputeBudgetProgram,
+  Keypair,
+  SystemProgram,
+  Transaction as SolanaTransaction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { NetworkName } from '../../network/types';
+import {
+  addSolanaComputeBudget,
+  estimateEvmFees,
+  getEvmFeeQuote,
+  getSolanaPriorityFee,
+} from '../gas';
+
+describe('gas', () => {
+  const from = '0x1234567890123456789012345678901234567890';
+  const transaction = {
+    to: '0x0000000000000000000000000000000000000001',
+    data: '0x',
+    value: BigInt(0),
+  };
+
+  const createProvider = (baseFeePerGas: bigint | null) =>
+    ({
+      estimateGas: jest.fn().mockResolvedValue(BigInt(100000)),
+      getFeeData: jest.fn().mockResolvedValue(new ethers.FeeData(BigInt(5), null, BigInt(2))),
+      getBlock: jest.fn().mockResolvedValue({ baseFeePerGas }),
+    }) as unknown as ethers.Provider;
+
+  it('should derive EIP-1559 fees from the speed', async () => {
+    const provider = createProvider(BigInt(10));
+
+    const normal = await getEvmFeeQuote(provider, NetworkName.ETHEREUM, from, transaction);
+    expect(normal).toMatchObject({
+      type: 2,
+      gasLimit: BigInt(100000),
+      maxFeePerGas: BigInt(22),
+      maxPriorityFeePerGas: BigInt(2),
+    });
+
+    const fast = await getEvmFeeQuote(provider, NetworkName.ETHEREUM, from, {
+      ...transaction,
+      gas: { speed: 'fast' },
+    });
+    expect(fast.maxPriorityFeePerGas).toBe(BigInt(4));
+    expect(fast.maxFeePerGas).toBe(BigInt(24));
+  });
+
+  it('should apply fee caps and gas limit buffers', async () => {
+    const provider = createProvider(BigInt(10));
+
+    const quote = await getEvmFeeQuote(provider, NetworkName.ETHEREUM, from, {
+      ...transaction,
+      gas: { maxFeePerGasCap: BigInt(15), gasLimitBufferPercent: 20 },
+    });
+
+    expect(quote.gasLimit).toBe(BigInt(120000));
+    expect(quote.maxFeePerGas).toBe(BigInt(15));
+  });
+
+  it('should use a legacy gas price on BNB', async () => {
+    const provider = createProvider(BigInt(10));
+
+    const estimate = await estimateEvmFees(provider, NetworkName.BNB, from, transaction, {
+      speed: 'fast',
+    });
+
+    expect(estimate).toMatchObject({
+      type: 'legacy',
+      speed: 'fast',
+      gasPrice: '6',
+      estimatedFee: '600000',
+      maxFee: '600000',
+    });
+  });
+
+  it('should estimate the expected and maximum EIP-1559 fee', async () => {
+    const provider = createProvider(BigInt(10));
+
+    const estimate = await estimateEvmFees(provider, NetworkName.ETHEREUM, from, transaction);
+
+    expect(estimate.estimatedFee).toBe('1200000');
+    expect(estimate.maxFee).toBe('2200000');
+  });
+
+  it('should pick Solana priority fees by percentile', async () => {
+    const connection = {
+      getRecentPrioritizationFees: jest
+        .fn()
+        .mockResolvedValue([1, 8, 2, 4].map(prioritizationFee => ({ slot: 1, prioritizationFee }))),
+    };
+
+    await expect(getSolanaPriorityFee(connection as any, 'slow')).resolves.toBe(2);
+    await expect(getSolanaPriorityFee(connection as any, 'normal')).resolves.toBe(4);
+    await expect(getSolanaPriorityFee(connection as any, 'fast')).resolves.toBe(8);
+  });
+
+  describe('Solana compute budget', () => {
+    const payer = Keypair.generate();
+    const transfer = SystemProgram.transfer({
+      fromPubkey: payer.publicKey,
+      toPubkey: Keypair.generate().publicKey,
+      lamports: 1000,
+    });
+    const blockhash = Keypair.generate().publicKey.toBase58();
+
+    const createConnection = () => ({
+      simulateTransaction: jest
+        .fn()
+        .mockResolvedValue({ value: { err: null, unitsConsumed: 700 } }),
+      getRecentPrioritizationFees: jest
+        .fn()
+        .mockResolvedValue([{ slot: 1, prioritizationFee: 5000 }]),
+      getAddressLookupTable: jest.fn(),
+    });
+
+    it('should prepend compute budget instructions to a versioned transaction', async () => {
+      const connection = createConnection();
+      const message = new TransactionMessage({
+        payerKey: payer.publicKey,
+        recentBlockhash: blockhash,
+        instructions: [transfer],
+      }).compileToV0Message();
+
+      const tx = await addSolanaComputeBudget(
+        connection as any,
+        new VersionedTransaction(message),
+        { speed: 'normal', gasLimitBufferPercent: 10 },
+      );
+
+      const instructions = TransactionMessage.decompile(tx.message).instructions;
+      expect(instructions).toHaveLength(3);
+      expect(instructions[0]).toEqual(ComputeBudgetProgram.setComputeUnitLimit({ units: 1100 }));
+      expect(instructions[1]).toEqual(
+        ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 5000 }),
+      );
+      expect(tx.message.version).toBe(0);
+    });
+
+    it('should cap the priority fee and leave existing budgets untouched', async () => {
+      const connection = createConnection();
+      const tx = new SolanaTransaction({
+        feePayer: payer.publicKey,
+        recentBlockhash: blockhash,
+      }).add(transfer);
+
+      await addSolanaComputeBudget(connection as any, tx, {
+        speed: 'fast',
+        computeUnitLimit: 10000,
+        maxPriorityFeeLamports: 20,
+      });
+
+      expect(connection.simulateTransaction).not.toHaveBeenCalled();
+      expect(tx.instructions).toHaveLength(3);
+      expect(tx.instructions[1]).toEqual(
+        ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 2000 }),
+      );
+
+      await addSolanaComputeBudget(connection as any, tx, { speed: 'fast' });
+      expect(tx.instructions).toHaveLength(3);
+    });
+  });
+});
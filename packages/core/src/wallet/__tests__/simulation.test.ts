@@ -0,0 +1,206 @@
+import { NetworkName } from '../../network/types';
+import { EVM_NATIVE_TOKEN_ADDRESS } from '../../network/constants';
+import { ethers } from 'ethers';
+import { simulateEvmTransaction, simulateEvmTransactions } from '../simulation';
+
+describe('simulateEvmTransaction', () => {
+  const from = '0x1234567890123456789012345678901234567890';
+  const transaction = {
+    to: '0x0000000000000000000000000000000000000001',
+    data: '0x',
+    value: BigInt(1000),
+  };
+
+  it('should report gas, fee and native balance change on success', async () => {
+    const provider = {
+      call: jest.fn().mockResolvedValue('0x01'),
+      estimateGas: jest.fn().mockResolvedValue(BigInt(21000)),
+      getFeeData: jest.fn().mockResolvedValue({ maxFeePerGas: BigInt(2), gasPrice: BigInt(1) }),
+    };
+
+    const result = await simulateEvmTransaction(
+      provider as any,
+      NetworkName.BNB,
+      from,
+      transaction,
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.gasUsed).toBe('21000');
+    expect(result.fee).toBe('42000');
+    expect(result.returnData).toBe('0x01');
+    expect(result.balanceChanges).toEqual([
+      { token: EVM_NATIVE_TOKEN_ADDRESS, amount: (-(1000 + 42000)).toString() },
+    ]);
+    expect(provider.call).toHaveBeenCalledWith({ from, ...transaction });
+  });
+
+  it('should use the provided gas limit instead of estimating', async () => {
+    const provider = {
+      call: jest.fn().mockResolvedValue('0x'),
+      estimateGas: jest.fn(),
+      getFeeData: jest.fn().mockResolvedValue({ maxFeePerGas: null, gasPrice: BigInt(3) }),
+    };
+
+    const result = await simulateEvmTransaction(provider as any, NetworkName.BNB, from, {
+      ...transaction,
+      gasLimit: BigInt(50000),
+    });
+
+    expect(provider.estimateGas).not.toHaveBeenCalled();
+    expect(result.gasUsed).toBe('50000');
+    expect(result.fee).toBe('150000');
+  });
+
+  it('should return the revert reason without throwing', async () => {
+    const provider = {
+      call: jest.fn().mockRejectedValue({ reason: 'TRANSFER_FROM_FAILED' }),
+      estimateGas: jest.fn(),
+      getFeeData: jest.fn(),
+    };
+
+    const result = await simulateEvmTransaction(
+      provider as any,
+      NetworkName.BNB,
+      from,
+      transaction,
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('TRANSFER_FROM_FAILED');
+    expect(result.balanceChanges).toEqual([]);
+  });
+});
+
+describe('simulateEvmTransactions', () => {
+  const from = '0x1234567890123456789012345678901234567890';
+  const router = '0x0000000000000000000000000000000000000002';
+  const token = '0x0000000000000000000000000000000000000003';
+  const approve = { to: token, data: '0x095ea7b3', value: BigInt(0) };
+  const swap = { to: router, data: '0x38ed1739', value: BigInt(0) };
+  const transferTopic = ethers.id('Transfer(address,address,uint256)');
+  const topic = (address: string) => ethers.zeroPadValue(address, 32);
+
+  it('should simulate the batch on shared state and report token balance changes', async () => {
+    const provider = {
+      send: jest.fn().mockResolvedValue([
+        {
+          calls: [
+            { status: '0x1', returnData: '0x01', gasUsed: '0xb4f4', logs: [] },
+            {
+              status: '0x1',
+              returnData: '0x',
+              gasUsed: '0x1d4c0',
+              logs: [
+                {
+                  address: token,
+                  topics: [transferTopic, topic(from), topic(router)],
+                  data: ethers.toBeHex(500, 32),
+                },
+                {
+                  address: EVM_NATIVE_TOKEN_ADDRESS,
+                  topics: [transferTopic, topic(router), topic(from)],
+                  data: ethers.toBeHex(9000, 32),
+                },
+              ],
+            },
+          ],
+        },
+      ]),
+      getFeeData: jest.fn().mockResolvedValue({ maxFeePerGas: null, gasPrice: BigInt(1) }),
+    };
+
+    const results = await simulateEvmTransactions(provider as any, NetworkName.BNB, from, [
+      approve,
+      swap,
+    ]);
+
+    expect(provider.send).toHaveBeenCalledWith('eth_simulateV1', [
+      expect.objectContaining({
+        blockStateCalls: [
+          {
+            calls: [
+              expect.objectContaining({ from, to: token, value: '0x0' }),
+              expect.objectContaining({ from, to: router, value: '0x0' }),
+            ],
+          },
+        ],
+      }),
+      'latest',
+    ]);
+    expect(results.map(result => result.success)).toEqual([true, true]);
+    expect(results[0].fee).toBe('46324');
+    expect(results[1].balanceChanges).toEqual([
+      { token, amount: '-500' },
+      { token: EVM_NATIVE_TOKEN_ADDRESS, amount: (9000 - 120000).toString() },
+    ]);
+  });
+
+  it('should report the revert of a step', async () => {
+    const provider = {
+      send: jest.fn().mockResolvedValue([
+        {
+          calls: [
+            { status: '0x1', returnData: '0x', gasUsed: '0x5208', logs: [] },
+            { status: '0x0', returnData: '0x', gasUsed: '0x0', error: { message: 'STF' } },
+          ],
+        },
+      ]),
+      getFeeData: jest.fn().mockResolvedValue({ maxFeePerGas: null, gasPrice: BigInt(1) }),
+    };
+
+    const results = await simulateEvmTransactions(provider as any, NetworkName.BNB, from, [
+      approve,
+      swap,
+    ]);
+
+    expect(results[1]).toEqual({
+      network: NetworkName.BNB,
+      success: false,
+      returnData: '0x',
+      error: 'STF',
+      balanceChanges: [],
+    });
+  });
+
+  it('should mark a step depending on the previous ones without eth_simulateV1', async () => {
+    const provider = {
+      send: jest.fn().mockRejectedValue(new Error('the method eth_simulateV1 does not exist')),
+      call: jest
+        .fn()
+        .mockResolvedValueOnce('0x01')
+        .mockRejectedValueOnce({ reason: 'TRANSFER_FROM_FAILED' }),
+      estimateGas: jest.fn().mockResolvedValue(BigInt(46000)),
+      getFeeData: jest.fn().mockResolvedValue({ maxFeePerGas: null, gasPrice: BigInt(1) }),
+    };
+
+    const results = await simulateEvmTransactions(provider as any, NetworkName.BNB, from, [
+      approve,
+      swap,
+    ]);
+
+    expect(results[0].success).toBe(true);
+    expect(results[0].dependsOnPrevious).toBeUndefined();
+    expect(results[1]).toMatchObject({
+      success: false,
+      dependsOnPrevious: true,
+      error: 'TRANSFER_FROM_FAILED',
+    });
+  });
+
+  it('should not mark a step depending on a previous step that failed', async () => {
+    const provider = {
+      send: jest.fn().mockRejectedValue(new Error('the method eth_simulateV1 does not exist')),
+      call: jest.fn().mockRejectedValue({ reason: 'execution reverted' }),
+      estimateGas: jest.fn(),
+      getFeeData: jest.fn(),
+    };
+
+    const results = await simulateEvmTransactions(provider as any, NetworkName.BNB, from, [
+      approve,
+      swap,
+    ]);
+
+    expect(results.map(result => result.dependsOnPrevious)).toEqual([undefined, undefined]);
+  });
+});
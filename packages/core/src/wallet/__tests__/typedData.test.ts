@@ -0,0 +1,95 @@
+import { ethers } from 'ethers';
+import { PublicKey } from '@solana/web3.js';
+import bs58 from 'bs58';
+import nacl from 'tweetnacl';
+import { Network } from '../../network';
+import { NetworkName, NetworksConfig, NetworkType } from '../../network/types';
+import { Wallet } from '../Wallet';
+import { WatchWallet } from '../WatchWallet';
+import { getSolanaOffchainMessage, getSolanaTypedDataMessage } from '../typedData';
+
+describe('signTypedData', () => {
+  const seedPhrase = 'test test test test test test test test test test test junk';
+  const networkConfig: NetworksConfig = {
+    networks: {
+      bnb: {
+        type: 'evm' as NetworkType,
+        config: {
+          rpcUrl: 'https://bsc-dataseed1.binance.org',
+          chainId: 56,
+          name: 'BNB Chain',
+          nativeCurrency: { name: 'BNB', symbol: 'BNB', decimals: 18 },
+        },
+      },
+      solana: {
+        type: 'solana' as NetworkType,
+        config: {
+          rpcUrl: 'https://api.mainnet-beta.solana.com',
+          name: 'Solana',
+          nativeCurrency: { name: 'Solana', symbol: 'SOL', decimals: 9 },
+        },
+      },
+    },
+  };
+
+  const domain = {
+    name: 'Limit Order',
+    version: '1',
+    chainId: 56,
+    verifyingContract: '0x10ED43C718714eb63d5aA57B78B54704E256024E',
+  };
+  const types = {
+    Order: [
+      { name: 'maker', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+    ],
+  };
+  const value = { maker: '0x1234567890123456789012345678901234567890', amount: BigInt(1000) };
+
+  let network: Network;
+
+  beforeEach(() => {
+    network = new Network(networkConfig);
+  });
+
+  it('should sign EIP-712 typed data on EVM networks', async () => {
+    const wallet = new Wallet({ seedPhrase }, network);
+    const signature = await wallet.signTypedData(NetworkName.BNB, domain, types, value);
+
+    expect(ethers.verifyTypedData(domain, types, value, signature)).toBe(
+      await wallet.getAddress(NetworkName.BNB),
+    );
+  });
+
+  it('should sign typed data as an off-chain message on Solana', async () => {
+    const wallet = new Wallet({ seedPhrase }, network);
+    const signature = await wallet.signTypedData(NetworkName.SOLANA, domain, types, value);
+    const message = getSolanaOffchainMessage(getSolanaTypedDataMessage(domain, types, value));
+
+    expect(
+      nacl.sign.detached.verify(
+        message,
+        bs58.decode(signature),
+        new PublicKey(await wallet.getAddress(NetworkName.SOLANA)).toBytes(),
+      ),
+    ).toBe(true);
+  });
+
+  it('should encode the off-chain message header', () => {
+    const message = getSolanaOffchainMessage('hello');
+
+    expect(Buffer.from(message.slice(0, 16)).toString('latin1')).toBe('\xffsolana offchain');
+    // version 0, restricted ASCII, length 5
+    expect(Array.from(message.slice(16, 20))).toEqual([0, 0, 5, 0]);
+    expect(getSolanaOffchainMessage('héllo')[17]).toBe(1);
+    expect(() => getSolanaOffchainMessage('')).toThrow();
+  });
+
+  it('should refuse to sign typed data with a watch-only wallet', async () => {
+    const wallet = new WatchWallet({ evmAddress: value.maker }, network);
+
+    await expect(wallet.signTypedData(NetworkName.BNB, domain, types, value)).rejects.toThrow(
+      'watch-only',
+    );
+  });
+});
@@ -0,0 +1,62 @@
+import { Commitment, Connection, SignatureStatus } from '@solana/web3.js';
+
+export interface SolanaConfirmationOptions {
+  /** Commitment the transaction must reach (defaults to confirmed) */
+  commitment?: Extract<Commitment, 'confirmed' | 'finalized'>;
+  /** Delay between status checks and rebroadcasts, in milliseconds */
+  pollingInterval?: number;
+  /** Consecutive RPC failures tolerated before giving up */
+  maxRpcErrors?: number;
+}
+
+/**
+ * Wait for a Solana transaction to be confirmed, rebroadcasting it until its blockhash expires
+ */
+export async function confirmSolanaTransaction(
+  connection: Connection,
+  signature: string,
+  lastValidBlockHeight: number,
+  rawTransaction?: Uint8Array,
+  options: SolanaConfirmationOptions = {},
+): Promise<void> {
+  const { commitment = 'confirmed', pollingInterval = 2000, maxRpcErrors = 5 } = options;
+  let rpcErrors = 0;
+
+  for (;;) {
+    let blockHeight: number;
+    let status: SignatureStatus | null;
+    try {
+      // The block height is read first, a transaction not found afterwards can no longer land
+      blockHeight = await connection.getBlockHeight('confirmed');
+      status = (await connection.getSignatureStatus(signature)).value;
+      rpcErrors = 0;
+    } catch (e) {
+      if (++rpcErrors >= maxRpcErrors) {
+        throw e;
+      }
+      await new Promise(resolve => setTimeout(resolve, pollingInterval));
+      continue;
+    }
+
+    if (status?.err) {
+      throw new Error(`Transaction failed: ${JSON.stringify(status.err)}`);
+    }
+    if (
+      status?.confirmationStatus === 'finalized' ||
+      (commitment === 'confirmed' && status?.confirmationStatus === 'confirmed')
+    ) {
+      return;
+    }
+    if (!status && blockHeight > lastValidBlockHeight) {
+      throw new Error(`Transaction ${signature} expired before it was confirmed`);
+    }
+
+    if (rawTransaction) {
+      // Rebroadcast errors are ignored, the status check is the source of truth
+      connection
+        .sendRawTransaction(rawTransaction, { skipPreflight: true, maxRetries: 0 })
+        .catch(() => undefined);
+    }
+    await new Promise(resolve => setTimeout(resolve, pollingInterval));
+  }
+}
@@ -0,0 +1,340 @@
+import { ethers } from 'ethers';
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  Transaction as SolanaTransaction,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { NetworkName } from '../network/types';
+import { FeeEstimate, GasSpeed, GasStrategy, TransactionRequest } from './types';
+import { toVersionedTransaction } from './simulation';
+
+/** Networks priced with a legacy gas price even when blocks report a base fee */
+export const LEGACY_GAS_NETWORKS: NetworkName[] = [NetworkName.BNB];
+
+/** Percentages applied to the network's fee data for each speed */
+const SPEED_MULTIPLIERS: Record<
+  GasSpeed,
+  { baseFee: number; priorityFee: number; gasPrice: number; priorityPercentile: number }
+> = {
+  slow: { baseFee: 125, priorityFee: 100, gasPrice: 100, priorityPercentile: 25 },
+  normal: { baseFee: 200, priorityFee: 100, gasPrice: 100, priorityPercentile: 50 },
+  fast: { baseFee: 200, priorityFee: 200, gasPrice: 125, priorityPercentile: 75 },
+};
+
+const DEFAULT_COMPUTE_UNIT_LIMIT = 200_000;
+// Each ComputeBudget instruction consumes 150 compute units
+const COMPUTE_BUDGET_INSTRUCTION_UNITS = 300;
+const MICRO_LAMPORTS_PER_LAMPORT = 1_000_000;
+
+export interface SolanaComputeBudget {
+  computeUnitLimit: number;
+  /** Price in micro-lamports per compute unit */
+  computeUnitPrice: number;
+}
+
+export interface EvmFeeQuote {
+  type: 0 | 2;
+  gasLimit: bigint;
+  gasPrice?: bigint;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  baseFeePerGas?: bigint;
+}
+
+export function resolveGasStrategy(
+  transaction: TransactionRequest,
+  defaultStrategy?: GasStrategy,
+): GasStrategy & { speed: GasSpeed } {
+  const strategy = { ...defaultStrategy, ...transaction.gas };
+  return { ...strategy, speed: strategy.speed ?? 'normal' };
+}
+
+function applyPercent(value: bigint, percent: number): bigint {
+  return (value * BigInt(Math.round(percent))) / BigInt(100);
+}
+
+function min(value: bigint, cap?: bigint): bigint {
+  return cap != null && cap < value ? cap : value;
+}
+
+/**
+ * Resolve the gas limit and fees of an EVM transaction from its gas strategy
+ */
+export async function getEvmFeeQuote(
+  provider: ethers.Provider,
+  network: NetworkName,
+  from: string,
+  transaction: TransactionRequest,
+  defaultStrategy?: GasStrategy,
+): Promise<EvmFeeQuote> {
+  const strategy = resolveGasStrategy(transaction, defaultStrategy);
+  const multipliers = SPEED_MULTIPLIERS[strategy.speed];
+
+  const [estimatedGas, feeData, block] = await Promise.all([
+    transaction.gasLimit == null
+      ? provider.estimateGas({
+          from,
+          to: transaction.to,
+          data: transaction.data,
+          value: transaction.value,
+        })
+      : undefined,
+    provider.getFeeData(),
+    provider.getBlock('latest'),
+  ]);
+  const gasLimit =
+    transaction.gasLimit ??
+    applyPercent(estimatedGas!, 100 + (strategy.gasLimitBufferPercent ?? 0));
+  const baseFeePerGas = block?.baseFeePerGas ?? undefined;
+
+  if (LEGACY_GAS_NETWORKS.includes(network) || baseFeePerGas == null) {
+    if (strategy.gasPrice == null && feeData.gasPrice == null) {
+      throw new Error(`Unable to fetch the gas price on ${network}`);
+    }
+    const gasPrice = strategy.gasPrice ?? applyPercent(feeData.gasPrice!, multipliers.gasPrice);
+    return { type: 0, gasLimit, gasPrice: min(gasPrice, strategy.maxFeePerGasCap) };
+  }
+
+  const suggestedPriorityFee = feeData.maxPriorityFeePerGas ?? ethers.parseUnits('1', 'gwei');
+  let maxPriorityFeePerGas =
+    strategy.maxPriorityFeePerGas ?? applyPercent(suggestedPriorityFee, multipliers.priorityFee);
+  const maxFeePerGas = min(
+    strategy.maxFeePerGas ??
+      applyPercent(baseFeePerGas, multipliers.baseFee) + maxPriorityFeePerGas,
+    strategy.maxFeePerGasCap,
+  );
+  maxPriorityFeePerGas = min(maxPriorityFeePerGas, maxFeePerGas);
+
+  return { type: 2, gasLimit, maxFeePerGas, maxPriorityFeePerGas, baseFeePerGas };
+}
+
+/**
+ * Estimate the fees of an EVM transaction, nothing is signed or broadcast
+ */
+export async function estimateEvmFees(
+  provider: ethers.Provider,
+  network: NetworkName,
+  from: string,
+  transaction: TransactionRequest,
+  defaultStrategy?: GasStrategy,
+): Promise<FeeEstimate> {
+  const speed = resolveGasStrategy(transaction, defaultStrategy).speed;
+  const quote = await getEvmFeeQuote(provider, network, from, transaction, defaultStrategy);
+
+  if (quote.type === 0) {
+    const fee = quote.gasLimit * quote.gasPrice!;
+    return {
+      network,
+      type: 'legacy',
+      speed,
+      gasLimit: quote.gasLimit.toString(),
+      gasPrice: quote.gasPrice!.toString(),
+      estimatedFee: fee.toString(),
+      maxFee: fee.toString(),
+    };
+  }
+
+  // The base fee is burned and the tip is paid on top, up to maxFeePerGas
+  const effectiveGasPrice = min(
+    quote.baseFeePerGas! + quote.maxPriorityFeePerGas!,
+    quote.maxFeePerGas,
+  );
+  return {
+    network,
+    type: 'eip1559',
+    speed,
+    gasLimit: quote.gasLimit.toString(),
+    maxFeePerGas: quote.maxFeePerGas!.toString(),
+    maxPriorityFeePerGas: quote.maxPriorityFeePerGas!.toString(),
+    estimatedFee: (quote.gasLimit * effectiveGasPrice).toString(),
+    maxFee: (quote.gasLimit * quote.maxFeePerGas!).toString(),
+  };
+}
+
+/**
+ * Pick a compute unit price from recent prioritization fees
+ */
+export async function getSolanaPriorityFee(
+  connection: Connection,
+  speed: GasSpeed,
+  accounts: PublicKey[] = [],
+): Promise<number> {
+  const recentFees = await connection.getRecentPrioritizationFees({
+    lockedWritableAccounts: accounts,
+  });
+  const fees = recentFees.map(fee => fee.prioritizationFee).sort((a, b) => a - b);
+  if (fees.length === 0) return 0;
+
+  const percentile = SPEED_MULTIPLIERS[speed].priorityPercentile;
+  return fees[Math.min(fees.length - 1, Math.floor((fees.length * percentile) / 100))];
+}
+
+/**
+ * Resolve the compute unit limit and price of a Solana transaction, the limit comes from a simulation
+ */
+export async function getSolanaComputeBudget(
+  connection: Connection,
+  transaction: VersionedTransaction,
+  strategy: GasStrategy & { speed: GasSpeed },
+): Promise<SolanaComputeBudget> {
+  let computeUnitLimit = strategy.computeUnitLimit;
+  if (computeUnitLimit == null) {
+    const { value } = await connection.simulateTransaction(transaction, {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+    });
+    if (value.err) {
+      throw new Error(`Transaction simulation failed: ${JSON.stringify(value.err)}`);
+    }
+    computeUnitLimit = value.unitsConsumed
+      ? Math.ceil(
+          ((value.unitsConsumed + COMPUTE_BUDGET_INSTRUCTION_UNITS) *
+            (100 + (strategy.gasLimitBufferPercent ?? 0))) /
+            100,
+        )
+      : DEFAULT_COMPUTE_UNIT_LIMIT;
+  }
+
+  const { message } = transaction;
+  const writableAccounts = message.staticAccountKeys.filter((_, index) =>
+    message.isAccountWritable(index),
+  );
+  let computeUnitPrice =
+    strategy.computeUnitPrice ??
+    (await getSolanaPriorityFee(connection, strategy.speed, writableAccounts));
+  if (strategy.maxPriorityFeeLamports != null) {
+    const maxComputeUnitPrice = Math.floor(
+      (strategy.maxPriorityFeeLamports * MICRO_LAMPORTS_PER_LAMPORT) / computeUnitLimit,
+    );
+    computeUnitPrice = Math.min(computeUnitPrice, maxComputeUnitPrice);
+  }
+
+  return { computeUnitLimit, computeUnitPrice };
+}
+
+function hasComputeBudget(transaction: VersionedTransaction | SolanaTransaction): boolean {
+  if (transaction instanceof SolanaTransaction) {
+    return transaction.instructions.some(instruction =>
+      instruction.programId.equals(ComputeBudgetProgram.programId),
+    );
+  }
+  const { staticAccountKeys, compiledInstructions } = transaction.message;
+  return compiledInstructions.some(instruction =>
+    staticAccountKeys[instruction.programIdIndex].equals(ComputeBudgetProgram.programId),
+  );
+}
+
+function createComputeBudgetInstructions(budget: SolanaComputeBudget): TransactionInstruction[] {
+  return [
+    ComputeBudgetProgram.setComputeUnitLimit({ units: budget.computeUnitLimit }),
+    ComputeBudgetProgram.setComputeUnitPrice({ microLamports: budget.computeUnitPrice }),
+  ];
+}
+
+async function getAddressLookupTables(
+  connection: Connection,
+  transaction: VersionedTransaction,
+): Promise<AddressLookupTableAccount[]> {
+  return Promise.all(
+    transaction.message.addressTableLookups.map(async lookup => {
+      const { value } = await connection.getAddressLookupTable(lookup.accountKey);
+      if (!value) {
+        throw new Error(`Address lookup table ${lookup.accountKey.toBase58()} not found`);
+      }
+      return value;
+    }),
+  );
+}
+
+/**
+ * Prepend ComputeBudget instructions to a Solana transaction that does not set its own.
+ * Existing signatures are invalidated, the transaction must be signed afterwards.
+ */
+export async function addSolanaComputeBudget(
+  connection: Connection,
+  transaction: VersionedTransaction,
+  strategy: GasStrategy & { speed: GasSpeed },
+): Promise<VersionedTransaction>;
+export async function addSolanaComputeBudget(
+  connection: Connection,
+  transaction: SolanaTransaction,
+  strategy: GasStrategy & { speed: GasSpeed },
+): Promise<SolanaTransaction>;
+export async function addSolanaComputeBudget(
+  connection: Connection,
+  transaction: VersionedTransaction | SolanaTransaction,
+  strategy: GasStrategy & { speed: GasSpeed },
+): Promise<VersionedTransaction | SolanaTransaction> {
+  if (hasComputeBudget(transaction)) {
+    return transaction;
+  }
+
+  if (transaction instanceof SolanaTransaction) {
+    const budget = await getSolanaComputeBudget(
+      connection,
+      new VersionedTransaction(transaction.compileMessage()),
+      strategy,
+    );
+    transaction.instructions.unshift(...createComputeBudgetInstructions(budget));
+    return transaction;
+  }
+
+  const budget = await getSolanaComputeBudget(connection, transaction, strategy);
+  const addressLookupTableAccounts = await getAddressLookupTables(connection, transaction);
+  const message = TransactionMessage.decompile(transaction.message, {
+    addressLookupTableAccounts,
+  });
+  message.instructions.unshift(...createComputeBudgetInstructions(budget));
+
+  return new VersionedTransaction(
+    transaction.message.version === 'legacy'
+      ? message.compileToLegacyMessage()
+      : message.compileToV0Message(addressLookupTableAccounts),
+  );
+}
+
+/**
+ * Estimate the fees of a Solana transaction, the compute unit limit comes from a simulation
+ */
+export async function estimateSolanaFees(
+  connection: Connection,
+  network: NetworkName,
+  owner: string,
+  transaction: TransactionRequest,
+  defaultStrategy?: GasStrategy,
+): Promise<FeeEstimate> {
+  const strategy = resolveGasStrategy(transaction, defaultStrategy);
+  const ownerKey = new PublicKey(owner);
+  const tx = await toVersionedTransaction(connection, ownerKey, transaction.data);
+  const { computeUnitLimit, computeUnitPrice } = await getSolanaComputeBudget(
+    connection,
+    tx,
+    strategy,
+  );
+
+  let baseFee: number | null = null;
+  try {
+    baseFee = (await connection.getFeeForMessage(tx.message, 'confirmed')).value;
+  } catch (e) {
+    // A stale blockhash should not fail the estimate
+  }
+  // Fall back to the default fee of 5000 lamports per signature
+  baseFee ??= 5000 * tx.message.header.numRequiredSignatures;
+  const priorityFee = Math.ceil((computeUnitPrice * computeUnitLimit) / MICRO_LAMPORTS_PER_LAMPORT);
+  const fee = (baseFee + priorityFee).toString();
+
+  return {
+    network,
+    type: 'solana',
+    speed: strategy.speed,
+    gasLimit: computeUnitLimit.toString(),
+    computeUnitPrice: computeUnitPrice.toString(),
+    estimatedFee: fee,
+    maxFee: fee,
+  };
+}
@@ -1,3 +1,17 @@
 export * from './types';
 export * from './Wallet';
 export * from './ExtensionWallet';
+export * from './simulation';
+export * from './TransactionQueue';
+export * from './gas';
+export * from './confirmation';
+export * from './BaseWallet';
+export * from './PrivateKeyWallet';
+export * from './KeystoreWallet';
+export * from './WatchWallet';
+export * from './threadContext';
+export * from './HDWallet';
+export * from './remoteSigner';
+export * from './RemoteWallet';
+export * from './RemoteSignerServer';
+export * from './typedData';
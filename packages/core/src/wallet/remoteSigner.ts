@@ -0,0 +1,122 @@
+import { ethers } from 'ethers';
+import { NetworkName } from '../network/types';
+import { GasStrategy, TransactionRequest, TypedDataDomain, TypedDataTypes } from './types';
+
+/**
+ * Remote signer protocol, version 1.
+ *
+ * Every call is a `POST {url}/v1/{method}` with a JSON body `{ id, network, ...params }`
+ * and an optional `Authorization: Bearer {apiKey}` header. The signer answers with
+ * `{ id, result }` or `{ id, error }`, echoing the request id. When the signer has an
+ * attestation key, responses also carry `signature`: an EIP-191 signature of
+ * `getAttestationMessage(id, result)` that clients check against the attestation address.
+ */
+export const REMOTE_SIGNER_PROTOCOL_VERSION = 'v1';
+
+export type RemoteSignerMethod =
+  | 'getAddress'
+  | 'getPublicKey'
+  | 'signMessage'
+  | 'signTypedData'
+  | 'signTransaction'
+  | 'signAndSendTransaction';
+
+export interface RemoteSignerParams {
+  getAddress: {};
+  getPublicKey: {};
+  signMessage: { message: string };
+  /** Bigints of the domain and value are encoded as decimal strings */
+  signTypedData: { domain: TypedDataDomain; types: TypedDataTypes; value: Record<string, any> };
+  /** Unsigned serialized transaction, hex on EVM and base64 on Solana */
+  signTransaction: { transaction: string };
+  signAndSendTransaction: { transaction: EncodedTransactionRequest };
+}
+
+export interface RemoteSignerResults {
+  getAddress: { address: string };
+  getPublicKey: { publicKey: string };
+  signMessage: { signature: string };
+  signTypedData: { signature: string };
+  signTransaction: { signedTransaction: string };
+  signAndSendTransaction: { hash: string };
+}
+
+export type RemoteSignerRequest<M extends RemoteSignerMethod = RemoteSignerMethod> = {
+  id: string;
+  network: NetworkName;
+} & RemoteSignerParams[M];
+
+export interface RemoteSignerResponse<M extends RemoteSignerMethod = RemoteSignerMethod> {
+  id: string;
+  result?: RemoteSignerResults[M];
+  error?: string;
+  /** Attestation of the result, see getAttestationMessage */
+  signature?: string;
+}
+
+/** TransactionRequest with bigints encoded as decimal strings */
+export type EncodedTransactionRequest = Omit<TransactionRequest, 'value' | 'gasLimit' | 'gas'> & {
+  value: string;
+  gasLimit?: string;
+  gas?: {
+    [K in keyof GasStrategy]: GasStrategy[K] extends bigint | undefined ? string : GasStrategy[K];
+  };
+};
+
+const BIGINT_GAS_FIELDS = [
+  'maxFeePerGasCap',
+  'maxFeePerGas',
+  'maxPriorityFeePerGas',
+  'gasPrice',
+] as const;
+
+export function encodeTransactionRequest(
+  transaction: TransactionRequest,
+): EncodedTransactionRequest {
+  return JSON.parse(
+    JSON.stringify(transaction, (_, value) =>
+      typeof value === 'bigint' ? value.toString() : value,
+    ),
+  );
+}
+
+export function decodeTransactionRequest(
+  transaction: EncodedTransactionRequest,
+): TransactionRequest {
+  const gas = transaction.gas && ({ ...transaction.gas } as GasStrategy);
+  if (gas) {
+    for (const field of BIGINT_GAS_FIELDS) {
+      const value = transaction.gas![field];
+      gas[field] = value != null ? BigInt(value) : undefined;
+    }
+  }
+  return {
+    ...transaction,
+    value: BigInt(transaction.value),
+    gasLimit: transaction.gasLimit != null ? BigInt(transaction.gasLimit) : undefined,
+    gas,
+  };
+}
+
+export function getAttestationMessage(id: string, result: unknown): string {
+  return `binkos-remote-signer:${id}:${JSON.stringify(result)}`;
+}
+
+/**
+ * Check that a response was produced by the signer holding the attestation key
+ */
+export function verifyAttestation(
+  response: RemoteSignerResponse,
+  attestationAddress: string,
+): boolean {
+  if (!response.signature) return false;
+  try {
+    const signer = ethers.verifyMessage(
+      getAttestationMessage(response.id, response.result),
+      response.signature,
+    );
+    return signer.toLowerCase() === attestationAddress.toLowerCase();
+  } catch (e) {
+    return false;
+  }
+}
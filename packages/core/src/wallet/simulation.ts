@@ -0,0 +1,268 @@
+import { ethers } from 'ethers';
+import {
+  Connection,
+  PublicKey,
+  Transaction as SolanaTransaction,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { NetworkName } from '../network/types';
+import { EVM_NATIVE_TOKEN_ADDRESS, SOL_NATIVE_TOKEN_ADDRESS } from '../network/constants';
+import { SimulationResult, TransactionRequest } from './types';
+
+function getSimulationError(error: unknown): string {
+  const err = error as { reason?: string; shortMessage?: string };
+  if (err?.reason) return err.reason;
+  if (err?.shortMessage) return err.shortMessage;
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Simulate an EVM transaction with eth_call and estimateGas, nothing is broadcast
+ */
+export async function simulateEvmTransaction(
+  provider: ethers.Provider,
+  network: NetworkName,
+  from: string,
+  transaction: TransactionRequest,
+): Promise<SimulationResult> {
+  const request = {
+    from,
+    to: transaction.to,
+    data: transaction.data,
+    value: transaction.value,
+  };
+
+  try {
+    const returnData = await provider.call(request);
+    const gasUsed = transaction.gasLimit ?? (await provider.estimateGas(request));
+    const feeData = await provider.getFeeData();
+    const gasPrice = feeData.maxFeePerGas ?? feeData.gasPrice ?? BigInt(0);
+    const fee = gasUsed * gasPrice;
+
+    return {
+      network,
+      success: true,
+      gasUsed: gasUsed.toString(),
+      fee: fee.toString(),
+      returnData,
+      balanceChanges: [
+        {
+          token: EVM_NATIVE_TOKEN_ADDRESS,
+          amount: (-(BigInt(transaction.value ?? 0) + fee)).toString(),
+        },
+      ],
+    };
+  } catch (error) {
+    return {
+      network,
+      success: false,
+      error: getSimulationError(error),
+      balanceChanges: [],
+    };
+  }
+}
+
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+
+interface SimulatedCall {
+  status: string;
+  returnData?: string;
+  gasUsed: string;
+  logs?: { address: string; topics: string[]; data: string }[];
+  error?: { message?: string };
+}
+
+/**
+ * Balance changes of the owner from the ERC20 Transfer events of a simulated call. Native
+ * transfers are reported by eth_simulateV1 as Transfer events of the native token address.
+ */
+function getTransferChanges(owner: string, logs: SimulatedCall['logs'] = []): Map<string, bigint> {
+  const changes = new Map<string, bigint>();
+  for (const log of logs) {
+    // ERC721 transfers have the token id as a fourth topic
+    if (log.topics.length !== 3 || log.topics[0] !== TRANSFER_TOPIC) continue;
+    const token = log.address.toLowerCase();
+    const amount = BigInt(log.data === '0x' ? 0 : log.data);
+    if (ethers.dataSlice(log.topics[1], 12).toLowerCase() === owner) {
+      changes.set(token, (changes.get(token) ?? BigInt(0)) - amount);
+    }
+    if (ethers.dataSlice(log.topics[2], 12).toLowerCase() === owner) {
+      changes.set(token, (changes.get(token) ?? BigInt(0)) + amount);
+    }
+  }
+  return changes;
+}
+
+/**
+ * Simulate EVM transactions in order, each one on the state left by the previous ones, so an
+ * approval or a wrap applies to the next transactions. Uses eth_simulateV1, which also
+ * reports the token balance changes. Nodes without eth_simulateV1 simulate each transaction
+ * on the current state, a transaction failing after a successful one is then marked as
+ * depending on the previous ones instead of failed.
+ */
+export async function simulateEvmTransactions(
+  provider: ethers.JsonRpcProvider,
+  network: NetworkName,
+  from: string,
+  transactions: TransactionRequest[],
+): Promise<SimulationResult[]> {
+  let calls: SimulatedCall[];
+  try {
+    const [block] = await provider.send('eth_simulateV1', [
+      {
+        blockStateCalls: [
+          {
+            calls: transactions.map(transaction => ({
+              from,
+              to: transaction.to,
+              data: transaction.data,
+              value: ethers.toQuantity(transaction.value ?? 0),
+              gas: transaction.gasLimit ? ethers.toQuantity(transaction.gasLimit) : undefined,
+            })),
+          },
+        ],
+        traceTransfers: true,
+        validation: false,
+      },
+      'latest',
+    ]);
+    calls = block.calls;
+  } catch (error) {
+    const results: SimulationResult[] = [];
+    for (const transaction of transactions) {
+      const result = await simulateEvmTransaction(provider, network, from, transaction);
+      if (!result.success && results.length > 0 && results.every(previous => previous.success)) {
+        result.dependsOnPrevious = true;
+      }
+      results.push(result);
+    }
+    return results;
+  }
+
+  const feeData = await provider.getFeeData();
+  const gasPrice = feeData.maxFeePerGas ?? feeData.gasPrice ?? BigInt(0);
+  const owner = from.toLowerCase();
+
+  return calls.map(call => {
+    if (call.status !== '0x1') {
+      return {
+        network,
+        success: false,
+        returnData: call.returnData,
+        error: call.error?.message ?? 'execution reverted',
+        balanceChanges: [],
+      };
+    }
+
+    const gasUsed = BigInt(call.gasUsed);
+    const fee = gasUsed * gasPrice;
+    const changes = getTransferChanges(owner, call.logs);
+    changes.set(
+      EVM_NATIVE_TOKEN_ADDRESS,
+      (changes.get(EVM_NATIVE_TOKEN_ADDRESS) ?? BigInt(0)) - fee,
+    );
+
+    return {
+      network,
+      success: true,
+      gasUsed: gasUsed.toString(),
+      fee: fee.toString(),
+      returnData: call.returnData,
+      balanceChanges: Array.from(changes.entries()).map(([token, amount]) => ({
+        token,
+        amount: amount.toString(),
+      })),
+    };
+  });
+}
+
+/**
+ * Decode a base64 Solana transaction, legacy transactions are compiled to a versioned message
+ */
+export async function toVersionedTransaction(
+  connection: Connection,
+  owner: PublicKey,
+  data: string,
+): Promise<VersionedTransaction> {
+  try {
+    return VersionedTransaction.deserialize(Buffer.from(data, 'base64'));
+  } catch (e) {
+    // Fall back to a legacy transaction and compile it to a versioned message
+    const tx = SolanaTransaction.from(Buffer.from(data, 'base64'));
+    if (!tx.recentBlockhash) {
+      const latestBlockhash = await connection.getLatestBlockhash('confirmed');
+      tx.recentBlockhash = latestBlockhash.blockhash;
+    }
+    if (!tx.feePayer) {
+      tx.feePayer = owner;
+    }
+    return new VersionedTransaction(tx.compileMessage());
+  }
+}
+
+/**
+ * Simulate a Solana transaction with simulateTransaction, nothing is signed or broadcast
+ */
+export async function simulateSolanaTransaction(
+  connection: Connection,
+  network: NetworkName,
+  owner: string,
+  transaction: TransactionRequest,
+): Promise<SimulationResult> {
+  try {
+    const ownerKey = new PublicKey(owner);
+    const tx = await toVersionedTransaction(connection, ownerKey, transaction.data);
+    const preBalance = await connection.getBalance(ownerKey);
+
+    const { value } = await connection.simulateTransaction(tx, {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      accounts: { addresses: [owner], encoding: 'base64' },
+    });
+
+    let fee: number | null = null;
+    try {
+      fee = (await connection.getFeeForMessage(tx.message)).value;
+    } catch (e) {
+      // The fee is informative only, a stale blockhash should not fail the simulation
+    }
+
+    const postBalance = value.accounts?.[0]?.lamports;
+
+    return {
+      network,
+      success: !value.err,
+      gasUsed: value.unitsConsumed?.toString(),
+      fee: fee != null ? fee.toString() : undefined,
+      logs: value.logs ?? undefined,
+      error: value.err ? JSON.stringify(value.err) : undefined,
+      balanceChanges:
+        !value.err && postBalance != null
+          ? [{ token: SOL_NATIVE_TOKEN_ADDRESS, amount: (postBalance - preBalance).toString() }]
+          : [],
+    };
+  } catch (error) {
+    return {
+      network,
+      success: false,
+      error: getSimulationError(error),
+      balanceChanges: [],
+    };
+  }
+}
+
+/**
+ * Simulate Solana transactions in order, each one on the current state
+ */
+export async function simulateSolanaTransactions(
+  connection: Connection,
+  network: NetworkName,
+  owner: string,
+  transactions: TransactionRequest[],
+): Promise<SimulationResult[]> {
+  const results: SimulationResult[] = [];
+  for (const transaction of transactions) {
+    results.push(await simulateSolanaTransaction(connection, network, owner, transaction));
+  }
+  return results;
+}
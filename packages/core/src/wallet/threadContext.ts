@@ -0,0 +1,18 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+const walletThread = new AsyncLocalStorage<string | undefined>();
+
+/**
+ * Run a task on behalf of a conversation thread, multi-account wallets then sign with the
+ * account selected for that thread
+ */
+export function runInWalletThread<T>(
+  threadId: string | undefined,
+  task: () => Promise<T>,
+): Promise<T> {
+  return walletThread.run(threadId, task);
+}
+
+export function getWalletThreadId(): string | undefined {
+  return walletThread.getStore();
+}
@@ -0,0 +1,67 @@
+import { TypedDataDomain, TypedDataTypes } from './types';
+
+/** Prefix of Solana off-chain messages, it can never start a valid transaction */
+export const SOLANA_OFFCHAIN_SIGNING_DOMAIN = '\xffsolana offchain';
+
+/** Largest off-chain message hardware wallets accept */
+const SOLANA_OFFCHAIN_LEDGER_MAX_LENGTH = 1212;
+const SOLANA_OFFCHAIN_MAX_LENGTH = 65515;
+
+enum SolanaOffchainMessageFormat {
+  RestrictedAscii = 0,
+  LimitedUtf8 = 1,
+  ExtendedUtf8 = 2,
+}
+
+function bigintReplacer(_: string, value: unknown) {
+  return typeof value === 'bigint' ? value.toString() : value;
+}
+
+/**
+ * Encode bigints of typed data values as decimal strings so they can be sent as JSON
+ */
+export function encodeTypedDataValue(value: Record<string, any>): Record<string, any> {
+  return JSON.parse(JSON.stringify(value, bigintReplacer));
+}
+
+/**
+ * Text signed for typed data on Solana, the domain, types and value as canonical JSON
+ */
+export function getSolanaTypedDataMessage(
+  domain: TypedDataDomain,
+  types: TypedDataTypes,
+  value: Record<string, any>,
+): string {
+  return JSON.stringify({ domain, types, message: value }, bigintReplacer);
+}
+
+/**
+ * Wrap a message in the Solana off-chain message envelope (version 0):
+ * signing domain, version, format, little endian u16 length and the UTF-8 message
+ */
+export function getSolanaOffchainMessage(message: string): Uint8Array {
+  const body = new TextEncoder().encode(message);
+  if (body.length === 0 || body.length > SOLANA_OFFCHAIN_MAX_LENGTH) {
+    throw new Error(`Off-chain message length must be between 1 and ${SOLANA_OFFCHAIN_MAX_LENGTH}`);
+  }
+
+  let format = SolanaOffchainMessageFormat.ExtendedUtf8;
+  if (body.length <= SOLANA_OFFCHAIN_LEDGER_MAX_LENGTH) {
+    format = body.every(byte => byte >= 0x20 && byte <= 0x7e)
+      ? SolanaOffchainMessageFormat.RestrictedAscii
+      : SolanaOffchainMessageFormat.LimitedUtf8;
+  }
+
+  const domain = Uint8Array.from(SOLANA_OFFCHAIN_SIGNING_DOMAIN, char => char.charCodeAt(0));
+  const header = new Uint8Array(domain.length + 4);
+  header.set(domain);
+  header[domain.length] = 0;
+  header[domain.length + 1] = format;
+  header[domain.length + 2] = body.length & 0xff;
+  header[domain.length + 3] = body.length >> 8;
+
+  const result = new Uint8Array(header.length + body.length);
+  result.set(header);
+  result.set(body, header.length);
+  return result;
+}
@@ -1,12 +1,68 @@
 import { Transaction as SolanaTransaction, VersionedTransaction } from '@solana/web3.js';
-import { Transaction as EvmTransaction } from 'ethers';
+import { Transaction as EvmTransaction, TypedDataDomain, TypedDataField } from 'ethers';
 import { NetworkName } from '../network/types';
 
 export type TransactionType = EvmTransaction | SolanaTransaction | VersionedTransaction;
 
+export type { TypedDataDomain, TypedDataField };
+
+/** EIP-712 struct definitions, without the EIP712Domain entry */
+export type TypedDataTypes = Record<string, TypedDataField[]>;
+
 export interface WalletConfig {
   seedPhrase: string;
   index?: number;
+  /** Gas strategy used when a transaction does not set its own */
+  gasStrategy?: GasStrategy;
+  /**
+   * Milliseconds an EVM receipt waits for its transaction to be mined before rejecting
+   * (defaults to 10 minutes)
+   */
+  receiptTimeout?: number;
+}
+
+export interface PrivateKeyWalletConfig {
+  /** Hex encoded EVM private key */
+  evmPrivateKey?: string;
+  /** Base58 encoded Solana secret key, as exported by Phantom or `solana-keygen` */
+  solanaPrivateKey?: string;
+  gasStrategy?: GasStrategy;
+  receiptTimeout?: number;
+}
+
+export interface KeystoreWalletConfig {
+  /** Encrypted JSON keystore of the EVM key */
+  evmKeystore?: string;
+  /** Encrypted JSON keystore of the Solana key */
+  solanaKeystore?: string;
+  /** Settings key holding the keystore password (defaults to WALLET_KEYSTORE_PASSWORD) */
+  passwordKey?: string;
+  gasStrategy?: GasStrategy;
+  receiptTimeout?: number;
+}
+
+export interface HDWalletConfig {
+  seedPhrase: string;
+  /** Number of accounts derived up front (defaults to 1) */
+  accounts?: number;
+  gasStrategy?: GasStrategy;
+  receiptTimeout?: number;
+}
+
+export interface RemoteWalletConfig {
+  /** Base URL of the remote signer */
+  url: string;
+  /** Sent as a bearer token with every request */
+  apiKey?: string;
+  /** Request timeout in milliseconds (defaults to 30s) */
+  timeout?: number;
+  /** EVM address of the signer's attestation key, unattested responses are rejected when set */
+  attestationAddress?: string;
+}
+
+export interface WatchWalletConfig {
+  evmAddress?: string;
+  solanaAddress?: string;
 }
 
 export interface SignMessageParams {
@@ -19,12 +75,70 @@ export interface SignTransactionParams {
   transaction: TransactionType;
 }
 
+export type GasSpeed = 'slow' | 'normal' | 'fast';
+
+export interface GasStrategy {
+  /** Fee level derived from current network conditions (defaults to normal) */
+  speed?: GasSpeed;
+  /** Upper bound for maxFeePerGas, or gasPrice on legacy networks, in wei */
+  maxFeePerGasCap?: bigint;
+  /** Explicit EIP-1559 fees, they take precedence over the speed */
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  /** Explicit legacy gas price, used on networks without EIP-1559 fees */
+  gasPrice?: bigint;
+  /** Percentage added on top of the estimated gas limit */
+  gasLimitBufferPercent?: number;
+  /** Solana compute unit price in micro-lamports */
+  computeUnitPrice?: number;
+  /** Solana compute unit limit */
+  computeUnitLimit?: number;
+  /** Add ComputeBudget instructions to Solana transactions that do not set their own */
+  computeBudget?: boolean;
+  /** Upper bound for the Solana priority fee of a transaction, in lamports */
+  maxPriorityFeeLamports?: number;
+}
+
+export interface FeeEstimate {
+  network: NetworkName;
+  type: 'eip1559' | 'legacy' | 'solana';
+  speed: GasSpeed;
+  /** Gas units on EVM, compute units on Solana */
+  gasLimit: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  gasPrice?: string;
+  computeUnitPrice?: string;
+  /** Expected fee in the native token's smallest unit */
+  estimatedFee: string;
+  /** Highest fee the transaction can be charged */
+  maxFee: string;
+}
+
+export interface SpendContext {
+  /** Address of the token spent or approved by the transaction */
+  token: string;
+  /** Human readable amount of the token spent, omitted for approvals */
+  amount?: string;
+  /** Maximum slippage percentage accepted by swaps and bridges */
+  slippage?: number;
+  /**
+   * What could not be decoded from a raw transaction, policies with rules depending on it
+   * reject the transaction
+   */
+  unknown?: ('token' | 'amount')[];
+}
+
 export interface TransactionRequest {
   to: string;
   data: string;
   value: bigint;
   gasLimit?: bigint;
   lastValidBlockHeight?: number;
+  /** What the transaction spends, used by spending policies */
+  spend?: SpendContext;
+  /** Fee selection, the wallet's default strategy is used when omitted */
+  gas?: GasStrategy;
 }
 
 export interface SignedTransactionRequest {
@@ -37,10 +151,107 @@ export interface TransactionReceipt {
   wait(): Promise<TransactionReceipt>;
 }
 
+export interface BalanceChange {
+  /** Token address, native token addresses are used for gas and value transfers */
+  token: string;
+  /** Signed amount in the token's smallest unit (wei, lamports, ...) */
+  amount: string;
+}
+
+export interface SimulationResult {
+  network: NetworkName;
+  success: boolean;
+  /** Gas units on EVM, compute units on Solana */
+  gasUsed?: string;
+  /** Estimated network fee in the native token's smallest unit */
+  fee?: string;
+  returnData?: string;
+  logs?: string[];
+  error?: string;
+  /**
+   * Failed on the current state without the changes of the previous transactions of the batch
+   * (an approval, a wrap), it may succeed once they are mined
+   */
+  dependsOnPrevious?: boolean;
+  balanceChanges: BalanceChange[];
+}
+
+export interface PendingTransaction {
+  network: NetworkName;
+  from: string;
+  nonce: number;
+  /** Hash of the latest broadcast version */
+  hash: string;
+  /** Hashes of earlier versions replaced by a speed up or cancel */
+  replacedHashes: string[];
+  to: string;
+  data: string;
+  value: string;
+  gasLimit?: string;
+  gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  cancelled: boolean;
+  submittedAt: number;
+}
+
+/**
+ * Implemented by wallets that queue EVM transactions and can replace them while pending
+ */
+export interface IPendingTransactionManager {
+  getPendingTransactions(network?: NetworkName): PendingTransaction[];
+  speedUpTransaction(
+    network: NetworkName,
+    nonce: number,
+    feeBumpPercent?: number,
+  ): Promise<PendingTransaction>;
+  cancelTransaction(
+    network: NetworkName,
+    nonce: number,
+    feeBumpPercent?: number,
+  ): Promise<PendingTransaction>;
+}
+
+export interface WalletAccount {
+  index: number;
+  evmAddress: string;
+  solanaAddress: string;
+}
+
+/**
+ * Implemented by wallets holding several accounts, the active account can differ per thread
+ */
+export interface IMultiAccountWallet {
+  getAccounts(): WalletAccount[];
+  addAccount(): WalletAccount;
+  /**
+   * Account used for signing
+   * @param threadId Defaults to the thread the agent is executing
+   */
+  getActiveAccount(threadId?: string): WalletAccount;
+  setActiveAccount(index: number, threadId?: string): WalletAccount;
+}
+
 export interface IWallet {
   getAddress(network: NetworkName): Promise<string>;
   signMessage(params: SignMessageParams): Promise<string>;
   signTransaction(params: SignTransactionParams): Promise<string>;
+
+  /**
+   * Sign structured data, with EIP-712 on EVM networks. On Solana the domain, types and value
+   * are signed as JSON wrapped in an off-chain message (see getSolanaOffchainMessage)
+   * @param network The network whose key signs the data
+   * @param domain The EIP-712 domain
+   * @param types The struct definitions
+   * @param value The data to sign
+   */
+  signTypedData(
+    network: NetworkName,
+    domain: TypedDataDomain,
+    types: TypedDataTypes,
+    value: Record<string, any>,
+  ): Promise<string>;
+
   getPublicKey(network: NetworkName): Promise<string>;
   getPrivateKey(network: NetworkName): Promise<string>;
 
@@ -63,4 +274,32 @@ export interface IWallet {
     network: NetworkName,
     transaction: TransactionRequest,
   ): Promise<TransactionReceipt>;
+
+  /**
+   * Simulate a transaction without broadcasting it
+   * @param network The network to simulate the transaction on
+   * @param transaction The transaction request to simulate
+   */
+  simulateTransaction(
+    network: NetworkName,
+    transaction: TransactionRequest,
+  ): Promise<SimulationResult>;
+
+  /**
+   * Simulate transactions in order without broadcasting them, each one on the state left by
+   * the previous ones where the network supports it
+   * @param network The network to simulate the transactions on
+   * @param transactions The transaction requests to simulate, in the order they would be sent
+   */
+  simulateTransactions(
+    network: NetworkName,
+    transactions: TransactionRequest[],
+  ): Promise<SimulationResult[]>;
+
+  /**
+   * Estimate the fees a transaction would pay with its gas strategy
+   * @param network The network to estimate fees on
+   * @param transaction The transaction request to estimate
+   */
+  estimateFees(network: NetworkName, transaction: TransactionRequest): Promise<FeeEstimate>;
 }
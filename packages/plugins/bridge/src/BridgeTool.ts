@@ -4,6 +4,7 @@ import {
   AgentNodeTypes,
   BaseTool,
   CustomDynamicStructuredTool,
+  DryRunTransaction,
   IToolConfig,
   ToolProgress,
   logger,
@@ -11,6 +12,7 @@ import {
 import { ProviderRegistry } from './ProviderRegistry';
 import { IBridgeProvider, BridgeQuote, BridgeParams, BasicToken } from './types';
 import { validateTokenAddress } from './utils/addressValidation';
+import { parseTokenAmount } from './utils/tokenUtils';
 
 export interface BridgeToolConfig extends IToolConfig {
   defaultNetwork?: string;
@@ -43,6 +45,10 @@ export class BridgeTool extends BaseTool {
     return 'bridge';
   }
 
+  sendsTransactions(): boolean {
+    return true;
+  }
+
   getDescription(): string {
     const providers = this.registry.getProviderNames().join(', ');
     const networks = Array.from(this.supportedNetworks).join(', ');
@@ -369,12 +375,72 @@ export class BridgeTool extends BaseTool {
 
           logger.info('🚀 ~ BridgeTool ~ func: ~ bridgeTx:', bridgeTx);
 
+          const bridgeRequest = {
+            to: bridgeTx.to,
+            data: bridgeTx.data,
+            value: BigInt(bridgeTx.value || 0),
+            lastValidBlockHeight: bridgeTx.lastValidBlockHeight,
+            spend: { token: quote.fromToken.address, amount: quote.fromAmount },
+          };
+
+          // ERC20 tokens must be approved to the bridge contract first
+          const approveRequest = await this.agent
+            .getApprovalManager()
+            .getApprovalTransaction(
+              fromNetwork,
+              quote.fromToken.address,
+              fromWalletAddress,
+              bridgeTx.to,
+              parseTokenAmount(quote.fromAmount, quote.fromToken.decimals),
+              selectedProvider.getName(),
+            );
+
+          if (this.agent.isDryRun()) {
+            onProgress?.({
+              progress: 70,
+              message: `Simulating bridge of ${quote.fromAmount} ${quote.fromToken.symbol} from ${fromNetwork} to ${toNetwork}. Nothing will be broadcast.`,
+            });
+
+            const dryRunTransactions: DryRunTransaction[] = [];
+            if (approveRequest) {
+              dryRunTransactions.push({ step: 'approve', transaction: approveRequest });
+            }
+            dryRunTransactions.push({ step: 'bridge', transaction: bridgeRequest });
+            const simulation = await this.simulateTransactions(fromNetwork, dryRunTransactions);
+
+            return JSON.stringify({
+              status: 'simulated',
+              provider: selectedProvider.getName(),
+              fromToken: quote.fromToken,
+              toToken: quote.toToken,
+              fromAmount: quote.fromAmount.toString(),
+              toAmount: quote.toAmount.toString(),
+              priceImpact: quote.priceImpact,
+              type: quote.type,
+              fromNetwork,
+              toNetwork,
+              simulation,
+            });
+          }
+
+          if (approveRequest) {
+            onProgress?.({
+              progress: 60,
+              message: `Approving ${selectedProvider.getName()} to access your ${quote.fromToken.symbol || 'tokens'}`,
+            });
+
+            const approveReceipt = await wallet.signAndSendTransaction(fromNetwork, approveRequest);
+
+            // Wait for approval to be mined
+            await approveReceipt.wait();
+          }
+
           onProgress?.({
             progress: 70,
             message: `Sending bridge transaction to move ${quote.fromAmount} ${quote.fromToken.symbol} from ${fromNetwork} to ${toNetwork}.`,
           });
 
-          const receipt = await wallet.signAndSendTransaction(fromNetwork, bridgeTx as any);
+          const receipt = await wallet.signAndSendTransaction(fromNetwork, bridgeRequest);
 
           // Wait for transaction to be mined
           const finalReceipt = await receipt?.wait();
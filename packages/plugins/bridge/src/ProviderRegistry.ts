@@ -1,11 +1,11 @@
-import { NetworkName } from '@binkai/core';
+import { NetworkName, traceProvider } from '@binkai/core';
 import { IBridgeProvider } from './types';
 
 export class ProviderRegistry {
   private providers: Map<string, IBridgeProvider> = new Map();
 
   registerProvider(provider: IBridgeProvider): void {
-    this.providers.set(provider.getName(), provider);
+    this.providers.set(provider.getName(), traceProvider(provider, 'bridge'));
   }
 
   getProvider(name: string): IBridgeProvider {
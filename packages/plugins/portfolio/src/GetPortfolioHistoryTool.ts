@@ -0,0 +1,110 @@
+import { z } from 'zod';
+import {
+  AgentNodeTypes,
+  BaseTool,
+  CustomDynamicStructuredTool,
+  ErrorStep,
+  getWalletKey,
+  logger,
+} from '@binkai/core';
+import { PORTFOLIO_PERIODS, PortfolioToolConfig } from './GetPortfolioTool';
+import { getPortfolioAddresses, getPortfolioNetworks } from './utils/portfolioUtils';
+
+export class GetPortfolioHistoryTool extends BaseTool {
+  public readonly agentNodeSupports: AgentNodeTypes[] = [
+    AgentNodeTypes.PLANNER,
+    AgentNodeTypes.EXECUTOR,
+  ];
+  private supportedNetworks: string[];
+
+  constructor(config: PortfolioToolConfig) {
+    super(config);
+    this.supportedNetworks = config.supportedNetworks ?? [];
+  }
+
+  getName(): string {
+    return 'get_portfolio_history';
+  }
+
+  getDescription(): string {
+    return `Returns how the USD value of the agent's wallet changed over a period, from the portfolio snapshots taken each time get_portfolio ran, from the oldest. Use get_portfolio for the current value.`;
+  }
+
+  getSchema(): z.ZodObject<any> {
+    return z.object({
+      networks: z
+        .array(z.string())
+        .optional()
+        .describe('Networks of the portfolio, the same as passed to get_portfolio'),
+      period: z.enum(['day', 'week', 'month']).default('month').describe('How far back to go'),
+    });
+  }
+
+  mockResponseTool(args: any): Promise<string> {
+    return Promise.resolve(JSON.stringify({ status: 'success', snapshots: [], change: null }));
+  }
+
+  createTool(): CustomDynamicStructuredTool {
+    return {
+      name: this.getName(),
+      description: this.getDescription(),
+      schema: this.getSchema(),
+      func: async (args: any) => {
+        try {
+          if (this.agent.isMockResponseTool()) {
+            return this.mockResponseTool(args);
+          }
+
+          const networks = getPortfolioNetworks(this.agent, this.supportedNetworks, args.networks);
+          const addresses = await getPortfolioAddresses(this.agent, networks);
+          if (Object.keys(addresses).length === 0) {
+            throw this.createError(
+              ErrorStep.PROVIDER_AVAILABILITY,
+              'No network with a wallet or staking provider to build the portfolio from.',
+              { requestedNetworks: args.networks },
+            );
+          }
+
+          const period = (args.period ?? 'month') as keyof typeof PORTFOLIO_PERIODS;
+          const snapshots = (
+            await this.agent.getPortfolioHistory().list({
+              wallet: getWalletKey(addresses),
+              since: Date.now() - PORTFOLIO_PERIODS[period],
+            })
+          ).reverse();
+
+          const first = snapshots[0];
+          const last = snapshots[snapshots.length - 1];
+          const changeUsd = first ? last.total_usd_value - first.total_usd_value : 0;
+          return JSON.stringify({
+            status: 'success',
+            addresses,
+            snapshots: snapshots.map(snapshot => ({
+              takenAt: new Date(snapshot.created_at).toISOString(),
+              totalUsdValue: snapshot.total_usd_value,
+              walletUsdValue: snapshot.wallet_usd_value,
+              stakedUsdValue: snapshot.staked_usd_value,
+            })),
+            change: first
+              ? {
+                  changeUsd,
+                  changePercent:
+                    first.total_usd_value > 0 ? (changeUsd / first.total_usd_value) * 100 : null,
+                }
+              : null,
+            message:
+              snapshots.length === 0
+                ? 'No portfolio snapshot in this period, run get_portfolio to take one'
+                : undefined,
+          });
+        } catch (error) {
+          logger.error(
+            '❌ Error in portfolio history tool:',
+            error instanceof Error ? error.message : error,
+          );
+          return this.handleError(error, args);
+        }
+      },
+    };
+  }
+}
@@ -0,0 +1,284 @@
+import { z } from 'zod';
+import {
+  AgentNodeTypes,
+  BaseTool,
+  CustomDynamicStructuredTool,
+  ErrorStep,
+  EVM_NATIVE_TOKEN_ADDRESS,
+  IToolConfig,
+  NetworkName,
+  SOL_NATIVE_TOKEN_ADDRESS,
+  ToolProgress,
+  getWalletKey,
+  logger,
+} from '@binkai/core';
+import type { WalletPlugin, WalletInfo } from '@binkai/wallet-plugin';
+import type { StakingPlugin } from '@binkai/staking-plugin';
+import type { TokenPlugin } from '@binkai/token-plugin';
+import { PortfolioPosition } from './types';
+import {
+  aggregatePortfolio,
+  getPortfolioAddresses,
+  getPortfolioNetworks,
+  getProviderNetworks,
+  getTokenKey,
+  recordSnapshot,
+} from './utils/portfolioUtils';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const PORTFOLIO_PERIODS = {
+  day: DAY,
+  week: 7 * DAY,
+  month: 30 * DAY,
+};
+
+export interface PortfolioToolConfig extends IToolConfig {
+  supportedNetworks?: string[];
+}
+
+export class GetPortfolioTool extends BaseTool {
+  public readonly agentNodeSupports: AgentNodeTypes[] = [
+    AgentNodeTypes.PLANNER,
+    AgentNodeTypes.EXECUTOR,
+  ];
+  private supportedNetworks: string[];
+
+  constructor(config: PortfolioToolConfig) {
+    super(config);
+    this.supportedNetworks = config.supportedNetworks ?? [];
+  }
+
+  getName(): string {
+    return 'get_portfolio';
+  }
+
+  getDescription(): string {
+    return `Returns the whole portfolio of the agent's wallet across all networks: token balances and staking positions valued in USD, the share of each token in the total, the total per network, and the change of the total value since the previous portfolio or over a period. Use it for questions about the portfolio, its allocation or how its value changed, instead of querying balances network by network.`;
+  }
+
+  getSchema(): z.ZodObject<any> {
+    return z.object({
+      networks: z
+        .array(z.string())
+        .optional()
+        .describe('Only include these networks, all networks of the wallet by default'),
+      period: z
+        .enum(['day', 'week', 'month'])
+        .optional()
+        .describe(
+          'Compare the value with the portfolio this long ago, with the previous portfolio by default',
+        ),
+    });
+  }
+
+  mockResponseTool(args: any): Promise<string> {
+    return Promise.resolve(
+      JSON.stringify({
+        status: 'success',
+        totalUsdValue: 0,
+        walletUsdValue: 0,
+        stakedUsdValue: 0,
+        networks: {},
+        assets: [],
+        change: null,
+      }),
+    );
+  }
+
+  private toPositions(network: string, info: WalletInfo): PortfolioPosition[] {
+    const balances = [...(info.nativeBalance ? [info.nativeBalance] : []), ...(info.tokens ?? [])];
+    const nativeToken =
+      this.agent.getNetworks()[network as NetworkName]?.type === 'solana'
+        ? SOL_NATIVE_TOKEN_ADDRESS
+        : EVM_NATIVE_TOKEN_ADDRESS;
+    return balances.map(balance => ({
+      network,
+      token: balance.tokenAddress ?? nativeToken,
+      symbol: balance.symbol,
+      balance: balance.balance,
+      usdValue: balance.usdValue,
+    }));
+  }
+
+  /**
+   * Balances of the wallet from every wallet provider of each network
+   */
+  private async getHeldPositions(
+    addresses: Record<string, string>,
+    errors: Record<string, string>,
+  ): Promise<PortfolioPosition[]> {
+    const walletPlugin = this.agent.getPlugin('wallet') as WalletPlugin | undefined;
+    if (!walletPlugin) return [];
+
+    const positions = await Promise.all(
+      Object.entries(addresses).flatMap(([network, address]) =>
+        walletPlugin.getProvidersForNetwork(network as NetworkName).map(async provider => {
+          try {
+            const info = await provider.getWalletInfo(address, network as NetworkName);
+            return this.toPositions(network, info);
+          } catch (error) {
+            logger.warn(`⚠️ Failed to get wallet info from ${provider.getName()} on ${network}`);
+            errors[`${provider.getName()}:${network}`] =
+              error instanceof Error ? error.message : String(error);
+            return [];
+          }
+        }),
+      ),
+    );
+    return positions.flat();
+  }
+
+  /**
+   * Staking positions of the wallet from every staking provider. Providers report the
+   * positions on all their networks at once, so each is queried once.
+   */
+  private async getStakedPositions(
+    addresses: Record<string, string>,
+    errors: Record<string, string>,
+  ): Promise<PortfolioPosition[]> {
+    const stakingPlugin = this.agent.getPlugin('staking') as StakingPlugin | undefined;
+    if (!stakingPlugin) return [];
+
+    const positions = await Promise.all(
+      stakingPlugin.getProviders().map(async provider => {
+        const network = provider.getSupportedNetworks().find(network => addresses[network]);
+        if (!network) return [];
+        try {
+          const { tokens } = await provider.getAllStakingBalances(addresses[network]);
+          return tokens.map(token => ({
+            network,
+            token: token.tokenAddress,
+            symbol: token.symbol,
+            balance: token.balance,
+          }));
+        } catch (error) {
+          logger.warn(`⚠️ Failed to get staking balances from ${provider.getName()}`);
+          errors[`${provider.getName()}:${network}`] =
+            error instanceof Error ? error.message : String(error);
+          return [];
+        }
+      }),
+    );
+    return positions.flat();
+  }
+
+  /**
+   * USD price of each token from the token providers, each token priced once
+   */
+  private async getPrices(positions: PortfolioPosition[]): Promise<Map<string, number>> {
+    const prices = new Map<string, number>();
+    const tokenPlugin = this.agent.getPlugin('token') as TokenPlugin | undefined;
+    if (!tokenPlugin) return prices;
+
+    const priceFeed = tokenPlugin.getPriceFeed();
+    const tokens = new Map<string, PortfolioPosition>(
+      positions.map(position => [getTokenKey(position.network, position.token), position]),
+    );
+    await Promise.all(
+      Array.from(tokens).map(async ([key, { network, token }]) => {
+        try {
+          prices.set(key, await priceFeed.getPrice(network, token));
+        } catch (error) {
+          logger.warn(`⚠️ No price for ${token} on ${network}:`, error);
+        }
+      }),
+    );
+    return prices;
+  }
+
+  createTool(): CustomDynamicStructuredTool {
+    logger.info('🛠️ Creating portfolio tool');
+    return {
+      name: this.getName(),
+      description: this.getDescription(),
+      schema: this.getSchema(),
+      func: async (
+        args: any,
+        runManager?: any,
+        config?: any,
+        onProgress?: (data: ToolProgress) => void,
+      ) => {
+        try {
+          if (this.agent.isMockResponseTool()) {
+            return this.mockResponseTool(args);
+          }
+
+          // STEP 1: Find the networks and addresses of the wallet
+          const networks = getPortfolioNetworks(this.agent, this.supportedNetworks, args.networks);
+          const addresses = await getPortfolioAddresses(this.agent, networks);
+          if (Object.keys(addresses).length === 0) {
+            throw this.createError(
+              ErrorStep.PROVIDER_AVAILABILITY,
+              'No network with a wallet or staking provider to build the portfolio from.',
+              {
+                requestedNetworks: args.networks,
+                agentNetworks: Object.keys(this.agent.getNetworks()),
+                providerNetworks: getProviderNetworks(this.agent),
+              },
+            );
+          }
+
+          onProgress?.({
+            progress: 20,
+            message: `Retrieving balances on ${Object.keys(addresses).join(', ')}`,
+          });
+
+          // STEP 2: Query every wallet and staking provider
+          const errors: Record<string, string> = {};
+          const [held, staked] = await Promise.all([
+            this.getHeldPositions(addresses, errors),
+            this.getStakedPositions(addresses, errors),
+          ]);
+          if (held.length === 0 && staked.length === 0 && Object.keys(errors).length > 0) {
+            throw this.createError(
+              ErrorStep.DATA_RETRIEVAL,
+              'All providers failed to return the balances of the wallet.',
+              { errors },
+            );
+          }
+
+          onProgress?.({ progress: 60, message: 'Pricing the tokens of the portfolio' });
+
+          // STEP 3: Value the portfolio
+          const prices = await this.getPrices([...held, ...staked]);
+          const portfolio = aggregatePortfolio(held, staked, prices);
+
+          // STEP 4: Compare with a previous snapshot, then take one
+          const history = this.agent.getPortfolioHistory();
+          const wallet = getWalletKey(addresses);
+          const change = await history.getChange(
+            wallet,
+            portfolio.totalUsdValue,
+            args.period
+              ? Date.now() - PORTFOLIO_PERIODS[args.period as keyof typeof PORTFOLIO_PERIODS]
+              : undefined,
+          );
+          await recordSnapshot(
+            history,
+            wallet,
+            portfolio,
+            errors,
+            this.agent.getContext().user?.id,
+          );
+
+          onProgress?.({ progress: 100, message: 'Successfully built the portfolio' });
+
+          return JSON.stringify({
+            status: 'success',
+            addresses,
+            ...portfolio,
+            change: change && { ...change, since: new Date(change.since).toISOString() },
+            errors: Object.keys(errors).length > 0 ? errors : undefined,
+          });
+        } catch (error) {
+          logger.error(
+            '❌ Error in portfolio tool:',
+            error instanceof Error ? error.message : error,
+          );
+          return this.handleError(error, args);
+        }
+      },
+    };
+  }
+}
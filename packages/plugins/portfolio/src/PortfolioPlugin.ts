@@ -0,0 +1,39 @@
+import { BaseTool, BasePlugin, IPluginConfig } from '@binkai/core';
+import { GetPortfolioTool } from './GetPortfolioTool';
+import { GetPortfolioHistoryTool } from './GetPortfolioHistoryTool';
+
+export interface PortfolioPluginConfig extends IPluginConfig {
+  /** Networks of the portfolio, every network with a wallet or staking provider by default */
+  supportedNetworks?: string[];
+}
+
+export class PortfolioPlugin extends BasePlugin {
+  private getPortfolioTool!: GetPortfolioTool;
+  private getPortfolioHistoryTool!: GetPortfolioHistoryTool;
+
+  getName(): string {
+    return 'portfolio';
+  }
+
+  getDependencies(): string[] {
+    // Balances come from the wallet providers and prices from the token providers, the
+    // staking plugin is optional and adds the staking positions when registered
+    return ['token', 'wallet'];
+  }
+
+  async initialize(config: PortfolioPluginConfig): Promise<void> {
+    await super.initialize(config);
+
+    this.getPortfolioTool = new GetPortfolioTool({
+      supportedNetworks: config.supportedNetworks,
+    });
+
+    this.getPortfolioHistoryTool = new GetPortfolioHistoryTool({
+      supportedNetworks: config.supportedNetworks,
+    });
+  }
+
+  getTools(): BaseTool[] {
+    return [this.getPortfolioTool, this.getPortfolioHistoryTool];
+  }
+}
@@ -0,0 +1,5 @@
+export * from './PortfolioPlugin';
+export * from './GetPortfolioTool';
+export * from './GetPortfolioHistoryTool';
+export * from './types';
+export * from './utils/portfolioUtils';
@@ -0,0 +1,30 @@
+import { PortfolioSnapshotAsset } from '@binkai/core';
+
+/**
+ * Balance of a token on a network, as reported by a wallet or staking provider
+ */
+export interface PortfolioPosition {
+  network: string;
+  /** Address of the token */
+  token: string;
+  symbol: string;
+  /** Balance in token units */
+  balance: string;
+  /** USD value reported by the provider, used when no token provider prices the token */
+  usdValue?: number;
+}
+
+export interface PortfolioAsset extends PortfolioSnapshotAsset {
+  /** Share of the total value in percent, missing for tokens without a price */
+  allocation: number | null;
+}
+
+export interface Portfolio {
+  totalUsdValue: number;
+  walletUsdValue: number;
+  stakedUsdValue: number;
+  /** Value held on each network */
+  networks: Record<string, number>;
+  /** Assets from the most valuable, tokens without a price last */
+  assets: PortfolioAsset[];
+}
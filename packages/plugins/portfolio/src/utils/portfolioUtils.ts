@@ -0,0 +1,206 @@
+import { ethers } from 'ethers';
+import {
+  IAgent,
+  NetworkName,
+  PortfolioHistory,
+  PortfolioSnapshotEntity,
+  UUID,
+  logger,
+} from '@binkai/core';
+import type { WalletPlugin } from '@binkai/wallet-plugin';
+import type { StakingPlugin } from '@binkai/staking-plugin';
+import { Portfolio, PortfolioAsset, PortfolioPosition } from '../types';
+
+const EVM_ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Key of a token on a network. EVM addresses are compared without their checksum casing,
+ * Solana addresses are case sensitive.
+ */
+export function getTokenKey(network: string, token: string): string {
+  return `${network}:${EVM_ADDRESS.test(token) ? token.toLowerCase() : token}`;
+}
+
+/**
+ * Sum of two token amounts without losing the decimals of either
+ */
+export function addAmounts(a: string, b: string): string {
+  const decimals = Math.max(a.split('.')[1]?.length ?? 0, b.split('.')[1]?.length ?? 0);
+  try {
+    return ethers.formatUnits(
+      ethers.parseUnits(a, decimals) + ethers.parseUnits(b, decimals),
+      decimals,
+    );
+  } catch {
+    // Amounts in scientific notation
+    return String(Number(a) + Number(b));
+  }
+}
+
+/**
+ * Networks of the wallet and staking providers registered with the agent's plugins
+ */
+export function getProviderNetworks(agent: IAgent): string[] {
+  const walletPlugin = agent.getPlugin('wallet') as WalletPlugin | undefined;
+  const stakingPlugin = agent.getPlugin('staking') as StakingPlugin | undefined;
+  const networks = new Set<string>();
+  for (const provider of [
+    ...(walletPlugin?.getProviders() ?? []),
+    ...(stakingPlugin?.getProviders() ?? []),
+  ]) {
+    provider.getSupportedNetworks().forEach(network => networks.add(network));
+  }
+  return Array.from(networks);
+}
+
+/**
+ * Networks of the agent with a wallet or staking provider, within the supported and
+ * requested networks when given
+ */
+export function getPortfolioNetworks(
+  agent: IAgent,
+  supportedNetworks: string[] = [],
+  requested?: string[],
+): string[] {
+  const providerNetworks = getProviderNetworks(agent);
+  return Object.keys(agent.getNetworks()).filter(
+    network =>
+      providerNetworks.includes(network) &&
+      (supportedNetworks.length === 0 || supportedNetworks.includes(network)) &&
+      (!requested?.length || requested.includes(network)),
+  );
+}
+
+/**
+ * Address of the agent's wallet on each network, networks the wallet has no key for are left out
+ */
+export async function getPortfolioAddresses(
+  agent: IAgent,
+  networks: string[],
+): Promise<Record<string, string>> {
+  const addresses: Record<string, string> = {};
+  for (const network of networks) {
+    try {
+      addresses[network] = await agent.getWallet().getAddress(network as NetworkName);
+    } catch (error) {
+      logger.warn(`⚠️ No wallet address on ${network}, left out of the portfolio:`, error);
+    }
+  }
+  return addresses;
+}
+
+/**
+ * Values the positions of a wallet with the token prices, keyed by `getTokenKey`. A token
+ * reported by several wallet providers is counted once, staked positions in several
+ * protocols are added up. Tokens without a price are valued with the USD value reported by
+ * their providers, if any.
+ */
+export function aggregatePortfolio(
+  held: PortfolioPosition[],
+  staked: PortfolioPosition[],
+  prices: Map<string, number>,
+): Portfolio {
+  const holdings = new Map<
+    string,
+    PortfolioPosition & { staked: string; stakedUsdValue?: number; held: boolean }
+  >();
+  const getHolding = (position: PortfolioPosition) => {
+    const key = getTokenKey(position.network, position.token);
+    let holding = holdings.get(key);
+    if (!holding) {
+      holding = { ...position, balance: '0', usdValue: undefined, staked: '0', held: false };
+      holdings.set(key, holding);
+    }
+    return holding;
+  };
+
+  for (const position of held) {
+    const holding = getHolding(position);
+    if (holding.held) continue;
+    holding.held = true;
+    holding.balance = position.balance;
+    holding.usdValue = position.usdValue;
+  }
+  for (const position of staked) {
+    const holding = getHolding(position);
+    holding.staked = addAmounts(holding.staked, position.balance);
+    if (position.usdValue !== undefined) {
+      holding.stakedUsdValue = (holding.stakedUsdValue ?? 0) + position.usdValue;
+    }
+  }
+
+  const portfolio: Portfolio = {
+    totalUsdValue: 0,
+    walletUsdValue: 0,
+    stakedUsdValue: 0,
+    networks: {},
+    assets: [],
+  };
+  for (const [key, holding] of holdings) {
+    const balance = Number(holding.balance);
+    const stakedBalance = Number(holding.staked);
+    if (!(balance > 0) && !(stakedBalance > 0)) continue;
+
+    let price = prices.get(key);
+    if (price === undefined && holding.usdValue && balance > 0) {
+      price = holding.usdValue / balance;
+    } else if (price === undefined && holding.stakedUsdValue && stakedBalance > 0) {
+      price = holding.stakedUsdValue / stakedBalance;
+    }
+
+    const asset: PortfolioAsset = {
+      network: holding.network,
+      token: holding.token,
+      symbol: holding.symbol,
+      balance: holding.balance,
+      staked: holding.staked,
+      price: price ?? null,
+      value: null,
+      allocation: null,
+    };
+    if (price !== undefined) {
+      const walletValue = balance > 0 ? balance * price : 0;
+      const stakedValue = stakedBalance > 0 ? stakedBalance * price : 0;
+      asset.value = walletValue + stakedValue;
+      portfolio.walletUsdValue += walletValue;
+      portfolio.stakedUsdValue += stakedValue;
+      portfolio.networks[holding.network] =
+        (portfolio.networks[holding.network] ?? 0) + asset.value;
+    }
+    portfolio.assets.push(asset);
+  }
+
+  portfolio.totalUsdValue = portfolio.walletUsdValue + portfolio.stakedUsdValue;
+  for (const asset of portfolio.assets) {
+    if (asset.value === null || asset.value === undefined) continue;
+    asset.allocation =
+      portfolio.totalUsdValue > 0 ? round((asset.value / portfolio.totalUsdValue) * 100) : 0;
+  }
+  portfolio.assets.sort((a, b) => (b.value ?? -1) - (a.value ?? -1));
+  return portfolio;
+}
+
+/**
+ * Take a snapshot of the portfolio of a wallet, keyed by `getWalletKey`, unless a provider
+ * failed: the balances it left out would show as a loss in the history
+ * @returns The snapshot, undefined when none was taken
+ */
+export async function recordSnapshot(
+  history: PortfolioHistory,
+  wallet: string,
+  portfolio: Portfolio,
+  errors: Record<string, string>,
+  userId?: UUID | null,
+): Promise<PortfolioSnapshotEntity | undefined> {
+  if (Object.keys(errors).length > 0) return undefined;
+  return history.record({
+    user_id: userId ?? null,
+    wallet,
+    total_usd_value: portfolio.totalUsdValue,
+    wallet_usd_value: portfolio.walletUsdValue,
+    staked_usd_value: portfolio.stakedUsdValue,
+    assets: portfolio.assets.map(({ allocation, ...asset }) => asset),
+  });
+}
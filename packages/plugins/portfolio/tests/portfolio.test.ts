@@ -0,0 +1,133 @@
+import { PortfolioHistory } from '@binkai/core';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { PortfolioPosition } from '../src/types';
+import {
+  addAmounts,
+  aggregatePortfolio,
+  getTokenKey,
+  recordSnapshot,
+} from '../src/utils/portfolioUtils';
+
+describe('portfolioUtils', () => {
+  const BNB = '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee';
+  const USDT = '0x55d398326f99059fF775485246999027B3197955';
+  const USDC_SOLANA = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+  const position = (
+    token: string,
+    balance: string,
+    extra: Partial<PortfolioPosition> = {},
+  ): PortfolioPosition => ({
+    network: 'bnb',
+    token,
+    symbol: token === BNB ? 'BNB' : 'USDT',
+    balance,
+    ...extra,
+  });
+
+  describe('getTokenKey', () => {
+    it('should ignore the casing of EVM addresses only', () => {
+      expect(getTokenKey('bnb', USDT)).toBe(getTokenKey('bnb', USDT.toLowerCase()));
+      expect(getTokenKey('solana', USDC_SOLANA)).not.toBe(
+        getTokenKey('solana', USDC_SOLANA.toLowerCase()),
+      );
+    });
+  });
+
+  describe('addAmounts', () => {
+    it('should keep the decimals of both amounts', () => {
+      expect(addAmounts('1.5', '0.000000000000000001')).toBe('1.500000000000000001');
+      expect(addAmounts('0', '2')).toBe('2');
+    });
+  });
+
+  describe('aggregatePortfolio', () => {
+    const prices = new Map([
+      [getTokenKey('bnb', BNB), 600],
+      [getTokenKey('bnb', USDT), 1],
+    ]);
+
+    it('should count a token reported by several wallet providers once', () => {
+      const portfolio = aggregatePortfolio(
+        [position(BNB, '1'), position(BNB, '1'), position(USDT.toLowerCase(), '100')],
+        [],
+        prices,
+      );
+
+      expect(portfolio.assets).toHaveLength(2);
+      expect(portfolio.assets[0]).toMatchObject({ token: BNB, balance: '1', value: 600 });
+      expect(portfolio.walletUsdValue).toBe(700);
+    });
+
+    it('should merge staked and held amounts of a token', () => {
+      const portfolio = aggregatePortfolio(
+        [position(BNB, '1')],
+        [position(BNB, '0.5'), position(BNB, '0.25')],
+        prices,
+      );
+
+      expect(portfolio.assets).toMatchObject([
+        { token: BNB, balance: '1', staked: '0.75', value: 1050 },
+      ]);
+      expect(portfolio).toMatchObject({
+        totalUsdValue: 1050,
+        walletUsdValue: 600,
+        stakedUsdValue: 450,
+        networks: { bnb: 1050 },
+      });
+    });
+
+    it('should compute the allocation of each priced asset', () => {
+      const unpriced = '0x0000000000000000000000000000000000000001';
+      const portfolio = aggregatePortfolio(
+        [position(BNB, '1'), position(USDT, '200'), position(unpriced, '5')],
+        [],
+        prices,
+      );
+
+      expect(portfolio.assets.map(({ allocation }) => allocation)).toEqual([75, 25, null]);
+      expect(portfolio.assets[2]).toMatchObject({ token: unpriced, price: null, value: null });
+    });
+
+    it('should value unpriced tokens with the USD value of their providers', () => {
+      const token = '0x0000000000000000000000000000000000000002';
+      const portfolio = aggregatePortfolio([position(token, '4', { usdValue: 20 })], [], prices);
+
+      expect(portfolio.assets).toMatchObject([{ token, price: 5, value: 20, allocation: 100 }]);
+    });
+  });
+
+  describe('recordSnapshot', () => {
+    let history: PortfolioHistory;
+    const wallet = 'bnb:0x742d35Cc6634C0532925a3b844Bc454e4438f44e';
+
+    beforeEach(() => {
+      history = new PortfolioHistory();
+    });
+
+    it('should record the portfolio without the allocations', async () => {
+      const portfolio = aggregatePortfolio(
+        [position(BNB, '1')],
+        [],
+        new Map([[getTokenKey('bnb', BNB), 600]]),
+      );
+
+      const snapshot = await recordSnapshot(history, wallet, portfolio, {});
+
+      expect(snapshot).toMatchObject({ wallet, total_usd_value: 600, user_id: null });
+      expect(snapshot?.assets[0]).not.toHaveProperty('allocation');
+      expect(await history.list({ wallet })).toHaveLength(1);
+    });
+
+    it('should skip the snapshot when a provider failed', async () => {
+      const portfolio = aggregatePortfolio([], [], new Map());
+
+      const snapshot = await recordSnapshot(history, wallet, portfolio, {
+        'venus:bnb': 'Request timed out',
+      });
+
+      expect(snapshot).toBeUndefined();
+      expect(await history.list({ wallet })).toEqual([]);
+    });
+  });
+});
@@ -1,11 +1,11 @@
 import { IStakingProvider } from './types';
-import { NetworkName } from '@binkai/core';
+import { NetworkName, traceProvider } from '@binkai/core';
 
 export class ProviderRegistry {
   private providers: Map<string, IStakingProvider> = new Map();
 
   registerProvider(provider: IStakingProvider): void {
-    this.providers.set(provider.getName(), provider);
+    this.providers.set(provider.getName(), traceProvider(provider, 'staking'));
   }
 
   getProvider(name: string): IStakingProvider {
@@ -3,7 +3,7 @@ import { GetStakingBalanceTool } from './GetStakingBalanceTool';
 import { GetStakeInfoTool } from './GetStakeInfoTool';
 import { IStakingProvider } from './types';
 import { ProviderRegistry } from './ProviderRegistry';
-import { BaseTool, IPluginConfig, BasePlugin, NetworkName } from '@binkai/core';
+import { BaseTool, IPluginConfig, BasePlugin, NetworkName, IAgent } from '@binkai/core';
 
 export interface StakingPluginConfig extends IPluginConfig {
   defaultNetwork?: string;
@@ -66,10 +66,23 @@ export class StakingPlugin extends BasePlugin {
     ];
   }
 
+  /**
+   * Approve through the agent's approval manager
+   */
+  async register(agent: IAgent): Promise<void> {
+    await super.register(agent);
+    this.getProviders().forEach(provider =>
+      provider.setApprovalManager?.(agent.getApprovalManager()),
+    );
+  }
+
   /**
    * Register a new Staking provider
    */
   registerProvider(provider: IStakingProvider): void {
+    if (this.agent) {
+      provider.setApprovalManager?.(this.agent.getApprovalManager());
+    }
     this.registry.registerProvider(provider);
     this.stakingTool.registerProvider(provider);
     this.getStakingBalanceTool.registerProvider(provider);
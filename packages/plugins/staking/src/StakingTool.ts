@@ -5,6 +5,7 @@ import {
   CustomDynamicStructuredTool,
   IToolConfig,
   ToolProgress,
+  DryRunTransaction,
   logger,
 } from '@binkai/core';
 import { ProviderRegistry } from './ProviderRegistry';
@@ -41,6 +42,10 @@ export class StakingTool extends BaseTool {
     return 'staking';
   }
 
+  sendsTransactions(): boolean {
+    return true;
+  }
+
   getDescription(): string {
     const providers = this.registry.getProviderNames().join(', ');
     const networks = Array.from(this.supportedNetworks).join(', ');
@@ -309,6 +314,8 @@ Provider-specific tokens:
           const { selectedProvider, quote, userAddress } = await this.getQuote(args, onProgress);
 
           const wallet = this.agent.getWallet();
+          const isDryRun = this.agent.isDryRun();
+          const dryRunTransactions: DryRunTransaction[] = [];
 
           onProgress?.({
             progress: 30,
@@ -324,44 +331,71 @@ Provider-specific tokens:
           });
 
           // Check if approval is needed and handle it
-          const allowance = await selectedProvider.checkAllowance(
-            network,
-            quote.tokenA.address,
-            userAddress,
-            stakingTx.to,
-          );
-
           const requiredAmount = parseTokenAmount(quote.amountA, quote.tokenA.decimals);
-
-          logger.info('🤖 Allowance: ', allowance, ' Required amount: ', requiredAmount);
-
-          if (allowance < requiredAmount) {
-            const approveTx = await selectedProvider.buildApproveTransaction(
+          const approveRequest = await this.agent
+            .getApprovalManager()
+            .getApprovalTransaction(
               network,
               quote.tokenA.address,
-              stakingTx.to,
-              quote.amountA,
               userAddress,
+              stakingTx.to,
+              requiredAmount,
+              selectedProvider.getName(),
             );
-            logger.info('🤖 Approving...');
 
-            // Sign and send approval transaction
-            onProgress?.({
-              progress: 60,
-              message: `Approving ${selectedProvider.getName()} to access your ${quote.tokenA.symbol || 'tokens'}`,
-            });
+          logger.info('🤖 Approval needed:', !!approveRequest, 'Required amount:', requiredAmount);
+
+          if (approveRequest) {
+            if (isDryRun) {
+              dryRunTransactions.push({ step: 'approve', transaction: approveRequest });
+            } else {
+              logger.info('🤖 Approving...');
+
+              // Sign and send approval transaction
+              onProgress?.({
+                progress: 60,
+                message: `Approving ${selectedProvider.getName()} to access your ${quote.tokenA.symbol || 'tokens'}`,
+              });
 
-            const approveReceipt = await wallet.signAndSendTransaction(network, {
-              to: approveTx.to,
-              data: approveTx.data,
-              value: BigInt(approveTx.value),
+              const approveReceipt = await wallet.signAndSendTransaction(network, approveRequest);
+
+              logger.info('🤖 ApproveReceipt:', approveReceipt);
+
+              // Wait for approval to be mined
+              await approveReceipt.wait();
+            }
+          }
+
+          const stakingRequest = {
+            to: stakingTx.to,
+            data: stakingTx.data,
+            value: BigInt(stakingTx.value),
+            spend: { token: quote.tokenA.address, amount: quote.amountA },
+          };
+
+          if (isDryRun) {
+            dryRunTransactions.push({ step: type, transaction: stakingRequest });
+
+            onProgress?.({
+              progress: 80,
+              message: `Simulating ${type} operation for ${quote.amountA} ${quote.tokenA.symbol || 'tokens'}. Nothing will be broadcast.`,
             });
 
-            logger.info('🤖 ApproveReceipt:', approveReceipt);
+            const simulation = await this.simulateTransactions(network, dryRunTransactions);
 
-            // Wait for approval to be mined
-            await approveReceipt.wait();
+            return JSON.stringify({
+              status: 'simulated',
+              provider: selectedProvider.getName(),
+              tokenA: quote.tokenA,
+              tokenB: quote.tokenB,
+              amountA: quote.amountA.toString(),
+              amountB: quote.amountB.toString(),
+              type: quote.type,
+              network,
+              simulation,
+            });
           }
+
           logger.info('🤖 Staking...');
 
           onProgress?.({
@@ -370,11 +404,7 @@ Provider-specific tokens:
           });
 
           // Sign and send Staking transaction
-          const receipt = await wallet.signAndSendTransaction(network, {
-            to: stakingTx.to,
-            data: stakingTx.data,
-            value: BigInt(stakingTx.value),
-          });
+          const receipt = await wallet.signAndSendTransaction(network, stakingRequest);
           // Wait for transaction to be mined
           const finalReceipt = await receipt.wait();
 
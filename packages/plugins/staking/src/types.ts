@@ -1,4 +1,4 @@
-import { NetworkName, Token } from '@binkai/core';
+import { ApprovalManager, NetworkName, Token } from '@binkai/core';
 import { Provider } from 'ethers';
 import { Connection } from '@solana/web3.js';
 
@@ -58,6 +58,12 @@ export interface IStakingProvider {
    */
   getName(): string;
 
+  /**
+   * Use the agent's approval manager, so approvals follow its approval mode and are listed
+   * by the wallet plugin
+   */
+  setApprovalManager?(approvals: ApprovalManager): void;
+
   /**
    * Get supported networks for this provider
    */
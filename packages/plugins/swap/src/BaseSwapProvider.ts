@@ -1,4 +1,5 @@
 import {
+  ApprovalManager,
   EVM_NATIVE_TOKEN_ADDRESS,
   NetworkName,
   SOL_NATIVE_TOKEN_ADDRESS,
@@ -7,7 +8,7 @@ import {
   logger,
 } from '@binkai/core';
 import { ISwapProvider, SwapQuote, SwapParams, Transaction, NetworkProvider } from './types';
-import { ethers, Contract, Interface, Provider } from 'ethers';
+import { ethers, Interface, Provider } from 'ethers';
 import { Connection, PublicKey } from '@solana/web3.js';
 import {
   adjustTokenAmount,
@@ -41,6 +42,8 @@ export abstract class BaseSwapProvider implements ISwapProvider {
   protected readonly TOLERANCE_PERCENTAGE = DEFAULT_TOLERANCE_PERCENTAGE;
   // Initialize the token balance cache
   protected balanceCache = createTokenBalanceCache();
+  // Shared ERC20 allowance handling, the agent's once the plugin is registered
+  protected approvals = new ApprovalManager(network => this.getEvmProviderForNetwork(network));
 
   // Network-specific gas buffers
   protected readonly GAS_BUFFERS: Record<NetworkName, bigint> = {
@@ -413,6 +416,10 @@ export abstract class BaseSwapProvider implements ISwapProvider {
     }
   }
 
+  setApprovalManager(approvals: ApprovalManager): void {
+    this.approvals = approvals;
+  }
+
   async buildApproveTransaction(
     network: NetworkName,
     token: string,
@@ -429,14 +436,12 @@ export abstract class BaseSwapProvider implements ISwapProvider {
     }
 
     const tokenInfo = await this.getToken(token, network);
-    const erc20Interface = new Interface([
-      'function approve(address spender, uint256 amount) returns (bool)',
-    ]);
-
-    const data = erc20Interface.encodeFunctionData('approve', [
+    const { data } = this.approvals.buildApproveTransaction(
+      network,
+      token,
       spender,
       parseTokenAmount(amount, tokenInfo.decimals),
-    ]);
+    );
 
     // Invalidate the native token balance cache since gas will be spent
     this.invalidateBalanceCache(EVM_NATIVE_TOKEN_ADDRESS, walletAddress, network);
@@ -460,17 +465,11 @@ export abstract class BaseSwapProvider implements ISwapProvider {
     if (isSolanaNetwork(network)) {
       // TODO: Implement Solana
     }
-    const provider = this.getEvmProviderForNetwork(network);
     if (this.isNativeToken(tokenAddress)) {
       return BigInt(Number.MAX_SAFE_INTEGER) * BigInt(10 ** 18);
     }
 
-    const erc20 = new Contract(
-      tokenAddress,
-      ['function allowance(address owner, address spender) view returns (uint256)'],
-      provider,
-    );
-    return await erc20.allowance(owner, spender);
+    return await this.approvals.getAllowance(network, tokenAddress, owner, spender);
   }
 
   protected storeQuote(quote: SwapQuote, additionalData?: any) {
@@ -38,6 +38,10 @@ export class CancelLimitOrdersTool extends BaseTool {
     return 'cancel_limit_order';
   }
 
+  sendsTransactions(): boolean {
+    return true;
+  }
+
   getDescription(): string {
     const providers = this.registry.getProviderNames().join(', ');
     const networks = Array.from(this.supportedNetworks).join(', ');
@@ -0,0 +1,55 @@
+import { DynamicStructuredTool } from '@langchain/core/tools';
+import { z } from 'zod';
+import { BaseTool, CustomDynamicStructuredTool, UUID } from '@binkai/core';
+import { summarizeTrigger } from './utils/triggerUtils';
+
+export class CancelTriggerTool extends BaseTool {
+  getName(): string {
+    return 'cancel_trigger';
+  }
+
+  getDescription(): string {
+    return 'Cancel an active price-triggered order so its swap never runs, find its id with list_triggers';
+  }
+
+  getSchema(): z.ZodObject<any> {
+    return z.object({
+      triggerId: z.string().describe('The id of the trigger to cancel'),
+    });
+  }
+
+  mockResponseTool(args: any): Promise<string> {
+    return Promise.resolve(
+      JSON.stringify({
+        status: 'success',
+        trigger: { id: args.triggerId, status: 'cancelled' },
+      }),
+    );
+  }
+
+  createTool(): CustomDynamicStructuredTool {
+    return new DynamicStructuredTool({
+      name: this.getName(),
+      description: this.getDescription(),
+      schema: this.getSchema(),
+      func: async (args: any) => {
+        if (this.agent.isMockResponseTool()) {
+          return this.mockResponseTool(args);
+        }
+        try {
+          const engine = this.agent.getTriggerEngine();
+          const userId = this.agent.getContext().user?.id;
+          const trigger = await engine.get(args.triggerId as UUID);
+          // Triggers of other users are reported as missing
+          if (!trigger || (userId && trigger.user_id && trigger.user_id !== userId)) {
+            throw new Error(`Trigger ${args.triggerId} not found`);
+          }
+          const cancelled = await engine.cancel(trigger.id);
+          return JSON.stringify({ status: 'success', trigger: summarizeTrigger(cancelled) });
+        } catch (error) {
+          return this.handleError(error, args);
+        }
+      },
+    });
+  }
+}
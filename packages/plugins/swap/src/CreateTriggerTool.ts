@@ -0,0 +1,151 @@
+import { DynamicStructuredTool } from '@langchain/core/tools';
+import { z } from 'zod';
+import {
+  BaseTool,
+  CustomDynamicStructuredTool,
+  IToolConfig,
+  PriceTriggerCondition,
+  getWalletThreadId,
+} from '@binkai/core';
+import { ProviderRegistry } from './ProviderRegistry';
+import { ISwapProvider } from './types';
+import { summarizeTrigger } from './utils/triggerUtils';
+
+export interface CreateTriggerToolConfig extends IToolConfig {
+  defaultSlippage?: number;
+  supportedNetworks?: string[];
+}
+
+export class CreateTriggerTool extends BaseTool {
+  public registry: ProviderRegistry;
+  private supportedNetworks: Set<string>;
+
+  constructor(config: CreateTriggerToolConfig) {
+    super(config);
+    this.registry = new ProviderRegistry();
+    this.supportedNetworks = new Set<string>(config.supportedNetworks || []);
+  }
+
+  registerProvider(provider: ISwapProvider): void {
+    this.registry.registerProvider(provider);
+    provider.getSupportedNetworks().forEach((network: string) => {
+      this.supportedNetworks.add(network);
+    });
+  }
+
+  getName(): string {
+    return 'create_trigger';
+  }
+
+  getDescription(): string {
+    return `Prepare a swap executed automatically once the USD price of a token meets a condition: stop-loss (price below), take-profit (price above), a percent move from the current price or a trailing stop. Works with every DEX provider, also those without limit orders. Resolve token addresses first. By default the price of the token sold (fromToken) is watched.`;
+  }
+
+  private getSupportedNetworks(): string[] {
+    const agentNetworks = Object.keys(this.agent.getNetworks());
+    const providerNetworks = Array.from(this.supportedNetworks);
+    return agentNetworks.filter(network => providerNetworks.includes(network));
+  }
+
+  getSchema(): z.ZodObject<any> {
+    const providers = this.registry.getProviderNames();
+    if (providers.length === 0) {
+      throw new Error('No swap providers registered');
+    }
+
+    const supportedNetworks = this.getSupportedNetworks();
+    if (supportedNetworks.length === 0) {
+      throw new Error('No supported networks available');
+    }
+
+    return z.object({
+      description: z.string().describe('Short description of the order in the user words'),
+      network: z
+        .enum(supportedNetworks as [string, ...string[]])
+        .describe('The blockchain network of the swap'),
+      fromToken: z.string().describe('The address of the token to spend when the trigger fires'),
+      toToken: z.string().describe('The address of the token to receive when the trigger fires'),
+      amount: z.string().describe('The amount of tokens to swap'),
+      amountType: z
+        .enum(['input', 'output'])
+        .describe('Whether the amount is input (spend) or output (receive)'),
+      condition: z
+        .enum(['price_above', 'price_below', 'percent_change', 'trailing_stop'])
+        .describe(
+          'price_above/price_below a USD price, percent_change from the current price, or trailing_stop a percentage below the highest price seen',
+        ),
+      price: z.number().optional().describe('USD price, for price_above and price_below'),
+      percent: z
+        .number()
+        .optional()
+        .describe(
+          'Percentage for percent_change, negative for a drop (e.g. -10), or for trailing_stop (e.g. 5)',
+        ),
+      watchToken: z
+        .string()
+        .optional()
+        .describe('The address of the token whose price is watched (default: fromToken)'),
+      provider: z
+        .enum(providers as [string, ...string[]])
+        .optional()
+        .describe('The DEX provider of the swap. If not specified, the best rate will be found'),
+      slippage: z.number().optional().describe('Maximum slippage percentage allowed'),
+    });
+  }
+
+  mockResponseTool(args: any): Promise<string> {
+    return Promise.resolve(
+      JSON.stringify({
+        status: 'success',
+        trigger: {
+          id: '00000000-0000-0000-0000-000000000000',
+          description: args.description,
+          network: args.network,
+          token: args.watchToken ?? args.fromToken,
+          status: 'active',
+        },
+      }),
+    );
+  }
+
+  createTool(): CustomDynamicStructuredTool {
+    return new DynamicStructuredTool({
+      name: this.getName(),
+      description: this.getDescription(),
+      schema: this.getSchema(),
+      func: async (args: any) => {
+        if (this.agent.isMockResponseTool()) {
+          return this.mockResponseTool(args);
+        }
+        try {
+          const condition: PriceTriggerCondition =
+            args.condition === 'price_above' || args.condition === 'price_below'
+              ? { type: args.condition, price: args.price }
+              : { type: args.condition, percent: args.percent };
+          const trigger = await this.agent.getTriggerEngine().create({
+            description: args.description,
+            network: args.network,
+            token: args.watchToken ?? args.fromToken,
+            condition,
+            // Arguments of the swap tool, executed as is once the trigger fires
+            params: {
+              fromToken: args.fromToken,
+              toToken: args.toToken,
+              amount: args.amount,
+              amountType: args.amountType,
+              network: args.network,
+              provider: args.provider,
+              slippage: args.slippage ?? (this.config as CreateTriggerToolConfig).defaultSlippage,
+            },
+            userId: this.agent.getContext().user?.id,
+            // The swap signs with the wallet account of the thread creating the trigger
+            threadId: getWalletThreadId(),
+          });
+          return JSON.stringify({ status: 'success', trigger: summarizeTrigger(trigger) });
+        } catch (error) {
+          return this.handleError(error, args);
+        }
+      },
+    });
+  }
+}
@@ -0,0 +1,49 @@
+import { DynamicStructuredTool } from '@langchain/core/tools';
+import { z } from 'zod';
+import { BaseTool, CustomDynamicStructuredTool } from '@binkai/core';
+import { summarizeTrigger } from './utils/triggerUtils';
+
+export class ListTriggersTool extends BaseTool {
+  getName(): string {
+    return 'list_triggers';
+  }
+
+  getDescription(): string {
+    return 'List the price-triggered orders of the user (stop-loss, take-profit, trailing stops) with their status and last checked price';
+  }
+
+  getSchema(): z.ZodObject<any> {
+    return z.object({
+      status: z
+        .enum(['active', 'triggered', 'executed', 'failed', 'cancelled'])
+        .optional()
+        .describe('Only list triggers with this status'),
+    });
+  }
+
+  mockResponseTool(args: any): Promise<string> {
+    return Promise.resolve(JSON.stringify({ status: 'success', triggers: [] }));
+  }
+
+  createTool(): CustomDynamicStructuredTool {
+    return new DynamicStructuredTool({
+      name: this.getName(),
+      description: this.getDescription(),
+      schema: this.getSchema(),
+      func: async (args: any) => {
+        if (this.agent.isMockResponseTool()) {
+          return this.mockResponseTool(args);
+        }
+        try {
+          const triggers = await this.agent.getTriggerEngine().list({
+            userId: this.agent.getContext().user?.id,
+            status: args.status,
+          });
+          return JSON.stringify({ status: 'success', triggers: triggers.map(summarizeTrigger) });
+        } catch (error) {
+          return this.handleError(error, args);
+        }
+      },
+    });
+  }
+}
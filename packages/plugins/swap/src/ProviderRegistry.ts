@@ -1,11 +1,11 @@
 import { ISwapProvider } from './types';
-import { NetworkName } from '@binkai/core';
+import { NetworkName, traceProvider } from '@binkai/core';
 
 export class ProviderRegistry {
   private providers: Map<string, ISwapProvider> = new Map();
 
   registerProvider(provider: ISwapProvider): void {
-    this.providers.set(provider.getName(), provider);
+    this.providers.set(provider.getName(), traceProvider(provider, 'swap'));
   }
 
   getProvider(name: string): ISwapProvider {
@@ -1,9 +1,13 @@
 import { SwapTool } from './SwapTool';
 import { ISwapProvider, ILimitOrderProvider } from './types';
 import { ProviderRegistry } from './ProviderRegistry';
-import { BaseTool, IPluginConfig, BasePlugin, NetworkName } from '@binkai/core';
+import { BaseTool, IPluginConfig, BasePlugin, NetworkName, IAgent } from '@binkai/core';
+import type { TokenPlugin } from '@binkai/token-plugin';
 import { GetLimitOrdersTool } from './GetLimitOrdersTool';
 import { CancelLimitOrdersTool } from './CancelLimitOrdersTool';
+import { CreateTriggerTool } from './CreateTriggerTool';
+import { ListTriggersTool } from './ListTriggersTool';
+import { CancelTriggerTool } from './CancelTriggerTool';
 
 export interface SwapPluginConfig extends IPluginConfig {
   defaultSlippage?: number;
@@ -17,6 +21,9 @@ export class SwapPlugin extends BasePlugin {
   private swapTool!: SwapTool;
   private getLimitOrdersTool!: GetLimitOrdersTool;
   private cancelLimitOrdersTool!: CancelLimitOrdersTool;
+  private createTriggerTool!: CreateTriggerTool;
+  private listTriggersTool!: ListTriggersTool;
+  private cancelTriggerTool!: CancelTriggerTool;
   private supportedNetworks: Set<string>;
 
   constructor() {
@@ -54,6 +61,14 @@ export class SwapPlugin extends BasePlugin {
       supportedNetworks: Array.from(this.supportedNetworks),
     });
 
+    // Configure price trigger tools, their swaps run through the swap tool
+    this.createTriggerTool = new CreateTriggerTool({
+      defaultSlippage: config.defaultSlippage,
+      supportedNetworks: Array.from(this.supportedNetworks),
+    });
+    this.listTriggersTool = new ListTriggersTool({});
+    this.cancelTriggerTool = new CancelTriggerTool({});
+
     // Register providers if provided in config
     if (config.providers) {
       for (const provider of config.providers) {
@@ -67,15 +82,44 @@ export class SwapPlugin extends BasePlugin {
       this.swapTool as unknown as BaseTool,
       this.getLimitOrdersTool as unknown as BaseTool,
       this.cancelLimitOrdersTool as unknown as BaseTool,
+      this.createTriggerTool as unknown as BaseTool,
+      this.listTriggersTool as unknown as BaseTool,
+      this.cancelTriggerTool as unknown as BaseTool,
     ];
   }
 
+  /**
+   * Approve through the agent's approval manager and watch the price triggers of the agent,
+   * with the token plugin's providers as price feed unless the agent's trigger config has one.
+   * The token plugin is optional and can be registered after this plugin
+   */
+  async register(agent: IAgent): Promise<void> {
+    await super.register(agent);
+    this.getProviders().forEach(provider =>
+      provider.setApprovalManager?.(agent.getApprovalManager()),
+    );
+    agent.getTriggerEngine().setPriceFeed({
+      getPrice: async (network, token) => {
+        const tokenPlugin = agent.getPlugin('token') as TokenPlugin | undefined;
+        if (!tokenPlugin) {
+          throw new Error('Price triggers need the token plugin to get prices');
+        }
+        return tokenPlugin.getPriceFeed().getPrice(network, token);
+      },
+    });
+    agent.getTriggerEngine().start();
+  }
+
   /**
    * Register a new swap provider
    */
   registerProvider(provider: ISwapProvider): void {
+    if (this.agent) {
+      provider.setApprovalManager?.(this.agent.getApprovalManager());
+    }
     this.registry.registerProvider(provider);
     this.swapTool.registerProvider(provider);
+    this.createTriggerTool.registerProvider(provider);
 
     // Register provider for limit orders tools if it supports the interface
     if ('getAllOrderIds' in provider) {
@@ -115,6 +159,8 @@ export class SwapPlugin extends BasePlugin {
   }
 
   async cleanup(): Promise<void> {
+    this.agent?.getTriggerEngine().stop();
+
     // Cleanup any provider resources if needed
     const providers = this.getProviders();
     await Promise.all(
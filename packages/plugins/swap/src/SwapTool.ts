@@ -10,6 +10,7 @@ import {
   ErrorStep,
   EVM_NATIVE_TOKEN_ADDRESS,
   NetworkName,
+  DryRunTransaction,
   logger,
 } from '@binkai/core';
 import { ProviderRegistry } from './ProviderRegistry';
@@ -22,6 +23,9 @@ import { defaultTokens } from '@binkai/token-plugin';
 import { WrapToken } from './types';
 import { Transaction } from '@solana/web3.js';
 
+/** Validity of the permits signed for a swap */
+const PERMIT_DEADLINE_SECONDS = 20 * 60;
+
 export interface SwapToolConfig extends IToolConfig {
   defaultSlippage?: number;
   defaultNetwork?: string;
@@ -53,6 +57,10 @@ export class SwapTool extends BaseTool {
     return 'swap';
   }
 
+  sendsTransactions(): boolean {
+    return true;
+  }
+
   getDescription(): string {
     const providers = this.registry.getProviderNames().join(', ');
     const networks = Array.from(this.supportedNetworks).join(', ');
@@ -193,6 +201,8 @@ export class SwapTool extends BaseTool {
     selectedProvider: ISwapProvider;
     quote: SwapQuote;
     userAddress: string;
+    /** Wrap of the native token to simulate before the swap in dry-run mode */
+    wrapTransaction?: DryRunTransaction;
   }> {
     const {
       fromToken,
@@ -265,6 +275,7 @@ export class SwapTool extends BaseTool {
       limitPrice,
     };
     let selectedProvider: ISwapProvider;
+    let wrapTransaction: DryRunTransaction | undefined;
     let quote: SwapQuote;
 
     onProgress?.({
@@ -288,17 +299,24 @@ export class SwapTool extends BaseTool {
       const wrapTx = await selectedProvider.wrapToken(amount.toString(), WrapToken.WBNB);
 
       const wallet = this.agent.getWallet();
-      const wrapReceipt = await wallet.signAndSendTransaction(network, {
+      const wrapRequest = {
         to: wrapTx.to,
         data: wrapTx.data,
         value: BigInt(wrapTx.value),
-      });
+      };
 
-      // Wait for approval to be mined
-      const wrapResult = await wrapReceipt.wait();
+      if (this.agent.isDryRun()) {
+        // Nothing is broadcast in dry-run mode, the wrap is simulated with the swap
+        wrapTransaction = { step: 'wrap', transaction: wrapRequest };
+      } else {
+        const wrapReceipt = await wallet.signAndSendTransaction(network, wrapRequest);
+
+        // Wait for approval to be mined
+        const wrapResult = await wrapReceipt.wait();
 
-      if (!wrapResult?.hash) {
-        throw new Error(`Failed to wrap BNB to WBNB`);
+        if (!wrapResult?.hash) {
+          throw new Error(`Failed to wrap BNB to WBNB`);
+        }
       }
       // set wrap token address
       swapParams.fromToken = WrapToken.WBNB;
@@ -375,6 +393,7 @@ export class SwapTool extends BaseTool {
         provider: selectedProvider.getName(),
       },
       userAddress,
+      wrapTransaction,
     };
   }
 
@@ -441,7 +460,12 @@ export class SwapTool extends BaseTool {
 
           logger.info('🤖 Swap Args:', args);
 
-          const { selectedProvider, quote, userAddress } = await this.getQuote(args, onProgress);
+          const { selectedProvider, quote, userAddress, wrapTransaction } = await this.getQuote(
+            args,
+            onProgress,
+          );
+          const isDryRun = this.agent.isDryRun();
+          const dryRunTransactions: DryRunTransaction[] = wrapTransaction ? [wrapTransaction] : [];
           onProgress?.({
             progress: 20,
             message: `Preparing to swap ${quote.fromAmount} ${quote.fromToken.symbol || 'tokens'} for approximately ${quote.toAmount} ${quote.toToken.symbol || 'tokens'} via ${selectedProvider.getName()}.`,
@@ -464,43 +488,67 @@ export class SwapTool extends BaseTool {
           if (!isSolanaNetwork(network)) {
             try {
               // Check if approval is needed and handle it
-              const allowance = await selectedProvider.checkAllowance(
+              const approvals = this.agent.getApprovalManager();
+              const requiredAmount = parseTokenAmount(quote.fromAmount, quote.fromToken.decimals);
+              const approveRequest = await approvals.getApprovalTransaction(
                 network,
                 quote.fromToken.address,
                 userAddress,
                 swapTx.spender,
+                requiredAmount,
+                selectedProvider.getName(),
               );
 
-              const requiredAmount = parseTokenAmount(quote.fromAmount, quote.fromToken.decimals);
-
-              logger.info('🤖 Allowance: ', allowance, ' Required amount: ', requiredAmount);
-              if (allowance < requiredAmount) {
+              logger.info(
+                '🤖 Approval needed:',
+                !!approveRequest,
+                'Required amount:',
+                requiredAmount,
+              );
+              if (approveRequest) {
                 try {
-                  const approveTx = await selectedProvider.buildApproveTransaction(
-                    network,
-                    quote.fromToken.address,
-                    swapTx.spender,
-                    quote.fromAmount,
-                    userAddress,
-                  );
-
-                  // Sign and send approval transaction
-                  onProgress?.({
-                    progress: 60,
-                    message: `Approving ${selectedProvider.getName()} to access your ${quote.fromToken.symbol || 'tokens'}`,
-                  });
-
-                  const wallet = this.agent.getWallet();
-                  const approveReceipt = await wallet.signAndSendTransaction(network, {
-                    to: approveTx.to,
-                    data: approveTx.data,
-                    value: BigInt(approveTx.value),
-                  });
-
-                  logger.info('🤖 ApproveReceipt:', approveReceipt);
-
-                  // Wait for approval to be mined
-                  await approveReceipt.wait();
+                  if (isDryRun) {
+                    dryRunTransactions.push({ step: 'approve', transaction: approveRequest });
+                  } else if (
+                    selectedProvider.buildPermitSwapTransaction &&
+                    approvals.usesPermits() &&
+                    (await approvals.supportsPermit(network, quote.fromToken.address, userAddress))
+                  ) {
+                    // Sign a permit and let the swap pull the tokens, no approval transaction
+                    onProgress?.({
+                      progress: 60,
+                      message: `Signing a permit for ${selectedProvider.getName()} to access your ${quote.fromToken.symbol || 'tokens'}`,
+                    });
+
+                    const permit = await approvals.signPermit(this.agent.getWallet(), network, {
+                      token: quote.fromToken.address,
+                      spender: swapTx.spender,
+                      amount: requiredAmount,
+                      deadline: Math.floor(Date.now() / 1000) + PERMIT_DEADLINE_SECONDS,
+                    });
+                    swapTx = await selectedProvider.buildPermitSwapTransaction(
+                      quote,
+                      userAddress,
+                      permit,
+                    );
+                  } else {
+                    // Sign and send approval transaction
+                    onProgress?.({
+                      progress: 60,
+                      message: `Approving ${selectedProvider.getName()} to access your ${quote.fromToken.symbol || 'tokens'}`,
+                    });
+
+                    const wallet = this.agent.getWallet();
+                    const approveReceipt = await wallet.signAndSendTransaction(
+                      network,
+                      approveRequest,
+                    );
+
+                    logger.info('🤖 ApproveReceipt:', approveReceipt);
+
+                    // Wait for approval to be mined
+                    await approveReceipt.wait();
+                  }
                 } catch (error: any) {
                   throw error;
                 }
@@ -510,6 +558,46 @@ export class SwapTool extends BaseTool {
             }
           }
 
+          const swapRequest = {
+            to: swapTx.to,
+            data: swapTx.data,
+            value: BigInt(swapTx.value),
+            lastValidBlockHeight: swapTx.lastValidBlockHeight,
+            spend: { token: quote.fromToken.address, amount: quote.fromAmount, slippage },
+          };
+
+          if (isDryRun) {
+            dryRunTransactions.push({ step: 'swap', transaction: swapRequest });
+
+            onProgress?.({
+              progress: 80,
+              message: `Simulating swap of ${quote.fromAmount} ${quote.fromToken.symbol || 'tokens'} for approximately ${quote.toAmount} ${quote.toToken.symbol || 'tokens'}. Nothing will be broadcast.`,
+            });
+
+            const simulation = await this.simulateTransactions(network, dryRunTransactions);
+
+            onProgress?.({
+              progress: 100,
+              message:
+                simulation.status === 'unverified'
+                  ? `Swap simulation via ${selectedProvider.getName()} is unverified, it depends on a previous step that could not be simulated.`
+                  : `Swap simulation ${simulation.success ? 'succeeded' : 'failed'} via ${selectedProvider.getName()}.`,
+            });
+
+            return JSON.stringify({
+              status: 'simulated',
+              provider: selectedProvider.getName(),
+              fromToken: quote.fromToken,
+              toToken: quote.toToken,
+              fromAmount: quote.fromAmount.toString(),
+              toAmount: quote.toAmount.toString(),
+              priceImpact: quote.priceImpact,
+              type: quote.type,
+              network,
+              simulation,
+            });
+          }
+
           logger.info('🤖 Swapping...');
 
           onProgress?.({
@@ -523,12 +611,7 @@ export class SwapTool extends BaseTool {
           try {
             // Sign and send swap transaction
             const wallet = this.agent.getWallet();
-            receipt = await wallet.signAndSendTransaction(network, {
-              to: swapTx.to,
-              data: swapTx.data,
-              value: BigInt(swapTx.value),
-              lastValidBlockHeight: swapTx.lastValidBlockHeight,
-            });
+            receipt = await wallet.signAndSendTransaction(network, swapRequest);
 
             // Wait for transaction to be mined
             finalReceipt = await receipt?.wait();
@@ -7,3 +7,7 @@ export * from './utils/tokenUtils';
 export * from './utils/networkUtils';
 export * from './GetLimitOrdersTool';
 export * from './CancelLimitOrdersTool';
+export * from './CreateTriggerTool';
+export * from './ListTriggersTool';
+export * from './CancelTriggerTool';
+export * from './utils/triggerUtils';
@@ -1,4 +1,4 @@
-import { NetworkName, Token } from '@binkai/core';
+import { ApprovalManager, Eip2612Permit, NetworkName, Token } from '@binkai/core';
 import { Provider } from 'ethers';
 import { Connection } from '@solana/web3.js';
 
@@ -52,6 +52,12 @@ export interface ISwapProvider {
    */
   getName(): string;
 
+  /**
+   * Use the agent's approval manager, so approvals follow its approval mode and are listed
+   * by the wallet plugin
+   */
+  setApprovalManager?(approvals: ApprovalManager): void;
+
   /**
    * Get supported networks for this provider
    */
@@ -109,6 +115,19 @@ export interface ISwapProvider {
    */
   buildSwapTransaction(quote: SwapQuote, walletAddress: string): Promise<Transaction>;
 
+  /**
+   * Build a swap transaction pulling the input token with an EIP-2612 permit instead of an
+   * allowance. Used when the agent's approval manager signs permits and the token supports them
+   * @param quote The quote to execute
+   * @param walletAddress The address of the user who will execute the swap
+   * @param permit The permit signed for the swap's spender
+   */
+  buildPermitSwapTransaction?(
+    quote: SwapQuote,
+    walletAddress: string,
+    permit: Eip2612Permit,
+  ): Promise<Transaction>;
+
   /**
    * Build a transaction for approving token spending
    * @param network The network to approve
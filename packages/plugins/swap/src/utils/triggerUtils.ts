@@ -0,0 +1,20 @@
+import { PriceTriggerEntity, describeCondition } from '@binkai/core';
+
+/**
+ * Price trigger as reported to the model, with a readable condition
+ */
+export function summarizeTrigger(trigger: PriceTriggerEntity) {
+  return {
+    id: trigger.id,
+    description: trigger.description,
+    network: trigger.network,
+    token: trigger.token,
+    condition: describeCondition(trigger.condition),
+    swap: trigger.params,
+    status: trigger.status,
+    referencePrice: trigger.reference_price,
+    lastPrice: trigger.last_price ?? null,
+    triggeredAt: trigger.triggered_at ? new Date(trigger.triggered_at).toISOString() : null,
+    error: trigger.error ?? null,
+  };
+}
@@ -65,6 +65,10 @@ export class CreateTokenTool extends BaseTool {
     return 'create_token';
   }
 
+  sendsTransactions(): boolean {
+    return true;
+  }
+
   getDescription(): string {
     const providers = this.registry.getProviderNames().join(', ');
     const networks = Array.from(this.supportedNetworks).join(', ');
@@ -244,6 +248,31 @@ export class CreateTokenTool extends BaseTool {
             throw error;
           }
 
+          const createRequest = {
+            to: tx?.tx?.to,
+            data: tx?.tx?.data,
+            value: BigInt(tx?.tx?.value || 0),
+          };
+
+          if (this.agent.isDryRun()) {
+            onProgress?.({
+              progress: 80,
+              message: `Simulating creation of ${args.name} token with symbol ${args.symbol}. Nothing will be broadcast.`,
+            });
+
+            const simulation = await this.simulateTransactions(network, [
+              { step: 'create_token', transaction: createRequest },
+            ]);
+
+            return JSON.stringify({
+              status: 'simulated',
+              provider: selectedProvider.getName(),
+              token: tx.token,
+              network,
+              simulation,
+            });
+          }
+
           onProgress?.({
             progress: 80,
             message: `Creating ${args.name} token with symbol ${args.symbol}`,
@@ -254,11 +283,7 @@ export class CreateTokenTool extends BaseTool {
           try {
             // Sign and send create transaction
             const wallet = this.agent.getWallet();
-            receipt = await wallet.signAndSendTransaction(network, {
-              to: tx?.tx?.to,
-              data: tx?.tx?.data,
-              value: BigInt(tx?.tx?.value || 0),
-            });
+            receipt = await wallet.signAndSendTransaction(network, createRequest);
 
             // Wait for transaction to be mined
             finalReceipt = await receipt?.wait();
@@ -3,6 +3,7 @@ import { GetTokenInfoTool } from './TokenTool';
 import { ITokenProvider, TokenInfo } from './types';
 import { ProviderRegistry } from './ProviderRegistry';
 import { CreateTokenTool } from './CreateTokenTool';
+import { TokenPriceFeed } from './TokenPriceFeed';
 export interface TokenPluginConfig extends IPluginConfig {
   providers?: ITokenProvider[];
   supportedNetworks?: NetworkName[];
@@ -88,6 +89,13 @@ export class TokenPlugin extends BasePlugin {
     return Array.from(this.supportedNetworks);
   }
 
+  /**
+   * Live prices from the registered providers, for price triggers
+   */
+  getPriceFeed(): TokenPriceFeed {
+    return new TokenPriceFeed(this.registry);
+  }
+
   /**
    * Refresh token price information
    * This will fetch the latest price from available providers without modifying the default token list
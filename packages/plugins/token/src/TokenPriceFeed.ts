@@ -0,0 +1,28 @@
+import { NetworkName, PriceFeed, logger } from '@binkai/core';
+import { ProviderRegistry } from './ProviderRegistry';
+
+/**
+ * Live USD prices from the registered token providers, e.g. Birdeye or Alchemy, for price
+ * triggers. Providers are tried in order until one has a price, prices are never cached.
+ */
+export class TokenPriceFeed implements PriceFeed {
+  constructor(private readonly registry: ProviderRegistry) {}
+
+  async getPrice(network: string, token: string): Promise<number> {
+    for (const provider of this.registry.getProvidersByNetwork(network as NetworkName)) {
+      try {
+        const info = await provider.getTokenInfo({
+          query: token,
+          network: network as NetworkName,
+          includePrice: true,
+        });
+        if (info?.price?.usd) {
+          return info.price.usd;
+        }
+      } catch (error) {
+        logger.warn(`⚠️ Failed to get price from ${provider.getName()}:`, error);
+      }
+    }
+    throw new Error(`No token provider has a price for ${token} on ${network}`);
+  }
+}
@@ -1,6 +1,7 @@
 export * from './TokenPlugin';
 export * from './ProviderRegistry';
 export * from './TokenTool';
+export * from './TokenPriceFeed';
 export * from './types';
 export * from './providers';
 export {
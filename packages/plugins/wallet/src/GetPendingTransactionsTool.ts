@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import {
+  BaseTool,
+  CustomDynamicStructuredTool,
+  IToolConfig,
+  NetworkName,
+  isPendingTransactionManager,
+  logger,
+} from '@binkai/core';
+
+export interface GetPendingTransactionsToolConfig extends IToolConfig {}
+
+export class GetPendingTransactionsTool extends BaseTool {
+  constructor(config: GetPendingTransactionsToolConfig) {
+    super(config);
+  }
+
+  getName(): string {
+    return 'get_pending_transactions';
+  }
+
+  getDescription(): string {
+    return 'List the transactions sent by your wallet that are still waiting to be mined, with their nonce, hash and fees. Use it to report what is in flight.';
+  }
+
+  getSchema(): z.ZodObject<any> {
+    const networks = Object.keys(this.agent.getNetworks());
+    return z.object({
+      network: z
+        .enum(networks as [string, ...string[]])
+        .optional()
+        .describe('The network to list pending transactions for. If not specified, all networks'),
+    });
+  }
+
+  mockResponseTool(args: any): Promise<string> {
+    return Promise.resolve(
+      JSON.stringify({
+        status: 'success',
+        pendingTransactions: [],
+      }),
+    );
+  }
+
+  createTool(): CustomDynamicStructuredTool {
+    logger.info('✓ Creating tool', this.getName());
+    return {
+      name: this.getName(),
+      description: this.getDescription(),
+      schema: this.getSchema(),
+      func: async (args: any) => {
+        try {
+          if (this.agent.isMockResponseTool()) {
+            return this.mockResponseTool(args);
+          }
+
+          const wallet = this.agent.getWallet();
+          const pendingTransactions = isPendingTransactionManager(wallet)
+            ? wallet.getPendingTransactions(args.network as NetworkName | undefined)
+            : [];
+
+          return JSON.stringify({
+            status: 'success',
+            pendingTransactions,
+          });
+        } catch (error) {
+          return this.handleError(error, args);
+        }
+      },
+    };
+  }
+}
@@ -0,0 +1,111 @@
+import { z } from 'zod';
+import {
+  BaseTool,
+  CustomDynamicStructuredTool,
+  IToolConfig,
+  NetworkName,
+  ToolProgress,
+  logger,
+} from '@binkai/core';
+
+export interface ListTokenApprovalsToolConfig extends IToolConfig {
+  defaultNetwork?: string;
+}
+
+export class ListTokenApprovalsTool extends BaseTool {
+  private defaultNetwork: string;
+
+  constructor(config: ListTokenApprovalsToolConfig) {
+    super(config);
+    this.defaultNetwork = config.defaultNetwork || 'bnb';
+  }
+
+  getName(): string {
+    return 'list_token_approvals';
+  }
+
+  getDescription(): string {
+    return 'List the outstanding ERC20 token allowances granted by your wallet to known spender contracts (swap routers, staking and bridge contracts). Use it before revoking approvals.';
+  }
+
+  protected getEvmNetworks(): string[] {
+    return Object.entries(this.agent.getNetworks())
+      .filter(([, config]) => config.type === 'evm')
+      .map(([name]) => name);
+  }
+
+  getSchema(): z.ZodObject<any> {
+    const networks = this.getEvmNetworks();
+    if (networks.length === 0) {
+      throw new Error('No EVM networks available');
+    }
+
+    return z.object({
+      network: z
+        .enum(networks as [string, ...string[]])
+        .default(networks.includes(this.defaultNetwork) ? this.defaultNetwork : networks[0])
+        .describe('The EVM network to scan approvals on'),
+      tokens: z
+        .array(z.string())
+        .optional()
+        .describe(
+          'Token contract addresses to scan. If not specified, tokens previously approved by the agent are scanned',
+        ),
+    });
+  }
+
+  mockResponseTool(args: any): Promise<string> {
+    return Promise.resolve(
+      JSON.stringify({
+        status: 'success',
+        network: args.network,
+        approvals: [],
+      }),
+    );
+  }
+
+  createTool(): CustomDynamicStructuredTool {
+    logger.info('✓ Creating tool', this.getName());
+    return {
+      name: this.getName(),
+      description: this.getDescription(),
+      schema: this.getSchema(),
+      func: async (
+        args: any,
+        runManager?: any,
+        config?: any,
+        onProgress?: (data: ToolProgress) => void,
+      ) => {
+        try {
+          const { network = this.defaultNetwork, tokens } = args;
+
+          if (this.agent.isMockResponseTool()) {
+            return this.mockResponseTool(args);
+          }
+
+          const owner = await this.agent.getWallet().getAddress(network as NetworkName);
+
+          onProgress?.({
+            progress: 30,
+            message: `Scanning token approvals of ${owner} on ${network}.`,
+          });
+
+          const { approvals, failures } = await this.agent
+            .getApprovalManager()
+            .scanApprovals(network as NetworkName, owner, tokens);
+
+          return JSON.stringify({
+            status: 'success',
+            network,
+            owner,
+            approvals,
+            // Allowances that could not be read are unknown, not revoked
+            failures: failures.length > 0 ? failures : undefined,
+          });
+        } catch (error) {
+          return this.handleError(error, args);
+        }
+      },
+    };
+  }
+}
@@ -0,0 +1,67 @@
+import { z } from 'zod';
+import {
+  BaseTool,
+  CustomDynamicStructuredTool,
+  IToolConfig,
+  isMultiAccountWallet,
+  logger,
+} from '@binkai/core';
+
+export interface ListWalletAccountsToolConfig extends IToolConfig {}
+
+export class ListWalletAccountsTool extends BaseTool {
+  constructor(config: ListWalletAccountsToolConfig) {
+    super(config);
+  }
+
+  getName(): string {
+    return 'list_wallet_accounts';
+  }
+
+  getDescription(): string {
+    return 'List the accounts of your wallet with their index and EVM/Solana addresses, and which one is active in this conversation.';
+  }
+
+  getSchema(): z.ZodObject<any> {
+    return z.object({});
+  }
+
+  mockResponseTool(args: any): Promise<string> {
+    return Promise.resolve(
+      JSON.stringify({
+        status: 'success',
+        activeAccountIndex: 0,
+        accounts: [],
+      }),
+    );
+  }
+
+  createTool(): CustomDynamicStructuredTool {
+    logger.info('✓ Creating tool', this.getName());
+    return {
+      name: this.getName(),
+      description: this.getDescription(),
+      schema: this.getSchema(),
+      func: async (args: any) => {
+        try {
+          if (this.agent.isMockResponseTool()) {
+            return this.mockResponseTool(args);
+          }
+
+          const wallet = this.agent.getWallet();
+          if (!isMultiAccountWallet(wallet)) {
+            throw new Error('The wallet holds a single account');
+          }
+
+          return JSON.stringify({
+            status: 'success',
+            activeAccountIndex: wallet.getActiveAccount().index,
+            accounts: wallet.getAccounts(),
+          });
+        } catch (error) {
+          return this.handleError(error, args);
+        }
+      },
+    };
+  }
+}
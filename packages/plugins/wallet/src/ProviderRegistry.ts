@@ -1,4 +1,4 @@
-import { NetworkName } from '@binkai/core';
+import { NetworkName, traceProvider } from '@binkai/core';
 import { IWalletProvider } from './types';
 
 export class ProviderRegistry {
@@ -9,7 +9,7 @@ export class ProviderRegistry {
    * @param provider The wallet provider to register
    */
   registerProvider(provider: IWalletProvider): void {
-    this.providers.set(provider.getName(), provider);
+    this.providers.set(provider.getName(), traceProvider(provider, 'wallet'));
   }
 
   /**
@@ -0,0 +1,160 @@
+import { z } from 'zod';
+import {
+  BaseTool,
+  CustomDynamicStructuredTool,
+  IToolConfig,
+  NetworkName,
+  ToolProgress,
+  logger,
+} from '@binkai/core';
+import { ethers } from 'ethers';
+
+export interface RevokeTokenApprovalToolConfig extends IToolConfig {
+  defaultNetwork?: string;
+}
+
+export class RevokeTokenApprovalTool extends BaseTool {
+  private defaultNetwork: string;
+
+  constructor(config: RevokeTokenApprovalToolConfig) {
+    super(config);
+    this.defaultNetwork = config.defaultNetwork || 'bnb';
+  }
+
+  getName(): string {
+    return 'revoke_token_approval';
+  }
+
+  sendsTransactions(): boolean {
+    return true;
+  }
+
+  getDescription(): string {
+    return 'Revoke the ERC20 allowance granted by your wallet to a spender contract by setting it to zero. Use list_token_approvals to find outstanding approvals.';
+  }
+
+  protected getEvmNetworks(): string[] {
+    return Object.entries(this.agent.getNetworks())
+      .filter(([, config]) => config.type === 'evm')
+      .map(([name]) => name);
+  }
+
+  getSchema(): z.ZodObject<any> {
+    const networks = this.getEvmNetworks();
+    if (networks.length === 0) {
+      throw new Error('No EVM networks available');
+    }
+
+    return z.object({
+      network: z
+        .enum(networks as [string, ...string[]])
+        .default(networks.includes(this.defaultNetwork) ? this.defaultNetwork : networks[0])
+        .describe('The EVM network of the approval'),
+      token: z.string().describe('The contract address of the approved token'),
+      spender: z.string().describe('The address of the spender contract to revoke'),
+    });
+  }
+
+  mockResponseTool(args: any): Promise<string> {
+    return Promise.resolve(
+      JSON.stringify({
+        status: 'success',
+        network: args.network,
+        token: args.token,
+        spender: args.spender,
+      }),
+    );
+  }
+
+  createTool(): CustomDynamicStructuredTool {
+    logger.info('✓ Creating tool', this.getName());
+    return {
+      name: this.getName(),
+      description: this.getDescription(),
+      schema: this.getSchema(),
+      func: async (
+        args: any,
+        runManager?: any,
+        config?: any,
+        onProgress?: (data: ToolProgress) => void,
+      ) => {
+        try {
+          const { network = this.defaultNetwork, token, spender } = args;
+
+          if (this.agent.isMockResponseTool()) {
+            return this.mockResponseTool(args);
+          }
+
+          if (!ethers.isAddress(token) || !ethers.isAddress(spender)) {
+            throw new Error('Token and spender must be valid EVM addresses');
+          }
+
+          const wallet = this.agent.getWallet();
+          const approvalManager = this.agent.getApprovalManager();
+          const owner = await wallet.getAddress(network as NetworkName);
+
+          const allowance = await approvalManager.getAllowance(
+            network as NetworkName,
+            token,
+            owner,
+            spender,
+          );
+          if (allowance === BigInt(0)) {
+            return JSON.stringify({
+              status: 'success',
+              message: `No outstanding approval of ${token} to ${spender}`,
+              network,
+              token,
+              spender,
+            });
+          }
+
+          const revokeRequest = approvalManager.buildRevokeTransaction(
+            network as NetworkName,
+            token,
+            spender,
+          );
+
+          if (this.agent.isDryRun()) {
+            const simulation = await this.simulateTransactions(network as NetworkName, [
+              { step: 'revoke', transaction: revokeRequest },
+            ]);
+
+            return JSON.stringify({
+              status: 'simulated',
+              network,
+              token,
+              spender,
+              previousAllowance: allowance.toString(),
+              simulation,
+            });
+          }
+
+          onProgress?.({
+            progress: 50,
+            message: `Revoking approval of ${token} to ${spender} on ${network}.`,
+          });
+
+          const receipt = await wallet.signAndSendTransaction(
+            network as NetworkName,
+            revokeRequest,
+          );
+
+          // Wait for transaction to be mined
+          const finalReceipt = await receipt.wait();
+
+          return JSON.stringify({
+            status: 'success',
+            network,
+            token,
+            spender,
+            previousAllowance: allowance.toString(),
+            transactionHash: finalReceipt.hash,
+          });
+        } catch (error) {
+          return this.handleError(error, args);
+        }
+      },
+    };
+  }
+}
@@ -0,0 +1,182 @@
+import { z } from 'zod';
+import { ethers } from 'ethers';
+import {
+  BaseTool,
+  CustomDynamicStructuredTool,
+  ErrorStep,
+  IToolConfig,
+  NetworkName,
+  TypedDataTypes,
+  getWalletThreadId,
+  logger,
+} from '@binkai/core';
+
+export interface SignMessageToolConfig extends IToolConfig {
+  /**
+   * Only sign messages a human approved in the review step (defaults to true).
+   * The agent must run with isHumanReview, otherwise every request is refused
+   */
+  requireHumanReview?: boolean;
+}
+
+export interface SignMessagePreview {
+  network: NetworkName;
+  signer: string;
+  type: 'message' | 'typed_data';
+  message?: string;
+  domain?: ethers.TypedDataDomain;
+  primaryType?: string;
+  value?: Record<string, any>;
+}
+
+export class SignMessageTool extends BaseTool {
+  private requireHumanReview: boolean;
+  // Requests approved in the review step, per thread, each approval signs once
+  private approvedRequests = new Set<string>();
+
+  constructor(config: SignMessageToolConfig) {
+    super(config);
+    this.requireHumanReview = config.requireHumanReview ?? true;
+  }
+
+  getName(): string {
+    return 'sign_message';
+  }
+
+  getDescription(): string {
+    return 'Sign a text message or EIP-712 typed data (permits, limit orders, off-chain logins) with your wallet. Provide either message or typedData. The user reviews the exact content before anything is signed. On Solana, typed data is signed as an off-chain message.';
+  }
+
+  getSchema(): z.ZodObject<any> {
+    const networks = Object.keys(this.agent.getNetworks());
+    return z.object({
+      network: z
+        .enum(networks as [string, ...string[]])
+        .describe('The network whose wallet key signs the message'),
+      message: z.string().optional().describe('Plain text message to sign'),
+      typedData: z
+        .object({
+          domain: z
+            .record(z.any())
+            .describe('EIP-712 domain: name, version, chainId, verifyingContract, salt'),
+          types: z
+            .record(z.array(z.object({ name: z.string(), type: z.string() })))
+            .describe('Struct definitions keyed by type name, without EIP712Domain'),
+          value: z.record(z.any()).describe('The data to sign, matching the primary type'),
+        })
+        .optional()
+        .describe('EIP-712 typed data to sign'),
+    });
+  }
+
+  private getRequestKey(args: any): string {
+    return JSON.stringify([
+      getWalletThreadId() ?? null,
+      args.network,
+      args.message ?? null,
+      args.typedData ?? null,
+    ]);
+  }
+
+  private getTypes(args: any): TypedDataTypes {
+    // ethers derives the domain type itself and rejects a second root type
+    const { EIP712Domain, ...types } = args.typedData.types;
+    return types;
+  }
+
+  private async getPreview(args: any): Promise<SignMessagePreview> {
+    if (!!args.message === !!args.typedData) {
+      throw new Error('Provide either a message or typed data to sign');
+    }
+
+    const network = args.network as NetworkName;
+    const signer = await this.agent.getWallet().getAddress(network);
+    if (args.message) {
+      return { network, signer, type: 'message', message: args.message };
+    }
+
+    const types = this.getTypes(args);
+    return {
+      network,
+      signer,
+      type: 'typed_data',
+      domain: args.typedData.domain,
+      primaryType: ethers.TypedDataEncoder.getPrimaryType(types),
+      value: args.typedData.value,
+    };
+  }
+
+  /**
+   * Shows the content to sign in the human review step
+   */
+  async simulateQuoteTool(args: any): Promise<SignMessagePreview> {
+    if (this.agent.isMockResponseTool()) {
+      const mockResponse = await this.mockResponseTool(args);
+      return JSON.parse(mockResponse);
+    }
+    return this.getPreview(args);
+  }
+
+  /**
+   * Approving the content in the review step allows one signature in the same thread
+   */
+  onReviewApproved(args: any): void {
+    this.approvedRequests.add(this.getRequestKey(args));
+  }
+
+  mockResponseTool(args: any): Promise<string> {
+    return Promise.resolve(
+      JSON.stringify({
+        status: 'success',
+        network: args.network,
+        signature: '0x',
+      }),
+    );
+  }
+
+  createTool(): CustomDynamicStructuredTool {
+    logger.info('✓ Creating tool', this.getName());
+    return {
+      name: this.getName(),
+      description: this.getDescription(),
+      schema: this.getSchema(),
+      func: async (args: any) => {
+        try {
+          if (this.agent.isMockResponseTool()) {
+            return this.mockResponseTool(args);
+          }
+
+          const preview = await this.getPreview(args);
+          if (this.requireHumanReview && !this.approvedRequests.delete(this.getRequestKey(args))) {
+            throw this.createError(
+              ErrorStep.WALLET_ACCESS,
+              'Signing messages requires the user to review them, enable human review on the agent',
+              { network: args.network },
+            );
+          }
+
+          const wallet = this.agent.getWallet();
+          const signature =
+            preview.type === 'message'
+              ? await wallet.signMessage({ network: preview.network, message: args.message })
+              : await wallet.signTypedData(
+                  preview.network,
+                  args.typedData.domain,
+                  this.getTypes(args),
+                  args.typedData.value,
+                );
+
+          return JSON.stringify({
+            status: 'success',
+            network: preview.network,
+            signer: preview.signer,
+            type: preview.type,
+            signature,
+          });
+        } catch (error) {
+          return this.handleError(error, args);
+        }
+      },
+    };
+  }
+}
@@ -0,0 +1,67 @@
+import { z } from 'zod';
+import {
+  BaseTool,
+  CustomDynamicStructuredTool,
+  IToolConfig,
+  isMultiAccountWallet,
+  logger,
+} from '@binkai/core';
+
+export interface SwitchWalletAccountToolConfig extends IToolConfig {}
+
+export class SwitchWalletAccountTool extends BaseTool {
+  constructor(config: SwitchWalletAccountToolConfig) {
+    super(config);
+  }
+
+  getName(): string {
+    return 'switch_wallet_account';
+  }
+
+  getDescription(): string {
+    return 'Select the wallet account used for the rest of this conversation. Every following balance check, swap, transfer or bridge uses this account. Use list_wallet_accounts to find the account index.';
+  }
+
+  getSchema(): z.ZodObject<any> {
+    return z.object({
+      accountIndex: z.number().int().min(0).describe('The index of the account to use'),
+    });
+  }
+
+  mockResponseTool(args: any): Promise<string> {
+    return Promise.resolve(
+      JSON.stringify({
+        status: 'success',
+        account: { index: args.accountIndex },
+      }),
+    );
+  }
+
+  createTool(): CustomDynamicStructuredTool {
+    logger.info('✓ Creating tool', this.getName());
+    return {
+      name: this.getName(),
+      description: this.getDescription(),
+      schema: this.getSchema(),
+      func: async (args: any) => {
+        try {
+          if (this.agent.isMockResponseTool()) {
+            return this.mockResponseTool(args);
+          }
+
+          const wallet = this.agent.getWallet();
+          if (!isMultiAccountWallet(wallet)) {
+            throw new Error('The wallet holds a single account');
+          }
+
+          return JSON.stringify({
+            status: 'success',
+            account: wallet.setActiveAccount(args.accountIndex),
+          });
+        } catch (error) {
+          return this.handleError(error, args);
+        }
+      },
+    };
+  }
+}
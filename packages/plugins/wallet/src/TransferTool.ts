@@ -6,6 +6,7 @@ import {
   IToolConfig,
   NetworkName,
   ToolProgress,
+  DryRunTransaction,
   logger,
 } from '@binkai/core';
 import { ProviderRegistry } from './ProviderRegistry';
@@ -58,6 +59,10 @@ export class TransferTool extends BaseTool {
     return 'transfer_tokens';
   }
 
+  sendsTransactions(): boolean {
+    return true;
+  }
+
   getDescription(): string {
     const providers = this.registry.getProviderNames().join(', ');
     const networks = Array.from(this.supportedNetworks).join(', ');
@@ -209,6 +214,8 @@ export class TransferTool extends BaseTool {
 
           // Get agent's wallet and address
           const wallet = this.agent.getWallet();
+          const isDryRun = this.agent.isDryRun();
+          const dryRunTransactions: DryRunTransaction[] = [];
           let transferTx;
 
           // Only check allowance for non-solana networks
@@ -241,18 +248,25 @@ export class TransferTool extends BaseTool {
                 userAddress,
               );
 
-              logger.info('🤖 Approving...');
-              // Sign and send approval transaction
-              const approveReceipt = await wallet.signAndSendTransaction(network, {
+              const approveRequest = {
                 to: approveTx?.to || '',
                 data: approveTx?.data || '',
                 value: BigInt(approveTx?.value || 0),
-              });
+                spend: { token },
+              };
+
+              if (isDryRun) {
+                dryRunTransactions.push({ step: 'approve', transaction: approveRequest });
+              } else {
+                logger.info('🤖 Approving...');
+                // Sign and send approval transaction
+                const approveReceipt = await wallet.signAndSendTransaction(network, approveRequest);
 
-              logger.info('🤖 ApproveReceipt:', approveReceipt);
+                logger.info('🤖 ApproveReceipt:', approveReceipt);
 
-              // Wait for approval to be mined
-              await approveReceipt.wait();
+                // Wait for approval to be mined
+                await approveReceipt.wait();
+              }
             }
           } else {
             transferTx = await selectedProvider?.buildTransferTransaction?.(quote, userAddress);
@@ -262,15 +276,34 @@ export class TransferTool extends BaseTool {
             }
           }
 
-          logger.info('🤖 Transferring...');
-
-          // Sign and send transfer transaction
-          const receipt = await wallet.signAndSendTransaction(network, {
+          const transferRequest = {
             to: transferTx.to,
             data: transferTx.data,
             value: BigInt(transferTx.value),
+            spend: { token, amount: quote?.amount },
             ...(network === 'solana' && { lastValidBlockHeight: transferTx.lastValidBlockHeight }),
-          });
+          };
+
+          if (isDryRun) {
+            dryRunTransactions.push({ step: 'transfer', transaction: transferRequest });
+            const simulation = await this.simulateTransactions(network, dryRunTransactions);
+
+            return JSON.stringify({
+              status: 'simulated',
+              provider: selectedProvider.getName(),
+              token: quote.token,
+              fromAddress: userAddress,
+              toAddress: quote.toAddress,
+              amount: quote.amount,
+              network,
+              simulation,
+            });
+          }
+
+          logger.info('🤖 Transferring...');
+
+          // Sign and send transfer transaction
+          const receipt = await wallet.signAndSendTransaction(network, transferRequest);
 
           // Wait for transaction to be mined
           const finalReceipt = await receipt.wait();
@@ -8,6 +8,7 @@ import {
   ErrorStep,
   StructuredError,
   NetworkName,
+  isMultiAccountWallet,
   logger,
 } from '@binkai/core';
 import { ProviderRegistry } from './ProviderRegistry';
@@ -120,6 +121,12 @@ export class GetWalletBalanceTool extends BaseTool {
         .enum(['bnb', 'solana', 'ethereum'])
         .optional()
         .describe('The blockchain network to query the wallet on.'),
+      allAccounts: z
+        .boolean()
+        .optional()
+        .describe(
+          'Query every account of the wallet instead of the active one. Only used when no address is provided.',
+        ),
     });
   }
 
@@ -142,6 +149,57 @@ export class GetWalletBalanceTool extends BaseTool {
     return results;
   }
 
+  private async queryWalletInfo(
+    address: string,
+    network: NetworkName,
+  ): Promise<{ results: WalletInfo; errors: Record<string, string> }> {
+    const providers = this.registry.getProvidersByNetwork(network);
+    let results: WalletInfo = {};
+    const errors: Record<string, string> = {};
+
+    // Try all providers and collect results
+    for (const provider of providers) {
+      logger.info(`🔄 Querying provider: ${provider.getName()}`);
+      try {
+        const data = await provider.getWalletInfo(address, network);
+        logger.info(`✅ Successfully got data from ${provider.getName()}`);
+        results = mergeObjects(results, data);
+      } catch (error) {
+        logger.warn(
+          `⚠️ Failed to get wallet info from ${provider.getName()}: ${error instanceof Error ? error.message : error}`,
+        );
+        this.logError(`Failed to get wallet info from ${provider.getName()}: ${error}`, 'warn');
+        errors[provider.getName()] = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    // If no successful results, throw error
+    if (Object.keys(results).length === 0) {
+      logger.error(`❌ All providers failed for ${address}`);
+      throw `All providers failed for ${address}`;
+    }
+
+    logger.info(`💰 Wallet info retrieved successfully for ${address}`);
+
+    if (Object.keys(errors).length > 0) {
+      logger.warn(`⚠️ Some providers failed but we have partial results`);
+    }
+
+    // Add address to nativeBalance if it exists
+    results = this.addAddressToNativeBalance(results, network);
+
+    if (results?.tokens && Array.isArray(results?.tokens)) {
+      results.tokens = results.tokens.filter(token => {
+        if (token?.symbol === 'BNB' || token?.symbol === 'ETH' || token?.symbol === 'SOL') {
+          return true;
+        }
+        return Number(token?.usdValue) > 0.00001 && Number(token?.balance) > 0.00001;
+      });
+    }
+
+    return { results, errors };
+  }
+
   createTool(): CustomDynamicStructuredTool {
     logger.info('🛠️ Creating wallet balance tool');
     return {
@@ -208,60 +266,43 @@ export class GetWalletBalanceTool extends BaseTool {
 
           logger.info(`🔄 Found ${providers.length} providers for network ${network}`);
 
-          let results: WalletInfo = {};
-          const errors: Record<string, string> = {};
-
-          // STEP 4: Query providers
-          // Try all providers and collect results
-          for (const provider of providers) {
-            logger.info(`🔄 Querying provider: ${provider.getName()}`);
-            try {
-              const data = await provider.getWalletInfo(address, network);
-              logger.info(`✅ Successfully got data from ${provider.getName()}`);
-              results = mergeObjects(results, data);
-            } catch (error) {
-              logger.warn(
-                `⚠️ Failed to get wallet info from ${provider.getName()}: ${error instanceof Error ? error.message : error}`,
-              );
-              this.logError(
-                `Failed to get wallet info from ${provider.getName()}: ${error}`,
-                'warn',
-              );
-              errors[provider.getName()] = error instanceof Error ? error.message : String(error);
+          // STEP 4: Query providers, for every account when requested
+          const wallet = this.agent.getWallet();
+          if (args.allAccounts && !args.address && isMultiAccountWallet(wallet)) {
+            const isEvm = this.agent.getNetworks()[network]?.type === 'evm';
+            const accounts = [];
+            for (const account of wallet.getAccounts()) {
+              const accountAddress = isEvm ? account.evmAddress : account.solanaAddress;
+              const { results, errors } = await this.queryWalletInfo(accountAddress, network);
+              accounts.push({
+                accountIndex: account.index,
+                address: accountAddress,
+                data: results,
+                errors: Object.keys(errors).length > 0 ? errors : undefined,
+              });
             }
-          }
 
-          // If no successful results, throw error
-          if (Object.keys(results).length === 0) {
-            logger.error(`❌ All providers failed for ${address}`);
-            throw `All providers failed for ${address}`;
-          }
-
-          logger.info(`💰 Wallet info retrieved successfully for ${address}`);
+            onProgress?.({
+              progress: 100,
+              message: `Successfully retrieved wallet information for ${accounts.length} accounts`,
+            });
 
-          if (Object.keys(errors).length > 0) {
-            logger.warn(`⚠️ Some providers failed but we have partial results`);
+            return JSON.stringify({
+              status: 'success',
+              network,
+              accounts,
+            });
           }
 
+          const { results, errors } = await this.queryWalletInfo(address, network);
+
           onProgress?.({
             progress: 100,
             message: `Successfully retrieved wallet information for ${address}`,
           });
 
-          // Add address to nativeBalance if it exists
-          results = this.addAddressToNativeBalance(results, network);
-
           logger.info(`✅ Returning wallet balance data for ${address}`);
 
-          if (results?.tokens && Array.isArray(results?.tokens)) {
-            results.tokens = results.tokens.filter(token => {
-              if (token?.symbol === 'BNB' || token?.symbol === 'ETH' || token?.symbol === 'SOL') {
-                return true;
-              }
-              return Number(token?.usdValue) > 0.00001 && Number(token?.balance) > 0.00001;
-            });
-          }
-
           return JSON.stringify({
             status: 'success',
             data: results,
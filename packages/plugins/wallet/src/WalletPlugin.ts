@@ -1,6 +1,12 @@
 import { BasePlugin, IPluginConfig, NetworkName } from '@binkai/core';
 import { GetWalletBalanceTool } from './WalletBalanceTool';
 import { TransferTool } from './TransferTool';
+import { ListTokenApprovalsTool } from './ListTokenApprovalsTool';
+import { RevokeTokenApprovalTool } from './RevokeTokenApprovalTool';
+import { GetPendingTransactionsTool } from './GetPendingTransactionsTool';
+import { ListWalletAccountsTool } from './ListWalletAccountsTool';
+import { SwitchWalletAccountTool } from './SwitchWalletAccountTool';
+import { SignMessageTool } from './SignMessageTool';
 import { IWalletProvider } from './types';
 import { ProviderRegistry } from './ProviderRegistry';
 
@@ -14,6 +20,12 @@ export class WalletPlugin extends BasePlugin {
   public registry: ProviderRegistry;
   private walletTool!: GetWalletBalanceTool;
   private transferTool!: TransferTool;
+  private listTokenApprovalsTool!: ListTokenApprovalsTool;
+  private revokeTokenApprovalTool!: RevokeTokenApprovalTool;
+  private getPendingTransactionsTool!: GetPendingTransactionsTool;
+  private listWalletAccountsTool!: ListWalletAccountsTool;
+  private switchWalletAccountTool!: SwitchWalletAccountTool;
+  private signMessageTool!: SignMessageTool;
   private supportedNetworks: Set<string>;
 
   constructor() {
@@ -37,6 +49,22 @@ export class WalletPlugin extends BasePlugin {
       supportedNetworks: Array.from(this.supportedNetworks),
     });
 
+    this.listTokenApprovalsTool = new ListTokenApprovalsTool({
+      defaultNetwork: config.defaultNetwork,
+    });
+
+    this.revokeTokenApprovalTool = new RevokeTokenApprovalTool({
+      defaultNetwork: config.defaultNetwork,
+    });
+
+    this.getPendingTransactionsTool = new GetPendingTransactionsTool({});
+
+    this.listWalletAccountsTool = new ListWalletAccountsTool({});
+
+    this.switchWalletAccountTool = new SwitchWalletAccountTool({});
+
+    this.signMessageTool = new SignMessageTool({});
+
     if (config.providers) {
       for (const provider of config.providers) {
         this.registerProvider(provider);
@@ -70,6 +98,15 @@ export class WalletPlugin extends BasePlugin {
   }
 
   getTools() {
-    return [this.walletTool, this.transferTool];
+    return [
+      this.walletTool,
+      this.transferTool,
+      this.listTokenApprovalsTool,
+      this.revokeTokenApprovalTool,
+      this.getPendingTransactionsTool,
+      this.listWalletAccountsTool,
+      this.switchWalletAccountTool,
+      this.signMessageTool,
+    ];
   }
 }
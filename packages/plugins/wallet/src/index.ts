@@ -1,5 +1,11 @@
 export * from './WalletPlugin';
 export * from './WalletBalanceTool';
 export * from './TransferTool';
+export * from './ListTokenApprovalsTool';
+export * from './RevokeTokenApprovalTool';
+export * from './GetPendingTransactionsTool';
+export * from './ListWalletAccountsTool';
+export * from './SwitchWalletAccountTool';
+export * from './SignMessageTool';
 export * from './types';
 export * from './ProviderRegistry';
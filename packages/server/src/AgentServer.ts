@@ -0,0 +1,326 @@
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import {
+  AgentExecuteParams,
+  AskUserData,
+  getWalletThreadId,
+  HumanReviewData,
+  IAskUserCallback,
+  IHumanReviewCallback,
+  IToolExecutionCallback,
+  ToolExecutionData,
+  UUID,
+} from '@binkai/core';
+import {
+  AgentServerConfig,
+  ServerAgent,
+  ServerEvent,
+  Thread,
+  ThreadInterrupt,
+  ThreadStatus,
+} from './types';
+
+const MAX_BODY_SIZE = 1024 * 1024;
+const DEFAULT_KEEP_ALIVE_INTERVAL = 15 * 1000;
+const THREAD_ID_PATTERN = '[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}';
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Hosts an agent behind a REST API, streaming tokens and agent events over Server-Sent Events.
+ *
+ * - `POST /threads` creates a thread, `GET /threads` lists them and `GET /threads/:id` returns one
+ * - `POST /threads/:id/messages` sends `{ input }` to the agent
+ * - `POST /threads/:id/interrupt` answers a pending ask_user question with `{ input }`
+ *   or a transaction review with `{ action }` (approve, reject) and optional `{ input }`
+ * - `GET /threads/:id/events` subscribes to every event of a thread
+ *
+ * Message and interrupt requests accepting `text/event-stream` receive the events of their run,
+ * the others receive `{ answer, status }` once the agent is done.
+ */
+export class AgentServer {
+  readonly #agent: ServerAgent;
+  readonly #config: AgentServerConfig;
+  readonly #threads = new Map<UUID, Thread>();
+  readonly #subscribers = new Map<UUID, Set<ServerResponse>>();
+  readonly #callbacks: IToolExecutionCallback & IAskUserCallback & IHumanReviewCallback;
+  #server?: Server;
+
+  constructor(agent: ServerAgent, config: AgentServerConfig = {}) {
+    this.#agent = agent;
+    this.#config = config;
+    this.#callbacks = {
+      onToolExecution: (data: ToolExecutionData) => {
+        // Tools run inside the thread context the agent opened for the request
+        const threadId = getWalletThreadId() as UUID | undefined;
+        if (threadId) this.#publish(threadId, { type: 'tool', data });
+      },
+      onAskUser: (data: AskUserData) => this.#interrupt({ type: 'ask_user', data }),
+      onHumanReview: (data: HumanReviewData) => this.#interrupt({ type: 'human_review', data }),
+    };
+  }
+
+  listen(port: number = 0, host: string = '127.0.0.1'): Promise<AddressInfo> {
+    this.#agent.registerToolExecutionCallback(this.#callbacks);
+    this.#agent.registerAskUserCallback(this.#callbacks);
+    this.#agent.registerHumanReviewCallback(this.#callbacks);
+
+    const server = createServer((req, res) => void this.#handle(req, res));
+    this.#server = server;
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => resolve(server.address() as AddressInfo));
+    });
+  }
+
+  close(): Promise<void> {
+    this.#agent.unregisterToolExecutionCallback(this.#callbacks);
+    this.#agent.unregisterAskUserCallback(this.#callbacks);
+    this.#agent.unregisterHumanReviewCallback(this.#callbacks);
+
+    for (const subscribers of this.#subscribers.values()) {
+      subscribers.forEach(res => res.end());
+    }
+    this.#subscribers.clear();
+    return new Promise((resolve, reject) => {
+      if (!this.#server) return resolve();
+      this.#server.close(error => (error ? reject(error) : resolve()));
+    });
+  }
+
+  #isAuthorized(req: IncomingMessage): boolean {
+    if (!this.#config.apiKey) return true;
+    // Digests have the same length, so the comparison time reveals nothing about the key
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    return timingSafeEqual(
+      digest(req.headers.authorization ?? ''),
+      digest(`Bearer ${this.#config.apiKey}`),
+    );
+  }
+
+  async #handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (this.#config.corsOrigin) {
+      res.setHeader('Access-Control-Allow-Origin', this.#config.corsOrigin);
+      res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, Accept');
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204);
+        return void res.end();
+      }
+    }
+
+    try {
+      if (!this.#isAuthorized(req)) {
+        throw new HttpError(401, 'Unauthorized');
+      }
+      await this.#route(req, res);
+    } catch (e) {
+      const status = e instanceof HttpError ? e.status : 500;
+      const message = e instanceof Error ? e.message : String(e);
+      if (res.headersSent) {
+        this.#write(res, { type: 'error', data: { message } });
+        res.end();
+      } else {
+        this.#send(res, status, { error: message });
+      }
+    }
+  }
+
+  async #route(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    const method = req.method;
+
+    if (path === '/threads') {
+      if (method === 'GET') {
+        return this.#send(res, 200, {
+          threads: [...this.#threads.values()].map(({ messages, ...thread }) => thread),
+        });
+      }
+      if (method === 'POST') {
+        const { title } = await this.#readJson(req);
+        return this.#send(res, 201, this.#createThread(title));
+      }
+    }
+
+    const match = path.match(new RegExp(`^/threads/(${THREAD_ID_PATTERN})(/\\w+)?$`, 'i'));
+    if (!match) {
+      throw new HttpError(404, 'Not found');
+    }
+    const thread = this.#threads.get(match[1] as UUID);
+    if (!thread) {
+      throw new HttpError(404, `Thread ${match[1]} not found`);
+    }
+
+    switch (`${method} ${match[2] ?? ''}`) {
+      case 'GET ':
+        return this.#send(res, 200, thread);
+      case 'GET /events':
+        return this.#subscribe(res, thread.id);
+      case 'POST /messages': {
+        const { input } = await this.#readJson(req);
+        if (typeof input !== 'string' || !input) {
+          throw new HttpError(400, 'input is required');
+        }
+        if (thread.status !== 'idle') {
+          throw new HttpError(409, `Thread is ${thread.status}`);
+        }
+        return this.#run(req, res, thread, { input, threadId: thread.id });
+      }
+      case 'POST /interrupt': {
+        const { action, input } = await this.#readJson(req);
+        if (thread.status !== 'awaiting_user') {
+          throw new HttpError(409, 'Thread has no pending question or review');
+        }
+        if (!action && !input) {
+          throw new HttpError(400, 'action or input is required');
+        }
+        return this.#run(req, res, thread, { input: input ?? '', action, threadId: thread.id });
+      }
+      default:
+        throw new HttpError(404, 'Not found');
+    }
+  }
+
+  #createThread(title?: string): Thread {
+    const now = Date.now();
+    const thread: Thread = {
+      id: randomUUID(),
+      title,
+      status: 'idle',
+      createdAt: now,
+      updatedAt: now,
+      messages: [],
+    };
+    this.#threads.set(thread.id, thread);
+    return thread;
+  }
+
+  async #run(
+    req: IncomingMessage,
+    res: ServerResponse,
+    thread: Thread,
+    params: AgentExecuteParams,
+  ): Promise<void> {
+    const isStream = req.headers.accept?.includes('text/event-stream') ?? false;
+    if (isStream) {
+      this.#subscribe(res, thread.id);
+    }
+
+    this.#setStatus(thread, 'running');
+    delete thread.interrupt;
+    if (params.input) {
+      thread.messages.push({ role: 'human', content: params.input, createdAt: Date.now() });
+    }
+
+    let answer: string;
+    try {
+      const result = await this.#agent.execute(params, content =>
+        this.#publish(thread.id, { type: 'token', data: { content } }),
+      );
+      answer = typeof result === 'string' ? result : (result?.output ?? '');
+    } catch (e) {
+      this.#setStatus(thread, 'idle');
+      const message = e instanceof Error ? e.message : String(e);
+      this.#publish(thread.id, { type: 'error', data: { message } });
+      if (isStream) {
+        return void res.end();
+      }
+      throw e;
+    }
+
+    // Callbacks recorded a question or review while the agent ran
+    const status: ThreadStatus = thread.interrupt ? 'awaiting_user' : 'idle';
+    this.#setStatus(thread, status);
+    if (answer) {
+      thread.messages.push({ role: 'ai', content: answer, createdAt: Date.now() });
+    }
+    this.#publish(thread.id, { type: 'done', data: { answer, status } });
+
+    if (isStream) {
+      res.end();
+    } else {
+      this.#send(res, 200, { answer, status, interrupt: thread.interrupt });
+    }
+  }
+
+  #interrupt(interrupt: ThreadInterrupt): void {
+    const thread = this.#threads.get((interrupt.data.threadId ?? getWalletThreadId()) as UUID);
+    if (!thread) return;
+    thread.interrupt = interrupt;
+    this.#publish(thread.id, interrupt);
+  }
+
+  #setStatus(thread: Thread, status: ThreadStatus): void {
+    thread.status = status;
+    thread.updatedAt = Date.now();
+  }
+
+  #subscribe(res: ServerResponse, threadId: UUID): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.flushHeaders();
+
+    let subscribers = this.#subscribers.get(threadId);
+    if (!subscribers) {
+      subscribers = new Set();
+      this.#subscribers.set(threadId, subscribers);
+    }
+    subscribers.add(res);
+
+    const keepAlive = setInterval(
+      () => res.write(': keep-alive\n\n'),
+      this.#config.keepAliveInterval ?? DEFAULT_KEEP_ALIVE_INTERVAL,
+    );
+    res.on('close', () => {
+      clearInterval(keepAlive);
+      subscribers.delete(res);
+      if (!subscribers.size) this.#subscribers.delete(threadId);
+    });
+  }
+
+  #publish(threadId: UUID, event: ServerEvent): void {
+    this.#subscribers.get(threadId)?.forEach(res => this.#write(res, event));
+  }
+
+  #write(res: ServerResponse, event: ServerEvent): void {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+  }
+
+  async #readJson(req: IncomingMessage): Promise<Record<string, any>> {
+    const body = await new Promise<string>((resolve, reject) => {
+      let body = '';
+      req.on('data', chunk => {
+        body += chunk;
+        if (body.length > MAX_BODY_SIZE) {
+          reject(new HttpError(413, 'Request body too large'));
+          req.destroy();
+        }
+      });
+      req.on('end', () => resolve(body));
+      req.on('error', reject);
+    });
+    if (!body) return {};
+    try {
+      const json = JSON.parse(body);
+      return json && typeof json === 'object' ? json : {};
+    } catch (e) {
+      throw new HttpError(400, 'Invalid JSON body');
+    }
+  }
+
+  #send(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
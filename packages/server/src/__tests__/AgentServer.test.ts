@@ -0,0 +1,170 @@
+import {
+  AgentExecuteParams,
+  IAskUserCallback,
+  IHumanReviewCallback,
+  IToolExecutionCallback,
+  runInWalletThread,
+  ToolExecutionState,
+} from '@binkai/core';
+import { AgentServer } from '../AgentServer';
+import { ServerAgent } from '../types';
+
+// Streams its answer, reports a tool run and asks for a review when the input mentions a swap
+class FakeAgent implements ServerAgent {
+  toolCallbacks: IToolExecutionCallback[] = [];
+  askUserCallbacks: IAskUserCallback[] = [];
+  humanReviewCallbacks: IHumanReviewCallback[] = [];
+  calls: AgentExecuteParams[] = [];
+
+  registerToolExecutionCallback(callback: IToolExecutionCallback) {
+    this.toolCallbacks.push(callback);
+  }
+  unregisterToolExecutionCallback(callback: IToolExecutionCallback) {
+    this.toolCallbacks = this.toolCallbacks.filter(cb => cb !== callback);
+  }
+  registerAskUserCallback(callback: IAskUserCallback) {
+    this.askUserCallbacks.push(callback);
+  }
+  unregisterAskUserCallback(callback: IAskUserCallback) {
+    this.askUserCallbacks = this.askUserCallbacks.filter(cb => cb !== callback);
+  }
+  registerHumanReviewCallback(callback: IHumanReviewCallback) {
+    this.humanReviewCallbacks.push(callback);
+  }
+  unregisterHumanReviewCallback(callback: IHumanReviewCallback) {
+    this.humanReviewCallbacks = this.humanReviewCallbacks.filter(cb => cb !== callback);
+  }
+
+  async execute(params: AgentExecuteParams, onStream?: (data: string) => void) {
+    this.calls.push(params);
+    return runInWalletThread(params.threadId, async () => {
+      this.toolCallbacks.forEach(cb =>
+        cb.onToolExecution({
+          id: 'tool-1',
+          toolName: 'get_balance',
+          message: 'Fetching balance',
+          input: {},
+          state: ToolExecutionState.STARTED,
+          timestamp: Date.now(),
+        }),
+      );
+      if (params.input.includes('swap')) {
+        this.humanReviewCallbacks.forEach(cb =>
+          cb.onHumanReview({
+            toolName: 'swap',
+            input: { amount: '1' },
+            data: { quote: '300 USDT' },
+            timestamp: Date.now(),
+            threadId: params.threadId,
+          }),
+        );
+        return '';
+      }
+      const answer = params.action ? `Swap ${params.action}d` : `Echo: ${params.input}`;
+      answer.split(' ').forEach((word, i) => onStream?.(i ? ` ${word}` : word));
+      return answer;
+    });
+  }
+}
+
+function parseEvents(body: string) {
+  return body
+    .split('\n\n')
+    .filter(chunk => chunk.startsWith('event:'))
+    .map(chunk => {
+      const [event, data] = chunk.split('\n');
+      return { type: event.slice('event: '.length), data: JSON.parse(data.slice('data: '.length)) };
+    });
+}
+
+describe('AgentServer', () => {
+  let agent: FakeAgent;
+  let server: AgentServer;
+  let baseUrl: string;
+
+  const request = (path: string, init: RequestInit = {}) =>
+    fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: { Authorization: 'Bearer secret', ...init.headers },
+    });
+
+  const post = (path: string, body: unknown, headers: Record<string, string> = {}) =>
+    request(path, {
+      method: 'POST',
+      body: JSON.stringify(body),
+      headers: { 'Content-Type': 'application/json', ...headers },
+    });
+
+  beforeEach(async () => {
+    agent = new FakeAgent();
+    server = new AgentServer(agent, { apiKey: 'secret' });
+    const { port } = await server.listen();
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('should create and list threads and answer messages', async () => {
+    const thread = await (await post('/threads', { title: 'Balances' })).json();
+    expect(thread).toMatchObject({ title: 'Balances', status: 'idle' });
+
+    const response = await post(`/threads/${thread.id}/messages`, { input: 'hello' });
+    expect(await response.json()).toEqual({ answer: 'Echo: hello', status: 'idle' });
+    expect(agent.calls[0]).toEqual({ input: 'hello', threadId: thread.id });
+
+    const { threads } = await (await request('/threads')).json();
+    expect(threads).toHaveLength(1);
+    expect(threads[0].messages).toBeUndefined();
+
+    const stored = await (await request(`/threads/${thread.id}`)).json();
+    expect(stored.messages.map((m: any) => [m.role, m.content])).toEqual([
+      ['human', 'hello'],
+      ['ai', 'Echo: hello'],
+    ]);
+  });
+
+  it('should stream tokens and tool events over SSE', async () => {
+    const thread = await (await post('/threads', {})).json();
+
+    const response = await post(
+      `/threads/${thread.id}/messages`,
+      { input: 'hi there' },
+      { Accept: 'text/event-stream' },
+    );
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    const events = parseEvents(await response.text());
+
+    expect(events.map(e => e.type)).toEqual(['tool', 'token', 'token', 'token', 'done']);
+    expect(events[0].data).toMatchObject({ toolName: 'get_balance', state: 'started' });
+    expect(events.filter(e => e.type === 'token').map(e => e.data.content)).toEqual([
+      'Echo:',
+      ' hi',
+      ' there',
+    ]);
+    expect(events[4].data).toEqual({ answer: 'Echo: hi there', status: 'idle' });
+  });
+
+  it('should answer a human review through the interrupt endpoint', async () => {
+    const thread = await (await post('/threads', {})).json();
+
+    const review = await (await post(`/threads/${thread.id}/messages`, { input: 'swap' })).json();
+    expect(review).toMatchObject({
+      status: 'awaiting_user',
+      interrupt: { type: 'human_review', data: { toolName: 'swap' } },
+    });
+    expect((await post(`/threads/${thread.id}/messages`, { input: 'again' })).status).toBe(409);
+
+    const response = await post(`/threads/${thread.id}/interrupt`, { action: 'approve' });
+    expect(await response.json()).toEqual({ answer: 'Swap approved', status: 'idle' });
+    expect(agent.calls[1]).toEqual({ input: '', action: 'approve', threadId: thread.id });
+    expect((await post(`/threads/${thread.id}/interrupt`, { action: 'approve' })).status).toBe(409);
+  });
+
+  it('should reject unauthorized requests and unknown threads', async () => {
+    expect((await fetch(`${baseUrl}/threads`)).status).toBe(401);
+    const response = await request('/threads/00000000-0000-0000-0000-000000000000');
+    expect(response.status).toBe(404);
+  });
+});
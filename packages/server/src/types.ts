@@ -0,0 +1,69 @@
+import type {
+  AgentExecuteParams,
+  AskUserData,
+  BaseAgent,
+  HumanReviewData,
+  ToolExecutionData,
+  UUID,
+} from '@binkai/core';
+
+/**
+ * Agent hosted by the server, both `Agent` and `PlanningAgent` satisfy it.
+ * Only agents accepting `onStream` stream tokens, the others send their answer at the end
+ */
+export type ServerAgent = Pick<
+  BaseAgent,
+  | 'registerToolExecutionCallback'
+  | 'unregisterToolExecutionCallback'
+  | 'registerAskUserCallback'
+  | 'unregisterAskUserCallback'
+  | 'registerHumanReviewCallback'
+  | 'unregisterHumanReviewCallback'
+> & {
+  execute(params: AgentExecuteParams, onStream?: (data: string) => void): Promise<any>;
+};
+
+export interface AgentServerConfig {
+  /** Bearer token required from clients */
+  apiKey?: string;
+  /** Value of Access-Control-Allow-Origin, CORS headers are not sent when omitted */
+  corsOrigin?: string;
+  /** Interval of SSE keep-alive comments in milliseconds (defaults to 15s) */
+  keepAliveInterval?: number;
+}
+
+/**
+ * - idle: ready for a new message
+ * - running: the agent is working on a message, new messages are refused
+ * - awaiting_user: the agent asked a question or a transaction review, answer it with an interrupt
+ */
+export type ThreadStatus = 'idle' | 'running' | 'awaiting_user';
+
+export interface ThreadMessage {
+  role: 'human' | 'ai';
+  content: string;
+  createdAt: number;
+}
+
+export interface Thread {
+  id: UUID;
+  title?: string;
+  status: ThreadStatus;
+  createdAt: number;
+  updatedAt: number;
+  /** Pending question or review of an awaiting_user thread */
+  interrupt?: ThreadInterrupt;
+  messages: ThreadMessage[];
+}
+
+export type ThreadInterrupt =
+  { type: 'ask_user'; data: AskUserData } | { type: 'human_review'; data: HumanReviewData };
+
+/** Events sent over SSE, the event name is the type and the data is JSON */
+export type ServerEvent =
+  | { type: 'token'; data: { content: string } }
+  | { type: 'tool'; data: ToolExecutionData }
+  | { type: 'ask_user'; data: AskUserData }
+  | { type: 'human_review'; data: HumanReviewData }
+  | { type: 'done'; data: { answer: string; status: ThreadStatus } }
+  | { type: 'error'; data: { message: string } };